@@ -5,7 +5,7 @@
  * Why this script exists:
  * - Content scripts cannot be ES modules.
  * - To avoid Rollup/Vite emitting shared chunks with imports, we build each entry
- *   (background/content/popup) as a single self-contained IIFE bundle.
+ *   (background/content/popup/offscreen/options) as a single self-contained IIFE bundle.
  *
  * Usage:
  *   node scripts/build.mjs --target=chrome
@@ -27,7 +27,7 @@ const watch = process.argv.includes('--watch');
 const target =
   parseArg('target') || process.env.VITE_BUILD_TARGET || process.env.npm_config_target || 'chrome';
 
-const entries = ['background', 'content', 'popup'];
+const entries = ['background', 'content', 'popup', 'offscreen', 'options'];
 const viteBin = path.resolve('node_modules', 'vite', 'bin', 'vite.js');
 
 function spawnBuild(entry, isFirst) {
@@ -80,7 +80,7 @@ process.on('SIGTERM', () => {
 });
 
 if (watch) {
-  // Watch mode: run 3 builds concurrently.
+  // Watch mode: run all builds concurrently.
   entries.forEach((entry, idx) => {
     const child = spawnBuild(entry, idx === 0);
     children.push(child);
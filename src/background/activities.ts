@@ -0,0 +1,132 @@
+/*
+ * Files of activities whose content only shows on their own page (folders, assignments).
+ *
+ * The background fetches these pages while a job runs. Parsing works on the HTML string
+ * (no DOM), so it also runs in Chrome's service worker.
+ */
+
+import type { MoodleResource } from '../shared/types';
+import {
+  getFolderSubfolders,
+  getPluginfileSegments,
+  guessFileType,
+  normalizeUrlKey,
+  sanitizeFileName,
+} from '../shared/utils';
+
+/** Subfolders of an assignment in the archive */
+export type AssignFolder = 'Instructions' | 'Submission' | 'Feedback';
+
+/** pluginfile.php file areas (`component/filearea`) of an assignment page */
+const ASSIGN_FILE_AREAS: Record<string, AssignFolder> = {
+  'mod_assign/intro': 'Instructions',
+  'mod_assign/introattachment': 'Instructions',
+  'mod_assign/activityattachment': 'Instructions',
+  'assignsubmission_file/submission_files': 'Submission',
+  'assignsubmission_onlinetext/submissions_onlinetext': 'Submission',
+  'assignfeedback_file/feedback_files': 'Feedback',
+  'assignfeedback_editpdf/download': 'Feedback',
+  'assignfeedback_editpdf/combined': 'Feedback',
+  'assignfeedback_comments/feedback': 'Feedback',
+};
+
+/** pluginfile.php / forcedownload links (href and data-fileurl) of a fetched page */
+export function extractLinksFromHtml(html: string, baseUrl: string): Array<{ url: string; name?: string }> {
+  const links: Array<{ url: string; name?: string }> = [];
+  const hrefRegex = /href\s*=\s*"([^"]+)"/gi;
+
+  let m: RegExpExecArray | null;
+  while ((m = hrefRegex.exec(html))) {
+    const href = m[1];
+    if (!href) continue;
+
+    if (!href.includes('pluginfile.php') && !href.toLowerCase().includes('forcedownload=1')) continue;
+
+    try {
+      const abs = new URL(href, baseUrl).toString();
+      links.push({ url: abs });
+    } catch {
+      // ignore
+    }
+  }
+
+  // Try data-fileurl patterns
+  const dataUrlRegex = /data-fileurl\s*=\s*"([^"]+)"/gi;
+  while ((m = dataUrlRegex.exec(html))) {
+    const href = m[1];
+    if (!href) continue;
+    try {
+      const abs = new URL(href, baseUrl).toString();
+      links.push({ url: abs });
+    } catch {
+      // ignore
+    }
+  }
+
+  return links;
+}
+
+function getUrlFileName(url: string): string {
+  const last = new URL(url).pathname.split('/').pop() || 'file';
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+/**
+ * Links of a page as file resources below `activity`, each file once. With `getSubfolder`,
+ * files go into the returned subfolder ('' for the activity's own folder) and links without
+ * one are skipped.
+ */
+function toFileResources(
+  links: Array<{ url: string; name?: string }>,
+  activity: MoodleResource,
+  getSubfolder?: (url: string) => string | undefined,
+): MoodleResource[] {
+  const dedup = new Map<string, { url: string; name?: string }>();
+  for (const l of links) {
+    const key = normalizeUrlKey(l.url);
+    if (!dedup.has(key)) dedup.set(key, l);
+  }
+
+  const results: MoodleResource[] = [];
+  for (const l of dedup.values()) {
+    const url = l.url;
+    const subfolder = getSubfolder?.(url);
+    if (getSubfolder && subfolder === undefined) continue;
+
+    const name = sanitizeFileName(getPluginfileSegments(url)?.pop() || getUrlFileName(url));
+    const fileType = guessFileType(url, name);
+
+    results.push({
+      id: sanitizeFileName([activity.id, subfolder, name].filter(Boolean).join('-')),
+      name,
+      url,
+      type: 'file',
+      fileType,
+      path: [activity.path, subfolder].filter(Boolean).join('/'),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Which part of an assignment a pluginfile.php URL belongs to (instructions, the user's
+ * submission or feedback), judged by its component and file area.
+ */
+export function classifyAssignFile(url: string): AssignFolder | undefined {
+  const [, component, fileArea] = getPluginfileSegments(url) ?? [];
+  return ASSIGN_FILE_AREAS[`${component}/${fileArea}`];
+}
+
+/** Files of a fetched folder or assignment page */
+export function extractActivityFiles(html: string, activity: MoodleResource): MoodleResource[] {
+  const links = extractLinksFromHtml(html, activity.url);
+
+  if (activity.type === 'assign') return toFileResources(links, activity, classifyAssignFile);
+  // Subfolders of the folder are part of the file path (mod_folder/content/<revision>/<path>)
+  return toFileResources(links, activity, (url) => getFolderSubfolders(url).join('/'));
+}
@@ -0,0 +1,164 @@
+/*
+ * Manifest and table of contents of a ZIP archive, written at its root once all files are in:
+ *
+ * - moodle-download.json: per file the source URL, course, section and activity, the original
+ *   file name, size, SHA-256 and server date, plus the failed items (to verify the archive or
+ *   to rebuild the tracking from it)
+ * - index.html: the files grouped by course and section with relative links, and the failures,
+ *   in the browser's language (the same messages as the popup)
+ *
+ * Web service tokens are stripped from the URLs: archives are meant to be kept and shared.
+ */
+
+import type {
+  ArchiveManifest,
+  ArchiveManifestFile,
+  DownloadFailure,
+  DownloadTrackingMap,
+  MoodleResource,
+} from '../shared/types';
+import { ARCHIVE_MANIFEST_FORMAT, ARCHIVE_MANIFEST_VERSION } from '../shared/constants';
+import {
+  describeFailure,
+  formatBytes,
+  normalizeUrlKey,
+  stripUrlToken,
+  type Translate,
+} from '../shared/utils';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Relative link to an archive path (each segment encoded, so names with '#' or '?' work) */
+function toHref(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Manifest of the written files. Only entries with a path are files in the archive (links and
+ * unpacked folder archives are tracked without one); section and activity come from the job's
+ * resources.
+ */
+export function buildArchiveManifest(
+  written: DownloadTrackingMap,
+  resources: MoodleResource[],
+  failures: DownloadFailure[],
+  extensionVersion?: string,
+  now = new Date(),
+): ArchiveManifest {
+  const byUrl = new Map(resources.map((r) => [normalizeUrlKey(r.url), r]));
+
+  const files: ArchiveManifestFile[] = [];
+  for (const [key, entry] of Object.entries(written)) {
+    if (!entry.path) continue;
+    const resource = byUrl.get(key);
+    const file: ArchiveManifestFile = {
+      path: entry.path,
+      url: stripUrlToken(entry.url),
+      fileName: entry.fileName,
+      downloadedAt: new Date(entry.timestamp).toISOString(),
+    };
+    if (entry.courseId !== undefined) file.courseId = entry.courseId;
+    if (entry.courseName) file.courseName = entry.courseName;
+    if (resource?.sectionName) file.sectionName = resource.sectionName;
+    if (resource?.activityName) file.activityName = resource.activityName;
+    if (entry.size !== undefined) file.size = entry.size;
+    if (entry.hash) file.sha256 = entry.hash;
+    if (entry.lastModified) file.lastModified = entry.lastModified;
+    files.push(file);
+  }
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_MANIFEST_FORMAT,
+    version: ARCHIVE_MANIFEST_VERSION,
+    createdAt: now.toISOString(),
+    files,
+    failures: failures.map((f) => ({ ...f, url: stripUrlToken(f.url) })),
+  };
+  if (extensionVersion) manifest.extensionVersion = extensionVersion;
+  return manifest;
+}
+
+function groupFiles(files: ArchiveManifestFile[]): Map<string, Map<string, ArchiveManifestFile[]>> {
+  const courses = new Map<string, Map<string, ArchiveManifestFile[]>>();
+  for (const file of files) {
+    const course = file.courseName ?? file.path.split('/')[0] ?? '';
+    const section = file.sectionName ?? '';
+    const sections = courses.get(course) ?? new Map<string, ArchiveManifestFile[]>();
+    courses.set(course, sections);
+    sections.set(section, [...(sections.get(section) ?? []), file]);
+  }
+  return courses;
+}
+
+function fileRow(file: ArchiveManifestFile, t: Translate): string {
+  const name = file.path.split('/').pop() ?? file.path;
+  const activity = file.activityName && file.activityName !== file.fileName ? file.activityName : '';
+  return [
+    '<tr>',
+    `<td><a href="${escapeHtml(toHref(file.path))}">${escapeHtml(name)}</a></td>`,
+    `<td>${escapeHtml(activity)}</td>`,
+    `<td class="num">${escapeHtml(formatBytes(file.size))}</td>`,
+    `<td>${escapeHtml(file.lastModified ?? '')}</td>`,
+    `<td><a href="${escapeHtml(file.url)}">${escapeHtml(t('archiveIndexSource'))}</a></td>`,
+    '</tr>',
+  ].join('');
+}
+
+function failureItem(failure: DownloadFailure, t: Translate): string {
+  const url = escapeHtml(stripUrlToken(failure.url));
+  return `<li><a href="${url}">${escapeHtml(failure.name)}</a>: ${escapeHtml(describeFailure(failure, t))}</li>`;
+}
+
+/** Browsable table of contents for the archive root, with the texts from `t` (chrome.i18n) */
+export function buildArchiveIndex(manifest: ArchiveManifest, t: Translate): string {
+  const columns = [
+    'archiveIndexFile',
+    'archiveIndexActivity',
+    'archiveIndexSize',
+    'archiveIndexLastModified',
+    '',
+  ];
+  const header = `<tr>${columns.map((key) => `<th>${key ? escapeHtml(t(key)) : ''}</th>`).join('')}</tr>`;
+  const body: string[] = [];
+  for (const [course, sections] of groupFiles(manifest.files)) {
+    if (course) body.push(`<h2>${escapeHtml(course)}</h2>`);
+    for (const [section, files] of sections) {
+      if (section) body.push(`<h3>${escapeHtml(section)}</h3>`);
+      body.push('<table>');
+      body.push(header);
+      body.push(...files.map((file) => fileRow(file, t)));
+      body.push('</table>');
+    }
+  }
+  if (!manifest.files.length) body.push(`<p>${escapeHtml(t('archiveIndexNoFiles'))}</p>`);
+
+  if (manifest.failures.length) {
+    body.push(`<h2>${escapeHtml(t('archiveIndexFailed', [String(manifest.failures.length)]))}</h2>`);
+    body.push('<ul>', ...manifest.failures.map((failure) => failureItem(failure, t)), '</ul>');
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>moodle.download</title>',
+    '<style>',
+    'body { font-family: system-ui, sans-serif; margin: 2em; }',
+    'table { border-collapse: collapse; margin-bottom: 1em; }',
+    'th, td { padding: 0.2em 0.8em; text-align: left; border-bottom: 1px solid #ddd; }',
+    '.num { text-align: right; white-space: nowrap; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    '<h1>moodle.download</h1>',
+    `<p>${escapeHtml(t('archiveIndexSummary', [String(manifest.files.length), manifest.createdAt]))}</p>`,
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
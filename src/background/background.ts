@@ -1,44 +1,141 @@
-import JSZip from 'jszip';
 import type {
+  DownloadFailure,
+  DownloadHistoryEntry,
   DownloadStats,
   DownloadTrackingMap,
+  JobRecord,
+  JobState,
+  LinkFormat,
   MessageFromBackground,
   MessageToBackground,
   MoodleResource,
+  RetryPolicy,
+  StoredDownload,
+  StreamPortMessageToBackground,
 } from '../shared/types';
 import {
+  ARCHIVE_INDEX_NAME,
+  ARCHIVE_MANIFEST_NAME,
   DEFAULT_ZIP_NAME,
   ENABLE_TELEMETRY,
+  HISTORY_LIMIT,
+  JOB_CANCELLED_ERROR,
+  JOB_INTERRUPTED_ERROR,
   STATS_API_KEY,
   STATS_API_URL,
   STORAGE_KEYS,
 } from '../shared/constants';
 import {
-  calculateHash,
   dedupeResources,
-  ensureUniquePath,
-  extractFilenameFromHeaders,
   getBrowserType,
   getExtApi,
-  guessFileType,
-  joinZipPath,
   normalizeUrlKey,
   roundDateToDayISO,
   sanitizeFileName,
+  sleep,
+  stripUrlToken,
+  toErrorMessage,
+  type Translate,
   withConcurrency,
 } from '../shared/utils';
+import { extAsync } from '../shared/ext';
+import { isDefaultNaming, resolveNaming } from '../shared/naming';
 import { storage } from '../shared/storage';
+import { buildTrackingStore, migrateTracking, removeCourseTracking } from '../shared/tracking';
+import {
+  idbDeleteJob,
+  idbDeleteJobParts,
+  idbGetAllJobs,
+  idbGetJob,
+  idbGetJobParts,
+  idbPutJob,
+  idbPutJobPart,
+} from '../shared/idb';
+import { extractActivityFiles } from './activities';
+import { buildArchiveIndex, buildArchiveManifest } from './archive';
+import { fetchCourseResources, fetchSectionResources } from './courses';
+import { createPartsUrl } from './offscreen';
+import { isDocumentResource, openDocument } from './documents';
+import {
+  applyPreflight,
+  checkRemoteChanged,
+  createGeneratedFile,
+  fetchWithRetry,
+  getLoginUrl,
+  getResponseValidators,
+  isLoginResponse,
+  openResource,
+  preflightResource,
+  probeSession,
+  toRequestFailure,
+  type DownloadErrorType,
+  type OpenedFile,
+  type RequestFailure,
+} from './fetcher';
+import {
+  createJobControl,
+  createJobRecord,
+  getPendingFiles,
+  restoreZipCheckpoint,
+  runResumable,
+  toHistoryEntry,
+  toJobSummary,
+  type JobControl,
+} from './jobs';
+import {
+  createDownloadsOutput,
+  createFilesPortOutput,
+  createNamedOutput,
+  createStreamPortSender,
+  createZipOutput,
+  SaveError,
+  STREAM_CHUNK_SIZE,
+  type JobOutput,
+} from './outputs';
+import {
+  FOLDER_ARCHIVE_MAX_BYTES,
+  FolderArchiveTooLargeError,
+  getFolderArchiveUrl,
+  isFolderArchive,
+  unpackFolderArchive,
+} from './folders';
+import { isHlsResource, openHlsStream } from './hls';
+import { buildLinkFiles, resolveUrlActivity, toResolvedResource } from './links';
+import { resolveMediaResource } from './media';
+import { getMirrorStatus, pullTracking, pushTracking } from './mirror';
+import { resolveRetryPolicy } from './retry';
+import { listWebServiceResources, requestToken } from './webservice';
+import { createChunkCoalescer } from './zip';
+
+interface JobResult {
+  failures: DownloadFailure[];
+  /** Normalized URLs of all files in the job (folders expanded) */
+  remoteKeys: string[];
+  successfulCount: number;
+  totalFiles: number;
+  totalBytes: number;
+}
 
-type DownloadErrorType = string;
-
-interface ZipBuildOptions {
-  zipName?: string;
-  /** Falls true, ZIP als ArrayBuffer zurückgeben (kleine ZIPs); für große ZIPs Port-Stream nutzen */
-  returnBuffer?: boolean;
+interface ActiveJob {
+  record: JobRecord;
+  control: JobControl;
 }
 
 const ext = getExtApi();
 
+/** Wakes the service worker while background jobs run, so a terminated one is resumed */
+const RESUME_ALARM = 'md-resume-jobs';
+
+/** Mirrors the tracking to chrome.storage.sync after downloads (see mirror.ts) */
+const TRACKING_SYNC_ALARM = 'md-sync-tracking';
+
+/** How often a job waiting for a new login checks whether the session is back */
+const LOGIN_PROBE_INTERVAL_MS = 5000;
+const LOGIN_NOTIFICATION_PREFIX = 'md-login-';
+
+/** Jobs with a runner in this service worker instance */
+const activeJobs = new Map<string, ActiveJob>();
+
 function sendToPopup(msg: MessageFromBackground): void {
   try {
     ext.runtime.sendMessage(msg);
@@ -47,134 +144,146 @@ function sendToPopup(msg: MessageFromBackground): void {
   }
 }
 
-async function fetchWithTimeout(url: string, timeoutMs = 60000): Promise<Response> {
-  const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    return await fetch(url, {
-      credentials: 'include',
-      redirect: 'follow',
-      signal: controller.signal,
-    });
-  } finally {
-    clearTimeout(t);
+/**
+ * Fetches the page of a folder or assignment and lists its files. With `folderArchives`,
+ * a folder that offers "Download folder" stays one resource pointing to its archive.
+ * Returns a failure for error statuses and Moodle's login page (with `loginUrl`).
+ */
+async function expandActivityResource(
+  activity: MoodleResource,
+  signal: AbortSignal,
+  policy: RetryPolicy,
+  folderArchives = false,
+): Promise<
+  { ok: true; files: MoodleResource[] } | { ok: false; failure: RequestFailure; loginUrl?: string }
+> {
+  const fetched = await fetchWithRetry(activity.url, 45000, { signal }, policy);
+  const { response } = fetched;
+  if (!response?.ok) {
+    await response?.body?.cancel().catch(() => undefined);
+    return { ok: false, failure: toRequestFailure(fetched) };
   }
-}
-
-async function readResponseBytesWithProgress(
-  response: Response,
-  onProgress: (loaded: number, total?: number) => void,
-): Promise<Uint8Array> {
-  const contentLengthHeader = response.headers.get('content-length');
-  const total = contentLengthHeader ? Number(contentLengthHeader) : undefined;
-
-  // If no stream support, fall back
-  if (!response.body) {
-    const buf = new Uint8Array(await response.arrayBuffer());
-    onProgress(buf.byteLength, total);
-    return buf;
+  const html = await response.text();
+  if (isLoginResponse(response, html.slice(0, 65536))) {
+    const failure: RequestFailure = { reason: 'likely_login_required', attempts: fetched.attempts };
+    return { ok: false, failure, loginUrl: getLoginUrl(response, activity.url) };
   }
 
-  const reader = response.body.getReader();
-  const chunks: Uint8Array[] = [];
-  let loaded = 0;
-
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-    if (value) {
-      chunks.push(value);
-      loaded += value.byteLength;
-      onProgress(loaded, total);
-    }
-  }
+  const archiveUrl =
+    folderArchives && activity.type === 'folder' ? getFolderArchiveUrl(html, activity) : undefined;
+  if (archiveUrl) return { ok: true, files: [{ ...activity, url: archiveUrl }] };
 
-  const out = new Uint8Array(loaded);
-  let offset = 0;
-  for (const c of chunks) {
-    out.set(c, offset);
-    offset += c.byteLength;
-  }
-
-  return out;
+  return { ok: true, files: extractActivityFiles(html, activity) };
 }
 
-function isLikelyHtml(response: Response, bytes?: Uint8Array): boolean {
-  const ct = response.headers.get('content-type') || '';
-  if (ct.includes('text/html')) return true;
-  if (bytes && bytes.byteLength >= 20) {
-    const head = new TextDecoder().decode(bytes.slice(0, 64)).toLowerCase();
-    if (head.includes('<!doctype html') || head.includes('<html')) return true;
-  }
-  return false;
+/** Resolves a URL activity (see links.ts); a file on the same Moodle replaces the link. */
+async function expandUrlResource(
+  activity: MoodleResource,
+  signal: AbortSignal,
+  policy: RetryPolicy,
+): ReturnType<typeof expandActivityResource> {
+  const result = await resolveUrlActivity(activity, signal, policy);
+  if (!result.ok) return result;
+  return { ok: true, files: [toResolvedResource(activity, result.target)] };
 }
 
-function extractLinksFromHtml(html: string, baseUrl: string): Array<{ url: string; name?: string }> {
-  const links: Array<{ url: string; name?: string }> = [];
-  const hrefRegex = /href\s*=\s*"([^"]+)"/gi;
-
-  let m: RegExpExecArray | null;
-  while ((m = hrefRegex.exec(html))) {
-    const href = m[1];
-    if (!href) continue;
-
-    if (!href.includes('pluginfile.php') && !href.toLowerCase().includes('forcedownload=1')) continue;
+/**
+ * Course, section and activity of a resource, inherited by the files found in it (manifest,
+ * naming templates).
+ */
+function getPlacement(activity: MoodleResource): Partial<MoodleResource> {
+  const { courseId, courseName, courseShort, sectionName, sectionIndex, position } = activity;
+  const activityName = activity.activityName ?? activity.name;
+  return { courseId, courseName, courseShort, sectionName, sectionIndex, position, activityName };
+}
 
-    try {
-      const abs = new URL(href, baseUrl).toString();
-      links.push({ url: abs });
-    } catch {
-      // ignore
-    }
+/** Writes the link documents of the job's URL activities into `output`. */
+async function writeLinkFiles(
+  output: JobOutput,
+  links: MoodleResource[],
+  format?: LinkFormat,
+): Promise<void> {
+  for (const file of buildLinkFiles(links, format)) {
+    // Course and section of the document, so the naming templates place it next to the files
+    const source = links.find((l) => l.path === file.path || l.path.startsWith(`${file.path}/`));
+    const inSection = source?.path === file.path;
+    const resource: MoodleResource = {
+      id: sanitizeFileName(`links-${file.path}-${file.fileName}`),
+      name: file.fileName,
+      url: links[0]?.url ?? '',
+      type: 'file',
+      path: file.path,
+      courseId: source?.courseId,
+      courseName: source?.courseName,
+      courseShort: source?.courseShort,
+      sectionName: inSection ? source.sectionName : undefined,
+      sectionIndex: inSection ? source.sectionIndex : undefined,
+    };
+    await output.writeFile(resource, createGeneratedFile(file.fileName, file.content, file.contentType));
   }
+}
 
-  // Try data-fileurl patterns
-  const dataUrlRegex = /data-fileurl\s*=\s*"([^"]+)"/gi;
-  while ((m = dataUrlRegex.exec(html))) {
-    const href = m[1];
-    if (!href) continue;
-    try {
-      const abs = new URL(href, baseUrl).toString();
-      links.push({ url: abs });
-    } catch {
-      // ignore
-    }
+/** Texts of generated files in the browser's language */
+const translate: Translate = (key, substitutions) => ext.i18n.getMessage(key, substitutions) || key;
+
+/**
+ * Writes the manifest and the table of contents at the archive root. The checkpoint is not
+ * updated afterwards, so a resumed archive writes both again instead of twice.
+ */
+async function writeArchiveIndex(output: JobOutput, record: JobRecord): Promise<void> {
+  const manifest = buildArchiveManifest(
+    record.written,
+    record.files ?? [],
+    record.failures,
+    ext.runtime.getManifest().version,
+  );
+  const generated = [
+    { fileName: ARCHIVE_MANIFEST_NAME, content: JSON.stringify(manifest, null, 2), type: 'application/json' },
+    { fileName: ARCHIVE_INDEX_NAME, content: buildArchiveIndex(manifest, translate), type: 'text/html' },
+  ];
+  for (const { fileName, content, type } of generated) {
+    const resource: MoodleResource = {
+      id: fileName,
+      name: fileName,
+      url: record.files?.[0]?.url ?? '',
+      type: 'file',
+      path: '',
+    };
+    await output.writeFile(resource, createGeneratedFile(fileName, content, type));
   }
-
-  return links;
 }
 
-async function expandFolderResource(folder: MoodleResource): Promise<MoodleResource[]> {
-  const resp = await fetchWithTimeout(folder.url, 45000);
-  const html = await resp.text();
-
-  const links = extractLinksFromHtml(html, folder.url);
-  const dedup = new Map<string, { url: string; name?: string }>();
-  for (const l of links) {
-    const key = normalizeUrlKey(l.url);
-    if (!dedup.has(key)) dedup.set(key, l);
+/**
+ * Unpacks a folder archive into `output` below the folder's path, one entry at a time.
+ * Archives larger than FOLDER_ARCHIVE_MAX_BYTES fail with a FolderArchiveTooLargeError.
+ */
+async function writeFolderArchive(
+  output: JobOutput,
+  folder: MoodleResource,
+  opened: OpenedFile,
+): Promise<Partial<StoredDownload>> {
+  const tooLarge = () =>
+    new FolderArchiveTooLargeError(`Folder archive larger than ${FOLDER_ARCHIVE_MAX_BYTES} bytes`);
+  if (Number(opened.response.headers.get('content-length')) > FOLDER_ARCHIVE_MAX_BYTES) {
+    await opened.cancel();
+    throw tooLarge();
   }
 
-  const results: MoodleResource[] = [];
-  for (const l of dedup.values()) {
-    const url = l.url;
-    const u = new URL(url);
-    const last = u.pathname.split('/').pop() || 'file';
-    const name = sanitizeFileName(decodeURIComponent(last));
-    const fileType = guessFileType(url, name);
-
-    results.push({
-      id: sanitizeFileName(`${folder.id}-${name}`),
-      name,
-      url,
-      type: 'file',
-      fileType,
-      path: folder.path,
-    });
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of opened.body()) {
+    size += chunk.byteLength;
+    if (size > FOLDER_ARCHIVE_MAX_BYTES) throw tooLarge();
+    chunks.push(chunk);
   }
+  const bytes = new Uint8Array(await new Blob(chunks).arrayBuffer());
+  chunks.length = 0;
 
-  return results;
+  const placement = getPlacement(folder);
+  for await (const entry of unpackFolderArchive(bytes, folder)) {
+    await output.writeFile({ ...placement, ...entry.resource }, entry.file);
+  }
+  return {};
 }
 
 function increment(map: Record<string, number>, key: string, by = 1): void {
@@ -203,23 +312,48 @@ async function postTelemetryIfEnabled(stats: DownloadStats, optIn: boolean): Pro
   }
 }
 
-async function setTracking(map: DownloadTrackingMap): Promise<void> {
-  await storage.set(STORAGE_KEYS.downloadTracking, map);
+async function isTrackingSyncEnabled(): Promise<boolean> {
+  return (await storage.get(STORAGE_KEYS.trackingSync)) === true;
+}
+
+/**
+ * Stores the flat tracking map grouped by site and course (see src/shared/tracking.ts). With
+ * tracking sync enabled, `removed` entries are mirrored right away; new downloads are mirrored
+ * by an alarm shortly after the last change, since the sync area allows few writes per minute.
+ */
+async function setTracking(map: DownloadTrackingMap, removed: DownloadTrackingMap = {}): Promise<void> {
+  await storage.set(STORAGE_KEYS.downloadTracking, buildTrackingStore(map));
+  if (!(await isTrackingSyncEnabled())) return;
+  if (Object.keys(removed).length) await pushTracking(map, removed).catch(() => undefined);
+  else ext.alarms?.create(TRACKING_SYNC_ALARM, { delayInMinutes: 1 });
 }
 
 async function getTracking(): Promise<DownloadTrackingMap> {
-  const map: DownloadTrackingMap = (await storage.get(STORAGE_KEYS.downloadTracking)) || {};
-
-  // Migration: older versions used less strict URL normalization.
-  let changed = false;
-  const migrated: DownloadTrackingMap = {};
-  for (const [k, v] of Object.entries(map)) {
-    const nk = normalizeUrlKey(k);
-    migrated[nk] = v;
-    if (nk !== k) changed = true;
-  }
-  if (changed) await setTracking(migrated);
-  return migrated;
+  // Migration: older versions stored a flat map, partly with less strict URL normalization.
+  const { map, changed } = migrateTracking(await storage.get(STORAGE_KEYS.downloadTracking));
+  const pulled = (await isTrackingSyncEnabled()) && (await pullTracking(map).catch(() => false));
+  if (changed || pulled) await setTracking(map);
+  return map;
+}
+
+/** Takes over the changes of other devices and mirrors the local tracking */
+async function syncTracking(): Promise<void> {
+  await pushTracking(await getTracking());
+}
+
+/** Entries of `before` that are missing from `after` */
+function getRemovedEntries(before: DownloadTrackingMap, after: DownloadTrackingMap): DownloadTrackingMap {
+  return Object.fromEntries(Object.entries(before).filter(([key]) => !after[key]));
+}
+
+/** Past jobs, newest first */
+async function getHistory(): Promise<DownloadHistoryEntry[]> {
+  return (await storage.get(STORAGE_KEYS.downloadHistory)) ?? [];
+}
+
+async function addToHistory(entry: DownloadHistoryEntry): Promise<void> {
+  const history = await getHistory();
+  await storage.set(STORAGE_KEYS.downloadHistory, [entry, ...history].slice(0, HISTORY_LIMIT));
 }
 
 async function getTelemetryPref(): Promise<{ asked: boolean; optIn: boolean }> {
@@ -233,28 +367,6 @@ async function setTelemetryPref(optIn: boolean): Promise<void> {
   await storage.set(STORAGE_KEYS.telemetryOptIn, optIn);
 }
 
-function getExtFromUrl(url: string): string | undefined {
-  try {
-    const u = new URL(url);
-    const last = u.pathname.split('/').pop() || '';
-    const dot = last.lastIndexOf('.');
-    if (dot <= 0) return undefined;
-    const extension = last.slice(dot + 1).toLowerCase();
-    return extension || undefined;
-  } catch {
-    return undefined;
-  }
-}
-
-function ensureNameHasExt(name: string, extension?: string): string {
-  const clean = sanitizeFileName(name);
-  if (!extension) return clean;
-  if (clean.toLowerCase().endsWith(`.${extension.toLowerCase()}`)) return clean;
-  // If name already has some extension, keep it
-  if (/\.[a-z0-9]{1,5}$/i.test(clean)) return clean;
-  return `${clean}.${extension}`;
-}
-
 function inferStatsFileType(fileName: string, fallback?: string): string {
   const match = fileName.toLowerCase().match(/\.([a-z0-9]{1,6})$/);
   if (match?.[1]) return match[1];
@@ -262,209 +374,612 @@ function inferStatsFileType(fileName: string, fallback?: string): string {
   return 'file';
 }
 
-function uint8ToBase64(bytes: Uint8Array): string {
-  const chunkSize = 0x8000;
-  let binary = '';
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize);
-    binary += String.fromCharCode(...chunk);
+/**
+ * Saves the ZIP of a background job from its parts in IndexedDB (see createPartsUrl), so the
+ * archive is never assembled in memory. The parts are deleted once the browser is done with
+ * the download.
+ */
+async function downloadZip(jobId: string, zipName: string, saveAs?: boolean): Promise<number> {
+  const { url, revoke } = await createPartsUrl(jobId, 'application/zip');
+  const cleanUp = () => {
+    revoke();
+    void idbDeleteJobParts(jobId).catch(() => undefined);
+  };
+
+  let downloadId: number;
+  try {
+    downloadId = await extAsync.downloadsDownload({ url, filename: zipName, saveAs: !!saveAs });
+  } catch (err) {
+    cleanUp();
+    throw err;
   }
-  return btoa(binary);
-}
-
-async function downloadZip(zipBuffer: ArrayBuffer, zipName: string, saveAs?: boolean): Promise<number> {
-  const zipBytes = new Uint8Array(zipBuffer);
-  const DATA_URL_MAX_BYTES = 25 * 1024 * 1024;
-
-  if (zipBytes.byteLength <= DATA_URL_MAX_BYTES) {
-    const base64 = uint8ToBase64(zipBytes);
-    const dataUrl = `data:application/zip;base64,${base64}`;
-    return new Promise((resolve, reject) => {
-      ext.downloads.download(
-        { url: dataUrl, filename: zipName, saveAs: !!saveAs },
-        (downloadId) => {
-          const err = ext.runtime?.lastError;
-          if (err) reject(new Error(err.message));
-          else resolve(downloadId);
-        },
-      );
-    });
+
+  const onChanged = (delta: chrome.downloads.DownloadDelta) => {
+    if (delta.id !== downloadId) return;
+    if (delta.state?.current === 'complete' || delta.state?.current === 'interrupted') {
+      ext.downloads.onChanged.removeListener(onChanged);
+      cleanUp();
+    }
+  };
+  ext.downloads.onChanged.addListener(onChanged);
+
+  return downloadId;
+}
+
+function broadcastJob(record: JobRecord): void {
+  sendToPopup({ type: 'MD_JOB_STATE', job: toJobSummary(record, activeJobs.has(record.id)) });
+}
+
+async function saveJob(record: JobRecord): Promise<void> {
+  // eslint-disable-next-line no-param-reassign
+  record.updatedAt = Date.now();
+  try {
+    await idbPutJob(record);
+  } catch {
+    // The job still runs; it just cannot be resumed after a restart.
   }
+}
+
+async function setJobState(record: JobRecord, state: JobState): Promise<void> {
+  // eslint-disable-next-line no-param-reassign
+  record.state = state;
+  await saveJob(record);
+  broadcastJob(record);
+}
 
-  const blob = new Blob([zipBytes], { type: 'application/zip' });
-  const objectUrl = URL.createObjectURL(blob);
+/** Completed and cancelled jobs are not kept. */
+async function finishJob(record: JobRecord, state: 'completed' | 'cancelled'): Promise<void> {
+  // eslint-disable-next-line no-param-reassign
+  record.state = state;
+  await addToHistory(toHistoryEntry(record, state)).catch(() => undefined);
+  await idbDeleteJob(record.id).catch(() => undefined);
+  // The ZIP of a completed background job is saved from its parts (see downloadZip)
+  const saving = state === 'completed' && record.transport === 'background' && record.output === 'zip';
+  if (!saving) await idbDeleteJobParts(record.id).catch(() => undefined);
+  broadcastJob(record);
+}
 
-  const downloadId = await new Promise<number>((resolve, reject) => {
-    ext.downloads.download(
-      { url: objectUrl, filename: zipName, saveAs: !!saveAs },
-      (id) => {
-        const err = ext.runtime?.lastError;
-        if (err) reject(new Error(err.message));
-        else resolve(id);
+/** Course fields of a tracking entry (only those the resource knows) */
+function getEntryCourse(file: MoodleResource): Pick<StoredDownload, 'courseId' | 'courseName'> {
+  const course: Pick<StoredDownload, 'courseId' | 'courseName'> = {};
+  if (file.courseId !== undefined) course.courseId = file.courseId;
+  if (file.courseName) course.courseName = file.courseName;
+  return course;
+}
+
+/** Errors are counted by HTTP status if there is one, else by reason */
+function toErrorType(failure: RequestFailure): DownloadErrorType {
+  return failure.status !== undefined ? String(failure.status) : failure.reason;
+}
+
+function notifyLoginRequired(record: JobRecord): void {
+  try {
+    ext.notifications.create(
+      `${LOGIN_NOTIFICATION_PREFIX}${record.id}`,
+      {
+        type: 'basic',
+        iconUrl: 'icons/icon128.png',
+        title: 'moodle.download',
+        message: ext.i18n.getMessage('sessionExpiredNotification') || 'Moodle session expired',
+      },
+      () => {
+        // no-op
       },
     );
-  });
+  } catch {
+    // ignore
+  }
+}
 
-  const revoke = () => {
-    try {
-      URL.revokeObjectURL(objectUrl);
-    } catch {
-      // ignore
+/** Probes until the user logged in again, then resumes the job (unless it was resumed or stopped meanwhile). */
+async function waitForLogin(job: ActiveJob): Promise<void> {
+  const { record, control } = job;
+  const waiting = () => !!record.login && control.state === 'paused' && !control.interrupted;
+
+  while (waiting()) {
+    await sleep(LOGIN_PROBE_INTERVAL_MS);
+    if (waiting() && (await probeSession(record.login!.probeUrl)) && waiting()) {
+      // eslint-disable-next-line no-param-reassign
+      record.login = undefined;
+      ext.notifications?.clear(`${LOGIN_NOTIFICATION_PREFIX}${record.id}`);
+      control.resume();
+      await setJobState(record, 'running');
     }
-  };
+  }
+}
 
-  const onChanged = (delta: chrome.downloads.DownloadDelta) => {
-    if (delta.id !== downloadId) return;
-    if (delta.state?.current === 'complete' || delta.error) {
-      ext.downloads.onChanged.removeListener(onChanged);
-      revoke();
+/**
+ * Moodle answered with its login page: the session expired (short SSO session lifetimes).
+ * Instead of failing every remaining file, the job pauses, asks the user to log in again
+ * and continues by itself once `probeUrl` is served again.
+ */
+function requestLogin(job: ActiveJob, loginUrl: string, probeUrl: string): void {
+  const { record, control } = job;
+  // Parallel files run into the same login page; the first one pauses the job.
+  if (control.state !== 'running' || record.login) return;
+
+  // eslint-disable-next-line no-param-reassign
+  record.login = { loginUrl, probeUrl };
+  control.pause();
+  void setJobState(record, 'paused');
+  notifyLoginRequired(record);
+  void waitForLogin(job);
+}
+
+/** Expands the job's folders and assignments and resolves its links and videos. Returns undefined if the job was stopped meanwhile. */
+async function expandJobResources(
+  job: ActiveJob,
+  policy: RetryPolicy,
+  errorsByType: Record<DownloadErrorType, number>,
+  folderArchives?: boolean,
+): Promise<MoodleResource[] | undefined> {
+  const { record, control } = job;
+  const expanded: MoodleResource[] = [];
+
+  for (const r of dedupeResources(record.resources)) {
+    // Files and documents (pages, books) are downloaded as they are
+    if (r.type !== 'folder' && r.type !== 'assign' && r.type !== 'url' && r.type !== 'video') {
+      expanded.push(r);
+      continue;
     }
-  };
 
-  ext.downloads.onChanged.addListener(onChanged);
-  setTimeout(() => {
-    ext.downloads.onChanged.removeListener(onChanged);
-    revoke();
-  }, 5 * 60_000);
+    let failure: RequestFailure;
+    try {
+      const ex = await runResumable(control, async (signal) => {
+        let result;
+        if (r.type === 'url') result = await expandUrlResource(r, signal, policy);
+        else if (r.type === 'video') result = await resolveMediaResource(r, signal, policy);
+        else result = await expandActivityResource(r, signal, policy, folderArchives);
+        if (!result.ok && result.loginUrl) {
+          requestLogin(job, result.loginUrl, r.url);
+          // Fetched again once the user logged in
+          signal.throwIfAborted();
+        }
+        return result;
+      });
+      if (!ex) return undefined;
+      if (ex.ok) {
+        // Files found on the activity's pages belong to the activity (and its course)
+        const placement = getPlacement(r);
+        expanded.push(...ex.files.map((f) => ({ ...placement, ...f })));
+        continue;
+      }
+      failure = ex.failure;
+    } catch {
+      failure = { reason: r.type === 'folder' ? 'folder_expand_error' : 'expand_error', attempts: 1 };
+    }
 
-  return downloadId;
+    increment(errorsByType, `${r.type}_expand_error`);
+    // The activity's files are unknown; report it so it can be retried (and so a sync
+    // does not mistake its files for removed ones).
+    record.failures.push({ url: stripUrlToken(r.url), name: r.name, ...failure });
+  }
+
+  return dedupeResources(expanded);
 }
 
-async function buildZip(
-  resources: MoodleResource[],
-  _options: ZipBuildOptions,
-): Promise<{ zipBuffer: ArrayBuffer; failedUrls: string[]; successfulCount: number; totalFiles: number }> {
-  void _options;
-  const chosen = dedupeResources(resources);
-  const zip = new JSZip();
-  const existingPaths = new Set<string>();
+/**
+ * Fetches the job's files (folders expanded or unpacked from their archive, pages and books exported as HTML) that are not written yet and writes them
+ * into `output`. Tracking and telemetry are updated once the output is complete.
+ *
+ * Pausing aborts the files in flight; they are fetched again on resume. If the job is
+ * cancelled or its output goes away, the run ends with JOB_CANCELLED_ERROR or
+ * JOB_INTERRUPTED_ERROR (the latter keeps the job resumable).
+ */
+async function runDownloadJob(job: ActiveJob, output: JobOutput): Promise<JobResult> {
+  const { record, control } = job;
 
   const tracking = await getTracking();
+  Object.assign(tracking, record.written);
   const { optIn } = await getTelemetryPref();
+  const retryPolicy = resolveRetryPolicy(await storage.get(STORAGE_KEYS.retryPolicy));
+  const saveSettings = await storage.get(STORAGE_KEYS.saveSettings);
+  // Files are placed by the naming templates; the archive's manifest and index stay at its root
+  const naming = resolveNaming(saveSettings?.naming);
+  const named = isDefaultNaming(naming)
+    ? output
+    : createNamedOutput(output, naming, new Date(record.createdAt));
 
   const errorsByType: Record<DownloadErrorType, number> = {};
   const fileTypes: Record<string, number> = {};
 
-  // Expand folders
-  const expanded: MoodleResource[] = [];
-  for (const r of chosen) {
-    if (r.type === 'folder') {
-      try {
-        const ex = await expandFolderResource(r);
-        expanded.push(...ex);
-      } catch {
-        increment(errorsByType, 'folder_expand_error');
+  activeJobs.set(record.id, job);
+  try {
+    // eslint-disable-next-line no-param-reassign
+    record.login = undefined;
+    await setJobState(record, 'running');
+
+    const stop = async (): Promise<never> => {
+      // Loose files already written stay where they are, so keep them tracked.
+      if (output.kind !== 'zip') await setTracking(tracking);
+      if (control.state === 'cancelled') {
+        await finishJob(record, 'cancelled');
+        throw new Error(JOB_CANCELLED_ERROR);
       }
-    } else {
-      expanded.push(r);
+      await setJobState(record, 'paused');
+      throw output.error ?? new Error(JOB_INTERRUPTED_ERROR);
+    };
+
+    if (!record.files) {
+      const files = await expandJobResources(job, retryPolicy, errorsByType, saveSettings?.folderArchives);
+      if (!files) return await stop();
+      record.files = files;
+      await saveJob(record);
     }
-  }
 
-  const files = dedupeResources(expanded);
-  const total = files.length;
-  const failedUrls: string[] = [];
-
-  // Fetch + add to zip with limited concurrency
-  let completed = 0;
+    const files = record.files;
+    const total = files.length;
+    const pending = getPendingFiles(record);
+
+    // Downloads run with limited concurrency; serial outputs (ZIP, port) get one file at a time.
+    let writeQueue: Promise<void> = Promise.resolve();
+    const runWrite = <T>(task: () => Promise<T>): Promise<T> => {
+      if (!output.serial) return task();
+      const run = writeQueue.then(task);
+      writeQueue = run.then(
+        () => undefined,
+        () => undefined,
+      );
+      return run;
+    };
 
-  await withConcurrency(files, 3, async (file) => {
-    const normalized = normalizeUrlKey(file.url);
-    try {
-      sendToPopup({ type: 'MD_PROGRESS', phase: 'fetch', current: completed, total, fileName: file.name });
+    let completed = total - pending.length;
+    const progress = (fileName: string) =>
+      sendToPopup({ type: 'MD_PROGRESS', phase: 'fetch', current: completed, total, fileName });
 
-      const resp = await fetchWithTimeout(file.url, 120000);
-      if (!resp.ok) {
-        increment(errorsByType, String(resp.status));
-        failedUrls.push(file.url);
+    await withConcurrency(pending, 3, async (file) => {
+      if (output.error) return;
+      // Links are written together once all files are done
+      if (file.type === 'url') {
         completed += 1;
-        sendToPopup({ type: 'MD_PROGRESS', phase: 'fetch', current: completed, total, fileName: file.name });
         return;
       }
 
-      let lastProgressSent = 0;
-      const bytes = await readResponseBytesWithProgress(resp, (loaded, tot) => {
-        // throttle UI updates
-        if (tot && loaded - lastProgressSent < Math.max(1024 * 256, tot * 0.02)) return;
-        lastProgressSent = loaded;
-      });
+      const normalized = normalizeUrlKey(file.url);
+      // Attempts of the last request, for failures while the body is read
+      let attempts = 1;
+      const fail = (failure: RequestFailure) => {
+        increment(errorsByType, toErrorType(failure));
+        record.failures.push({ url: stripUrlToken(file.url), name: file.name, ...failure });
+        completed += 1;
+        progress(file.name);
+      };
+
+      try {
+        const outcome = await runResumable(control, async (signal) => {
+          progress(file.name);
+
+          let opened;
+          if (isDocumentResource(file)) opened = await openDocument(file, signal, retryPolicy);
+          else if (isHlsResource(file)) opened = await openHlsStream(file, signal, retryPolicy);
+          else opened = await openResource(file, signal, retryPolicy);
+          if (!opened.ok && opened.loginUrl) {
+            requestLogin(job, opened.loginUrl, file.url);
+            // Fetched again once the user logged in
+            signal.throwIfAborted();
+          }
+          if (!opened.ok) return opened;
+          attempts = opened.attempts;
+
+          const stored = await runWrite(async () => {
+            if (output.error || signal.aborted) {
+              await opened.file.cancel();
+              signal.throwIfAborted();
+              return undefined;
+            }
+            if (isFolderArchive(file)) return writeFolderArchive(named, file, opened.file);
+            return named.writeFile(file, opened.file, tracking[normalized]);
+          });
+          return { ok: true as const, file: opened.file, stored };
+        });
+
+        if (!outcome || (outcome.ok && !outcome.stored)) return;
+        if (!outcome.ok) {
+          fail(outcome.failure);
+          return;
+        }
+
+        const { fileName } = outcome.file;
+        const entry = {
+          url: normalized,
+          timestamp: Date.now(),
+          fileName,
+          ...getResponseValidators(outcome.file.response.headers),
+          ...outcome.stored,
+          ...getEntryCourse(file),
+        };
+        tracking[normalized] = entry;
+        record.written[normalized] = entry;
+        if (output.getCheckpoint) record.zip = output.getCheckpoint();
+
+        increment(fileTypes, inferStatsFileType(fileName, file.fileType));
 
-      if (isLikelyHtml(resp, bytes)) {
-        // Often indicates session timeout/login redirect
-        increment(errorsByType, 'likely_login_required');
-        failedUrls.push(file.url);
         completed += 1;
-        sendToPopup({ type: 'MD_PROGRESS', phase: 'fetch', current: completed, total, fileName: file.name });
-        return;
+        progress(fileName);
+        await saveJob(record);
+      } catch (err: any) {
+        if (output.error) return;
+        if (err instanceof SaveError) fail({ reason: 'save_error', attempts });
+        else if (err instanceof FolderArchiveTooLargeError) fail({ reason: 'folder_too_large', attempts });
+        else fail({ reason: err?.name === 'AbortError' ? 'timeout' : 'network_error', attempts });
       }
+    });
 
-      const headerName = extractFilenameFromHeaders(resp.headers);
-      const urlExt = getExtFromUrl(resp.url || file.url);
-      const baseName = headerName || ensureNameHasExt(file.name, urlExt);
+    // A pause right after the last file still holds the job until it is resumed.
+    if (output.error || !(await control.waitUntilRunnable())) return await stop();
+
+    const links = files.filter((f) => f.type === 'url');
+    if (links.some((l) => !record.written[normalizeUrlKey(l.url)])) {
+      await writeLinkFiles(named, links, saveSettings?.links);
+      for (const l of links) {
+        const key = normalizeUrlKey(l.url);
+        const entry = { url: key, timestamp: Date.now(), fileName: l.name, ...getEntryCourse(l) };
+        tracking[key] = entry;
+        record.written[key] = entry;
+      }
+      if (output.getCheckpoint) record.zip = output.getCheckpoint();
+      await saveJob(record);
+    }
 
-      const fullPath = ensureUniquePath(existingPaths, joinZipPath(file.path, baseName));
+    if (output.kind === 'zip') {
+      await writeArchiveIndex(output, record);
+      sendToPopup({ type: 'MD_PROGRESS', phase: 'zip', current: 0, total: 100 });
+    }
+    const totalBytes = await output.finish();
+    if (output.kind === 'zip') sendToPopup({ type: 'MD_PROGRESS', phase: 'zip', current: 100, total: 100 });
+
+    const successfulCount = Object.keys(record.written).length;
+
+    // Persist tracking
+    await setTracking(tracking);
+    await finishJob(record, 'completed');
+
+    // Telemetry (session-level)
+    const stats: DownloadStats = {
+      fileCount: successfulCount,
+      fileTypes,
+      errors: Object.entries(errorsByType).map(([type, count]) => ({ type, count })),
+      timestamp: roundDateToDayISO(),
+      extensionVersion: ext.runtime.getManifest().version,
+      browserType: getBrowserType(),
+    };
+    await postTelemetryIfEnabled(stats, optIn);
+
+    return {
+      failures: [...record.failures],
+      remoteKeys: files.map((f) => normalizeUrlKey(f.url)),
+      successfulCount,
+      totalFiles: total,
+      totalBytes,
+    };
+  } catch (err) {
+    // Unexpected errors keep the job resumable.
+    if (record.state === 'running') await setJobState(record, 'paused');
+    throw err;
+  } finally {
+    activeJobs.delete(record.id);
+    if (record.state === 'paused') broadcastJob(record);
+  }
+}
 
-      zip.file(fullPath, bytes);
+/**
+ * Asks the server (conditional HEAD) which of the already downloaded files changed since.
+ * Files without stored validators or where the server gives no answer count as unchanged.
+ */
+async function checkForUpdates(resources: MoodleResource[]): Promise<string[]> {
+  const tracking = await getTracking();
+  const candidates = resources.filter((r) => r.type === 'file' && tracking[normalizeUrlKey(r.url)]);
 
-      const hash = await calculateHash(bytes);
-      tracking[normalized] = {
-        url: normalized,
-        hash,
-        timestamp: Date.now(),
-        fileName: baseName,
-      };
+  const changed = await withConcurrency(candidates, 4, async (r) => {
+    try {
+      return (await checkRemoteChanged(r.url, tracking[normalizeUrlKey(r.url)]!)) === true;
+    } catch {
+      return false;
+    }
+  });
 
-      increment(fileTypes, inferStatsFileType(baseName, file.fileType));
+  return candidates.filter((_, i) => changed[i]).map((r) => r.url);
+}
 
-      completed += 1;
-      sendToPopup({ type: 'MD_PROGRESS', phase: 'fetch', current: completed, total, fileName: baseName });
-    } catch (err: any) {
-      const type = err?.name === 'AbortError' ? 'timeout' : 'network_error';
-      increment(errorsByType, type);
-      failedUrls.push(file.url);
-      completed += 1;
-      sendToPopup({ type: 'MD_PROGRESS', phase: 'fetch', current: completed, total, fileName: file.name });
+/**
+ * Fills in name, size and type of files before they are downloaded (see preflightResource).
+ * Files the server does not describe are returned unchanged.
+ */
+async function preflightResources(resources: MoodleResource[]): Promise<MoodleResource[]> {
+  return withConcurrency(resources, 4, async (r) => {
+    if (r.type !== 'file') return r;
+    try {
+      const details = await preflightResource(r.url);
+      return details ? applyPreflight(r, details) : r;
+    } catch {
+      return r;
     }
   });
+}
+
+/** Size of the parts a resumed archive continues from (stale parts are dropped) */
+async function loadZipParts(record: JobRecord): Promise<{ count: number; size: number }> {
+  const offset = record.zip?.offset ?? 0;
+  const stored = offset > 0 ? await idbGetJobParts(record.id).catch(() => []) : [];
+
+  let count = 0;
+  let size = 0;
+  for (const part of stored) {
+    if (size >= offset) break;
+    count += 1;
+    size += part.size;
+  }
+
+  const usable = size === offset ? { count, size } : { count: 0, size: 0 };
+  await idbDeleteJobParts(record.id, usable.count).catch(() => undefined);
+  return usable;
+}
+
+/**
+ * Builds the ZIP into IndexedDB, one part per chunk, and checkpoints the archive after every
+ * entry, so a terminated service worker continues where it stopped. Nothing of the archive
+ * stays in memory; downloadZip saves it from the stored parts. A part that cannot be stored
+ * fails the job, as the archive would be incomplete.
+ */
+async function buildZipArchive(job: ActiveJob): Promise<JobResult> {
+  const { record } = job;
+  const stored = await loadZipParts(record);
+  const checkpoint = restoreZipCheckpoint(record, stored.size);
+
+  let index = stored.count;
+  const coalescer = createChunkCoalescer(STREAM_CHUNK_SIZE, async (chunk) => {
+    await idbPutJobPart(record.id, index, new Blob([chunk]));
+    index += 1;
+  });
 
-  sendToPopup({ type: 'MD_PROGRESS', phase: 'zip', current: 0, total: 100 });
-
-  // Generate ZIP (always ArrayBuffer; download is handled by the popup)
-  const zipBytes = await zip.generateAsync(
-    {
-      type: 'uint8array',
-      compression: 'DEFLATE',
-      compressionOptions: { level: 6 },
-    },
-    (meta) => {
-      const percent = Math.round(meta.percent || 0);
-      sendToPopup({ type: 'MD_PROGRESS', phase: 'zip', current: percent, total: 100 });
-    },
+  const result = await runDownloadJob(
+    job,
+    createZipOutput(coalescer.push, { checkpoint, afterEntry: coalescer.flush }),
   );
+  await coalescer.flush();
+  return result;
+}
 
-  const zipOut = zipBytes.buffer.slice(zipBytes.byteOffset, zipBytes.byteOffset + zipBytes.byteLength);
+/** `waitingForLogin`: stored background jobs that resume once the user logged in again */
+function updateResumeAlarm(waitingForLogin = false): void {
+  try {
+    const running = [...activeJobs.values()].some(({ record }) => record.transport === 'background');
+    if (running || waitingForLogin) ext.alarms.create(RESUME_ALARM, { periodInMinutes: 1 });
+    else void ext.alarms.clear(RESUME_ALARM);
+  } catch {
+    // alarms unavailable: jobs still resume on the next wake-up
+  }
+}
 
-  // Persist tracking
-  await setTracking(tracking);
+/**
+ * Runs a job whose output the background writes itself (ZIP download or chrome.downloads)
+ * and reports the result to the popup.
+ */
+async function runBackgroundJob(
+  record: JobRecord,
+): Promise<{ failures: DownloadFailure[]; downloadId?: number }> {
+  const job: ActiveJob = { record, control: createJobControl() };
+  activeJobs.set(record.id, job);
+  updateResumeAlarm();
 
-  // Telemetry (session-level)
-  const stats: DownloadStats = {
-    fileCount: total - failedUrls.length,
-    fileTypes,
-    errors: Object.entries(errorsByType).map(([type, count]) => ({ type, count })),
-    timestamp: roundDateToDayISO(),
-    extensionVersion: ext.runtime.getManifest().version,
-    browserType: getBrowserType(),
-  };
-  await postTelemetryIfEnabled(stats, optIn);
+  try {
+    if (record.output === 'downloads') {
+      const { failures, successfulCount } = await runDownloadJob(job, createDownloadsOutput(record.id));
+      sendToPopup({
+        type: 'MD_COMPLETE',
+        ok: true,
+        fileCount: successfulCount,
+        failedCount: failures.length,
+      });
+      return { failures };
+    }
 
-  return {
-    zipBuffer: zipOut as ArrayBuffer,
-    failedUrls,
-    successfulCount: total - failedUrls.length,
-    totalFiles: total,
-  };
+    const { failures, successfulCount } = await buildZipArchive(job);
+    sendToPopup({
+      type: 'MD_COMPLETE',
+      ok: true,
+      fileCount: successfulCount,
+      failedCount: failures.length,
+    });
+
+    const rawName = record.zipName ?? DEFAULT_ZIP_NAME;
+    const safeName = sanitizeFileName(rawName.endsWith('.zip') ? rawName : `${rawName}.zip`);
+    const downloadId = await downloadZip(record.id, safeName, record.saveAs);
+    return { failures, downloadId };
+  } finally {
+    activeJobs.delete(record.id);
+    updateResumeAlarm();
+  }
+}
+
+/** Continues a persisted background job; the popup learns the outcome via MD_COMPLETE. */
+function resumeBackgroundJob(record: JobRecord): void {
+  // eslint-disable-next-line no-param-reassign
+  record.resumed = (record.resumed ?? 0) + 1;
+  void runBackgroundJob(record).catch((err) => {
+    const error = toErrorMessage(err);
+    if (error !== JOB_CANCELLED_ERROR) sendToPopup({ type: 'MD_COMPLETE', ok: false, error });
+  });
 }
 
+async function controlJob(
+  action: 'pause' | 'resume' | 'cancel',
+  jobId: string,
+): Promise<MessageFromBackground> {
+  const active = activeJobs.get(jobId);
+  if (active) {
+    const { record, control } = active;
+    // The runner itself cleans up after a cancel.
+    if (action === 'cancel') control.cancel();
+    if (action === 'pause') {
+      control.pause();
+      if (control.state === 'paused') await setJobState(record, 'paused');
+    }
+    if (action === 'resume') {
+      // Resuming by hand ends the wait for a new login; an expired session pauses again.
+      record.login = undefined;
+      control.resume();
+      if (control.state === 'running') await setJobState(record, 'running');
+    }
+    return { type: 'MD_JOB_RESULT', ok: true, job: toJobSummary(record, true) };
+  }
+
+  const record = await idbGetJob(jobId);
+  if (!record) return { type: 'MD_JOB_RESULT', ok: false, error: 'Job not found' };
+
+  if (action === 'cancel') {
+    await finishJob(record, 'cancelled');
+  } else if (action === 'resume') {
+    // Directory jobs are written by the popup, which resumes them over a new md-stream port.
+    if (record.transport === 'port') {
+      return { type: 'MD_JOB_RESULT', ok: false, error: 'Open the popup to resume this job' };
+    }
+    resumeBackgroundJob(record);
+  }
+  return { type: 'MD_JOB_RESULT', ok: true, job: toJobSummary(record, activeJobs.has(jobId)) };
+}
+
+/**
+ * Jobs still marked "running" were cut off when the previous service worker instance was
+ * terminated. Background jobs continue right away; directory jobs are paused until the
+ * popup reconnects. Background jobs that waited for a new login continue once the
+ * session is back.
+ */
+async function resumeInterruptedJobs(): Promise<void> {
+  let waitingForLogin = false;
+  for (const record of await idbGetAllJobs()) {
+    if (activeJobs.has(record.id)) continue;
+    if (record.state === 'running') {
+      if (record.transport === 'background') resumeBackgroundJob(record);
+      else await setJobState(record, 'paused');
+    } else if (record.state === 'paused' && record.login && record.transport === 'background') {
+      if (await probeSession(record.login.probeUrl)) resumeBackgroundJob(record);
+      else waitingForLogin = true;
+    }
+  }
+  updateResumeAlarm(waitingForLogin);
+}
+
+/** The "session expired" notification opens the login page in a new tab. */
+async function openLoginPage(notificationId: string): Promise<void> {
+  const jobId = notificationId.slice(LOGIN_NOTIFICATION_PREFIX.length);
+  const record = activeJobs.get(jobId)?.record ?? (await idbGetJob(jobId));
+  if (record?.login) await extAsync.tabsCreate({ url: record.login.loginUrl });
+  ext.notifications.clear(notificationId);
+}
+
+ext.notifications?.onClicked.addListener((notificationId) => {
+  if (notificationId.startsWith(LOGIN_NOTIFICATION_PREFIX))
+    void openLoginPage(notificationId).catch(() => undefined);
+});
+
+ext.alarms?.onAlarm.addListener((alarm) => {
+  if (alarm.name === RESUME_ALARM) void resumeInterruptedJobs().catch(() => undefined);
+  if (alarm.name === TRACKING_SYNC_ALARM) void syncTracking().catch(() => undefined);
+});
+
+void resumeInterruptedJobs().catch(() => undefined);
+
 ext.runtime.onMessage.addListener(
   (message: MessageToBackground, _sender: unknown, sendResponse: (resp: MessageFromBackground) => void) => {
     (async () => {
@@ -476,11 +991,110 @@ ext.runtime.onMessage.addListener(
         }
 
         if (message?.type === 'MD_RESET_TRACKING') {
-          await storage.set(STORAGE_KEYS.downloadTracking, {});
+          await setTracking({}, await getTracking());
+          sendResponse({ type: 'MD_RESET_TRACKING_RESULT', ok: true });
+          return;
+        }
+
+        if (message?.type === 'MD_CHECK_UPDATES') {
+          const updatedUrls = await checkForUpdates(message.resources);
+          sendResponse({ type: 'MD_CHECK_UPDATES_RESULT', ok: true, updatedUrls });
+          return;
+        }
+
+        if (message?.type === 'MD_PREFLIGHT') {
+          const resources = await preflightResources(message.resources);
+          sendResponse({ type: 'MD_PREFLIGHT_RESULT', ok: true, resources });
+          return;
+        }
+
+        if (message?.type === 'MD_FETCH_COURSES') {
+          const total = message.courses.length;
+          const result = await fetchCourseResources(message.courses, (current, course) => {
+            sendToPopup({ type: 'MD_PROGRESS', phase: 'courses', current, total, fileName: course.name });
+          });
+          sendResponse({ type: 'MD_FETCH_COURSES_RESULT', ok: true, ...result });
+          return;
+        }
+
+        if (message?.type === 'MD_FETCH_SECTIONS') {
+          const total = message.sections.length;
+          const result = await fetchSectionResources(
+            message.sections,
+            message.courseName,
+            (current, section) => {
+              sendToPopup({ type: 'MD_PROGRESS', phase: 'sections', current, total, fileName: section.name });
+            },
+          );
+          sendResponse({ type: 'MD_FETCH_SECTIONS_RESULT', ok: true, ...result });
+          return;
+        }
+
+        if (message?.type === 'MD_WS_REQUEST_TOKEN') {
+          try {
+            const token = await requestToken(message.siteUrl, message.username, message.password);
+            sendResponse({ type: 'MD_WS_TOKEN_RESULT', ok: true, token });
+          } catch (err) {
+            sendResponse({ type: 'MD_WS_RESULT', ok: false, error: toErrorMessage(err) });
+          }
+          return;
+        }
+
+        if (message?.type === 'MD_WS_LIST_RESOURCES') {
+          try {
+            const resources = await listWebServiceResources(message.siteUrl, message.token, message.courseId);
+            sendResponse({ type: 'MD_WS_RESOURCES_RESULT', ok: true, resources });
+          } catch (err) {
+            sendResponse({ type: 'MD_WS_RESULT', ok: false, error: toErrorMessage(err) });
+          }
+          return;
+        }
+
+        if (message?.type === 'MD_UNTRACK') {
+          const tracking = await getTracking();
+          const removed: DownloadTrackingMap = {};
+          for (const url of message.urls) {
+            const key = normalizeUrlKey(url);
+            const entry = tracking[key];
+            if (!entry) continue;
+            delete tracking[key];
+            removed[key] = entry;
+          }
+          await setTracking(tracking, removed);
+          sendResponse({ type: 'MD_UNTRACK_RESULT', ok: true, removed: Object.keys(removed).length });
+          return;
+        }
+
+        if (message?.type === 'MD_GET_HISTORY') {
+          const history = await getHistory();
+          const tracking = buildTrackingStore(await getTracking());
+          sendResponse({ type: 'MD_HISTORY_RESULT', history, tracking });
+          return;
+        }
+
+        if (message?.type === 'MD_RESET_COURSE_TRACKING') {
+          const tracking = await getTracking();
+          const before = { ...tracking };
+          removeCourseTracking(tracking, message.site, message.course);
+          await setTracking(tracking, getRemovedEntries(before, tracking));
           sendResponse({ type: 'MD_RESET_TRACKING_RESULT', ok: true });
           return;
         }
 
+        if (message?.type === 'MD_GET_TRACKING_SYNC' || message?.type === 'MD_SET_TRACKING_SYNC') {
+          try {
+            if (message.type === 'MD_SET_TRACKING_SYNC') {
+              await storage.set(STORAGE_KEYS.trackingSync, message.enabled);
+              if (message.enabled) await syncTracking();
+            }
+            const status = await getMirrorStatus(await isTrackingSyncEnabled());
+            sendResponse({ type: 'MD_TRACKING_SYNC_RESULT', ok: true, status });
+          } catch (err) {
+            sendResponse({ type: 'MD_TRACKING_SYNC_RESULT', ok: false, error: toErrorMessage(err) });
+          }
+          return;
+        }
+
         if (message?.type === 'MD_GET_TELEMETRY_PREF') {
           const pref = await getTelemetryPref();
           sendResponse({ type: 'MD_TELEMETRY_PREF_RESULT', ...pref });
@@ -496,24 +1110,50 @@ ext.runtime.onMessage.addListener(
 
         if (message?.type === 'MD_BUILD_ZIP') {
           const { resources, options } = message;
-          const { zipBuffer, failedUrls, successfulCount } = await buildZip(resources, options);
+          const record = createJobRecord({
+            output: 'zip',
+            transport: 'background',
+            resources,
+            zipName: typeof options?.zipName === 'string' ? options.zipName : undefined,
+            saveAs: options?.saveAs,
+          });
+          const { downloadId, failures } = await runBackgroundJob(record);
+          sendResponse({ type: 'MD_BUILD_ZIP_RESULT', ok: true, downloadId, failures });
+          return;
+        }
 
-          sendToPopup({
-            type: 'MD_COMPLETE',
-            ok: true,
-            fileCount: successfulCount,
-            failedCount: failedUrls.length,
+        if (message?.type === 'MD_DOWNLOAD_FILES') {
+          const record = createJobRecord({
+            output: 'downloads',
+            transport: 'background',
+            resources: message.resources,
           });
+          const { failures } = await runBackgroundJob(record);
+          sendResponse({ type: 'MD_DOWNLOAD_FILES_RESULT', ok: true, failures });
+          return;
+        }
 
-          if (options?.returnBuffer) {
-            sendResponse({ type: 'MD_BUILD_ZIP_RESULT', ok: true, zipBuffer, failedUrls });
-            return;
-          }
+        if (message?.type === 'MD_GET_JOBS') {
+          const jobs = (await idbGetAllJobs()).map((record) => {
+            const active = activeJobs.get(record.id);
+            return toJobSummary(active?.record ?? record, !!active);
+          });
+          sendResponse({ type: 'MD_JOBS_RESULT', jobs });
+          return;
+        }
+
+        if (message?.type === 'MD_PAUSE_JOB') {
+          sendResponse(await controlJob('pause', message.jobId));
+          return;
+        }
 
-          const rawName = typeof options?.zipName === 'string' ? options.zipName : DEFAULT_ZIP_NAME;
-          const safeName = sanitizeFileName(rawName.endsWith('.zip') ? rawName : `${rawName}.zip`);
-          const downloadId = await downloadZip(zipBuffer, safeName, options?.saveAs);
-          sendResponse({ type: 'MD_BUILD_ZIP_RESULT', ok: true, downloadId, failedUrls });
+        if (message?.type === 'MD_RESUME_JOB') {
+          sendResponse(await controlJob('resume', message.jobId));
+          return;
+        }
+
+        if (message?.type === 'MD_CANCEL_JOB') {
+          sendResponse(await controlJob('cancel', message.jobId));
           return;
         }
 
@@ -551,52 +1191,70 @@ ext.runtime.onMessage.addListener(
 );
 
 // Large ZIPs cannot be returned via runtime.sendMessage reliably.
-// We stream ZIP ArrayBuffers in chunks via a long-lived Port.
-const ZIP_CHUNK_SIZE = 1024 * 1024; // 1 MiB
-
+// Directory mode streams the output (one ZIP or loose files) to the popup through a
+// long-lived Port while files are still downloading.
 ext.runtime.onConnect.addListener((port) => {
-  if (port.name !== 'md-zip') return;
+  if (port.name !== 'md-stream') return;
 
-  port.onMessage.addListener((msg: any) => {
-    (async () => {
-      try {
-        if (msg?.type !== 'MD_ZIP_STREAM_REQUEST') return;
-        const zipName = typeof msg.zipName === 'string' ? msg.zipName : DEFAULT_ZIP_NAME;
-        const resources = (msg.resources || []) as MoodleResource[];
+  const sender = createStreamPortSender(port);
 
-        const { zipBuffer, failedUrls, successfulCount, totalFiles } = await buildZip(resources, {
-          zipName,
-          returnBuffer: true,
-        });
+  port.onMessage.addListener((msg: StreamPortMessageToBackground) => {
+    if (msg?.type === 'MD_STREAM_ACK') {
+      sender.onAck(msg.index);
+      return;
+    }
 
-        const zipBytes = new Uint8Array(zipBuffer);
-        const totalBytes = zipBytes.byteLength;
-        const totalChunks = Math.ceil(totalBytes / ZIP_CHUNK_SIZE);
-
-        port.postMessage({
-          type: 'MD_ZIP_STREAM_META',
-          zipName,
-          totalBytes,
-          chunkSize: ZIP_CHUNK_SIZE,
-          totalChunks,
-          fileCount: successfulCount,
-          failedCount: failedUrls.length,
-          totalFiles,
-          failedUrls,
-        });
+    if (msg?.type !== 'MD_STREAM_REQUEST') return;
 
-        for (let i = 0; i < totalChunks; i += 1) {
-          const start = i * ZIP_CHUNK_SIZE;
-          const end = Math.min(totalBytes, start + ZIP_CHUNK_SIZE);
-          const chunk = zipBytes.slice(start, end);
-          port.postMessage({ type: 'MD_ZIP_STREAM_CHUNK', index: i, data: chunk });
+    (async () => {
+      try {
+        const record = msg.jobId
+          ? await idbGetJob(msg.jobId)
+          : createJobRecord({
+              output: msg.output,
+              transport: 'port',
+              sync: msg.sync,
+              resources: msg.resources || [],
+              zipName: msg.zipName,
+            });
+        if (!record) throw new Error('Job not found');
+        if (activeJobs.has(record.id)) throw new Error('Job is already running');
+        if (msg.jobId) record.resumed = (record.resumed ?? 0) + 1;
+
+        // Closing the popup ends the output but keeps the job resumable.
+        const job: ActiveJob = { record, control: createJobControl() };
+        port.onDisconnect.addListener(() => job.control.interrupt());
+        sender.post({ type: 'MD_STREAM_JOB', jobId: record.id });
+
+        let result: JobResult;
+        if (record.output === 'files') {
+          result = await runDownloadJob(job, createFilesPortOutput(sender));
+        } else {
+          // The popup keeps what it already wrote if it still has the archive open.
+          const checkpoint = restoreZipCheckpoint(record, msg.resumeOffset ?? 0);
+          if (msg.jobId) sender.post({ type: 'MD_STREAM_RESUME', offset: checkpoint?.offset ?? 0 });
+
+          const coalescer = createChunkCoalescer(STREAM_CHUNK_SIZE, (chunk) => sender.sendChunk(chunk));
+          result = await runDownloadJob(
+            job,
+            createZipOutput(coalescer.push, { checkpoint, afterEntry: coalescer.flush }),
+          );
+          await coalescer.flush();
         }
 
-        port.postMessage({ type: 'MD_ZIP_STREAM_DONE' });
+        sender.post({
+          type: 'MD_STREAM_DONE',
+          totalBytes: result.totalBytes,
+          fileCount: result.successfulCount,
+          failedCount: result.failures.length,
+          totalFiles: result.totalFiles,
+          failures: result.failures,
+          remoteKeys: result.remoteKeys,
+        });
       } catch (err: any) {
         const error = typeof err?.message === 'string' ? err.message : 'Unknown error';
         try {
-          port.postMessage({ type: 'MD_ZIP_STREAM_ERROR', error });
+          sender.post({ type: 'MD_STREAM_ERROR', error });
         } catch {
           // ignore
         }
@@ -0,0 +1,98 @@
+/*
+ * Multi-course jobs: fetches course pages from an overview (dashboard, "My courses")
+ * and runs the content script's extractor on the fetched HTML. The same goes for sections
+ * a course page only links to (one section per page, single-section course formats).
+ *
+ * Parsing needs a DOM. Firefox background pages have DOMParser; Chrome's service worker
+ * does not, so there the HTML goes to an offscreen document.
+ */
+
+import type { CourseSection, MoodleCourse, MoodleResource, OffscreenResponse } from '../shared/types';
+import { extAsync } from '../shared/ext';
+import { parseHtmlDocument } from '../shared/html';
+import { loadExtractorProfiles } from '../shared/profiles';
+import { dedupeResources } from '../shared/utils';
+import { extractResources } from '../content/extractor';
+import { fetchWithTimeout } from './fetcher';
+import { ensureOffscreenDocument } from './offscreen';
+
+export async function extractResourcesFromHtml(
+  html: string,
+  url: string,
+  courseName?: string,
+): Promise<MoodleResource[]> {
+  // Same extractor profile as the content script uses for this host
+  const profiles = await loadExtractorProfiles();
+  if (typeof DOMParser !== 'undefined') {
+    return extractResources(parseHtmlDocument(html, url), { courseName, profiles });
+  }
+
+  await ensureOffscreenDocument();
+  const resp = await extAsync.runtimeSendMessage<OffscreenResponse>({
+    type: 'MD_OFFSCREEN_EXTRACT',
+    html,
+    url,
+    courseName,
+    profiles,
+  });
+  return resp?.type === 'MD_OFFSCREEN_EXTRACT_RESULT' ? resp.resources : [];
+}
+
+/** Fetches one page and extracts its resources; undefined if it failed or the session expired. */
+async function fetchPageResources(url: string, courseName?: string): Promise<MoodleResource[] | undefined> {
+  try {
+    const resp = await fetchWithTimeout(url, 45000);
+    // Redirected to the login page: the session expired
+    if (!resp.ok || new URL(resp.url || url).pathname.includes('/login/')) {
+      await resp.body?.cancel().catch(() => undefined);
+      return undefined;
+    }
+    const html = await resp.text();
+    return await extractResourcesFromHtml(html, resp.url || url, courseName);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fetches each course page and extracts its resources. Paths start with the course name
+ * from the overview, so every course gets its own folder.
+ */
+export async function fetchCourseResources(
+  courses: MoodleCourse[],
+  onProgress?: (current: number, course: MoodleCourse) => void,
+): Promise<{ resources: MoodleResource[]; failedCourses: MoodleCourse[] }> {
+  const resources: MoodleResource[] = [];
+  const failedCourses: MoodleCourse[] = [];
+
+  for (const [index, course] of courses.entries()) {
+    onProgress?.(index, course);
+    const found = await fetchPageResources(course.url, course.name);
+    if (found) resources.push(...found);
+    else failedCourses.push(course);
+  }
+
+  return { resources: dedupeResources(resources), failedCourses };
+}
+
+/**
+ * Fetches sections the course page only links to and extracts their resources with the
+ * course name of the page, so they land in the same folder as the rest of the course.
+ */
+export async function fetchSectionResources(
+  sections: CourseSection[],
+  courseName?: string,
+  onProgress?: (current: number, section: CourseSection) => void,
+): Promise<{ resources: MoodleResource[]; failedSections: CourseSection[] }> {
+  const resources: MoodleResource[] = [];
+  const failedSections: CourseSection[] = [];
+
+  for (const [index, section] of sections.entries()) {
+    onProgress?.(index, section);
+    const found = await fetchPageResources(section.url, courseName);
+    if (found) resources.push(...found);
+    else failedSections.push(section);
+  }
+
+  return { resources: dedupeResources(resources), failedSections };
+}
@@ -0,0 +1,216 @@
+/*
+ * Page and Book activities exported as standalone HTML documents.
+ *
+ * Their content only exists as HTML inside Moodle's page layout. The exporter cuts out the
+ * main region (books: the print view with all chapters), embeds pluginfile.php images as
+ * data URIs and wraps the rest into a small document that opens offline and prints to PDF.
+ * Works on the HTML string (no DOM), so it also runs in Chrome's service worker.
+ */
+
+import type { MoodleResource, RetryPolicy } from '../shared/types';
+import { guessMoodleRoot, sanitizeFileName, uint8ToBase64 } from '../shared/utils';
+import {
+  createGeneratedFile,
+  fetchWithRetry,
+  getLoginUrl,
+  isLoginResponse,
+  toRequestFailure,
+  type OpenResult,
+  type RequestFailure,
+} from './fetcher';
+import { DEFAULT_RETRY_POLICY } from './retry';
+
+/** Opening tags of the content region, best match first */
+const MAIN_CONTENT_TAGS = [
+  /<[a-z]+\b[^>]*\brole\s*=\s*["']main["'][^>]*>/i,
+  /<[a-z]+\b[^>]*\bid\s*=\s*["']region-main["'][^>]*>/i,
+  /<body\b[^>]*>/i,
+];
+
+const DOCUMENT_STYLE = [
+  'body { font-family: system-ui, sans-serif; line-height: 1.5; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; }',
+  'img { max-width: 100%; height: auto; }',
+  'table { border-collapse: collapse; }',
+  'td, th { border: 1px solid #ccc; padding: 0.25rem 0.5rem; }',
+  '.md-source { margin-top: 3rem; font-size: 0.8rem; color: #666; }',
+  '@media print { .md-source { display: none; } }',
+].join('\n');
+
+export function isDocumentResource(resource: MoodleResource): boolean {
+  return resource.type === 'page' || resource.type === 'book';
+}
+
+/** Page to export: the activity itself, for books the print view with all chapters */
+export function getDocumentUrl(resource: MoodleResource): string {
+  if (resource.type !== 'book') return resource.url;
+  try {
+    const u = new URL(resource.url);
+    const id = u.searchParams.get('id');
+    const root = guessMoodleRoot(resource.url);
+    if (!id || !root) return resource.url;
+    return `${root}mod/book/tool/print/index.php?id=${encodeURIComponent(id)}`;
+  } catch {
+    return resource.url;
+  }
+}
+
+/**
+ * Inner HTML of the first element whose opening tag matches `openTag`. Nested tags of the
+ * same name are balanced; an unclosed element runs to the end of the string.
+ */
+export function getInnerHtml(html: string, openTag: RegExp): string | undefined {
+  const match = openTag.exec(html);
+  const tagName = match && /^<([a-z0-9]+)/i.exec(match[0])?.[1];
+  if (!match || !tagName) return undefined;
+
+  const start = match.index + match[0].length;
+  const tags = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi');
+  tags.lastIndex = start;
+
+  let depth = 1;
+  let m: RegExpExecArray | null;
+  while ((m = tags.exec(html))) {
+    depth += m[1] ? -1 : 1;
+    if (depth === 0) return html.slice(start, m.index);
+  }
+  return html.slice(start);
+}
+
+/** Content region of a Moodle page without scripts */
+export function extractMainContent(html: string): string {
+  let content = html;
+  for (const tag of MAIN_CONTENT_TAGS) {
+    const inner = getInnerHtml(html, tag);
+    if (inner !== undefined) {
+      content = inner;
+      break;
+    }
+  }
+  return content
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, '')
+    .replace(/<noscript\b[\s\S]*?<\/noscript\s*>/gi, '');
+}
+
+function decodeAttribute(value: string): string {
+  return value.replace(/&amp;/g, '&');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Makes relative `href` and `src` values absolute, so links still lead to Moodle offline. */
+export function absolutizeUrls(html: string, baseUrl: string): string {
+  return html.replace(/\b(href|src)\s*=\s*"([^"]*)"/gi, (all, attr: string, value: string) => {
+    if (!value || /^(#|data:|mailto:|javascript:)/i.test(value)) return all;
+    try {
+      return `${attr}="${escapeHtml(new URL(decodeAttribute(value), baseUrl).toString())}"`;
+    } catch {
+      return all;
+    }
+  });
+}
+
+/**
+ * Replaces the `src` of pluginfile.php images by what `toDataUrl` returns (each image is
+ * requested once). Images it cannot load keep their URL.
+ */
+export async function inlineImages(
+  html: string,
+  toDataUrl: (url: string) => Promise<string | undefined>,
+): Promise<string> {
+  const imgSrc = /(<img\b[^>]*?\bsrc\s*=\s*")([^"]+)(")/gi;
+  const urls = new Set<string>();
+  for (const m of html.matchAll(imgSrc)) {
+    const url = decodeAttribute(m[2] ?? '');
+    if (url.includes('/pluginfile.php')) urls.add(url);
+  }
+
+  const dataUrls = new Map<string, string>();
+  for (const url of urls) {
+    const dataUrl = await toDataUrl(url);
+    if (dataUrl) dataUrls.set(url, dataUrl);
+  }
+
+  return html.replace(imgSrc, (all, before: string, src: string, after: string) => {
+    const dataUrl = dataUrls.get(decodeAttribute(src));
+    return dataUrl ? `${before}${dataUrl}${after}` : all;
+  });
+}
+
+export function buildStandaloneHtml(title: string, content: string, sourceUrl: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${DOCUMENT_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    content.trim(),
+    `<p class="md-source">Moodle: <a href="${escapeHtml(sourceUrl)}">${escapeHtml(sourceUrl)}</a></p>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+async function fetchImageDataUrl(
+  url: string,
+  signal: AbortSignal | undefined,
+  policy: RetryPolicy,
+): Promise<string | undefined> {
+  try {
+    const { response } = await fetchWithRetry(url, 60000, { signal }, policy);
+    const type = response?.headers.get('content-type')?.split(';')[0]?.trim() || '';
+    if (!response?.ok || !type.startsWith('image/')) {
+      await response?.body?.cancel().catch(() => undefined);
+      return undefined;
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return `data:${type};base64,${uint8ToBase64(bytes)}`;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return undefined;
+  }
+}
+
+/**
+ * Fetches a page or book and builds its standalone HTML document. Same result as
+ * openResource: a failure for error statuses and Moodle's login page (with `loginUrl`).
+ */
+export async function openDocument(
+  resource: MoodleResource,
+  signal?: AbortSignal,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<OpenResult> {
+  const url = getDocumentUrl(resource);
+  const fetched = await fetchWithRetry(url, 60000, { signal }, policy);
+  const { response, attempts } = fetched;
+  if (!response?.ok) {
+    await response?.body?.cancel().catch(() => undefined);
+    return { ok: false, failure: toRequestFailure(fetched) };
+  }
+
+  const html = await response.text();
+  if (isLoginResponse(response, html.slice(0, 65536))) {
+    const failure: RequestFailure = { reason: 'likely_login_required', attempts };
+    return { ok: false, failure, loginUrl: getLoginUrl(response, resource.url) };
+  }
+
+  const content = absolutizeUrls(extractMainContent(html), response.url || url);
+  const inlined = await inlineImages(content, (src) => fetchImageDataUrl(src, signal, policy));
+  const name = sanitizeFileName(resource.name);
+  const fileName = /\.html?$/i.test(name) ? name : `${name}.html`;
+
+  return {
+    ok: true,
+    attempts,
+    file: createGeneratedFile(
+      fileName,
+      buildStandaloneHtml(resource.name, inlined, resource.url),
+      'text/html',
+    ),
+  };
+}
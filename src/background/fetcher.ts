@@ -0,0 +1,425 @@
+import type {
+  DownloadFailure,
+  MoodleResource,
+  PreflightDetails,
+  RetryPolicy,
+  StoredDownload,
+} from '../shared/types';
+import { MIME_EXTENSIONS, STORAGE_KEYS } from '../shared/constants';
+import { storage } from '../shared/storage';
+import { extractFilenameFromHeaders, guessMoodleRoot, sanitizeFileName, sleep } from '../shared/utils';
+import { DEFAULT_RETRY_POLICY, getRetryDelay } from './retry';
+
+export type DownloadErrorType = string;
+
+export type RequestFailure = Pick<DownloadFailure, 'reason' | 'status' | 'attempts'>;
+
+export interface OpenedFile {
+  response: Response;
+  /** Name from Content-Disposition, else the resource name plus the URL extension */
+  fileName: string;
+  /** Built by the extension (page/book export); there is no URL the browser could fetch */
+  generated?: boolean;
+  /** Streams the body. Must be consumed or cancelled exactly once. */
+  body: (onChunk?: (chunk: Uint8Array) => void) => AsyncGenerator<Uint8Array>;
+  cancel: () => Promise<void>;
+}
+
+/** `loginUrl` is set when Moodle answered with its login page (session expired) */
+export type OpenResult =
+  | { ok: true; file: OpenedFile; attempts: number }
+  | { ok: false; failure: RequestFailure; loginUrl?: string };
+
+/** The last response (may have an error status), or why no response arrived */
+export type RetriedFetch =
+  | { response: Response; attempts: number }
+  | { response?: undefined; reason: 'timeout' | 'network_error'; attempts: number };
+
+export type ResponseValidators = Pick<StoredDownload, 'etag' | 'lastModified' | 'contentLength'>;
+
+const WS_PLUGINFILE_PATH = /\/webservice\/pluginfile\.php\//;
+
+/**
+ * webservice/pluginfile.php only accepts the token as query parameter. It is added here, per
+ * request, from the stored tokens of the site, so resources, failures and the history only
+ * ever hold the URL without it.
+ */
+export async function addWebServiceToken(url: string): Promise<string> {
+  if (!WS_PLUGINFILE_PATH.test(url)) return url;
+  const root = guessMoodleRoot(url);
+  const token = root ? (await storage.get(STORAGE_KEYS.webServices))?.tokens[root] : undefined;
+  if (!token) return url;
+  const u = new URL(url);
+  u.searchParams.set('token', token);
+  return u.toString();
+}
+
+/**
+ * fetch with a timeout for the response headers. `init.signal` (the job's signal) stays
+ * linked after the headers arrived, so aborting it also stops reading the body. Web service
+ * file URLs get their token here.
+ */
+export async function fetchWithTimeout(
+  url: string,
+  timeoutMs = 60000,
+  init: RequestInit = {},
+): Promise<Response> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+
+  const { signal } = init;
+  if (signal?.aborted) controller.abort();
+  else signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+  try {
+    return await fetch(await addWebServiceToken(url), {
+      ...init,
+      credentials: 'include',
+      redirect: 'follow',
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+/**
+ * fetchWithTimeout that retries according to `policy` (see retry.ts). Aborting
+ * `init.signal` (pause/cancel) is not a failure: the AbortError is rethrown.
+ */
+export async function fetchWithRetry(
+  url: string,
+  timeoutMs: number,
+  init: RequestInit = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<RetriedFetch> {
+  const { signal } = init;
+
+  for (let attempt = 1; ; attempt += 1) {
+    let result: RetriedFetch;
+    try {
+      result = { response: await fetchWithTimeout(url, timeoutMs, init), attempts: attempt };
+    } catch (err: any) {
+      if (signal?.aborted) throw err;
+      result = { reason: err?.name === 'AbortError' ? 'timeout' : 'network_error', attempts: attempt };
+    }
+
+    const { response } = result;
+    const delay = getRetryDelay(
+      policy,
+      attempt,
+      response ? { status: response.status, retryAfter: response.headers.get('retry-after') } : result.reason,
+    );
+    if (delay === undefined) return result;
+
+    await response?.body?.cancel().catch(() => undefined);
+    await sleep(delay, signal ?? undefined);
+  }
+}
+
+/**
+ * A file the extension built itself (exported page, links document) or unpacked from an
+ * archive, as one chunk. Text is encoded as UTF-8.
+ */
+export function createGeneratedFile(
+  fileName: string,
+  content: string | Uint8Array,
+  contentType: string,
+): OpenedFile {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const type = typeof content === 'string' ? `${contentType}; charset=utf-8` : contentType;
+  return {
+    response: new Response(bytes, { headers: { 'content-type': type } }),
+    fileName,
+    generated: true,
+    async *body(onChunk) {
+      onChunk?.(bytes);
+      yield bytes;
+    },
+    cancel: async () => undefined,
+  };
+}
+
+/** Failure for a response with an error status, or for a request without response */
+export function toRequestFailure(result: RetriedFetch): RequestFailure {
+  if (!result.response) return { reason: result.reason, attempts: result.attempts };
+  return { reason: 'http_error', status: result.response.status, attempts: result.attempts };
+}
+
+/**
+ * Yields the response body chunk by chunk. `first` is a chunk that was already
+ * read from `reader` (used to sniff HTML login pages before writing anything).
+ */
+export async function* streamResponseBody(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  first: Uint8Array | undefined,
+  onChunk: (chunk: Uint8Array) => void,
+): AsyncGenerator<Uint8Array> {
+  let done = false;
+  try {
+    if (first) {
+      onChunk(first);
+      yield first;
+    }
+    while (!done) {
+      const result = await reader.read();
+      done = result.done;
+      if (result.value) {
+        onChunk(result.value);
+        yield result.value;
+      }
+    }
+  } finally {
+    if (!done) await reader.cancel().catch(() => undefined);
+  }
+}
+
+export function getBodyReader(response: Response): ReadableStreamDefaultReader<Uint8Array> {
+  if (response.body) return response.body.getReader();
+
+  // No stream support: wrap the whole body in a single-chunk stream.
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(new Uint8Array(await response.arrayBuffer()));
+      controller.close();
+    },
+  });
+  return stream.getReader();
+}
+
+export function isLikelyHtml(response: Response, bytes?: Uint8Array): boolean {
+  const ct = response.headers.get('content-type') || '';
+  if (ct.includes('text/html')) return true;
+  if (bytes && bytes.byteLength >= 20) {
+    const head = new TextDecoder().decode(bytes.slice(0, 64)).toLowerCase();
+    if (head.includes('<!doctype html') || head.includes('<html')) return true;
+  }
+  return false;
+}
+
+const LOGIN_PATH = /\/login\/index\.php/i;
+
+/**
+ * Moodle's login page (or an SSO login form) instead of the requested content. The URL decides:
+ * the response ended on login/index.php, or it was redirected to a page with a login form.
+ * A password field alone (quiz or folder passwords) is no login page. `head` is the start of the body.
+ */
+export function isLoginResponse(response: Response, head?: string): boolean {
+  if (LOGIN_PATH.test(response.url)) return true;
+  if (!response.redirected || !head) return false;
+  const html = head.toLowerCase();
+  return (
+    /<form[^>]+action=["'][^"']*\/login\/index\.php/.test(html) ||
+    html.includes('name="logintoken"') ||
+    /<input[^>]+type=["']?password/.test(html)
+  );
+}
+
+/** Where the user logs in again: the login page Moodle redirected to, else the one of the site. */
+export function getLoginUrl(response: Response, requestUrl: string): string {
+  if (LOGIN_PATH.test(response.url)) return response.url;
+  const root = guessMoodleRoot(requestUrl) ?? `${new URL(requestUrl).origin}/`;
+  return `${root}login/index.php`;
+}
+
+/**
+ * Checks whether the session is back: `url` (a file or page that got the login page before)
+ * is served again. Only the start of the body is read.
+ */
+export async function probeSession(url: string): Promise<boolean> {
+  try {
+    const resp = await fetchWithTimeout(url, 20000, { cache: 'no-store' });
+    const reader = getBodyReader(resp);
+    const first = await reader.read().catch(() => undefined);
+    await reader.cancel().catch(() => undefined);
+    const head = first?.value ? new TextDecoder().decode(first.value.slice(0, 65536)) : undefined;
+    return resp.ok && !isLoginResponse(resp, head);
+  } catch {
+    return false;
+  }
+}
+
+export function getExtFromUrl(url: string): string | undefined {
+  try {
+    const u = new URL(url);
+    const last = u.pathname.split('/').pop() || '';
+    const dot = last.lastIndexOf('.');
+    if (dot <= 0) return undefined;
+    const extension = last.slice(dot + 1).toLowerCase();
+    return extension || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function ensureNameHasExt(name: string, extension?: string): string {
+  const clean = sanitizeFileName(name);
+  if (!extension) return clean;
+  if (clean.toLowerCase().endsWith(`.${extension.toLowerCase()}`)) return clean;
+  // If name already has some extension, keep it
+  if (/\.[a-z0-9]{1,5}$/i.test(clean)) return clean;
+  return `${clean}.${extension}`;
+}
+
+/**
+ * Requests a resource and checks that it is an actual file (not a login page).
+ * The body is left unread apart from the first chunk.
+ */
+export async function openResource(
+  file: MoodleResource,
+  signal?: AbortSignal,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<OpenResult> {
+  const fetched = await fetchWithRetry(file.url, 120000, { signal }, policy);
+  const { response: resp, attempts } = fetched;
+  if (!resp?.ok) {
+    await resp?.body?.cancel().catch(() => undefined);
+    return { ok: false, failure: toRequestFailure(fetched) };
+  }
+
+  const reader = getBodyReader(resp);
+  const first = await reader.read();
+  const firstChunk = first.done ? undefined : first.value;
+
+  if (isLikelyHtml(resp, firstChunk)) {
+    // Often indicates session timeout/login redirect
+    await reader.cancel().catch(() => undefined);
+    const head = firstChunk ? new TextDecoder().decode(firstChunk.slice(0, 65536)) : undefined;
+    const failure: RequestFailure = { reason: 'likely_login_required', attempts };
+    if (isLoginResponse(resp, head)) return { ok: false, failure, loginUrl: getLoginUrl(resp, file.url) };
+    return { ok: false, failure };
+  }
+
+  const headerName = extractFilenameFromHeaders(resp.headers);
+  const urlExt = getExtFromUrl(resp.url || file.url);
+  const fileName = headerName || ensureNameHasExt(file.name, urlExt);
+
+  return {
+    ok: true,
+    attempts,
+    file: {
+      response: resp,
+      fileName,
+      body: (onChunk) => streamResponseBody(reader, firstChunk, onChunk || (() => undefined)),
+      cancel: () => reader.cancel().catch(() => undefined),
+    },
+  };
+}
+
+/** ETag, Last-Modified and Content-Length of a response (only those that are present). */
+export function getResponseValidators(headers: Headers): ResponseValidators {
+  const out: ResponseValidators = {};
+  const etag = headers.get('etag');
+  const lastModified = headers.get('last-modified');
+  const contentLength = Number(headers.get('content-length'));
+  if (etag) out.etag = etag;
+  if (lastModified) out.lastModified = lastModified;
+  if (headers.has('content-length') && Number.isFinite(contentLength)) out.contentLength = contentLength;
+  return out;
+}
+
+function normalizeEtag(etag: string): string {
+  // Weak and strong forms of the same tag describe the same file for our purposes.
+  return etag.trim().replace(/^W\//i, '');
+}
+
+/**
+ * Compares the validators from the last download with the current ones.
+ * The strongest validator both sides have wins: ETag, then Last-Modified, then Content-Length.
+ */
+export function hasRemoteChanged(stored: ResponseValidators, current: ResponseValidators): boolean {
+  if (stored.etag && current.etag) return normalizeEtag(stored.etag) !== normalizeEtag(current.etag);
+
+  if (stored.lastModified && current.lastModified) {
+    const before = Date.parse(stored.lastModified);
+    const now = Date.parse(current.lastModified);
+    if (!Number.isNaN(before) && !Number.isNaN(now)) return now > before;
+  }
+
+  if (stored.contentLength !== undefined && current.contentLength !== undefined) {
+    return stored.contentLength !== current.contentLength;
+  }
+
+  return false;
+}
+
+/**
+ * Conditional HEAD request for an already downloaded file.
+ * Returns true/false if the server told us, undefined if it cannot be decided
+ * (no validators stored, HEAD not supported, login page, ...).
+ */
+export async function checkRemoteChanged(url: string, stored: StoredDownload): Promise<boolean | undefined> {
+  if (!stored.etag && !stored.lastModified && stored.contentLength === undefined) return undefined;
+
+  const headers: Record<string, string> = {};
+  if (stored.etag) headers['If-None-Match'] = stored.etag;
+  if (stored.lastModified) headers['If-Modified-Since'] = stored.lastModified;
+
+  // no-store: the browser must not answer from (or revalidate against) its own cache.
+  const resp = await fetchWithTimeout(url, 20000, { method: 'HEAD', headers, cache: 'no-store' });
+  if (resp.status === 304) return false;
+  if (!resp.ok || isLikelyHtml(resp)) return undefined;
+
+  return hasRemoteChanged(stored, getResponseValidators(resp.headers));
+}
+
+/** Total size from a `Content-Range` header (`bytes 0-0/12345`); undefined for `*` */
+export function parseContentRangeTotal(value: string | null): number | undefined {
+  const m = value?.match(/\/\s*(\d+)\s*$/);
+  return m?.[1] ? Number(m[1]) : undefined;
+}
+
+/** File name, size and MIME type of a HEAD or ranged GET response */
+export function getPreflightDetails(resp: Response): PreflightDetails {
+  const details: PreflightDetails = {};
+  const fileName = extractFilenameFromHeaders(resp.headers);
+  const mimeType = (resp.headers.get('content-type') || '').split(';')[0]?.trim().toLowerCase();
+  // A 206 only has the length of the requested byte; the full size is in Content-Range.
+  const size =
+    resp.status === 206
+      ? parseContentRangeTotal(resp.headers.get('content-range'))
+      : getResponseValidators(resp.headers).contentLength;
+  if (fileName) details.fileName = fileName;
+  if (size !== undefined) details.size = size;
+  if (mimeType) details.mimeType = mimeType;
+  return details;
+}
+
+/**
+ * Asks the server for name, size and type of a file without downloading it: a HEAD request
+ * that follows the redirect of `mod/resource/view.php`, or a GET for the first byte when HEAD
+ * is refused or has no length. Undefined if the URL leads to a page (embedded resources,
+ * login page) or the server does not answer.
+ */
+export async function preflightResource(
+  url: string,
+  signal?: AbortSignal,
+): Promise<PreflightDetails | undefined> {
+  const head = await fetchWithTimeout(url, 20000, { method: 'HEAD', signal, cache: 'no-store' });
+  if (head.ok && isLikelyHtml(head)) return undefined;
+  if (head.ok && head.headers.has('content-length')) return getPreflightDetails(head);
+
+  const ranged = await fetchWithTimeout(url, 20000, {
+    headers: { Range: 'bytes=0-0' },
+    signal,
+    cache: 'no-store',
+  });
+  // Servers that ignore Range send the whole file; only the headers are needed.
+  await ranged.body?.cancel().catch(() => undefined);
+  if (!ranged.ok || isLikelyHtml(ranged)) return head.ok ? getPreflightDetails(head) : undefined;
+  return getPreflightDetails(ranged);
+}
+
+/**
+ * The resource with the preflight details. The type comes from the server's file name, else
+ * from the MIME type; a type the extractor already knew from the URL is kept.
+ */
+export function applyPreflight(resource: MoodleResource, details: PreflightDetails): MoodleResource {
+  const updated: MoodleResource = { ...resource, ...details };
+  if (!resource.fileType || resource.fileType === 'file') {
+    const fromName = details.fileName?.match(/\.([a-z0-9]{1,5})$/i)?.[1]?.toLowerCase();
+    const fileType = fromName || (details.mimeType ? MIME_EXTENSIONS[details.mimeType] : undefined);
+    if (fileType) updated.fileType = fileType;
+  }
+  return updated;
+}
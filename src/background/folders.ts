@@ -0,0 +1,80 @@
+/*
+ * Folder activities (mod/folder) loaded as one archive.
+ *
+ * When enabled in the save settings, folders whose page offers "Download folder" are fetched
+ * from mod/folder/download_folder.php instead of file by file. The server ZIP is unpacked and
+ * its entries are written below the folder's path, so the output looks the same as with
+ * single files (subfolders included) and ZIP outputs do not contain nested archives.
+ *
+ * The archive is held in memory while it is unpacked (JSZip needs all of it), its entries
+ * are decompressed one at a time. Archives above FOLDER_ARCHIVE_MAX_BYTES are refused.
+ */
+
+import JSZip from 'jszip';
+import type { MoodleResource } from '../shared/types';
+import { guessFileType, guessMoodleRoot, sanitizeFileName } from '../shared/utils';
+import { createGeneratedFile, type OpenedFile } from './fetcher';
+
+/** Largest folder archive that is unpacked (compressed size) */
+export const FOLDER_ARCHIVE_MAX_BYTES = 256 * 1024 * 1024; // 256 MiB
+
+/** The folder archive is larger than FOLDER_ARCHIVE_MAX_BYTES */
+export class FolderArchiveTooLargeError extends Error {
+  override name = 'FolderArchiveTooLargeError';
+}
+
+/** A file of an unpacked folder archive, ready to be written */
+export interface FolderArchiveEntry {
+  resource: MoodleResource;
+  file: OpenedFile;
+}
+
+/** Archive address of a folder whose page offers the download button, else undefined */
+export function getFolderArchiveUrl(html: string, folder: MoodleResource): string | undefined {
+  if (!/\/mod\/folder\/download_folder\.php/i.test(html)) return undefined;
+  try {
+    const id = new URL(folder.url).searchParams.get('id');
+    const root = guessMoodleRoot(folder.url);
+    if (!id || !root) return undefined;
+    return `${root}mod/folder/download_folder.php?id=${encodeURIComponent(id)}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Whether `resource` is a folder that is downloaded as archive (see getFolderArchiveUrl) */
+export function isFolderArchive(resource: MoodleResource): boolean {
+  return resource.type === 'folder' && /\/mod\/folder\/download_folder\.php/i.test(resource.url);
+}
+
+/**
+ * Files of a folder archive below the folder's path, decompressed one at a time when the
+ * next one is requested. Directory entries are skipped; JSZip resolves `..` in entry names,
+ * so no entry leaves the folder.
+ */
+export async function* unpackFolderArchive(
+  bytes: Uint8Array,
+  folder: MoodleResource,
+): AsyncGenerator<FolderArchiveEntry> {
+  const zip = await JSZip.loadAsync(bytes);
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+    const segments = entry.name.split(/[\\/]/).filter((s) => s && s !== '.' && s !== '..');
+
+    const name = sanitizeFileName(segments.pop() || 'file');
+    const dirs = segments.map(sanitizeFileName);
+    const content = await entry.async('uint8array');
+    yield {
+      resource: {
+        id: sanitizeFileName([folder.id, ...dirs, name].join('-')),
+        name,
+        url: folder.url,
+        type: 'file',
+        fileType: guessFileType(name),
+        path: [folder.path, ...dirs].filter(Boolean).join('/'),
+      },
+      file: createGeneratedFile(name, content, 'application/octet-stream'),
+    };
+  }
+}
@@ -0,0 +1,149 @@
+/*
+ * HLS streams (Kaltura, Opencast, players without an MP4 download).
+ *
+ * The master playlist's variant with the highest bandwidth is downloaded segment by segment
+ * and the segments are written one after another into a single file: MPEG-TS segments give a
+ * `.ts` file, fragmented MP4 (with an `EXT-X-MAP` init segment) an `.mp4`. Both play in
+ * common players without re-encoding. Encrypted streams are not supported.
+ */
+
+import type { MoodleResource, RetryPolicy } from '../shared/types';
+import { sanitizeFileName } from '../shared/utils';
+import {
+  fetchWithRetry,
+  getBodyReader,
+  getLoginUrl,
+  isLoginResponse,
+  streamResponseBody,
+  toRequestFailure,
+  type OpenResult,
+  type RequestFailure,
+} from './fetcher';
+import { DEFAULT_RETRY_POLICY } from './retry';
+
+export interface HlsVariant {
+  url: string;
+  bandwidth: number;
+}
+
+export interface HlsMediaPlaylist {
+  segments: string[];
+  /** Init segment of fragmented MP4 streams */
+  map?: string;
+  encrypted: boolean;
+}
+
+function parseAttributes(line: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const m of line.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[m[1] ?? ''] = (m[2] ?? '').replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+function playlistLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+/** Variants of a master playlist; empty for a media playlist */
+export function parseMasterPlaylist(text: string, baseUrl: string): HlsVariant[] {
+  const lines = playlistLines(text);
+  const variants: HlsVariant[] = [];
+  lines.forEach((line, i) => {
+    const next = lines[i + 1];
+    if (!line.startsWith('#EXT-X-STREAM-INF:') || !next || next.startsWith('#')) return;
+    const bandwidth = Number(parseAttributes(line.slice(line.indexOf(':') + 1))['BANDWIDTH']) || 0;
+    variants.push({ url: new URL(next, baseUrl).toString(), bandwidth });
+  });
+  return variants;
+}
+
+export function parseMediaPlaylist(text: string, baseUrl: string): HlsMediaPlaylist {
+  const playlist: HlsMediaPlaylist = { segments: [], encrypted: false };
+  for (const line of playlistLines(text)) {
+    if (line.startsWith('#EXT-X-KEY:')) {
+      const method = parseAttributes(line.slice(line.indexOf(':') + 1))['METHOD'];
+      if (method && method !== 'NONE') playlist.encrypted = true;
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const uri = parseAttributes(line.slice(line.indexOf(':') + 1))['URI'];
+      if (uri) playlist.map = new URL(uri, baseUrl).toString();
+    } else if (!line.startsWith('#')) {
+      playlist.segments.push(new URL(line, baseUrl).toString());
+    }
+  }
+  return playlist;
+}
+
+export function isHlsResource(resource: MoodleResource): boolean {
+  return resource.type === 'video' && resource.fileType === 'm3u8';
+}
+
+/**
+ * Loads the playlist of an HLS resource and returns the stream as one file. Same result as
+ * openResource; segments that fail while the body is read abort it with an error.
+ */
+export async function openHlsStream(
+  resource: MoodleResource,
+  signal?: AbortSignal,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<OpenResult> {
+  const load = async (url: string) => {
+    const fetched = await fetchWithRetry(url, 60000, { signal }, policy);
+    const { response } = fetched;
+    if (!response?.ok) {
+      await response?.body?.cancel().catch(() => undefined);
+      return { ok: false as const, failure: toRequestFailure(fetched) };
+    }
+    const text = await response.text();
+    if (isLoginResponse(response, text.slice(0, 65536))) {
+      const failure: RequestFailure = { reason: 'likely_login_required', attempts: fetched.attempts };
+      return { ok: false as const, failure, loginUrl: getLoginUrl(response, resource.url) };
+    }
+    return { ok: true as const, text, url: response.url || url, attempts: fetched.attempts };
+  };
+
+  let playlist = await load(resource.url);
+  if (!playlist.ok) return playlist;
+
+  const best = parseMasterPlaylist(playlist.text, playlist.url).sort((a, b) => b.bandwidth - a.bandwidth)[0];
+  if (best) {
+    playlist = await load(best.url);
+    if (!playlist.ok) return playlist;
+  }
+
+  const media = parseMediaPlaylist(playlist.text, playlist.url);
+  if (media.encrypted || media.segments.length === 0) {
+    return { ok: false, failure: { reason: 'unsupported_media', attempts: playlist.attempts } };
+  }
+
+  const parts = media.map ? [media.map, ...media.segments] : media.segments;
+  const name = sanitizeFileName(resource.name).replace(/\.(m3u8|mp4|ts)$/i, '');
+  let cancelled = false;
+
+  return {
+    ok: true,
+    attempts: playlist.attempts,
+    file: {
+      response: new Response(null, { headers: { 'content-type': media.map ? 'video/mp4' : 'video/mp2t' } }),
+      fileName: `${name}.${media.map ? 'mp4' : 'ts'}`,
+      generated: true,
+      async *body(onChunk) {
+        for (const url of parts) {
+          if (cancelled) return;
+          const fetched = await fetchWithRetry(url, 120000, { signal }, policy);
+          if (!fetched.response?.ok) {
+            await fetched.response?.body?.cancel().catch(() => undefined);
+            throw new Error(`HLS segment failed: ${url}`);
+          }
+          yield* streamResponseBody(getBodyReader(fetched.response), undefined, onChunk || (() => undefined));
+        }
+      },
+      cancel: async () => {
+        cancelled = true;
+      },
+    },
+  };
+}
@@ -0,0 +1,219 @@
+/*
+ * Download job model.
+ *
+ * A job has a control (pause/resume/cancel, one AbortSignal for all of its fetches) and a
+ * record that is persisted in IndexedDB. The record lists the job's files and which of
+ * them are written, so a paused job continues with the remaining files even after the
+ * popup was closed or the service worker was restarted.
+ */
+
+import type {
+  DownloadHistoryEntry,
+  HistoryCourse,
+  JobRecord,
+  JobSummary,
+  MoodleResource,
+  ZipCheckpoint,
+} from '../shared/types';
+import { normalizeUrlKey } from '../shared/utils';
+import { getTrackingSite } from '../shared/tracking';
+
+export interface JobControl {
+  readonly state: 'running' | 'paused' | 'cancelled';
+  /** True once the output is gone (popup closed); the job stays resumable */
+  readonly interrupted: boolean;
+  /** Aborted on pause, cancel and interrupt; resume creates a fresh signal */
+  readonly signal: AbortSignal;
+  /** Waits while the job is paused. Resolves false once the job must stop. */
+  waitUntilRunnable(): Promise<boolean>;
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+  interrupt(): void;
+}
+
+export function createJobControl(): JobControl {
+  let state: JobControl['state'] = 'running';
+  let interrupted = false;
+  let controller = new AbortController();
+  let waiters: Array<() => void> = [];
+
+  const waitForWake = () =>
+    new Promise<void>((resolve) => {
+      waiters.push(resolve);
+    });
+
+  const wakeAll = () => {
+    const pending = waiters;
+    waiters = [];
+    for (const wake of pending) wake();
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+
+    get interrupted() {
+      return interrupted;
+    },
+
+    get signal() {
+      return controller.signal;
+    },
+
+    async waitUntilRunnable() {
+      while (state === 'paused' && !interrupted) await waitForWake();
+      return state === 'running' && !interrupted;
+    },
+
+    pause() {
+      if (state !== 'running') return;
+      state = 'paused';
+      controller.abort();
+    },
+
+    resume() {
+      if (state !== 'paused' || interrupted) return;
+      state = 'running';
+      controller = new AbortController();
+      wakeAll();
+    },
+
+    cancel() {
+      if (state === 'cancelled') return;
+      state = 'cancelled';
+      controller.abort();
+      wakeAll();
+    },
+
+    interrupt() {
+      interrupted = true;
+      if (state === 'running') state = 'paused';
+      controller.abort();
+      wakeAll();
+    },
+  };
+}
+
+/**
+ * Runs `task` with the job's current signal. A pause aborts the task; it runs again
+ * from the start once the job is resumed. Returns undefined if the job stopped instead.
+ * Errors that were not caused by the job's signal (e.g. timeouts) are rethrown.
+ */
+export async function runResumable<T>(
+  control: JobControl,
+  task: (signal: AbortSignal) => Promise<T>,
+): Promise<T | undefined> {
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    if (!(await control.waitUntilRunnable())) return undefined;
+    const { signal } = control;
+    try {
+      return await task(signal);
+    } catch (err) {
+      if (!signal.aborted) throw err;
+    }
+  }
+}
+
+export function createJobRecord(
+  init: Pick<JobRecord, 'output' | 'transport' | 'resources'> &
+    Partial<Pick<JobRecord, 'sync' | 'zipName' | 'saveAs'>>,
+): JobRecord {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    state: 'running',
+    written: {},
+    failures: [],
+    createdAt: now,
+    updatedAt: now,
+    ...init,
+  };
+}
+
+/** Files of an expanded job that are neither written nor failed. */
+export function getPendingFiles(record: JobRecord): MoodleResource[] {
+  const failed = new Set(record.failures.map((f) => f.url));
+  return (record.files || []).filter((f) => !record.written[normalizeUrlKey(f.url)] && !failed.has(f.url));
+}
+
+/** Starts the job over (a new run cannot append to an archive written by an earlier run). */
+export function resetJobProgress(record: JobRecord): void {
+  /* eslint-disable no-param-reassign */
+  record.files = undefined;
+  record.written = {};
+  record.failures = [];
+  record.zip = undefined;
+  /* eslint-enable no-param-reassign */
+}
+
+/**
+ * Decides whether a ZIP job can continue its archive. `availableBytes` is how much of the
+ * archive survived (stored parts, bytes on disk); it must cover the checkpoint, otherwise
+ * the job starts over. Files written after the checkpoint are not in the archive anymore.
+ */
+export function restoreZipCheckpoint(record: JobRecord, availableBytes: number): ZipCheckpoint | undefined {
+  const checkpoint = record.zip;
+  if (!checkpoint || checkpoint.offset > availableBytes) {
+    resetJobProgress(record);
+    return undefined;
+  }
+
+  const names = new Set(checkpoint.entries.map((e) => e.name));
+  for (const [key, entry] of Object.entries(record.written)) {
+    // eslint-disable-next-line no-param-reassign
+    if (!entry.path || !names.has(entry.path)) delete record.written[key];
+  }
+  return checkpoint;
+}
+
+export function toJobSummary(record: JobRecord, active: boolean): JobSummary {
+  return {
+    id: record.id,
+    output: record.output,
+    transport: record.transport,
+    sync: record.sync,
+    state: record.state,
+    total: record.files?.length ?? record.resources.length,
+    done: Object.keys(record.written).length,
+    failed: record.failures.length,
+    active,
+    resumed: !!record.resumed,
+    loginUrl: record.login?.loginUrl,
+  };
+}
+
+/** Courses the job's selection came from, once each (site and course id, or name without id) */
+export function getJobCourses(record: JobRecord): HistoryCourse[] {
+  const courses = new Map<string, HistoryCourse>();
+  for (const r of record.resources) {
+    const site = getTrackingSite(r.url);
+    const key = `${site}|${r.courseId ?? r.courseName ?? ''}`;
+    const known = courses.get(key);
+    if (known) {
+      if (!known.name && r.courseName) known.name = r.courseName;
+      continue;
+    }
+    courses.set(key, { site, id: r.courseId, name: r.courseName });
+  }
+  return [...courses.values()];
+}
+
+export function toHistoryEntry(
+  record: JobRecord,
+  state: DownloadHistoryEntry['state'],
+  now = Date.now(),
+): DownloadHistoryEntry {
+  return {
+    id: record.id,
+    state,
+    output: record.output,
+    startedAt: record.createdAt,
+    finishedAt: now,
+    courses: getJobCourses(record),
+    fileCount: Object.keys(record.written).length,
+    failures: record.failures,
+  };
+}
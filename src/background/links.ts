@@ -0,0 +1,216 @@
+/*
+ * URL activities (mod/url).
+ *
+ * While a job expands its resources, each URL activity is resolved to its target: Moodle
+ * either redirects view.php there or shows a page with the link (embedded, in a frame or
+ * as "click the link"). Targets that are files on the same Moodle are downloaded like any
+ * other file; everything else ends up in link documents written at the end of the job:
+ *
+ * - files: `Links.md` per section plus a `.url` (Windows) and `.desktop` (Linux) shortcut per link
+ * - index: one `links.html` per course
+ */
+
+import type { LinkFormat, MoodleResource, RetryPolicy } from '../shared/types';
+import { DOWNLOADABLE_EXTENSIONS } from '../shared/constants';
+import { getFileExtensionFromUrl, guessFileType, sanitizeFileName } from '../shared/utils';
+import { fetchWithRetry, getLoginUrl, isLoginResponse, type RequestFailure } from './fetcher';
+import { DEFAULT_RETRY_POLICY } from './retry';
+
+/** A file built from the links of a job, relative to the output root */
+export interface LinkFile {
+  path: string;
+  fileName: string;
+  content: string;
+  contentType: string;
+}
+
+const URL_VIEW_PATH = /\/mod\/url\/view\.php/i;
+
+function decodeAttribute(value: string): string {
+  return value.replace(/&amp;/g, '&');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function absolute(href: string | undefined, baseUrl: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(decodeAttribute(href), baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Target of a URL activity page that did not redirect: the "click the link" hint, the
+ * embedded object or the content frame.
+ */
+export function extractUrlTarget(html: string, baseUrl: string): string | undefined {
+  const workaround =
+    /class\s*=\s*"[^"]*\burlworkaround\b[^"]*"[\s\S]*?<a\b[^>]*?\bhref\s*=\s*"([^"]+)"/i.exec(html);
+  if (workaround) return absolute(workaround[1], baseUrl);
+
+  const embedded = /<(?:iframe|object|embed)\b[^>]*\bid\s*=\s*"resourceobject"[^>]*>/i.exec(html);
+  const embeddedSrc = embedded && /\b(?:src|data)\s*=\s*"([^"]+)"/i.exec(embedded[0]);
+  if (embeddedSrc) return absolute(embeddedSrc[1], baseUrl);
+
+  for (const frame of html.matchAll(/<frame\b[^>]*\bsrc\s*=\s*"([^"]+)"/gi)) {
+    const src = absolute(frame[1], baseUrl);
+    if (src && !URL_VIEW_PATH.test(src)) return src;
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a URL activity to its target. Requests that fail leave the activity's own
+ * address as target (it still redirects once Moodle is reachable); only Moodle's login page
+ * is reported, so the job can wait for a new login.
+ */
+export async function resolveUrlActivity(
+  activity: MoodleResource,
+  signal: AbortSignal | undefined,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<{ ok: true; target: string } | { ok: false; failure: RequestFailure; loginUrl: string }> {
+  if (activity.target) return { ok: true, target: activity.target };
+
+  let fetched;
+  try {
+    fetched = await fetchWithRetry(activity.url, 45000, { signal }, policy);
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return { ok: true, target: activity.url };
+  }
+
+  const { response } = fetched;
+  if (!response) return { ok: true, target: activity.url };
+
+  // Redirected away from view.php: the target, however it answered
+  if (response.url && !URL_VIEW_PATH.test(response.url) && !isLoginResponse(response)) {
+    await response.body?.cancel().catch(() => undefined);
+    return { ok: true, target: response.url };
+  }
+
+  const html = response.ok ? await response.text() : '';
+  if (!response.ok) await response.body?.cancel().catch(() => undefined);
+  if (isLoginResponse(response, html.slice(0, 65536))) {
+    const failure: RequestFailure = { reason: 'likely_login_required', attempts: fetched.attempts };
+    return { ok: false, failure, loginUrl: getLoginUrl(response, activity.url) };
+  }
+
+  return { ok: true, target: extractUrlTarget(html, response.url || activity.url) ?? activity.url };
+}
+
+/** Whether `target` is a file on the same Moodle as `activityUrl` (downloaded instead of linked) */
+export function isMoodleFileTarget(target: string, activityUrl: string): boolean {
+  try {
+    const u = new URL(target);
+    if (u.origin !== new URL(activityUrl).origin) return false;
+    const lower = target.toLowerCase();
+    if (lower.includes('/pluginfile.php') || lower.includes('forcedownload=1')) return true;
+    const extension = getFileExtensionFromUrl(lower);
+    return !!extension && DOWNLOADABLE_EXTENSIONS.has(extension);
+  } catch {
+    return false;
+  }
+}
+
+/** The resolved activity: a file resource for Moodle files, else the link with its target */
+export function toResolvedResource(activity: MoodleResource, target: string): MoodleResource {
+  if (isMoodleFileTarget(target, activity.url)) {
+    return {
+      id: activity.id,
+      name: activity.name,
+      url: target,
+      type: 'file',
+      fileType: guessFileType(target, activity.name),
+      path: activity.path,
+    };
+  }
+  return { ...activity, target };
+}
+
+function groupBy(links: MoodleResource[], key: (l: MoodleResource) => string): Map<string, MoodleResource[]> {
+  const groups = new Map<string, MoodleResource[]>();
+  for (const l of links) {
+    const k = key(l);
+    groups.set(k, [...(groups.get(k) ?? []), l]);
+  }
+  return groups;
+}
+
+function markdownLink(link: MoodleResource): string {
+  const text = link.name.replace(/([[\]\\])/g, '\\$1');
+  return `- [${text}](<${link.target ?? link.url}>)`;
+}
+
+function buildLinksMarkdown(section: string, links: MoodleResource[]): string {
+  const title = section.split('/').pop() || 'Links';
+  return [`# ${title}`, '', ...links.map(markdownLink), ''].join('\n');
+}
+
+function buildLinksHtml(course: string, links: MoodleResource[]): string {
+  const sections = groupBy(links, (l) => l.path.split('/').slice(1).join('/'));
+  const body: string[] = [];
+  for (const [section, sectionLinks] of sections) {
+    if (section) body.push(`<h2>${escapeHtml(section)}</h2>`);
+    body.push('<ul>');
+    for (const l of sectionLinks) {
+      const href = escapeHtml(l.target ?? l.url);
+      body.push(`<li><a href="${href}">${escapeHtml(l.name)}</a> <small>${href}</small></li>`);
+    }
+    body.push('</ul>');
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(course || 'Links')}</title>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(course || 'Links')}</h1>`,
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/** Link documents for the resolved URL activities of a job (see the formats above) */
+export function buildLinkFiles(links: MoodleResource[], format: LinkFormat = 'files'): LinkFile[] {
+  const files: LinkFile[] = [];
+
+  if (format === 'index') {
+    for (const [course, courseLinks] of groupBy(links, (l) => l.path.split('/')[0] ?? '')) {
+      const content = buildLinksHtml(course, courseLinks);
+      files.push({ path: course, fileName: 'links.html', content, contentType: 'text/html' });
+    }
+    return files;
+  }
+
+  for (const [section, sectionLinks] of groupBy(links, (l) => l.path)) {
+    const content = buildLinksMarkdown(section, sectionLinks);
+    files.push({ path: section, fileName: 'Links.md', content, contentType: 'text/markdown' });
+
+    for (const l of sectionLinks) {
+      const name = sanitizeFileName(l.name);
+      const target = l.target ?? l.url;
+      files.push({
+        path: section,
+        fileName: `${name}.url`,
+        content: `[InternetShortcut]\r\nURL=${target}\r\n`,
+        contentType: 'application/octet-stream',
+      });
+      files.push({
+        path: section,
+        fileName: `${name}.desktop`,
+        content: `[Desktop Entry]\nType=Link\nName=${l.name.replace(/\s+/g, ' ')}\nURL=${target}\n`,
+        contentType: 'application/octet-stream',
+      });
+    }
+  }
+  return files;
+}
@@ -0,0 +1,454 @@
+/*
+ * Media resolvers: recorded lectures behind video players.
+ *
+ * H5P activities, LTI tools (Kaltura, Opencast), Kaltura video resources and players embedded
+ * in labels have no file link. While a job expands its resources, the page of such a video
+ * resource is fetched and every resolver in MEDIA_RESOLVERS looks for the players it knows.
+ * A resolver returns direct media URLs: the best MP4 of a video, or an HLS playlist that
+ * hls.ts downloads. Another platform is supported by adding a resolver to the list.
+ *
+ * Works on the HTML string (no DOM), so it also runs in Chrome's service worker.
+ */
+
+import type { MoodleResource, RetryPolicy } from '../shared/types';
+import { sanitizeFileName } from '../shared/utils';
+import {
+  fetchWithRetry,
+  getLoginUrl,
+  isLoginResponse,
+  toRequestFailure,
+  type RequestFailure,
+} from './fetcher';
+import { DEFAULT_RETRY_POLICY } from './retry';
+
+/** A page to look for players on: an activity page or the address of an embedded player */
+export interface MediaPage {
+  url: string;
+  html: string;
+}
+
+/** Requests resolvers may make (player configs, LTI launch forms, platform APIs) */
+export interface MediaContext {
+  /** Body of `url` as text; undefined if the request failed */
+  fetchText(url: string): Promise<string | undefined>;
+}
+
+/** A direct media URL (MP4/WebM file or HLS playlist) */
+export interface MediaSource {
+  url: string;
+  title?: string;
+}
+
+export interface MediaResolver {
+  id: string;
+  resolve(page: MediaPage, context: MediaContext): Promise<MediaSource[]>;
+}
+
+const MEDIA_FILE = /\.(mp4|m4v|webm|mov|ogv|m3u8)(?:[?#]|$)/i;
+const OPENCAST_ID = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+
+function decodeAttribute(value: string): string {
+  return value.replace(/&amp;/g, '&');
+}
+
+function absolute(href: string | undefined, baseUrl: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    const url = new URL(decodeAttribute(href), baseUrl);
+    return /^https?:$/.test(url.protocol) ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Whether `url` is a media file or HLS playlist that can be downloaded as it is */
+export function isDirectMediaUrl(url: string): boolean {
+  try {
+    return MEDIA_FILE.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+export function isHlsUrl(url: string): boolean {
+  try {
+    return /\.m3u8$/i.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/** Height from a quality label ("720p", "1080", size="720"); 0 if there is none */
+function parseQuality(text: string | undefined): number {
+  const match = text && /(\d{3,4})p?\b/i.exec(text);
+  return match ? Number(match[1]) : 0;
+}
+
+/** The source to download: highest quality first, MP4 before other formats */
+function pickBest<T>(sources: T[], quality: (s: T) => number, url: (s: T) => string): T | undefined {
+  const score = (s: T) => quality(s) * 10 + (/\.mp4(?:[?#]|$)/i.test(url(s)) ? 1 : 0);
+  return [...sources].sort((a, b) => score(b) - score(a))[0];
+}
+
+/**
+ * The JSON object literal that starts at the first `{` at or after `start`
+ * (strings and escapes respected), parsed; undefined if it is not valid JSON.
+ */
+export function readJsonObject(text: string, start: number): unknown {
+  const begin = text.indexOf('{', start);
+  if (begin === -1) return undefined;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = begin; i < text.length; i += 1) {
+    const c = text[i];
+    if (inString) {
+      if (c === '\\') i += 1;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === '{') {
+      depth += 1;
+    } else if (c === '}') {
+      depth -= 1;
+      if (depth === 0) {
+        try {
+          return JSON.parse(text.slice(begin, i + 1));
+        } catch {
+          return undefined;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/** `<video>` tags (Moodle's media player, files in Page activities): the best of their sources */
+export const html5VideoResolver: MediaResolver = {
+  id: 'html5',
+  async resolve(page) {
+    const found: MediaSource[] = [];
+    for (const [tag] of page.html.matchAll(/<video\b[\s\S]*?(?:<\/video\s*>|$)/gi)) {
+      const sources: Array<{ url: string; quality: number }> = [];
+      for (const m of tag.matchAll(/<(?:video|source)\b[^>]*>/gi)) {
+        const url = absolute(/\bsrc\s*=\s*"([^"]+)"/i.exec(m[0])?.[1], page.url);
+        if (!url || (!isDirectMediaUrl(url) && !url.includes('/pluginfile.php'))) continue;
+        const label = /\b(?:size|res|data-res|data-quality|label)\s*=\s*"([^"]*)"/i.exec(m[0])?.[1];
+        sources.push({
+          url,
+          quality: parseQuality(label) || parseQuality(/[_.-](\d{3,4}p)\b/i.exec(url)?.[1]),
+        });
+      }
+      const best = pickBest(
+        sources,
+        (s) => s.quality,
+        (s) => s.url,
+      );
+      const title = /\btitle\s*=\s*"([^"]+)"/i.exec(tag)?.[1];
+      if (best) found.push({ url: best.url, title });
+    }
+    return found;
+  },
+};
+
+interface H5PVideoFile {
+  path: string;
+  mime: string;
+  metadata?: { qualityName?: string };
+}
+
+function isH5PVideoFile(node: unknown): node is H5PVideoFile {
+  const file = node as H5PVideoFile;
+  return typeof file?.path === 'string' && typeof file.mime === 'string' && file.mime.startsWith('video/');
+}
+
+/** Video files of an H5P content: every list of files is one video in several qualities. */
+function collectH5PVideos(node: unknown, out: H5PVideoFile[][]): void {
+  if (Array.isArray(node)) {
+    const videos = node.filter(isH5PVideoFile);
+    if (videos.length > 0) out.push(videos);
+    for (const child of node) if (!isH5PVideoFile(child)) collectH5PVideos(child, out);
+  } else if (node && typeof node === 'object') {
+    for (const child of Object.values(node)) collectH5PVideos(child, out);
+  }
+}
+
+/** Videos of the contents in an `H5PIntegration` settings object (H5P embed page) */
+export function extractH5PVideos(html: string, baseUrl: string): MediaSource[] {
+  const at = html.search(/\bH5PIntegration\s*=/);
+  const integration = at === -1 ? undefined : (readJsonObject(html, at) as any);
+  const found: MediaSource[] = [];
+
+  for (const content of Object.values<any>(integration?.contents ?? {})) {
+    let json: unknown;
+    try {
+      json = JSON.parse(content?.jsonContent ?? '');
+    } catch {
+      continue;
+    }
+    const contentUrl = String(content?.contentUrl ?? '').replace(/\/?$/, '/');
+    const videos: H5PVideoFile[][] = [];
+    collectH5PVideos(json, videos);
+
+    for (const files of videos) {
+      const sources = files
+        .map((f) => ({
+          url: absolute(f.path.replace(/#tmp$/, ''), absolute(contentUrl, baseUrl) ?? baseUrl),
+          quality: parseQuality(f.metadata?.qualityName),
+        }))
+        .filter((s): s is { url: string; quality: number } => !!s.url && isDirectMediaUrl(s.url));
+      const best = pickBest(
+        sources,
+        (s) => s.quality,
+        (s) => s.url,
+      );
+      if (best) found.push({ url: best.url, title: content?.title ?? content?.metadata?.title });
+    }
+  }
+  return found;
+}
+
+/** H5P activities and embeds: the videos in the content of the H5P embed page */
+export const h5pResolver: MediaResolver = {
+  id: 'h5p',
+  async resolve(page, context) {
+    if (/\bH5PIntegration\s*=/.test(page.html)) return extractH5PVideos(page.html, page.url);
+
+    const embeds = new Set<string>();
+    if (page.url.includes('/h5p/embed.php')) embeds.add(page.url);
+    for (const m of page.html.matchAll(/<iframe\b[^>]*\bsrc\s*=\s*"([^"]*\/h5p\/embed\.php[^"]*)"/gi)) {
+      const url = absolute(m[1], page.url);
+      if (url) embeds.add(url);
+    }
+
+    const found: MediaSource[] = [];
+    for (const url of embeds) {
+      const html = await context.fetchText(url);
+      if (html) found.push(...extractH5PVideos(html, url));
+    }
+    return found;
+  },
+};
+
+/**
+ * Kaltura players (iframe embeds, Kaltura's Moodle plugins, KAF launches): entry and partner
+ * ID give the HLS playlist with all flavors, hls.ts picks the best one.
+ */
+export const kalturaResolver: MediaResolver = {
+  id: 'kaltura',
+  async resolve(page) {
+    const text = safeDecode(`${page.url}\n${decodeAttribute(page.html)}`);
+    if (!/kaltura/i.test(text)) return [];
+
+    const partnerId =
+      /\/p\/(\d+)\/sp\//i.exec(text)?.[1] ??
+      /\bpartner_?id["']?\s*[=:/]\s*["']?(\d+)/i.exec(text)?.[1] ??
+      /\/\/(\d+)\.kaf\.kaltura\.com/i.exec(text)?.[1];
+    if (!partnerId) return [];
+
+    const host =
+      new RegExp(`(https://[a-z0-9.-]+)/p/${partnerId}/sp/`, 'i').exec(text)?.[1] ??
+      'https://cdnapisec.kaltura.com';
+    const entryIds = new Set<string>();
+    for (const m of text.matchAll(/\bentry_?id["']?\s*[=:/]\s*["']?([01]_[a-z0-9]{6,})/gi)) {
+      if (m[1]) entryIds.add(m[1]);
+    }
+
+    return [...entryIds].map((entryId) => ({
+      url: `${host}/p/${partnerId}/sp/${partnerId}00/playManifest/entryId/${entryId}/format/applehttp/protocol/https/a.m3u8`,
+    }));
+  },
+};
+
+interface OpencastTrack {
+  type?: string;
+  mimetype?: string;
+  url?: string;
+  video?: { resolution?: string };
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Best track per flavor (presenter, presentation) of an Opencast search result */
+export function pickOpencastTracks(episode: any): MediaSource[] {
+  const result = toArray(episode?.['search-results']?.result)[0];
+  const mediapackage = result?.mediapackage;
+  const tracks = toArray<OpencastTrack>(mediapackage?.media?.track).filter(
+    (t) => t.url && t.video && (t.mimetype?.startsWith('video/') || isHlsUrl(t.url)),
+  );
+
+  const byFlavor = new Map<string, OpencastTrack[]>();
+  for (const t of tracks) {
+    const flavor = (t.type ?? '').split('/')[0] ?? '';
+    byFlavor.set(flavor, [...(byFlavor.get(flavor) ?? []), t]);
+  }
+
+  const title: string | undefined = mediapackage?.title ?? result?.dcTitle;
+  const found: MediaSource[] = [];
+  for (const [flavor, flavorTracks] of byFlavor) {
+    const best = pickBest(
+      flavorTracks.filter((t) => !isHlsUrl(t.url ?? '')).length > 0
+        ? flavorTracks.filter((t) => !isHlsUrl(t.url ?? ''))
+        : flavorTracks,
+      (t) => parseQuality(/x(\d+)$/.exec(t.video?.resolution ?? '')?.[1]),
+      (t) => t.url ?? '',
+    );
+    if (!best?.url) continue;
+    const suffix = byFlavor.size > 1 && flavor ? ` (${flavor})` : '';
+    found.push({ url: best.url, title: title ? `${title}${suffix}` : undefined });
+  }
+  return found;
+}
+
+/**
+ * Opencast players (`/play/<id>`, Paella and Engage players, LTI launches with `custom_id`):
+ * the tracks come from the search service of the Opencast server.
+ */
+export const opencastResolver: MediaResolver = {
+  id: 'opencast',
+  async resolve(page, context) {
+    const text = safeDecode(`${page.url}\n${decodeAttribute(page.html)}`);
+    const episodes = new Map<string, string>();
+
+    const players = new RegExp(
+      `(https?://[^\\s"'<>/]+)/(?:play/|[^\\s"'<>]*(?:paella|engage)[^\\s"'<>]*[?&]id=)(${OPENCAST_ID})`,
+      'gi',
+    );
+    for (const m of text.matchAll(players)) episodes.set(m[2] ?? '', m[1] ?? '');
+
+    // LTI launch form of the Opencast tool: the episode is a custom parameter
+    const launch = /<form\b[^>]*\baction\s*=\s*"(https?:\/\/[^"/]+)[^"]*"/i.exec(text);
+    const customId = new RegExp(
+      `name\\s*=\\s*"custom_(?:id|tool)"\\s+value\\s*=\\s*"[^"]*?(${OPENCAST_ID})`,
+      'i',
+    ).exec(text);
+    if (launch?.[1] && customId?.[1]) episodes.set(customId[1], launch[1]);
+
+    const found: MediaSource[] = [];
+    for (const [id, origin] of episodes) {
+      const json = await context.fetchText(`${origin}/search/episode.json?id=${encodeURIComponent(id)}`);
+      try {
+        if (json) found.push(...pickOpencastTracks(JSON.parse(json)));
+      } catch {
+        // not an Opencast search service
+      }
+    }
+    return found;
+  },
+};
+
+/** Resolvers in the order they are asked; all of them run on every page */
+export const MEDIA_RESOLVERS: MediaResolver[] = [
+  html5VideoResolver,
+  h5pResolver,
+  kalturaResolver,
+  opencastResolver,
+];
+
+/** LTI launch pages a video activity shows in an iframe (launch forms carry the tool's parameters) */
+async function withLaunchPages(page: MediaPage, context: MediaContext): Promise<MediaPage> {
+  let html = page.html;
+  for (const m of page.html.matchAll(/<iframe\b[^>]*\bsrc\s*=\s*"([^"]*launch\.php[^"]*)"/gi)) {
+    const url = absolute(m[1], page.url);
+    if (!url || new URL(url).origin !== new URL(page.url).origin) continue;
+    const launch = await context.fetchText(url);
+    if (launch) html += `\n${launch}`;
+  }
+  return { url: page.url, html };
+}
+
+/** Direct media of a page, each URL once. A resolver that fails does not stop the others. */
+export async function resolveMedia(
+  page: MediaPage,
+  context: MediaContext,
+  resolvers: MediaResolver[] = MEDIA_RESOLVERS,
+): Promise<MediaSource[]> {
+  const full = await withLaunchPages(page, context);
+  const found = new Map<string, MediaSource>();
+  for (const resolver of resolvers) {
+    try {
+      for (const source of await resolver.resolve(full, context)) {
+        if (!found.has(source.url)) found.set(source.url, source);
+      }
+    } catch {
+      // try the other resolvers
+    }
+  }
+  return [...found.values()];
+}
+
+/** The resolved media as video resources in the activity's folder */
+export function toMediaResources(activity: MoodleResource, sources: MediaSource[]): MoodleResource[] {
+  return sources.map((source, i) => {
+    let name = activity.name;
+    if (sources.length > 1)
+      name = source.title ? `${activity.name} - ${source.title}` : `${activity.name} ${i + 1}`;
+    return {
+      id: sanitizeFileName(`${activity.id}-video-${i + 1}`),
+      name: sanitizeFileName(name),
+      url: source.url,
+      type: 'video',
+      fileType: isHlsUrl(source.url)
+        ? 'm3u8'
+        : /\.(\w+)(?:[?#]|$)/.exec(source.url)?.[1]?.toLowerCase() || 'mp4',
+      path: activity.path,
+    };
+  });
+}
+
+/**
+ * Fetches the page of a video activity or player embed and resolves its media. Returns a
+ * failure for Moodle's login page (with `loginUrl`) and for pages without known players.
+ */
+export async function resolveMediaResource(
+  activity: MoodleResource,
+  signal: AbortSignal | undefined,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<
+  { ok: true; files: MoodleResource[] } | { ok: false; failure: RequestFailure; loginUrl?: string }
+> {
+  // Already resolved (or linked directly)
+  if (isDirectMediaUrl(activity.url)) return { ok: true, files: [activity] };
+
+  const fetched = await fetchWithRetry(activity.url, 45000, { signal }, policy);
+  const { response, attempts } = fetched;
+  const html = response?.ok ? await response.text() : '';
+  if (!response?.ok) await response?.body?.cancel().catch(() => undefined);
+  if (response?.ok && isLoginResponse(response, html.slice(0, 65536))) {
+    const failure: RequestFailure = { reason: 'likely_login_required', attempts };
+    return { ok: false, failure, loginUrl: getLoginUrl(response, activity.url) };
+  }
+
+  const context: MediaContext = {
+    async fetchText(url) {
+      try {
+        const { response: r } = await fetchWithRetry(url, 45000, { signal }, policy);
+        if (r?.ok) return await r.text();
+        await r?.body?.cancel().catch(() => undefined);
+      } catch (err) {
+        if (signal?.aborted) throw err;
+      }
+      return undefined;
+    },
+  };
+
+  const sources = await resolveMedia({ url: response?.url || activity.url, html }, context);
+  if (sources.length === 0) {
+    const failure: RequestFailure = response?.ok
+      ? { reason: 'unsupported_media', attempts }
+      : toRequestFailure(fetched);
+    return { ok: false, failure };
+  }
+  return { ok: true, files: toMediaResources(activity, sources) };
+}
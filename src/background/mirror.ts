@@ -0,0 +1,305 @@
+/*
+ * Mirror of the download tracking in chrome.storage.sync (opt-in), so the "new" badges agree
+ * between the devices of one browser account.
+ *
+ * Only a compact form is synced: per course the normalized URLs (without origin) with the
+ * timestamp and hash of the download. The sync area is small (100 KB, 8 KB per item), so the
+ * courses are packed most recently used first into chunks of one item each and the ones that do
+ * not fit are left out. Both directions merge per URL by the newest timestamp; removals travel as
+ * tombstones (negative timestamp) until every device has seen them.
+ */
+
+import type {
+  DownloadTrackingMap,
+  StoredDownload,
+  SyncedCourse,
+  SyncedFile,
+  TrackingSyncMeta,
+  TrackingSyncStatus,
+} from '../shared/types';
+import { SYNC_KEYS } from '../shared/constants';
+import { storage } from '../shared/storage';
+import { getCourseKey } from '../shared/tracking';
+
+export const MIRROR_VERSION = 1;
+
+/** Quotas of chrome.storage.sync (the same in Firefox) */
+const SYNC_QUOTA_BYTES = 102400;
+const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+
+/** Bytes the chunks may use in total; the rest is left for the meta item */
+export const MIRROR_BUDGET_BYTES = SYNC_QUOTA_BYTES - 4096;
+
+/** Bytes per chunk, leaving room for its key */
+const CHUNK_BYTES = SYNC_QUOTA_BYTES_PER_ITEM - 64;
+
+/** Tombstones older than this are dropped (a device offline for longer keeps the file) */
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** One synced file with its course */
+export interface MirrorEntry {
+  file: SyncedFile;
+  origin: string;
+  courseId?: number;
+  courseName?: string;
+}
+
+/** Synced files by normalized URL */
+export type Mirror = Record<string, MirrorEntry>;
+
+const encoder = new TextEncoder();
+
+/** Size as counted by the quota (JSON of the value, UTF-8) */
+function byteLength(value: unknown): number {
+  return encoder.encode(JSON.stringify(value)).length;
+}
+
+function chunkKey(index: number) {
+  return `${SYNC_KEYS.trackingChunk}${index}` as const;
+}
+
+function fileTime(file: SyncedFile): number {
+  return Math.abs(file[0]);
+}
+
+function isRemoved(file: SyncedFile): boolean {
+  return file[0] < 0;
+}
+
+function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return '';
+  }
+}
+
+function getFileName(url: string): string {
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : url;
+  } catch {
+    return url;
+  }
+}
+
+function toMirrorEntry(key: string, entry: StoredDownload): MirrorEntry {
+  const mirrored: MirrorEntry = {
+    file: entry.hash ? [entry.timestamp, entry.hash] : [entry.timestamp],
+    origin: getOrigin(key),
+  };
+  if (entry.courseId !== undefined) mirrored.courseId = entry.courseId;
+  if (entry.courseName) mirrored.courseName = entry.courseName;
+  return mirrored;
+}
+
+/** Mirror from the synced chunks; a course split over several chunks is joined again */
+export function decodeMirror(chunks: SyncedCourse[][]): Mirror {
+  const mirror: Mirror = {};
+  for (const course of chunks.flat()) {
+    for (const [path, file] of Object.entries(course.f ?? {})) {
+      if (!Array.isArray(file) || typeof file[0] !== 'number') continue;
+      const key = course.o + path;
+      const known = mirror[key];
+      if (known && fileTime(known.file) >= fileTime(file)) continue;
+
+      const entry: MirrorEntry = { file, origin: course.o };
+      if (course.c !== undefined) entry.courseId = course.c;
+      if (course.n) entry.courseName = course.n;
+      mirror[key] = entry;
+    }
+  }
+  return mirror;
+}
+
+/**
+ * Packs the mirror into chunks of at most one sync item each: courses ordered by their latest
+ * file (most recently used first), their files newest first. Packing stops when `budget` is
+ * used up, which leaves out the least recently used courses.
+ */
+export function encodeMirror(mirror: Mirror, budget = MIRROR_BUDGET_BYTES): SyncedCourse[][] {
+  const courses = new Map<
+    string,
+    { head: SyncedCourse; files: Array<[string, SyncedFile]>; latest: number }
+  >();
+  for (const [key, entry] of Object.entries(mirror)) {
+    if (!entry.origin || !key.startsWith(entry.origin)) continue;
+    const id = `${entry.origin} ${getCourseKey(entry)}`;
+    let course = courses.get(id);
+    if (!course) {
+      const head: SyncedCourse = { o: entry.origin, f: {} };
+      if (entry.courseId !== undefined) head.c = entry.courseId;
+      course = { head, files: [], latest: 0 };
+      courses.set(id, course);
+    }
+    if (entry.courseName) course.head.n = entry.courseName;
+    course.files.push([key.slice(entry.origin.length), entry.file]);
+    course.latest = Math.max(course.latest, fileTime(entry.file));
+  }
+
+  const chunks: SyncedCourse[][] = [];
+  let chunk: SyncedCourse[] = [];
+  let chunkBytes = 2;
+  let total = 0;
+  const closeChunk = () => {
+    if (chunk.length) {
+      chunks.push(chunk);
+      total += chunkBytes;
+    }
+    chunk = [];
+    chunkBytes = 2;
+  };
+
+  const sorted = [...courses.values()].sort((a, b) => b.latest - a.latest);
+  packing: for (const course of sorted) {
+    course.files.sort(([, a], [, b]) => fileTime(b) - fileTime(a));
+    const headBytes = byteLength(course.head) + 1;
+    let current: SyncedCourse | undefined;
+
+    for (const [path, file] of course.files) {
+      const fileBytes = byteLength(path) + byteLength(file) + 2;
+      // A URL too long for any chunk is not synced
+      if (2 + headBytes + fileBytes > CHUNK_BYTES) continue;
+      if (chunkBytes + fileBytes + (current ? 0 : headBytes) > CHUNK_BYTES) {
+        closeChunk();
+        current = undefined;
+      }
+      const cost = fileBytes + (current ? 0 : headBytes);
+      if (total + chunkBytes + cost > budget) break packing;
+
+      if (!current) {
+        current = { ...course.head, f: {} };
+        chunk.push(current);
+      }
+      current.f[path] = file;
+      chunkBytes += cost;
+    }
+  }
+  closeChunk();
+  return chunks;
+}
+
+/**
+ * Adds the local tracking to the mirror: local entries newer than the synced ones replace them
+ * and `removed` entries become tombstones. Expired tombstones are dropped.
+ */
+export function mergeIntoMirror(
+  mirror: Mirror,
+  local: DownloadTrackingMap,
+  removed: DownloadTrackingMap = {},
+  now = Date.now(),
+): Mirror {
+  const merged: Mirror = {};
+  for (const [key, entry] of Object.entries(mirror)) {
+    if (isRemoved(entry.file) && now - fileTime(entry.file) > TOMBSTONE_TTL_MS) continue;
+    merged[key] = entry;
+  }
+  for (const [key, entry] of Object.entries(local)) {
+    const known = merged[key];
+    if (!known || fileTime(known.file) < entry.timestamp) merged[key] = toMirrorEntry(key, entry);
+  }
+  for (const [key, entry] of Object.entries(removed)) {
+    if (!local[key]) merged[key] = { ...toMirrorEntry(key, entry), file: [-now] };
+  }
+  return merged;
+}
+
+/**
+ * Applies the mirror to the local tracking (in place): missing and older entries are taken
+ * over, files removed on another device after their download here are removed. Returns whether
+ * anything changed.
+ */
+export function applyMirror(local: DownloadTrackingMap, mirror: Mirror): boolean {
+  let changed = false;
+  for (const [key, entry] of Object.entries(mirror)) {
+    const known = local[key];
+    const time = fileTime(entry.file);
+
+    if (isRemoved(entry.file)) {
+      if (known && known.timestamp <= time) {
+        delete local[key];
+        changed = true;
+      }
+      continue;
+    }
+    if (known && known.timestamp >= time) continue;
+
+    // The server validators of an older local download do not describe the newer one
+    const next: StoredDownload = {
+      url: known?.url ?? key,
+      fileName: known?.fileName ?? getFileName(key),
+      timestamp: time,
+    };
+    const hash = entry.file[1];
+    if (hash) next.hash = hash;
+    if (known?.path) next.path = known.path;
+    const courseId = entry.courseId ?? known?.courseId;
+    const courseName = entry.courseName ?? known?.courseName;
+    if (courseId !== undefined) next.courseId = courseId;
+    if (courseName) next.courseName = courseName;
+    local[key] = next;
+    changed = true;
+  }
+  return changed;
+}
+
+/** The synced chunks; throws if another device wrote a newer format */
+async function readChunks(): Promise<{ meta?: TrackingSyncMeta; chunks: SyncedCourse[][] }> {
+  const meta = await storage.sync.get(SYNC_KEYS.trackingMeta);
+  if (!meta) return { chunks: [] };
+  if (meta.version > MIRROR_VERSION) throw new Error(`Tracking sync: unsupported version ${meta.version}`);
+
+  const chunks: SyncedCourse[][] = [];
+  for (let i = 0; i < meta.chunks; i++) {
+    const chunk = await storage.sync.get(chunkKey(i));
+    chunks.push(Array.isArray(chunk) ? chunk : []);
+  }
+  return { meta, chunks };
+}
+
+/** Takes the synced state over into `local` (in place); returns whether it changed */
+export async function pullTracking(local: DownloadTrackingMap): Promise<boolean> {
+  const { chunks } = await readChunks();
+  return applyMirror(local, decodeMirror(chunks));
+}
+
+/**
+ * Merges the local tracking (and the entries removed from it) into the sync area. Only chunks
+ * whose content changed are written, since the sync area allows few writes per minute.
+ */
+export async function pushTracking(
+  local: DownloadTrackingMap,
+  removed: DownloadTrackingMap = {},
+  now = Date.now(),
+): Promise<void> {
+  const { chunks: previous } = await readChunks();
+  const chunks = encodeMirror(mergeIntoMirror(decodeMirror(previous), local, removed, now));
+
+  let written = chunks.length !== previous.length;
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i] ?? [];
+    if (JSON.stringify(chunk) === JSON.stringify(previous[i])) continue;
+    await storage.sync.set(chunkKey(i), chunk);
+    written = true;
+  }
+  if (!written) return;
+
+  await storage.sync.set(SYNC_KEYS.trackingMeta, {
+    version: MIRROR_VERSION,
+    chunks: chunks.length,
+    updatedAt: now,
+  });
+  for (let i = chunks.length; i < previous.length; i++) await storage.sync.remove(chunkKey(i));
+}
+
+/** What is currently synced (for the options page) */
+export async function getMirrorStatus(enabled: boolean): Promise<TrackingSyncStatus> {
+  const { meta, chunks } = await readChunks();
+  const files = Object.values(decodeMirror(chunks)).filter((e) => !isRemoved(e.file));
+  const courses = new Set(files.map((e) => `${e.origin} ${getCourseKey(e)}`));
+  const bytes = chunks.reduce((sum, chunk, i) => sum + byteLength(chunk) + chunkKey(i).length, 0);
+
+  const status: TrackingSyncStatus = { enabled, courses: courses.size, files: files.length, bytes };
+  if (meta) status.updatedAt = meta.updatedAt;
+  return status;
+}
@@ -0,0 +1,63 @@
+/*
+ * Offscreen document (Chrome MV3). The service worker has neither DOMParser nor
+ * URL.createObjectURL: fetched pages are parsed there (courses.ts), and the bytes a
+ * background job stored in IndexedDB (its ZIP, or one loose file) get their blob: URL for
+ * chrome.downloads there.
+ */
+
+import type { OffscreenResponse } from '../shared/types';
+import { extAsync } from '../shared/ext';
+import { getExtApi } from '../shared/utils';
+import { idbGetJobParts } from '../shared/idb';
+
+const ext = getExtApi();
+
+let offscreenReady: Promise<void> | null = null;
+
+export async function ensureOffscreenDocument(): Promise<void> {
+  if (!offscreenReady) {
+    offscreenReady = ext.offscreen
+      .createDocument({
+        url: 'offscreen.html',
+        reasons: ['DOM_PARSER' as chrome.offscreen.Reason, 'BLOBS' as chrome.offscreen.Reason],
+        justification: 'Parse fetched Moodle course pages and save ZIP archives',
+      })
+      .catch((err: unknown) => {
+        // Still open from before a service worker restart
+        if (err instanceof Error && err.message.includes('single offscreen')) return;
+        offscreenReady = null;
+        throw err;
+      });
+  }
+  return offscreenReady;
+}
+
+/**
+ * blob: URL of the parts a job stored in IndexedDB, joined into one file of type `mimeType`.
+ * The parts are Blobs on disk, so the file is never read into memory: the Firefox background
+ * page creates the URL itself, Chrome's service worker asks the offscreen document.
+ */
+export async function createPartsUrl(
+  jobId: string,
+  mimeType: string,
+): Promise<{ url: string; revoke: () => void }> {
+  if (typeof URL.createObjectURL === 'function') {
+    const url = URL.createObjectURL(new Blob(await idbGetJobParts(jobId), { type: mimeType }));
+    return { url, revoke: () => URL.revokeObjectURL(url) };
+  }
+
+  await ensureOffscreenDocument();
+  const resp = await extAsync.runtimeSendMessage<OffscreenResponse>({
+    type: 'MD_OFFSCREEN_PARTS_URL',
+    jobId,
+    mimeType,
+  });
+  if (resp?.type !== 'MD_OFFSCREEN_PARTS_URL_RESULT' || !resp.url) throw new Error('Stored file not found');
+  const { url } = resp;
+  return {
+    url,
+    revoke: () => {
+      void extAsync.runtimeSendMessage({ type: 'MD_OFFSCREEN_REVOKE', url }).catch(() => undefined);
+    },
+  };
+}
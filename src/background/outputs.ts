@@ -0,0 +1,347 @@
+/*
+ * Job outputs: where fetched files end up.
+ *
+ * - zip:       one streamed ZIP archive (port to the popup or Blob for chrome.downloads)
+ * - files:     loose files streamed to the popup, which writes them into the chosen folder
+ * - downloads: loose files stored in IndexedDB, then handed to chrome.downloads with relative paths
+ */
+
+import type {
+  MoodleResource,
+  NamingSettings,
+  StoredDownload,
+  StreamPortMessageFromBackground,
+  ZipCheckpoint,
+} from '../shared/types';
+import { PRECOMPRESSED_EXTENSIONS } from '../shared/constants';
+import { ensureUniquePath, getExtApi, joinZipPath, uint8ToBase64 } from '../shared/utils';
+import { idbDeleteJobParts, idbPutJobPart } from '../shared/idb';
+import { extAsync } from '../shared/ext';
+import { renderFilePath } from '../shared/naming';
+import { Sha256 } from '../shared/sha256';
+import type { OpenedFile } from './fetcher';
+import { createPartsUrl } from './offscreen';
+import { createChunkCoalescer, ZipWriter, type ZipChunkEmitter } from './zip';
+
+export const STREAM_CHUNK_SIZE = 1024 * 1024; // 1 MiB
+/** Max. number of unacknowledged chunks in flight to the popup */
+const STREAM_WINDOW = 4;
+
+export interface JobOutput {
+  kind: 'zip' | 'files' | 'downloads';
+  /** Files are written one at a time (ZIP entries, port streams) */
+  serial: boolean;
+  /** Set once the output broke (e.g. popup closed); the job stops then */
+  error?: Error;
+  /**
+   * Writes one file and returns what should be tracked about it.
+   * `previous` is the tracking entry from the last download of the same URL.
+   */
+  writeFile(
+    file: MoodleResource,
+    opened: OpenedFile,
+    previous?: StoredDownload,
+  ): Promise<Partial<StoredDownload>>;
+  /** Completes the output. Returns the number of bytes written. */
+  finish(): Promise<number>;
+  /** ZIP only: archive state after the last written file (persisted with the job) */
+  getCheckpoint?(): ZipCheckpoint;
+}
+
+export interface ZipOutputOptions {
+  /** Continue an archive from an earlier run instead of starting a new one */
+  checkpoint?: ZipCheckpoint;
+  /** Runs after each entry, before the checkpoint is taken (e.g. flush buffered chunks) */
+  afterEntry?: () => Promise<void>;
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function shouldCompress(fileName: string): boolean {
+  const match = fileName.toLowerCase().match(/\.([a-z0-9]{1,6})$/);
+  return !match?.[1] || !PRECOMPRESSED_EXTENSIONS.has(match[1]);
+}
+
+export function createZipOutput(emit: ZipChunkEmitter, options: ZipOutputOptions = {}): JobOutput {
+  const { checkpoint, afterEntry } = options;
+  const existingPaths = new Set<string>(checkpoint?.entries.map((e) => e.name));
+  let error: Error | undefined;
+
+  const zip = new ZipWriter(async (chunk) => {
+    try {
+      await emit(chunk);
+    } catch (err) {
+      error = error ?? toError(err);
+      throw err;
+    }
+  }, checkpoint);
+  let lastCheckpoint = checkpoint ?? zip.getCheckpoint();
+
+  return {
+    kind: 'zip',
+    serial: true,
+
+    get error() {
+      return error;
+    },
+
+    async writeFile(file, opened) {
+      const fullPath = ensureUniquePath(existingPaths, joinZipPath(file.path, opened.fileName));
+      const hasher = new Sha256();
+      let size = 0;
+      try {
+        await zip.addEntry(
+          fullPath,
+          opened.body((chunk) => {
+            hasher.update(chunk);
+            size += chunk.byteLength;
+          }),
+          { compress: shouldCompress(opened.fileName) },
+        );
+        await afterEntry?.();
+      } catch (err) {
+        existingPaths.delete(fullPath);
+        throw err;
+      }
+      // Taken right here: the next entry may already be on its way once this one returns.
+      lastCheckpoint = zip.getCheckpoint();
+      return { hash: hasher.digestHex(), path: fullPath, size };
+    },
+
+    finish: () => zip.finish(),
+
+    getCheckpoint: () => lastCheckpoint,
+  };
+}
+
+export interface StreamPortSender {
+  readonly disconnected: boolean;
+  /** Sends a binary chunk; waits while too many chunks are unacknowledged */
+  sendChunk(chunk: Uint8Array): Promise<void>;
+  /** Sends a control message (not subject to the ACK window) */
+  post(msg: StreamPortMessageFromBackground): void;
+  onAck(index: number): void;
+}
+
+/**
+ * Chunk sender with a small ACK window. The popup acknowledges every written chunk,
+ * so memory stays bounded on both sides even if the disk is slower than the network.
+ */
+export function createStreamPortSender(port: chrome.runtime.Port): StreamPortSender {
+  let disconnected = false;
+  let sentChunks = 0;
+  let ackedChunks = 0;
+  let wakeSender: (() => void) | null = null;
+
+  const wake = () => {
+    const fn = wakeSender;
+    wakeSender = null;
+    fn?.();
+  };
+
+  const waitForAck = () =>
+    new Promise<void>((resolve) => {
+      wakeSender = resolve;
+    });
+
+  port.onDisconnect.addListener(() => {
+    disconnected = true;
+    wake();
+  });
+
+  return {
+    get disconnected() {
+      return disconnected;
+    },
+
+    async sendChunk(chunk) {
+      while (!disconnected && sentChunks - ackedChunks >= STREAM_WINDOW) {
+        await waitForAck();
+      }
+      if (disconnected) throw new Error('Stream disconnected');
+
+      port.postMessage({ type: 'MD_STREAM_CHUNK', index: sentChunks, data: uint8ToBase64(chunk) });
+      sentChunks += 1;
+    },
+
+    post(msg) {
+      if (disconnected) throw new Error('Stream disconnected');
+      port.postMessage(msg);
+    },
+
+    onAck(index) {
+      ackedChunks = Math.max(ackedChunks, index + 1);
+      wake();
+    },
+  };
+}
+
+/** Loose files streamed to the popup (directory mode). */
+export function createFilesPortOutput(sender: StreamPortSender): JobOutput {
+  const existingPaths = new Set<string>();
+  let bytesWritten = 0;
+
+  const output: JobOutput = {
+    kind: 'files',
+    serial: true,
+
+    async writeFile(file, opened, previous) {
+      const fullPath = ensureUniquePath(existingPaths, joinZipPath(file.path, opened.fileName));
+      const hasher = new Sha256();
+      let hash: string;
+      let size = 0;
+      const coalescer = createChunkCoalescer(STREAM_CHUNK_SIZE, async (chunk) => {
+        await sender.sendChunk(chunk);
+        bytesWritten += chunk.byteLength;
+      });
+
+      try {
+        sender.post({ type: 'MD_STREAM_FILE_START', path: fullPath, knownHash: previous?.hash });
+        try {
+          for await (const chunk of opened.body((c) => hasher.update(c))) {
+            size += chunk.byteLength;
+            await coalescer.push(chunk);
+          }
+          await coalescer.flush();
+        } catch (err) {
+          if (!sender.disconnected) sender.post({ type: 'MD_STREAM_FILE_ABORT', path: fullPath });
+          throw err;
+        }
+        hash = hasher.digestHex();
+        sender.post({ type: 'MD_STREAM_FILE_END', path: fullPath, hash });
+      } catch (err) {
+        existingPaths.delete(fullPath);
+        if (sender.disconnected) output.error = output.error ?? toError(err);
+        throw err;
+      }
+
+      return { hash, path: fullPath, size };
+    },
+
+    async finish() {
+      return bytesWritten;
+    },
+  };
+
+  return output;
+}
+
+/** A file could not be saved (download interrupted, disk full, path refused, storage full) */
+export class SaveError extends Error {
+  override name = 'SaveError';
+}
+
+/** Resolves once the download is complete; rejects with a SaveError when it was interrupted. */
+function waitForDownload(downloadId: number): Promise<void> {
+  const ext = getExtApi();
+  return new Promise((resolve, reject) => {
+    const onChanged = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id !== downloadId) return;
+      if (delta.state?.current === 'complete') {
+        ext.downloads.onChanged.removeListener(onChanged);
+        resolve();
+      } else if (delta.state?.current === 'interrupted') {
+        ext.downloads.onChanged.removeListener(onChanged);
+        reject(new SaveError(delta.error?.current || 'Download interrupted'));
+      }
+    };
+    ext.downloads.onChanged.addListener(onChanged);
+  });
+}
+
+/**
+ * Loose files via chrome.downloads. The bytes fetched for the file (with retries and the
+ * login check) are stored in IndexedDB under the job's ID, one part per chunk, and saved from
+ * there (see createPartsUrl), so each file is requested once and never held in memory. Files
+ * go one at a time: the parts of a file are deleted once the browser is done with it.
+ * A download the browser does not complete fails with a SaveError.
+ */
+export function createDownloadsOutput(jobId: string): JobOutput {
+  const existingPaths = new Set<string>();
+  let bytesWritten = 0;
+
+  return {
+    kind: 'downloads',
+    serial: true,
+
+    async writeFile(file, opened) {
+      const hasher = new Sha256();
+      let size = 0;
+      let index = 0;
+      const coalescer = createChunkCoalescer(STREAM_CHUNK_SIZE, async (chunk) => {
+        try {
+          await idbPutJobPart(jobId, index, new Blob([chunk]));
+        } catch (err) {
+          throw new SaveError(toError(err).message);
+        }
+        index += 1;
+      });
+
+      try {
+        // Left over from a file the terminated service worker did not finish
+        await idbDeleteJobParts(jobId);
+        for await (const chunk of opened.body((c) => hasher.update(c))) {
+          size += chunk.byteLength;
+          await coalescer.push(chunk);
+        }
+        await coalescer.flush();
+      } catch (err) {
+        await idbDeleteJobParts(jobId).catch(() => undefined);
+        throw err;
+      }
+
+      const type = opened.response.headers.get('content-type')?.split(';')[0] || 'application/octet-stream';
+      const fullPath = ensureUniquePath(existingPaths, joinZipPath(file.path, opened.fileName));
+      let revoke: () => void = () => undefined;
+      try {
+        const stored = await createPartsUrl(jobId, type);
+        revoke = stored.revoke;
+        const downloadId = await extAsync.downloadsDownload({
+          url: stored.url,
+          filename: fullPath,
+          conflictAction: 'overwrite',
+          saveAs: false,
+        });
+        await waitForDownload(downloadId);
+      } catch (err) {
+        existingPaths.delete(fullPath);
+        throw err instanceof SaveError ? err : new SaveError(toError(err).message);
+      } finally {
+        revoke();
+        await idbDeleteJobParts(jobId).catch(() => undefined);
+      }
+      bytesWritten += size;
+      return { hash: hasher.digestHex(), path: fullPath, size };
+    },
+
+    async finish() {
+      return bytesWritten;
+    },
+  };
+}
+
+/**
+ * Places each file by the naming templates (src/shared/naming.ts) before it is written into
+ * `output`. `date` is the job's date for `{date}`; checkpoints are taken from `output` itself.
+ */
+export function createNamedOutput(output: JobOutput, naming: NamingSettings, date: Date): JobOutput {
+  return {
+    kind: output.kind,
+    serial: output.serial,
+
+    get error() {
+      return output.error;
+    },
+
+    writeFile(file, opened, previous) {
+      const fullPath = renderFilePath(file, opened.fileName, naming, date);
+      const slash = fullPath.lastIndexOf('/');
+      const placed: MoodleResource = { ...file, path: slash === -1 ? '' : fullPath.slice(0, slash) };
+      return output.writeFile(placed, { ...opened, fileName: fullPath.slice(slash + 1) }, previous);
+    },
+
+    finish: () => output.finish(),
+  };
+}
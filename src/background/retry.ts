@@ -0,0 +1,73 @@
+/*
+ * Retry policy for requests to Moodle.
+ *
+ * 429 and 503 wait as long as the server asks (Retry-After). Network errors, timeouts and
+ * other transient statuses are retried with exponential backoff and full jitter, so parallel
+ * downloads do not hit the server again at the same moment. Everything else (403, 404, ...)
+ * fails on the first attempt.
+ */
+
+import type { RetryPolicy } from '../shared/types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 120000,
+};
+
+/** Outcome of one attempt: a response status, or why no response arrived */
+export type AttemptOutcome = { status: number; retryAfter?: string | null } | 'timeout' | 'network_error';
+
+/** Statuses that are retried with backoff even without Retry-After */
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/** Applies stored overrides to the defaults; values that make no sense are ignored. */
+export function resolveRetryPolicy(overrides?: Partial<RetryPolicy>): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const key of Object.keys(policy) as Array<keyof RetryPolicy>) {
+    const value = overrides?.[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) policy[key] = value;
+  }
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  return policy;
+}
+
+/** Retry-After in ms (delta seconds or an HTTP date); undefined if missing or invalid. */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Full jitter: a random delay up to `baseDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs`. */
+export function getBackoffDelay(policy: RetryPolicy, attempt: number, random = Math.random): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * cap);
+}
+
+/**
+ * How long to wait before the next attempt after attempt number `attempt` ended with
+ * `outcome`. Undefined means: do not retry (success, permanent error or attempts used up).
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  outcome: AttemptOutcome,
+  random = Math.random,
+): number | undefined {
+  if (attempt >= policy.maxAttempts) return undefined;
+  if (outcome === 'timeout' || outcome === 'network_error') return getBackoffDelay(policy, attempt, random);
+
+  const { status } = outcome;
+  if (!TRANSIENT_STATUSES.has(status)) return undefined;
+
+  if (status === 429 || status === 503) {
+    const retryAfter = parseRetryAfter(outcome.retryAfter);
+    if (retryAfter !== undefined) return retryAfter <= policy.maxRetryAfterMs ? retryAfter : undefined;
+  }
+  return getBackoffDelay(policy, attempt, random);
+}
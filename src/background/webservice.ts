@@ -0,0 +1,248 @@
+/*
+ * Moodle Web Services (REST) resource provider.
+ *
+ * Alternative to DOM scraping for themes where the selectors in constants.ts do not match.
+ * Uses the mobile app service token (entered by the user or requested via login/token.php)
+ * and maps core_course_get_contents to the same MoodleResource list the content script
+ * produces, so downloads go through the regular job pipeline.
+ */
+
+import type { MoodleResource } from '../shared/types';
+import { MEDIA_MODULES } from '../shared/constants';
+import { guessFileType, sanitizeFileName } from '../shared/utils';
+import { fetchWithTimeout } from './fetcher';
+
+/** Service the official Moodle app uses; enabled on most sites that allow the app */
+export const WS_SERVICE = 'moodle_mobile_app';
+
+/** Modules that need their own handling instead of plain file downloads */
+const SKIPPED_MODULES = new Set(['forum', 'label']);
+
+/** Modules exported as HTML documents from their page (with the browser session, see documents.ts) */
+const DOCUMENT_MODULES = new Set(['page', 'book']);
+
+export interface WsSiteInfo {
+  userid: number;
+  sitename: string;
+  siteurl: string;
+  release?: string;
+}
+
+export interface WsCourse {
+  id: number;
+  shortname: string;
+  fullname: string;
+  displayname?: string;
+}
+
+export interface WsContentEntry {
+  type: 'file' | 'url' | 'content';
+  filename: string;
+  filepath?: string;
+  filesize?: number;
+  fileurl?: string;
+  timemodified?: number;
+  mimetype?: string;
+}
+
+export interface WsModule {
+  id: number;
+  name: string;
+  modname: string;
+  url?: string;
+  contents?: WsContentEntry[];
+}
+
+export interface WsSection {
+  id: number;
+  name: string;
+  section?: number;
+  modules: WsModule[];
+}
+
+function siteEndpoint(siteUrl: string, path: string): string {
+  return new URL(path, siteUrl.endsWith('/') ? siteUrl : `${siteUrl}/`).toString();
+}
+
+/** Form-encoded parameters (only flat values are needed for the functions used here) */
+function toFormBody(params: Record<string, string | number>): URLSearchParams {
+  const body = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) body.set(k, String(v));
+  return body;
+}
+
+async function postJson(url: string, body: URLSearchParams): Promise<any> {
+  const resp = await fetchWithTimeout(url, 30000, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body,
+  });
+  if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+  return resp.json();
+}
+
+/** Requests a mobile app token with the user's Moodle credentials (not available with SSO logins). */
+export async function requestToken(siteUrl: string, username: string, password: string): Promise<string> {
+  const data = await postJson(
+    siteEndpoint(siteUrl, 'login/token.php'),
+    toFormBody({ username, password, service: WS_SERVICE }),
+  );
+  if (typeof data?.token !== 'string' || !data.token) {
+    throw new Error(data?.error || 'No token received');
+  }
+  return data.token;
+}
+
+/** Calls a web service function. Moodle reports errors as HTTP 200 with an `exception` body. */
+export async function callWebService<T>(
+  siteUrl: string,
+  token: string,
+  wsfunction: string,
+  params: Record<string, string | number> = {},
+): Promise<T> {
+  const data = await postJson(
+    siteEndpoint(siteUrl, 'webservice/rest/server.php?moodlewsrestformat=json'),
+    toFormBody({ wstoken: token, wsfunction, ...params }),
+  );
+  if (data && typeof data === 'object' && 'exception' in data) {
+    throw new Error(data.message || data.errorcode || wsfunction);
+  }
+  return data as T;
+}
+
+function joinPathParts(parts: Array<string | undefined>): string {
+  return parts
+    .map((p) => (p ? sanitizeFileName(p) : ''))
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Maps the sections of one course to resources.
+ * Paths follow the content script: `<course>/<section>`, folder modules add their name and
+ * the subfolders (`filepath`) of each file. Assignment contents are the instruction files.
+ * Pages and books become one document each (exported like in the content script), URL
+ * modules a link with its target. File URLs are kept without the token; the fetcher adds it
+ * per request (see addWebServiceToken).
+ */
+export function mapCourseContents(course: WsCourse, sections: WsSection[]): MoodleResource[] {
+  const courseName = course.fullname || course.displayname || course.shortname;
+  const resources: MoodleResource[] = [];
+
+  for (const [sectionIndex, section] of sections.entries()) {
+    const placement = {
+      courseId: course.id,
+      courseName,
+      courseShort: course.shortname,
+      sectionName: section.name,
+      sectionIndex: section.section ?? sectionIndex,
+    };
+    let position = 0;
+
+    for (const mod of section.modules || []) {
+      if (SKIPPED_MODULES.has(mod.modname)) continue;
+      position += 1;
+      const activity = { ...placement, activityName: mod.name, position };
+
+      // The link target is part of the contents; links.ts writes it into the link documents.
+      if (mod.modname === 'url') {
+        const target = mod.contents?.find((c) => c.type === 'url' && c.fileurl)?.fileurl;
+        if (mod.url) {
+          resources.push({
+            id: sanitizeFileName(`ws-${mod.id}`),
+            name: mod.name,
+            url: mod.url,
+            type: 'url',
+            fileType: 'link',
+            target,
+            path: joinPathParts([courseName, section.name]),
+            ...activity,
+          });
+        }
+        continue;
+      }
+
+      // Videos are resolved from the activity page (see media.ts)
+      if (MEDIA_MODULES.has(mod.modname)) {
+        if (mod.url) {
+          resources.push({
+            id: sanitizeFileName(`ws-${mod.id}`),
+            name: mod.name,
+            url: mod.url,
+            type: 'video',
+            fileType: 'video',
+            path: joinPathParts([courseName, section.name]),
+            ...activity,
+          });
+        }
+        continue;
+      }
+
+      if (DOCUMENT_MODULES.has(mod.modname)) {
+        if (mod.url) {
+          resources.push({
+            id: sanitizeFileName(`ws-${mod.id}`),
+            name: mod.name,
+            url: mod.url,
+            type: mod.modname as 'page' | 'book',
+            fileType: mod.modname,
+            path: joinPathParts([courseName, section.name]),
+            ...activity,
+          });
+        }
+        continue;
+      }
+
+      const files = (mod.contents || []).filter((c) => c.type === 'file' && c.fileurl);
+      // A resource's main file comes first; the rest are files embedded in it.
+      const chosen = mod.modname === 'resource' ? files.slice(0, 1) : files;
+      const isFolder = mod.modname === 'folder';
+      const isAssign = mod.modname === 'assign';
+
+      for (const file of chosen) {
+        const subdirs = isFolder ? (file.filepath || '/').split('/') : [];
+        resources.push({
+          id: sanitizeFileName(`ws-${mod.id}-${file.filepath || '/'}${file.filename}`),
+          name: file.filename,
+          url: file.fileurl!,
+          type: 'file',
+          fileType: guessFileType(file.fileurl!, file.filename),
+          size: file.filesize,
+          timeModified: file.timemodified ? file.timemodified * 1000 : undefined,
+          path: isAssign
+            ? joinPathParts([courseName, section.name, mod.name, 'Instructions'])
+            : joinPathParts([courseName, section.name, isFolder ? mod.name : undefined, ...subdirs]),
+          ...activity,
+        });
+      }
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Lists the resources of one course (`courseId`) or of all courses the user is enrolled in.
+ */
+export async function listWebServiceResources(
+  siteUrl: string,
+  token: string,
+  courseId?: number,
+): Promise<MoodleResource[]> {
+  const info = await callWebService<WsSiteInfo>(siteUrl, token, 'core_webservice_get_site_info');
+  const courses = await callWebService<WsCourse[]>(siteUrl, token, 'core_enrol_get_users_courses', {
+    userid: info.userid,
+  });
+
+  const wanted = courseId === undefined ? courses : courses.filter((c) => c.id === courseId);
+  if (courseId !== undefined && wanted.length === 0) throw new Error(`Course ${courseId} not found`);
+
+  const resources: MoodleResource[] = [];
+  for (const course of wanted) {
+    const sections = await callWebService<WsSection[]>(siteUrl, token, 'core_course_get_contents', {
+      courseid: course.id,
+    });
+    resources.push(...mapCourseContents(course, sections));
+  }
+  return resources;
+}
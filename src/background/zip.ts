@@ -0,0 +1,346 @@
+/*
+ * Streaming ZIP writer.
+ *
+ * Unlike JSZip, entries are written one after another while their data is still
+ * arriving, so memory usage is bounded by the chunk size instead of the archive size.
+ * Entries use data descriptors (sizes/CRC follow the data). As the size of an entry is
+ * unknown when its local header is written, every local header reserves a ZIP64 extra
+ * field and every data descriptor has 8-byte sizes (APPNOTE 4.3.9), so entries over 4 GiB
+ * need no other form. The central directory switches to ZIP64 records only where sizes or
+ * offsets exceed 4 GiB.
+ */
+
+import type { ZipCheckpoint, ZipCheckpointEntry } from '../shared/types';
+
+export type ZipChunkEmitter = (chunk: Uint8Array) => void | Promise<void>;
+
+export interface ZipEntryOptions {
+  /** Modification date stored in the entry (defaults to now) */
+  date?: Date;
+  /** Deflate the entry; already compressed formats should be stored as-is */
+  compress?: boolean;
+}
+
+interface ZipEntryRecord extends ZipCheckpointEntry {
+  nameBytes: Uint8Array;
+}
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const ZIP64_VERSION = 45;
+/** ZIP64 extra field of a local header: sizes only, zero until the data descriptor */
+const LOCAL_ZIP64_EXTRA_SIZE = 4 + 16;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.byteLength; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+}
+
+export function supportsDeflateStream(): boolean {
+  try {
+    // eslint-disable-next-line no-new
+    new CompressionStream('deflate-raw');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class ZipWriter {
+  private readonly entries: ZipEntryRecord[] = [];
+
+  private readonly encoder = new TextEncoder();
+
+  private offset = 0;
+
+  private finished = false;
+
+  private readonly deflateSupported = supportsDeflateStream();
+
+  /**
+   * `checkpoint` continues an archive written by an earlier run; the caller must have kept
+   * exactly `checkpoint.offset` bytes of it.
+   */
+  constructor(
+    private readonly emit: ZipChunkEmitter,
+    checkpoint?: ZipCheckpoint,
+  ) {
+    if (!checkpoint) return;
+    this.offset = checkpoint.offset;
+    for (const e of checkpoint.entries) this.entries.push({ ...e, nameBytes: this.encoder.encode(e.name) });
+  }
+
+  /** Bytes written so far */
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  get entryCount(): number {
+    return this.entries.length;
+  }
+
+  /** State after the last complete entry. Only meaningful between entries. */
+  getCheckpoint(): ZipCheckpoint {
+    return {
+      offset: this.offset,
+      entries: this.entries.map(({ nameBytes, ...e }) => e),
+    };
+  }
+
+  /**
+   * Writes one entry. Entries must not be added concurrently.
+   *
+   * If `source` fails midway, the partial bytes stay in the stream but the entry is
+   * left out of the central directory, so extractors never see a truncated file.
+   */
+  async addEntry(
+    name: string,
+    source: AsyncIterable<Uint8Array>,
+    options: ZipEntryOptions = {},
+  ): Promise<{ size: number; compressedSize: number; crc: number }> {
+    if (this.finished) throw new Error('ZIP archive already finished');
+
+    const nameBytes = this.encoder.encode(name);
+    const method = options.compress && this.deflateSupported ? METHOD_DEFLATE : METHOD_STORE;
+    const { dosTime, dosDate } = toDosDateTime(options.date || new Date());
+    const entryOffset = this.offset;
+
+    const header = new Uint8Array(30 + nameBytes.byteLength + LOCAL_ZIP64_EXTRA_SIZE);
+    const hv = new DataView(header.buffer);
+    hv.setUint32(0, 0x04034b50, true);
+    hv.setUint16(4, ZIP64_VERSION, true);
+    hv.setUint16(6, FLAG_DATA_DESCRIPTOR | FLAG_UTF8, true);
+    hv.setUint16(8, method, true);
+    hv.setUint16(10, dosTime, true);
+    hv.setUint16(12, dosDate, true);
+    // crc stays zero and the sizes point to the ZIP64 extra field; all follow in the data descriptor
+    hv.setUint32(18, MAX_32, true);
+    hv.setUint32(22, MAX_32, true);
+    hv.setUint16(26, nameBytes.byteLength, true);
+    hv.setUint16(28, LOCAL_ZIP64_EXTRA_SIZE, true);
+    header.set(nameBytes, 30);
+    const x = 30 + nameBytes.byteLength;
+    hv.setUint16(x, 0x0001, true);
+    hv.setUint16(x + 2, LOCAL_ZIP64_EXTRA_SIZE - 4, true);
+    await this.write(header);
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+
+    if (method === METHOD_STORE) {
+      for await (const chunk of source) {
+        crc = crc32(chunk, crc);
+        size += chunk.byteLength;
+        compressedSize += chunk.byteLength;
+        await this.write(chunk);
+      }
+    } else {
+      const deflate = new CompressionStream('deflate-raw');
+      const input = deflate.writable.getWriter();
+      const output = deflate.readable.getReader();
+
+      const pump = (async () => {
+        try {
+          // eslint-disable-next-line no-constant-condition
+          while (true) {
+            const { done, value } = await output.read();
+            if (done) break;
+            compressedSize += value.byteLength;
+            await this.write(value);
+          }
+        } catch (err) {
+          await output.cancel(err).catch(() => undefined);
+          throw err;
+        }
+      })();
+      // A failed write (popup gone, storage full) stops draining the compressor, and the
+      // input would wait for it forever: every write also ends when the pump fails.
+      const untilPumpFails = <T>(pending: Promise<T>): Promise<T> => {
+        pending.catch(() => undefined);
+        return Promise.race([pending, pump.then(() => pending)]);
+      };
+
+      try {
+        for await (const chunk of source) {
+          crc = crc32(chunk, crc);
+          size += chunk.byteLength;
+          await untilPumpFails(input.write(chunk));
+        }
+        await untilPumpFails(input.close());
+      } catch (err) {
+        await input.abort(err).catch(() => undefined);
+        await pump.catch(() => undefined);
+        throw err;
+      }
+      await pump;
+    }
+
+    // ZIP64 form, as announced by the extra field of the local header
+    const descriptor = new Uint8Array(24);
+    const dv = new DataView(descriptor.buffer);
+    dv.setUint32(0, 0x08074b50, true);
+    dv.setUint32(4, crc, true);
+    setUint64(dv, 8, compressedSize);
+    setUint64(dv, 16, size);
+    await this.write(descriptor);
+
+    this.entries.push({
+      name,
+      nameBytes,
+      method,
+      dosTime,
+      dosDate,
+      crc,
+      size,
+      compressedSize,
+      offset: entryOffset,
+    });
+    return { size, compressedSize, crc };
+  }
+
+  /** Writes the central directory. Returns the total archive size in bytes. */
+  async finish(): Promise<number> {
+    if (this.finished) return this.offset;
+    this.finished = true;
+
+    const cdOffset = this.offset;
+
+    for (const e of this.entries) {
+      const needsZip64 = e.size > MAX_32 || e.compressedSize > MAX_32 || e.offset > MAX_32;
+      const extra = needsZip64 ? 4 + 24 : 0;
+      const rec = new Uint8Array(46 + e.nameBytes.byteLength + extra);
+      const v = new DataView(rec.buffer);
+      v.setUint32(0, 0x02014b50, true);
+      v.setUint16(4, ZIP64_VERSION, true);
+      v.setUint16(6, ZIP64_VERSION, true);
+      v.setUint16(8, FLAG_DATA_DESCRIPTOR | FLAG_UTF8, true);
+      v.setUint16(10, e.method, true);
+      v.setUint16(12, e.dosTime, true);
+      v.setUint16(14, e.dosDate, true);
+      v.setUint32(16, e.crc, true);
+      v.setUint32(20, needsZip64 ? MAX_32 : e.compressedSize, true);
+      v.setUint32(24, needsZip64 ? MAX_32 : e.size, true);
+      v.setUint16(28, e.nameBytes.byteLength, true);
+      v.setUint16(30, extra, true);
+      v.setUint32(42, needsZip64 ? MAX_32 : e.offset, true);
+      rec.set(e.nameBytes, 46);
+
+      if (needsZip64) {
+        const x = 46 + e.nameBytes.byteLength;
+        v.setUint16(x, 0x0001, true);
+        v.setUint16(x + 2, 24, true);
+        setUint64(v, x + 4, e.size);
+        setUint64(v, x + 12, e.compressedSize);
+        setUint64(v, x + 20, e.offset);
+      }
+
+      await this.write(rec);
+    }
+
+    const cdSize = this.offset - cdOffset;
+    const count = this.entries.length;
+
+    if (count > MAX_16 || cdOffset > MAX_32 || cdSize > MAX_32) {
+      const zip64EndOffset = this.offset;
+      const end64 = new Uint8Array(56 + 20);
+      const v = new DataView(end64.buffer);
+      v.setUint32(0, 0x06064b50, true);
+      setUint64(v, 4, 44);
+      v.setUint16(12, ZIP64_VERSION, true);
+      v.setUint16(14, ZIP64_VERSION, true);
+      setUint64(v, 24, count);
+      setUint64(v, 32, count);
+      setUint64(v, 40, cdSize);
+      setUint64(v, 48, cdOffset);
+      // ZIP64 end of central directory locator
+      v.setUint32(56, 0x07064b50, true);
+      setUint64(v, 64, zip64EndOffset);
+      v.setUint32(72, 1, true);
+      await this.write(end64);
+    }
+
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, Math.min(count, MAX_16), true);
+    ev.setUint16(10, Math.min(count, MAX_16), true);
+    ev.setUint32(12, Math.min(cdSize, MAX_32), true);
+    ev.setUint32(16, Math.min(cdOffset, MAX_32), true);
+    await this.write(end);
+
+    return this.offset;
+  }
+
+  private async write(chunk: Uint8Array): Promise<void> {
+    this.offset += chunk.byteLength;
+    await this.emit(chunk);
+  }
+}
+
+/**
+ * Collects small chunks into larger ones before passing them on (fewer messages
+ * over the popup port). Memory stays bounded by `chunkSize`.
+ */
+export function createChunkCoalescer(
+  chunkSize: number,
+  emit: (chunk: Uint8Array) => Promise<void>,
+): { push: ZipChunkEmitter; flush: () => Promise<void> } {
+  let buffer = new Uint8Array(chunkSize);
+  let used = 0;
+
+  const flush = async (): Promise<void> => {
+    if (used === 0) return;
+    const out = buffer.slice(0, used);
+    used = 0;
+    await emit(out);
+  };
+
+  const push = async (chunk: Uint8Array): Promise<void> => {
+    let offset = 0;
+    while (offset < chunk.byteLength) {
+      const take = Math.min(chunkSize - used, chunk.byteLength - offset);
+      buffer.set(chunk.subarray(offset, offset + take), used);
+      used += take;
+      offset += take;
+      if (used === chunkSize) {
+        const out = buffer;
+        buffer = new Uint8Array(chunkSize);
+        used = 0;
+        await emit(out);
+      }
+    }
+  };
+
+  return { push, flush };
+}
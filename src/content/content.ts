@@ -1,24 +1,51 @@
-import type { MessageFromContent, MessageToContent } from '../shared/types';
+import type { ExtractorProfile, MessageFromContent, MessageToContent } from '../shared/types';
+import { loadExtractorProfiles } from '../shared/profiles';
 import { getExtApi } from '../shared/utils';
-import { extractResources, isMoodlePage } from './extractor';
+import {
+  extractCourses,
+  extractResources,
+  findMissingSections,
+  getCourseName,
+  isCourseListPage,
+  isMoodlePage,
+} from './extractor';
 
 const ext = getExtApi();
 
-ext.runtime.onMessage.addListener(
-  (message: MessageToContent, _sender: unknown, sendResponse: (resp: MessageFromContent) => void) => {
-    const moodle = isMoodlePage(document);
+function handleMessage(
+  message: MessageToContent,
+  profiles: ExtractorProfile[],
+): MessageFromContent | undefined {
+  const moodle = isMoodlePage(document, profiles);
+
+  if (message?.type === 'MD_PING') return { type: 'MD_PONG', isMoodle: moodle };
 
-    if (message?.type === 'MD_PING') {
-      sendResponse({ type: 'MD_PONG', isMoodle: moodle });
-      return false;
-    }
+  if (message?.type === 'MD_EXTRACT_RESOURCES') {
+    const resources = extractResources(document, { profiles });
+    const courses = isCourseListPage(document) ? extractCourses(document) : undefined;
+    const sections = courses ? undefined : findMissingSections(document, profiles);
+    return {
+      type: 'MD_EXTRACT_RESOURCES_RESULT',
+      resources,
+      isMoodle: moodle,
+      courses,
+      sections,
+      courseName: getCourseName(document, profiles),
+    };
+  }
 
-    if (message?.type === 'MD_EXTRACT_RESOURCES') {
-      const resources = extractResources(document);
-      sendResponse({ type: 'MD_EXTRACT_RESOURCES_RESULT', resources, isMoodle: moodle });
-      return false;
-    }
+  return undefined;
+}
+
+ext.runtime.onMessage.addListener(
+  (message: MessageToContent, _sender: unknown, sendResponse: (resp: MessageFromContent) => void) => {
+    if (message?.type !== 'MD_PING' && message?.type !== 'MD_EXTRACT_RESOURCES') return false;
 
-    return false;
+    // Profiles are read per request, so edits on the options page apply without a reload.
+    void loadExtractorProfiles().then((profiles) => {
+      const response = handleMessage(message, profiles);
+      if (response) sendResponse(response);
+    });
+    return true;
   },
 );
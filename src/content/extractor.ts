@@ -1,22 +1,65 @@
-import type { MoodleResource } from '../shared/types';
+import type {
+  CourseSection,
+  ExtractorProfile,
+  ExtractorSelectors,
+  MoodleCourse,
+  MoodleResource,
+} from '../shared/types';
 import {
-  ACTIVITY_LINK_SELECTORS,
-  COURSE_NAME_SELECTORS,
+  COURSE_LINK_SELECTOR,
+  COURSE_LIST_PAGE_SELECTORS,
   DOWNLOADABLE_EXTENSIONS,
-  MOODLE_DETECT_SELECTORS,
-  SECTION_SELECTORS,
-  SECTION_TITLE_SELECTORS,
+  EMBEDDED_MEDIA_SELECTOR,
+  MEDIA_EMBED_SELECTOR,
+  MEDIA_MODULES,
+  SCREEN_READER_ONLY_SELECTORS,
+  SECTION_CONTENT_SELECTOR,
+  SECTION_LINK_SELECTORS,
+  UI_IMAGE_PATTERNS,
 } from '../shared/constants';
+import {
+  DEFAULT_SELECTORS,
+  findProfileForUrl,
+  matchesAnyPattern,
+  resolveSelectors,
+} from '../shared/profiles';
 import {
   dedupeResources,
+  getCourseIdFromUrl,
   getFileExtensionFromUrl,
+  getFolderSubfolders,
   guessFileType,
+  guessMoodleRoot,
   normalizeUrl,
   sanitizeFileName,
 } from '../shared/utils';
 
-export function isMoodlePage(doc: Document): boolean {
-  return MOODLE_DETECT_SELECTORS.some((sel) => !!doc.querySelector(sel));
+/**
+ * Selectors for `doc`: the defaults with the overrides of the profile matching its host.
+ * Selectors a profile got wrong are dropped (a list without valid ones keeps the default).
+ */
+function getSelectors(doc: Document, profile: ExtractorProfile | undefined): ExtractorSelectors {
+  const selectors = resolveSelectors(profile);
+  if (!profile) return selectors;
+
+  const isValid = (sel: string): boolean => {
+    try {
+      doc.querySelector(sel);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  for (const key of Object.keys(selectors) as Array<keyof ExtractorSelectors>) {
+    const valid = selectors[key].filter(isValid);
+    selectors[key] = valid.length ? valid : DEFAULT_SELECTORS[key];
+  }
+  return selectors;
+}
+
+export function isMoodlePage(doc: Document, profiles?: ExtractorProfile[]): boolean {
+  const { moodleDetect } = getSelectors(doc, findProfileForUrl(profiles, doc.baseURI));
+  return moodleDetect.some((sel) => !!doc.querySelector(sel));
 }
 
 function pickFirstText(doc: Document, selectors: string[]): string | undefined {
@@ -28,8 +71,8 @@ function pickFirstText(doc: Document, selectors: string[]): string | undefined {
   return undefined;
 }
 
-function getSectionTitle(sectionEl: Element): string | undefined {
-  for (const sel of SECTION_TITLE_SELECTORS) {
+function getSectionTitle(sectionEl: Element, selectors: string[]): string | undefined {
+  for (const sel of selectors) {
     const el = sectionEl.querySelector(sel);
     const text = el?.textContent?.trim();
     if (text) return text;
@@ -37,11 +80,22 @@ function getSectionTitle(sectionEl: Element): string | undefined {
   return undefined;
 }
 
+/** Activities with recorded lectures behind a player (resolved by the background, see media.ts) */
+function isMediaActivity(href: string): boolean {
+  const module = /\/mod\/([a-z0-9_]+)\/view\.php/i.exec(href)?.[1];
+  return !!module && MEDIA_MODULES.has(module.toLowerCase());
+}
+
 function looksDownloadable(href: string): boolean {
   const lower = href.toLowerCase();
   if (lower.includes('pluginfile.php')) return true;
   if (lower.includes('mod/resource/view.php')) return true;
   if (lower.includes('mod/folder/view.php')) return true;
+  if (lower.includes('mod/assign/view.php')) return true;
+  if (lower.includes('mod/page/view.php')) return true;
+  if (lower.includes('mod/book/view.php')) return true;
+  if (lower.includes('mod/url/view.php')) return true;
+  if (isMediaActivity(lower)) return true;
   if (lower.includes('forcedownload=1')) return true;
 
   const ext = getFileExtensionFromUrl(lower);
@@ -52,6 +106,15 @@ function looksDownloadable(href: string): boolean {
   return false;
 }
 
+/** Files embedded via `src`: Moodle files or URLs with a known file extension, no UI images */
+function isEmbeddedFile(url: string): boolean {
+  if (!/^https?:/i.test(url)) return false;
+  if (UI_IMAGE_PATTERNS.some((p) => p.test(url))) return false;
+  if (url.toLowerCase().includes('pluginfile.php')) return true;
+  const ext = getFileExtensionFromUrl(url.toLowerCase());
+  return !!ext && DOWNLOADABLE_EXTENSIONS.has(ext);
+}
+
 function isForbiddenActivity(a: HTMLAnchorElement): boolean {
   const href = (a.getAttribute('href') || '').toLowerCase();
   const activity = a.closest('.activity, .activity-item');
@@ -61,15 +124,15 @@ function isForbiddenActivity(a: HTMLAnchorElement): boolean {
   if (activity?.classList.contains('modtype_forum')) return true;
   if (activity?.getAttribute('data-modname')?.toLowerCase() === 'forum') return true;
 
-  // URL/Page modules usually point to HTML/external resources and cause errors when treated as files.
-  if (href.includes('/mod/url/')) return true;
-  if (activity?.classList.contains('modtype_url')) return true;
-  if (href.includes('/mod/page/')) return true;
-  if (activity?.classList.contains('modtype_page')) return true;
-
   return false;
 }
 
+function visibleText(el: Element): string {
+  const clone = el.cloneNode(true) as Element;
+  clone.querySelectorAll(SCREEN_READER_ONLY_SELECTORS).forEach((hidden) => hidden.remove());
+  return (clone.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
 function extractLinkName(a: HTMLAnchorElement): string {
   const aria = a.getAttribute('aria-label')?.trim();
   const title = a.getAttribute('title')?.trim();
@@ -79,35 +142,129 @@ function extractLinkName(a: HTMLAnchorElement): string {
   return sanitizeFileName(raw);
 }
 
-function inferResourceType(a: HTMLAnchorElement): 'file' | 'folder' {
+/** Name of an activity without the hidden type label ("Exercise 1 Assignment" → "Exercise 1") */
+function activityName(a: HTMLAnchorElement): string {
+  const name = visibleText(a.querySelector('.instancename') ?? a);
+  return name ? sanitizeFileName(name) : extractLinkName(a);
+}
+
+/** Name of an embedded file: its file name from the URL, else the alt text or title */
+function embeddedName(el: Element, url: string): string {
+  let fromUrl = '';
+  try {
+    fromUrl = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  } catch {
+    // ignore
+  }
+  const media = el.closest('video, audio') ?? el;
+  const raw = fromUrl || el.getAttribute('alt')?.trim() || media.getAttribute('title')?.trim() || 'file';
+  return sanitizeFileName(raw);
+}
+
+function resourceIdFromUrl(absUrl: string): string {
+  try {
+    const u = new URL(absUrl);
+    const moodleId = u.searchParams.get('id');
+    if (moodleId) return moodleId;
+    return `${u.pathname}-${u.search}`.slice(0, 120);
+  } catch {
+    return absUrl.slice(0, 120);
+  }
+}
+
+function inferResourceType(a: HTMLAnchorElement): MoodleResource['type'] {
   const href = a.href || '';
   const lower = href.toLowerCase();
   const activity = a.closest('.activity, .activity-item');
 
   if (activity?.classList.contains('modtype_folder')) return 'folder';
   if (lower.includes('mod/folder/view.php')) return 'folder';
+  if (lower.includes('mod/assign/view.php')) return 'assign';
+  if (lower.includes('mod/page/view.php')) return 'page';
+  if (lower.includes('mod/book/view.php')) return 'book';
+  if (lower.includes('mod/url/view.php')) return 'url';
+  if (isMediaActivity(lower)) return 'video';
 
   return 'file';
 }
 
-function buildPath(courseName: string | undefined, sectionName: string | undefined, extra?: string): string {
+function buildPath(
+  courseName: string | undefined,
+  sectionName: string | undefined,
+  extra: string[] = [],
+): string {
   const parts: string[] = [];
   if (courseName) parts.push(sanitizeFileName(courseName));
   if (sectionName) parts.push(sanitizeFileName(sectionName));
-  if (extra) parts.push(sanitizeFileName(extra));
+  for (const part of extra) if (part) parts.push(sanitizeFileName(part));
   return parts.filter(Boolean).join('/');
 }
 
-export function extractResources(doc: Document): MoodleResource[] {
-  const courseName = pickFirstText(doc, COURSE_NAME_SELECTORS);
+/** Section a resource was found in; `index` is Moodle's section number (0 = general) */
+interface SectionInfo {
+  name?: string;
+  index?: number;
+}
+
+/** Section number from `data-number` or the `section-<n>` id, else the position on the page */
+function getSectionNumber(sectionEl: Element, fallback: number): number {
+  const number = Number(sectionEl.getAttribute('data-number') ?? sectionEl.id.match(/^section-(\d+)$/)?.[1]);
+  return Number.isInteger(number) && number >= 0 ? number : fallback;
+}
+
+/** Course short name as shown in the breadcrumb (its link to the course) */
+function getCourseShortName(doc: Document): string | undefined {
+  const link = doc.querySelector('.breadcrumb a[href*="/course/view.php"]');
+  return link?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+/**
+ * Position of each resource's activity within its section (from 1, in page order). Files of one
+ * activity (folder, assignment) share it.
+ */
+function withPositions(resources: MoodleResource[]): MoodleResource[] {
+  const sections = new Map<string, Map<string, number>>();
+  return resources.map((r) => {
+    const sectionKey = `${r.sectionIndex ?? ''} ${r.sectionName ?? ''}`;
+    const activities = sections.get(sectionKey) ?? new Map<string, number>();
+    sections.set(sectionKey, activities);
+    const activityKey = r.activityName ?? r.id;
+    if (!activities.has(activityKey)) activities.set(activityKey, activities.size + 1);
+    return { ...r, position: activities.get(activityKey) };
+  });
+}
+
+export interface ExtractOptions {
+  /** Overrides the name from the page header (e.g. the name shown in the course list) */
+  courseName?: string;
+  /** Stored extractor profiles; the one matching the page's host is used */
+  profiles?: ExtractorProfile[];
+}
+
+/** Moodle marks every course page (also section.php, activities) with a `course-<id>` body class */
+export function getCourseId(doc: Document): number | undefined {
+  const match = doc.body?.className.match(/\bcourse-(\d+)\b/);
+  const id = match?.[1] ? Number(match[1]) : getCourseIdFromUrl(doc.baseURI);
+  // Course 1 is the site's front page
+  return id && id > 1 ? id : undefined;
+}
+
+export function getCourseName(doc: Document, profiles?: ExtractorProfile[]): string | undefined {
+  return pickFirstText(doc, getSelectors(doc, findProfileForUrl(profiles, doc.baseURI)).courseName);
+}
+
+export function extractResources(doc: Document, options: ExtractOptions = {}): MoodleResource[] {
+  const profile = findProfileForUrl(options.profiles, doc.baseURI);
+  const selectors = getSelectors(doc, profile);
+  const courseName = options.courseName || pickFirstText(doc, selectors.courseName);
 
   const resources: MoodleResource[] = [];
 
-  const sections = Array.from(doc.querySelectorAll(SECTION_SELECTORS.join(',')));
+  const sections = Array.from(doc.querySelectorAll(selectors.sections.join(',')));
 
   const visitedAnchors = new Set<HTMLAnchorElement>();
 
-  const processAnchor = (a: HTMLAnchorElement, sectionName?: string, extraPath?: string): void => {
+  const processAnchor = (a: HTMLAnchorElement, section: SectionInfo = {}, extraPath?: string[]): void => {
     if (visitedAnchors.has(a)) return;
     visitedAnchors.add(a);
 
@@ -119,39 +276,71 @@ export function extractResources(doc: Document): MoodleResource[] {
     const absUrl = normalizeUrl(href, doc.baseURI);
     if (!absUrl || absUrl.startsWith('javascript:')) return;
 
-    if (!looksDownloadable(absUrl) && !/mod\/(resource|folder)\//i.test(absUrl)) return;
+    if (!looksDownloadable(absUrl) && !matchesAnyPattern(absUrl, profile?.include)) return;
 
-    const name = extractLinkName(a);
     const type = inferResourceType(a);
+    const name = type === 'file' || type === 'folder' ? extractLinkName(a) : activityName(a);
     const fileType = guessFileType(absUrl, name);
-    const id = (() => {
-      try {
-        const u = new URL(absUrl);
-        const moodleId = u.searchParams.get('id');
-        if (moodleId) return moodleId;
-        return `${u.pathname}-${u.search}`.slice(0, 120);
-      } catch {
-        return absUrl.slice(0, 120);
-      }
-    })();
 
     resources.push({
-      id: sanitizeFileName(id),
+      id: sanitizeFileName(resourceIdFromUrl(absUrl)),
       name,
       url: absUrl,
       type,
       fileType,
-      path: buildPath(courseName, sectionName, extraPath),
+      path: buildPath(courseName, section.name, extraPath),
+      sectionName: section.name,
+      sectionIndex: section.index,
+      // Files of a folder or assignment belong to it; other links are activities themselves
+      activityName: extraPath?.[0] ?? (a.closest('.activity, .activity-item') ? name : undefined),
+    });
+  };
+
+  const processEmbedded = (el: Element, section: SectionInfo = {}): void => {
+    const src = el.getAttribute('src') || '';
+    const absUrl = src && normalizeUrl(src, doc.baseURI);
+    if (!absUrl || (!isEmbeddedFile(absUrl) && !matchesAnyPattern(absUrl, profile?.include))) return;
+
+    const name = embeddedName(el, absUrl);
+    resources.push({
+      id: sanitizeFileName(resourceIdFromUrl(absUrl)),
+      name,
+      url: absUrl,
+      type: 'file',
+      fileType: guessFileType(absUrl, name),
+      path: buildPath(courseName, section.name),
+      sectionName: section.name,
+      sectionIndex: section.index,
+    });
+  };
+
+  const processPlayer = (el: Element, section: SectionInfo = {}): void => {
+    const src = el.getAttribute('src') || '';
+    const absUrl = src && normalizeUrl(src, doc.baseURI);
+    if (!absUrl || !/^https?:/i.test(absUrl)) return;
+
+    resources.push({
+      id: sanitizeFileName(resourceIdFromUrl(absUrl)),
+      name: sanitizeFileName(el.getAttribute('title')?.trim() || 'Video'),
+      url: absUrl,
+      type: 'video',
+      fileType: 'video',
+      path: buildPath(courseName, section.name),
+      sectionName: section.name,
+      sectionIndex: section.index,
     });
   };
 
   if (sections.length > 0) {
-    for (const sectionEl of sections) {
-      const sectionName = getSectionTitle(sectionEl) || undefined;
+    for (const [i, sectionEl] of sections.entries()) {
+      const section: SectionInfo = {
+        name: getSectionTitle(sectionEl, selectors.sectionTitles) || undefined,
+        index: getSectionNumber(sectionEl, i),
+      };
 
       // Primary activity links
       const anchors = Array.from(
-        sectionEl.querySelectorAll<HTMLAnchorElement>(ACTIVITY_LINK_SELECTORS.join(',')),
+        sectionEl.querySelectorAll<HTMLAnchorElement>(selectors.activityLinks.join(',')),
       ).filter((a) => !!a.getAttribute('href'));
 
       for (const a of anchors) {
@@ -166,15 +355,30 @@ export function extractResources(doc: Document): MoodleResource[] {
             ),
           );
           if (inlineFiles.length > 0) {
-            for (const f of inlineFiles) processAnchor(f, sectionName, folderName);
+            for (const f of inlineFiles) {
+              processAnchor(f, section, [folderName, ...getFolderSubfolders(normalizeUrl(f.href))]);
+            }
             continue;
           }
           // Fallback: treat folder view link itself as expandable folder
-          processAnchor(a, sectionName, folderName);
+          processAnchor(a, section, [folderName]);
+          continue;
+        }
+
+        // Assignments: instructions, submission and feedback are collected from their page
+        if (/mod\/assign\/view\.php/i.test(a.getAttribute('href') || '')) {
+          processAnchor(a, section, [activityName(a)]);
           continue;
         }
 
-        processAnchor(a, sectionName);
+        processAnchor(a, section);
+      }
+
+      // Files linked or embedded in summaries, labels and descriptions
+      for (const area of Array.from(sectionEl.querySelectorAll(selectors.richText.join(',')))) {
+        area.querySelectorAll<HTMLAnchorElement>('a[href]').forEach((a) => processAnchor(a, section));
+        area.querySelectorAll(EMBEDDED_MEDIA_SELECTOR).forEach((el) => processEmbedded(el, section));
+        area.querySelectorAll(MEDIA_EMBED_SELECTOR).forEach((el) => processPlayer(el, section));
       }
     }
   } else {
@@ -187,5 +391,110 @@ export function extractResources(doc: Document): MoodleResource[] {
     for (const a of anchors) processAnchor(a);
   }
 
-  return dedupeResources(resources);
+  const courseId = getCourseId(doc);
+  const courseShort = getCourseShortName(doc);
+  return withPositions(dedupeResources(resources))
+    .filter((r) => !matchesAnyPattern(r.url, profile?.exclude))
+    .map((r) => ({ ...r, courseId, courseName, courseShort }));
+}
+
+export function isCourseListPage(doc: Document): boolean {
+  return COURSE_LIST_PAGE_SELECTORS.some((sel) => !!doc.querySelector(sel));
+}
+
+/**
+ * Courses linked on an overview page. Course cards often link the same course several
+ * times (image, title); the longest visible text wins as name.
+ */
+export function extractCourses(doc: Document): MoodleCourse[] {
+  const courses = new Map<number, MoodleCourse>();
+
+  for (const a of Array.from(doc.querySelectorAll<HTMLAnchorElement>(COURSE_LINK_SELECTOR))) {
+    const url = normalizeUrl(a.getAttribute('href') || '', doc.baseURI);
+    const id = getCourseIdFromUrl(url);
+    if (id === undefined) continue;
+
+    const name = visibleText(a) || a.getAttribute('title')?.trim() || '';
+    const existing = courses.get(id);
+    if (!existing) courses.set(id, { id, name, url });
+    else if (name.length > existing.name.length) existing.name = name;
+  }
+
+  return Array.from(courses.values()).filter((c) => c.name);
+}
+
+/**
+ * Section a link points to: `id:<db id>` for course/section.php, `num:<number>` for
+ * course/view.php with `section=` or `#section-N` of the same course.
+ */
+function getSectionRef(url: URL, courseId: number | undefined): string | undefined {
+  if (/\/course\/section\.php$/i.test(url.pathname)) {
+    const id = url.searchParams.get('id');
+    return id ? `id:${id}` : undefined;
+  }
+  if (/\/course\/view\.php$/i.test(url.pathname) && Number(url.searchParams.get('id')) === courseId) {
+    const num = url.searchParams.get('section') ?? /^#section-(\d+)$/.exec(url.hash)?.[1];
+    return num ? `num:${num}` : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Sections linked from the course index or the section navigation whose content is not on
+ * this page: Moodle 4 with one section per page, lazily loaded sections and formats that
+ * show one section at a time (onetopic, tiles, grid). The background fetches them.
+ */
+export function findMissingSections(doc: Document, profiles?: ExtractorProfile[]): CourseSection[] {
+  const courseId = getCourseId(doc);
+  const selectors = getSelectors(doc, findProfileForUrl(profiles, doc.baseURI));
+
+  const present = new Set<string>();
+  // Links by number and by id to the same section count once
+  const aliases = new Map<string, string>();
+  for (const sectionEl of Array.from(doc.querySelectorAll(selectors.sections.join(',')))) {
+    const id = sectionEl.getAttribute('data-id');
+    const num =
+      sectionEl.getAttribute('data-number') ??
+      sectionEl.getAttribute('data-sectionid') ??
+      /^section-(\d+)$/.exec(sectionEl.id)?.[1];
+    if (id && num) aliases.set(`num:${num}`, `id:${id}`);
+
+    if (sectionEl.classList.contains('section-summary')) continue;
+    if (!sectionEl.querySelector(SECTION_CONTENT_SELECTOR)) continue;
+    if (id) present.add(`id:${id}`);
+    if (num) present.add(`num:${num}`);
+  }
+
+  const missing = new Map<string, CourseSection>();
+  for (const a of Array.from(doc.querySelectorAll<HTMLAnchorElement>(SECTION_LINK_SELECTORS.join(',')))) {
+    let url: URL;
+    try {
+      url = new URL(a.getAttribute('href') || '', doc.baseURI);
+    } catch {
+      continue;
+    }
+    const ref = getSectionRef(url, courseId);
+    if (!ref || present.has(ref)) continue;
+
+    const key = aliases.get(ref) ?? ref;
+    const name = visibleText(a);
+    const existing = missing.get(key);
+    if (existing) {
+      if (!existing.name) existing.name = name;
+      continue;
+    }
+
+    let fetchUrl: string;
+    if (ref.startsWith('id:')) {
+      url.hash = '';
+      fetchUrl = url.toString();
+    } else {
+      const root = guessMoodleRoot(url.toString());
+      if (!root) continue;
+      fetchUrl = `${root}course/view.php?id=${courseId}&section=${ref.slice(4)}`;
+    }
+    missing.set(key, { url: fetchUrl, name });
+  }
+
+  return Array.from(missing.values());
 }
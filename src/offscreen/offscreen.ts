@@ -0,0 +1,40 @@
+import type { OffscreenMessage, OffscreenResponse } from '../shared/types';
+import { getExtApi } from '../shared/utils';
+import { parseHtmlDocument } from '../shared/html';
+import { idbGetJobParts } from '../shared/idb';
+import { extractResources } from '../content/extractor';
+
+/*
+ * Offscreen document (Chrome MV3): the service worker has no DOMParser, so fetched
+ * course pages are parsed here with the same extractor the content script uses. It has no
+ * URL.createObjectURL either: what a background job stored in IndexedDB (its ZIP or a loose
+ * file) gets its blob: URL here, from the parts (Blobs on disk, so nothing is read into memory).
+ */
+
+const ext = getExtApi();
+
+ext.runtime.onMessage.addListener(
+  (message: OffscreenMessage, _sender: unknown, sendResponse: (resp: OffscreenResponse) => void) => {
+    if (message?.type === 'MD_OFFSCREEN_PARTS_URL') {
+      idbGetJobParts(message.jobId)
+        .then((parts) => {
+          const url = parts.length
+            ? URL.createObjectURL(new Blob(parts, { type: message.mimeType }))
+            : undefined;
+          sendResponse({ type: 'MD_OFFSCREEN_PARTS_URL_RESULT', url });
+        })
+        .catch(() => sendResponse({ type: 'MD_OFFSCREEN_PARTS_URL_RESULT' }));
+      return true;
+    }
+    if (message?.type === 'MD_OFFSCREEN_REVOKE') {
+      URL.revokeObjectURL(message.url);
+      return false;
+    }
+    if (message?.type !== 'MD_OFFSCREEN_EXTRACT') return false;
+
+    const doc = parseHtmlDocument(message.html, message.url);
+    const resources = extractResources(doc, { courseName: message.courseName, profiles: message.profiles });
+    sendResponse({ type: 'MD_OFFSCREEN_EXTRACT_RESULT', resources });
+    return false;
+  },
+);
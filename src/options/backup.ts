@@ -0,0 +1,50 @@
+import type { ImportMode } from '../shared/backup';
+import { applyBackup, createBackup, parseBackup, serializeBackup } from '../shared/backup';
+import { toErrorMessage } from '../shared/utils';
+import { downloadJson, i18n, setStatus } from './ui';
+
+/*
+ * Backup section of the options page: exports tracking, history and settings as one JSON file
+ * and imports such a file (merged into or replacing the current state). Mobile app tokens are
+ * left out of the file; they stay in the browser where they were created.
+ */
+
+function getImportMode(): ImportMode {
+  const checked = document.querySelector<HTMLInputElement>('input[name="importMode"]:checked');
+  return checked?.value === 'replace' ? 'replace' : 'merge';
+}
+
+async function exportBackup(): Promise<void> {
+  const bundle = await createBackup();
+  const date = bundle.exportedAt.slice(0, 10);
+  downloadJson(serializeBackup(bundle), `moodle-download-backup-${date}.json`);
+  setStatus(i18n('backupExported'));
+}
+
+async function importBackup(file: File, onImported: () => Promise<void>): Promise<void> {
+  const mode = getImportMode();
+  try {
+    const bundle = parseBackup(await file.text());
+    if (mode === 'replace' && !bundle.fromArchive && !window.confirm(i18n('backupReplaceConfirm'))) return;
+    await applyBackup(bundle, mode);
+    await onImported();
+    setStatus(i18n('backupImported'));
+  } catch (err) {
+    setStatus(i18n('backupImportFailed', [toErrorMessage(err)]), true);
+  }
+}
+
+/** `onImported` reloads the other sections after an import */
+export function initBackup(onImported: () => Promise<void>): void {
+  document.getElementById('btnExportBackup')?.addEventListener('click', () => {
+    void exportBackup().catch((err) => setStatus(toErrorMessage(err), true));
+  });
+
+  const fileInput = document.getElementById('fileImportBackup') as HTMLInputElement | null;
+  document.getElementById('btnImportBackup')?.addEventListener('click', () => fileInput?.click());
+  fileInput?.addEventListener('change', () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (file) void importBackup(file, onImported);
+  });
+}
@@ -0,0 +1,171 @@
+import type {
+  CourseTracking,
+  DownloadHistoryEntry,
+  DownloadTrackingStore,
+  HistoryCourse,
+} from '../shared/types';
+import { UNKNOWN_COURSE } from '../shared/tracking';
+import { toErrorMessage } from '../shared/utils';
+import { formatDate, i18n, sendToBackground, setStatus } from './ui';
+
+/*
+ * History section of the options page: past jobs (date, courses, files, failures) and the
+ * tracked files per site and course. A course's tracking can be reset and single files can be
+ * marked as not downloaded; the popup then lists them as new again.
+ */
+
+function createElement(tag: string, className: string, text?: string): HTMLElement {
+  const el = document.createElement(tag);
+  el.className = className;
+  if (text !== undefined) el.textContent = text;
+  return el;
+}
+
+function createButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'btn btn-ghost btn-small';
+  button.textContent = label;
+  button.addEventListener('click', (e) => {
+    // Buttons in a <summary> must not toggle it
+    e.preventDefault();
+    onClick();
+  });
+  return button;
+}
+
+function describeCourse(course: Pick<HistoryCourse, 'id' | 'name'>, site: string): string {
+  if (course.name) return course.name;
+  return course.id !== undefined ? i18n('historyCourseId', [String(course.id), site]) : site;
+}
+
+function renderJobs(history: DownloadHistoryEntry[]): void {
+  const list = document.getElementById('jobs');
+  if (!list) return;
+  list.textContent = '';
+  document.getElementById('emptyHistory')?.classList.toggle('hidden', history.length > 0);
+
+  for (const job of history) {
+    const row = createElement('details', 'job');
+    const summary = createElement('summary', 'job-summary');
+    summary.append(
+      createElement('span', 'job-date', formatDate(job.finishedAt)),
+      createElement('span', 'job-courses', job.courses.map((c) => describeCourse(c, c.site)).join(', ')),
+      createElement('span', 'job-count', i18n('historyFiles', [String(job.fileCount)])),
+    );
+    if (job.failures.length) {
+      summary.append(
+        createElement('span', 'job-failed', i18n('historyFailed', [String(job.failures.length)])),
+      );
+    }
+    if (job.state === 'cancelled')
+      summary.append(createElement('span', 'job-cancelled', i18n('historyCancelled')));
+    row.append(summary);
+
+    if (job.failures.length === 0) {
+      row.append(createElement('p', 'empty', i18n('historyNoFailures')));
+    } else {
+      const failures = createElement('ul', 'job-failures');
+      for (const failure of job.failures) {
+        const status = failure.status !== undefined ? ` (HTTP ${failure.status})` : '';
+        const item = createElement('li', '', `${failure.name} – ${failure.reason}${status}`);
+        item.title = failure.url;
+        failures.append(item);
+      }
+      row.append(failures);
+    }
+    list.append(row);
+  }
+}
+
+function renderCourse(
+  site: string,
+  courseKey: string,
+  course: CourseTracking,
+  reload: () => void,
+): HTMLElement {
+  const files = Object.entries(course.files).sort(([, a], [, b]) => b.timestamp - a.timestamp);
+  const courseId = courseKey === UNKNOWN_COURSE ? undefined : Number(courseKey);
+  const name =
+    courseKey === UNKNOWN_COURSE
+      ? i18n('historyUnknownCourse')
+      : describeCourse({ id: courseId, ...course }, site);
+
+  const block = createElement('details', 'course');
+  const summary = createElement('summary', 'course-summary');
+  summary.append(
+    createElement('span', 'course-name', name),
+    createElement('span', 'course-count', i18n('historyFiles', [String(files.length)])),
+  );
+  const last = files[0]?.[1].timestamp;
+  if (last) summary.append(createElement('span', 'course-date', formatDate(last)));
+  summary.append(
+    createButton(i18n('historyResetCourse'), () => {
+      void sendToBackground({ type: 'MD_RESET_COURSE_TRACKING', site, course: courseKey })
+        .then(() => {
+          setStatus(i18n('historyCourseReset', [name]));
+          reload();
+        })
+        .catch((err) => setStatus(toErrorMessage(err), true));
+    }),
+  );
+  block.append(summary);
+
+  const list = createElement('ul', 'course-files');
+  for (const [key, file] of files) {
+    const item = createElement('li', 'course-file');
+    const label = createElement('span', 'course-file-name', file.path || file.fileName);
+    label.title = key;
+    item.append(
+      label,
+      createElement('span', 'course-file-date', formatDate(file.timestamp)),
+      createButton(i18n('historyUntrack'), () => {
+        void sendToBackground({ type: 'MD_UNTRACK', urls: [key] })
+          .then(() => {
+            setStatus(i18n('historyUntracked', [file.fileName]));
+            reload();
+          })
+          .catch((err) => setStatus(toErrorMessage(err), true));
+      }),
+    );
+    list.append(item);
+  }
+  block.append(list);
+  return block;
+}
+
+function renderTracking(tracking: DownloadTrackingStore, reload: () => void): void {
+  const list = document.getElementById('trackedCourses');
+  if (!list) return;
+  list.textContent = '';
+
+  const sites = Object.entries(tracking.sites).sort(([a], [b]) => a.localeCompare(b));
+  const hasFiles = sites.some(([, courses]) => Object.keys(courses).length > 0);
+  document.getElementById('emptyTracking')?.classList.toggle('hidden', hasFiles);
+
+  for (const [site, courses] of sites) {
+    const block = createElement('section', 'site');
+    block.append(createElement('h3', 'site-title', site));
+    for (const [courseKey, course] of Object.entries(courses)) {
+      block.append(renderCourse(site, courseKey, course, reload));
+    }
+    list.append(block);
+  }
+}
+
+async function loadHistory(): Promise<void> {
+  const resp = await sendToBackground({ type: 'MD_GET_HISTORY' });
+  if (resp.type !== 'MD_HISTORY_RESULT') return;
+  renderJobs(resp.history);
+  renderTracking(resp.tracking, () => {
+    void loadHistory();
+  });
+}
+
+export async function initHistory(): Promise<void> {
+  try {
+    await loadHistory();
+  } catch (err) {
+    setStatus(toErrorMessage(err), true);
+  }
+}
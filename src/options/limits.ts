@@ -0,0 +1,62 @@
+import type { SizeLimits } from '../shared/types';
+import { STORAGE_KEYS } from '../shared/constants';
+import { storage } from '../shared/storage';
+import { toErrorMessage } from '../shared/utils';
+import { DEFAULT_SIZE_LIMITS, resolveSizeLimits } from '../popup/estimate';
+import { i18n, setStatus } from './ui';
+
+/*
+ * Size warnings section of the options page: the limits above which the popup asks before a
+ * download starts (see src/popup/estimate.ts). The fields are in MB; the limits are stored in
+ * bytes, and an empty field drops the override so the default applies again.
+ */
+
+const MB = 1024 * 1024;
+
+/** Input of each limit */
+const LIMIT_INPUTS: Record<keyof SizeLimits, string> = {
+  warnBytes: 'inputWarnBytes',
+  storedZipBytes: 'inputStoredZipBytes',
+};
+
+function getInput(key: keyof SizeLimits): HTMLInputElement | null {
+  return document.getElementById(LIMIT_INPUTS[key]) as HTMLInputElement | null;
+}
+
+export async function renderSizeLimits(): Promise<void> {
+  const stored = await storage.get(STORAGE_KEYS.sizeLimits);
+  const limits = resolveSizeLimits(stored);
+  for (const key of Object.keys(LIMIT_INPUTS) as Array<keyof SizeLimits>) {
+    const input = getInput(key);
+    if (!input) continue;
+    input.placeholder = String(Math.round(DEFAULT_SIZE_LIMITS[key] / MB));
+    input.value = stored?.[key] === undefined ? '' : String(Math.round(limits[key] / MB));
+  }
+}
+
+async function saveSizeLimit(key: keyof SizeLimits, text: string): Promise<void> {
+  const overrides = { ...(await storage.get(STORAGE_KEYS.sizeLimits)) };
+  const mb = Number(text);
+  if (text.trim() && Number.isFinite(mb) && mb > 0) overrides[key] = Math.round(mb * MB);
+  else delete overrides[key];
+
+  if (Object.keys(overrides).length) await storage.set(STORAGE_KEYS.sizeLimits, overrides);
+  else await storage.remove(STORAGE_KEYS.sizeLimits);
+  await renderSizeLimits();
+  setStatus(i18n('sizeLimitsSaved'));
+}
+
+export async function initSizeLimits(): Promise<void> {
+  for (const key of Object.keys(LIMIT_INPUTS) as Array<keyof SizeLimits>) {
+    const input = getInput(key);
+    input?.addEventListener('change', () => {
+      void saveSizeLimit(key, input.value).catch((err) => setStatus(toErrorMessage(err), true));
+    });
+  }
+
+  try {
+    await renderSizeLimits();
+  } catch (err) {
+    setStatus(toErrorMessage(err), true);
+  }
+}
@@ -0,0 +1,55 @@
+import type { TrackingSyncStatus } from '../shared/types';
+import { formatBytes, toErrorMessage } from '../shared/utils';
+import { formatDate, i18n, sendToBackground, setStatus } from './ui';
+
+/*
+ * Tracking sync section of the options page: turns the mirror of the download tracking in
+ * chrome.storage.sync on or off (see src/background/mirror.ts) and shows what is synced.
+ */
+
+function renderStatus(status: TrackingSyncStatus): void {
+  const checkbox = document.getElementById('chkTrackingSync') as HTMLInputElement | null;
+  if (checkbox) checkbox.checked = status.enabled;
+
+  const el = document.getElementById('trackingSyncStatus');
+  if (!el) return;
+  if (!status.updatedAt) {
+    el.textContent = status.enabled ? i18n('trackingSyncEmpty') : '';
+    return;
+  }
+  el.textContent = i18n('trackingSyncStatus', [
+    formatDate(status.updatedAt),
+    String(status.courses),
+    String(status.files),
+    formatBytes(status.bytes),
+  ]);
+}
+
+async function updateTrackingSync(enabled?: boolean): Promise<void> {
+  const resp = await sendToBackground(
+    enabled === undefined ? { type: 'MD_GET_TRACKING_SYNC' } : { type: 'MD_SET_TRACKING_SYNC', enabled },
+  );
+  if (resp.type !== 'MD_TRACKING_SYNC_RESULT') return;
+  if (!resp.ok) throw new Error(resp.error);
+  renderStatus(resp.status);
+}
+
+/** `onSynced` reloads the history after tracking of other devices was taken over */
+export async function initTrackingSync(onSynced: () => Promise<void>): Promise<void> {
+  const checkbox = document.getElementById('chkTrackingSync') as HTMLInputElement | null;
+  checkbox?.addEventListener('change', () => {
+    const enabled = checkbox.checked;
+    void updateTrackingSync(enabled)
+      .then(async () => {
+        setStatus(i18n(enabled ? 'trackingSyncEnabled' : 'trackingSyncDisabled'));
+        if (enabled) await onSynced();
+      })
+      .catch((err) => setStatus(toErrorMessage(err), true));
+  });
+
+  try {
+    await updateTrackingSync();
+  } catch (err) {
+    setStatus(toErrorMessage(err), true);
+  }
+}
@@ -0,0 +1,271 @@
+import type { ExtractorProfile, ExtractorSelectors } from '../shared/types';
+import { STORAGE_KEYS } from '../shared/constants';
+import { storage } from '../shared/storage';
+import {
+  DEFAULT_SELECTORS,
+  SELECTOR_KEYS,
+  loadExtractorProfiles,
+  mergeProfiles,
+  normalizeProfile,
+  parseProfiles,
+  serializeProfiles,
+} from '../shared/profiles';
+import { toErrorMessage } from '../shared/utils';
+import { downloadJson, i18n, localizeHtml, setStatus } from './ui';
+import { initHistory } from './history';
+import { initBackup } from './backup';
+import { initTrackingSync } from './mirror';
+import { initSizeLimits, renderSizeLimits } from './limits';
+
+/*
+ * Options page: the download history (see history.ts), tracking sync (mirror.ts), size warnings
+ * (limits.ts), the extractor profiles per Moodle host (selector overrides, include/exclude
+ * patterns) and backups (backup.ts). Profiles
+ * are edited as a list of forms and saved to chrome.storage.local, where the content script
+ * and the background read them for every extraction.
+ */
+
+/** Locale key of the label for each selector list */
+const SELECTOR_LABELS: Record<keyof ExtractorSelectors, string> = {
+  moodleDetect: 'profileMoodleDetect',
+  courseName: 'profileCourseName',
+  sections: 'profileSections',
+  sectionTitles: 'profileSectionTitles',
+  activityLinks: 'profileActivityLinks',
+  richText: 'profileRichText',
+};
+
+let profiles: ExtractorProfile[] = [];
+
+function toLines(list: string[] | undefined): string {
+  return (list ?? []).join('\n');
+}
+
+function fromLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+function createField(
+  label: string,
+  control: HTMLInputElement | HTMLTextAreaElement,
+  hint?: string,
+): HTMLElement {
+  const field = document.createElement('label');
+  field.className = 'field';
+  const span = document.createElement('span');
+  span.textContent = label;
+  field.append(span, control);
+  if (hint) {
+    const small = document.createElement('span');
+    small.className = 'field-hint';
+    small.textContent = hint;
+    field.append(small);
+  }
+  return field;
+}
+
+function createInput(value: string, name: string, placeholder = ''): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.name = name;
+  input.value = value;
+  input.placeholder = placeholder;
+  return input;
+}
+
+function createTextarea(value: string, name: string, placeholder = ''): HTMLTextAreaElement {
+  const textarea = document.createElement('textarea');
+  textarea.name = name;
+  textarea.value = value;
+  textarea.placeholder = placeholder;
+  textarea.spellcheck = false;
+  return textarea;
+}
+
+/** Invalid CSS selectors of a profile (they would be ignored by the extractor) */
+function findInvalidSelectors(profile: ExtractorProfile): string[] {
+  const invalid: string[] = [];
+  for (const key of SELECTOR_KEYS) {
+    for (const sel of profile.selectors?.[key] ?? []) {
+      try {
+        document.createDocumentFragment().querySelector(sel);
+      } catch {
+        invalid.push(sel);
+      }
+    }
+  }
+  return invalid;
+}
+
+/**
+ * Reads the forms back into profiles. With `validate`, throws on a missing host pattern or
+ * an invalid selector; otherwise the forms are taken as they are (to keep edits on re-render).
+ */
+function readProfiles(validate: boolean): ExtractorProfile[] {
+  const cards = Array.from(document.querySelectorAll<HTMLElement>('#profileList .profile'));
+  return cards.map((card, index) => {
+    const value = (name: string) =>
+      card.querySelector<HTMLInputElement | HTMLTextAreaElement>(`[name="${name}"]`)?.value ?? '';
+    const raw = {
+      id: card.dataset['id'],
+      name: value('name'),
+      hostPattern: value('hostPattern'),
+      selectors: Object.fromEntries(SELECTOR_KEYS.map((key) => [key, fromLines(value(key))])),
+      include: fromLines(value('include')),
+      exclude: fromLines(value('exclude')),
+    };
+    if (!validate) {
+      return { ...raw, id: raw.id ?? '', selectors: raw.selectors as Partial<ExtractorSelectors> };
+    }
+
+    const profile = normalizeProfile(raw, index);
+    const invalid = findInvalidSelectors(profile);
+    if (invalid.length) throw new Error(i18n('profileInvalidSelector', [profile.name, invalid.join(', ')]));
+    return profile;
+  });
+}
+
+function renderProfiles(): void {
+  const list = document.getElementById('profileList');
+  if (!list) return;
+  list.textContent = '';
+  document.getElementById('emptyProfiles')?.classList.toggle('hidden', profiles.length > 0);
+
+  profiles.forEach((profile, index) => {
+    const card = document.createElement('section');
+    card.className = 'profile';
+    card.dataset['id'] = profile.id;
+
+    card.append(
+      createField(i18n('profileName'), createInput(profile.name, 'name')),
+      createField(
+        i18n('profileHostPattern'),
+        createInput(profile.hostPattern, 'hostPattern', 'moodle.example.edu'),
+        i18n('profileHostPatternHint'),
+      ),
+    );
+
+    // Placeholders show the defaults that apply while a list is empty
+    for (const key of SELECTOR_KEYS) {
+      const textarea = createTextarea(
+        toLines(profile.selectors?.[key]),
+        key,
+        toLines(DEFAULT_SELECTORS[key]),
+      );
+      card.append(createField(i18n(SELECTOR_LABELS[key]), textarea));
+    }
+
+    card.append(
+      createField(
+        i18n('profileInclude'),
+        createTextarea(toLines(profile.include), 'include', '*files.example.edu/*'),
+        i18n('profilePatternHint'),
+      ),
+      createField(
+        i18n('profileExclude'),
+        createTextarea(toLines(profile.exclude), 'exclude', '*/mod/quiz/*'),
+        i18n('profilePatternHint'),
+      ),
+    );
+
+    const actions = document.createElement('div');
+    actions.className = 'profile-actions';
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.className = 'btn btn-danger';
+    remove.textContent = i18n('profileDelete');
+    remove.addEventListener('click', () => {
+      profiles = readProfiles(false);
+      profiles.splice(index, 1);
+      renderProfiles();
+    });
+    actions.append(remove);
+    card.append(actions);
+
+    list.append(card);
+  });
+}
+
+async function saveProfiles(): Promise<void> {
+  try {
+    profiles = readProfiles(true);
+  } catch (err) {
+    setStatus(toErrorMessage(err), true);
+    return;
+  }
+  await storage.set(STORAGE_KEYS.extractorProfiles, profiles);
+  renderProfiles();
+  setStatus(i18n('profilesSaved'));
+}
+
+/** Downloads the profiles as shown in the forms (unsaved edits included) */
+function exportProfiles(): void {
+  try {
+    profiles = readProfiles(true);
+  } catch (err) {
+    setStatus(toErrorMessage(err), true);
+    return;
+  }
+  downloadJson(serializeProfiles(profiles), 'moodle-download-profiles.json');
+}
+
+async function importProfiles(file: File): Promise<void> {
+  try {
+    const imported = parseProfiles(await file.text());
+    profiles = mergeProfiles(readProfiles(false), imported);
+  } catch (err) {
+    setStatus(i18n('profilesImportFailed', [toErrorMessage(err)]), true);
+    return;
+  }
+  renderProfiles();
+  setStatus(i18n('profilesImported', [String(profiles.length)]));
+}
+
+function attachEventHandlers(): void {
+  document.getElementById('btnAddProfile')?.addEventListener('click', () => {
+    profiles = readProfiles(false);
+    profiles.push({ id: `profile-${Date.now().toString(36)}`, name: '', hostPattern: '' });
+    renderProfiles();
+  });
+
+  document.getElementById('btnSaveProfiles')?.addEventListener('click', () => {
+    void saveProfiles();
+  });
+
+  document.getElementById('btnExportProfiles')?.addEventListener('click', () => {
+    exportProfiles();
+  });
+
+  const fileInput = document.getElementById('fileImportProfiles') as HTMLInputElement | null;
+  document.getElementById('btnImportProfiles')?.addEventListener('click', () => fileInput?.click());
+  fileInput?.addEventListener('change', () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (file) void importProfiles(file);
+  });
+}
+
+async function init(): Promise<void> {
+  localizeHtml();
+  attachEventHandlers();
+  profiles = await loadExtractorProfiles();
+  renderProfiles();
+  await initHistory();
+  await initTrackingSync(initHistory);
+  await initSizeLimits();
+  initBackup(async () => {
+    profiles = await loadExtractorProfiles();
+    renderProfiles();
+    await initHistory();
+    await renderSizeLimits();
+  });
+  // The popup opens the page at a section (#history, #profiles)
+  if (window.location.hash) document.querySelector(window.location.hash)?.scrollIntoView();
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  void init();
+});
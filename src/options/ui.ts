@@ -0,0 +1,49 @@
+import type { MessageFromBackground, MessageToBackground } from '../shared/types';
+import { extAsync } from '../shared/ext';
+import { getExtApi } from '../shared/utils';
+
+/* Helpers shared by the sections of the options page. */
+
+const ext = getExtApi();
+
+export async function sendToBackground(msg: MessageToBackground): Promise<MessageFromBackground> {
+  return extAsync.runtimeSendMessage<MessageFromBackground>(msg);
+}
+
+export function i18n(key: string, substitutions?: string | string[]): string {
+  try {
+    return ext.i18n.getMessage(key, substitutions as any) || key;
+  } catch {
+    return key;
+  }
+}
+
+export function localizeHtml(): void {
+  document.querySelectorAll<HTMLElement>('[data-i18n]').forEach((el) => {
+    const key = el.getAttribute('data-i18n');
+    if (!key) return;
+    el.textContent = i18n(key);
+  });
+}
+
+export function setStatus(text: string, isError = false): void {
+  const el = document.getElementById('status');
+  if (!el) return;
+  el.textContent = text;
+  el.classList.toggle('error', isError);
+}
+
+export function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** Saves `text` as a file through the browser's download (export buttons) */
+export function downloadJson(text: string, fileName: string): void {
+  const blob = new Blob([text], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
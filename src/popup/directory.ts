@@ -0,0 +1,103 @@
+/**
+ * Hilfsfunktionen für File System Access (gespeicherter Zielordner).
+ */
+
+export type DirectoryHandleWithPermissions = FileSystemDirectoryHandle & {
+  queryPermission?: (options?: any) => Promise<PermissionState>;
+  requestPermission?: (options?: any) => Promise<PermissionState>;
+};
+
+/** Fragt Schreibrechte ab und fordert sie bei Bedarf an (benötigt User-Geste). */
+export async function ensureWritePermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+  const h = handle as DirectoryHandleWithPermissions;
+  const perm = await h.queryPermission?.({ mode: 'readwrite' });
+  if (perm === 'granted' || perm === undefined) return true;
+  const req = await h.requestPermission?.({ mode: 'readwrite' });
+  return req === 'granted';
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter((p) => p && p !== '.' && p !== '..');
+}
+
+/** Liefert den Unterordner für `dirPath` (z.B. 'Kurs/Woche 1'), legt ihn optional an. */
+export async function getDirectoryForPath(
+  root: FileSystemDirectoryHandle,
+  dirPath: string,
+  create: boolean,
+): Promise<FileSystemDirectoryHandle> {
+  let dir = root;
+  for (const part of splitPath(dirPath)) {
+    dir = await dir.getDirectoryHandle(part, { create });
+  }
+  return dir;
+}
+
+/** Öffnet einen Schreibstream für `filePath` relativ zu `root`; Unterordner werden angelegt. */
+export async function createWritableAtPath(
+  root: FileSystemDirectoryHandle,
+  filePath: string,
+): Promise<FileSystemWritableFileStream> {
+  const parts = splitPath(filePath);
+  const fileName = parts.pop();
+  if (!fileName) throw new Error(`Invalid file path: ${filePath}`);
+
+  const dir = await getDirectoryForPath(root, parts.join('/'), true);
+  const fileHandle = await dir.getFileHandle(fileName, { create: true });
+  return fileHandle.createWritable();
+}
+
+/** Liefert die Datei unter `filePath`, oder undefined, wenn sie (noch) nicht existiert. */
+export async function getFileAtPath(
+  root: FileSystemDirectoryHandle,
+  filePath: string,
+): Promise<File | undefined> {
+  const parts = splitPath(filePath);
+  const fileName = parts.pop();
+  if (!fileName) return undefined;
+
+  try {
+    const dir = await getDirectoryForPath(root, parts.join('/'), false);
+    const fileHandle = await dir.getFileHandle(fileName);
+    return await fileHandle.getFile();
+  } catch {
+    return undefined;
+  }
+}
+
+/** Löscht die Datei unter `filePath` (fehlende Dateien werden ignoriert). */
+export async function removeFileAtPath(root: FileSystemDirectoryHandle, filePath: string): Promise<void> {
+  const parts = splitPath(filePath);
+  const fileName = parts.pop();
+  if (!fileName) return;
+
+  try {
+    const dir = await getDirectoryForPath(root, parts.join('/'), false);
+    await dir.removeEntry(fileName);
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Verschiebt eine Datei innerhalb von `root`. Die API kennt kein portables `move()`,
+ * daher kopieren (gestreamt) und danach das Original löschen.
+ */
+export async function moveFileAtPath(
+  root: FileSystemDirectoryHandle,
+  fromPath: string,
+  toPath: string,
+): Promise<boolean> {
+  const file = await getFileAtPath(root, fromPath);
+  if (!file) return false;
+
+  const writable = await createWritableAtPath(root, toPath);
+  try {
+    await file.stream().pipeTo(writable);
+  } catch (err) {
+    await writable.abort().catch(() => undefined);
+    throw err;
+  }
+  await removeFileAtPath(root, fromPath);
+  return true;
+}
@@ -0,0 +1,88 @@
+/**
+ * Größenschätzung vor dem Start eines Downloads.
+ *
+ * Die Summe stammt aus `MoodleResource.size` (Web Services oder HEAD-Preflight). Ordner,
+ * Abgaben, Seiten und Videos haben vor dem Download keine Größe; die Schätzung ist dann
+ * eine Untergrenze.
+ */
+
+import type { MoodleResource, SaveSettings, SizeLimits } from '../shared/types';
+
+export const DEFAULT_SIZE_LIMITS: SizeLimits = {
+  warnBytes: 2 * 1024 * 1024 * 1024,
+  storedZipBytes: 1024 * 1024 * 1024,
+};
+
+export interface SizeEstimate {
+  files: number;
+  /** Summe der bekannten Größen */
+  bytes: number;
+  /** Anzahl der Ressourcen ohne bekannte Größe */
+  unknown: number;
+}
+
+/**
+ * threshold: über `warnBytes`
+ * quota:     mehr als verfügbar ist (`navigator.storage.estimate()`: Zielordner bzw. der
+ *            Speicher der Erweiterung, in dem ein ZIP für den Downloads-Ordner entsteht)
+ * storedZip: ZIP im Modus „Downloads“ größer als `storedZipBytes`
+ */
+export interface SizeWarning {
+  reason: 'threshold' | 'quota' | 'storedZip';
+  /** Die überschrittene Grenze in Bytes */
+  limit: number;
+}
+
+/** Übernimmt gespeicherte Abweichungen; unsinnige Werte werden ignoriert */
+export function resolveSizeLimits(overrides?: Partial<SizeLimits>): SizeLimits {
+  const limits = { ...DEFAULT_SIZE_LIMITS };
+  for (const key of Object.keys(limits) as Array<keyof SizeLimits>) {
+    const value = overrides?.[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) limits[key] = value;
+  }
+  return limits;
+}
+
+export function estimateSize(resources: MoodleResource[]): SizeEstimate {
+  const estimate: SizeEstimate = { files: resources.length, bytes: 0, unknown: 0 };
+  for (const r of resources) {
+    if (r.size === undefined) estimate.unknown += 1;
+    else estimate.bytes += r.size;
+  }
+  return estimate;
+}
+
+/**
+ * Warnungen für einen Download mit den gegebenen Speicher-Einstellungen. `available` ist der
+ * freie Platz im Verzeichnis-Modus bzw. für ein ZIP im Modus „Downloads“, das vor dem Speichern
+ * in IndexedDB abgelegt wird (undefined, wenn der Browser ihn nicht nennt).
+ */
+export function getSizeWarnings(
+  estimate: SizeEstimate,
+  settings: Pick<SaveSettings, 'mode' | 'output'>,
+  limits: SizeLimits,
+  available?: number,
+): SizeWarning[] {
+  const warnings: SizeWarning[] = [];
+  if (estimate.bytes > limits.warnBytes) warnings.push({ reason: 'threshold', limit: limits.warnBytes });
+
+  const storedZip = settings.mode !== 'directory' && settings.output !== 'files';
+  if (storedZip && estimate.bytes > limits.storedZipBytes) {
+    warnings.push({ reason: 'storedZip', limit: limits.storedZipBytes });
+  }
+  if ((settings.mode === 'directory' || storedZip) && available !== undefined && estimate.bytes > available) {
+    warnings.push({ reason: 'quota', limit: available });
+  }
+  return warnings;
+}
+
+/** Freier Speicher laut `navigator.storage.estimate()` (Quota minus Belegung), falls bekannt */
+export async function getAvailableSpace(): Promise<number | undefined> {
+  try {
+    const { quota, usage } = await navigator.storage.estimate();
+    if (quota === undefined) return undefined;
+    return Math.max(0, quota - (usage ?? 0));
+  } catch {
+    return undefined;
+  }
+}
@@ -1,38 +1,120 @@
 import type {
+  CourseSection,
+  DownloadFailure,
   DownloadTrackingMap,
+  JobSummary,
+  LinkFormat,
   MessageFromBackground,
   MessageFromContent,
   MessageToBackground,
   MessageToContent,
+  MoodleCourse,
   MoodleResource,
+  NamingSettings,
   SaveSettings,
-  ZipPortMessageFromBackground,
-  ZipPortMessageToBackground,
+  SizeLimits,
+  StreamPortMessageFromBackground,
+  StreamPortMessageToBackground,
+  WebServiceSettings,
 } from '../shared/types';
-import { DEFAULT_ZIP_NAME, GITHUB_REPO, GITHUB_REPO_URL, STORAGE_KEYS } from '../shared/constants';
+import {
+  GITHUB_REPO,
+  GITHUB_REPO_URL,
+  JOB_CANCELLED_ERROR,
+  JOB_INTERRUPTED_ERROR,
+  STORAGE_KEYS,
+} from '../shared/constants';
 import { extAsync } from '../shared/ext';
+import { isDefaultNaming, renderFilePath, renderZipName, resolveNaming } from '../shared/naming';
 import { storage } from '../shared/storage';
 import { idbDeleteHandle, idbGetHandle, idbSetHandle } from '../shared/idb';
-import { getExtApi, normalizeUrlKey, sanitizeFileName, toErrorMessage } from '../shared/utils';
+import {
+  createWritableAtPath,
+  ensureWritePermission,
+  getFileAtPath,
+  moveFileAtPath,
+  removeFileAtPath,
+} from './directory';
+import {
+  createSyncStats,
+  findVanishedEntries,
+  hashLocalFile,
+  isSyncUnchanged,
+  planSyncTarget,
+  toConflictPath,
+  toRemovedPath,
+  type SyncStats,
+  type SyncTarget,
+} from './sync';
+import {
+  DEFAULT_SIZE_LIMITS,
+  estimateSize,
+  getAvailableSpace,
+  getSizeWarnings,
+  resolveSizeLimits,
+  type SizeWarning,
+} from './estimate';
+import {
+  base64ToUint8,
+  dedupeResources,
+  describeFailure,
+  formatBytes,
+  getCourseIdFromUrl,
+  getExtApi,
+  guessMoodleRoot,
+  joinZipPath,
+  normalizeUrlKey,
+  sanitizeFileName,
+  toErrorMessage,
+} from '../shared/utils';
 
 const ext = getExtApi();
 
 const IDB_HANDLE_KEY = 'saveDirectory';
 
-type DirectoryHandleWithPermissions = FileSystemDirectoryHandle & {
-  queryPermission?: (options?: any) => Promise<PermissionState>;
-  requestPermission?: (options?: any) => Promise<PermissionState>;
-};
+/** Receives the output of an `md-stream` job (one ZIP or loose files). */
+interface StreamWriter {
+  /** `knownHash`: hash of the version downloaded last time (if tracked) */
+  startFile?(path: string, knownHash?: string): Promise<void>;
+  write(bytes: Uint8Array): Promise<void>;
+  endFile?(path: string, hash: string): Promise<void>;
+  abortFile?(path: string): Promise<void>;
+  /** Bytes written so far (zip); a resumed job continues the archive from there */
+  bytesWritten?(): number;
+  /** The resumed job continues at `offset`; everything written after it is dropped */
+  resumeAt?(offset: number): Promise<void>;
+}
+
+/** How often a stream job reconnects after the background went away (service worker terminated) */
+const STREAM_RECONNECT_ATTEMPTS = 3;
+
+class StreamDisconnectedError extends Error {}
 
 let resources: MoodleResource[] = [];
 let tracking: DownloadTrackingMap = {};
+/** Tracked files that changed on the server since their download (normalized URLs) */
+let updatedKeys = new Set<string>();
 let onlyNew = false;
 let selected = new Set<string>();
 let selectedBeforeOnlyNew: Set<string> | null = null;
 let saveSettings: SaveSettings = { mode: 'downloads', saveAs: false };
 let savedDirectoryHandle: FileSystemDirectoryHandle | null = null;
+let sizeLimits: SizeLimits = DEFAULT_SIZE_LIMITS;
+/** Answers the open size warning (true: download anyway) */
+let resolveSizePanel: ((proceed: boolean) => void) | null = null;
 let sortMode: 'path' | 'type' | 'name' | 'new' = 'type';
-let lastFailedUrls: string[] = [];
+let lastFailures: DownloadFailure[] = [];
+let activeTabId: number | undefined;
+let activeTabUrl: string | undefined;
+/** Moodle site root of the active tab (key for web service tokens) */
+let siteRoot: string | undefined;
+let wsSettings: WebServiceSettings = { enabled: false, tokens: {} };
+/** Course overview page: the list shows courses; their files are loaded on demand */
+let courseMode = false;
+let courses: MoodleCourse[] = [];
+let selectedCourses = new Set<number>();
+/** Running or paused download job (from the background's job list) */
+let currentJob: JobSummary | null = null;
 
 function initRepoLink(): void {
   const link = document.getElementById('repoLink') as HTMLAnchorElement | null;
@@ -67,11 +149,16 @@ function localizeHtml(): void {
     if (!key) return;
     el.textContent = i18n(key);
   });
+  document.querySelectorAll<HTMLInputElement>('[data-i18n-placeholder]').forEach((el) => {
+    const key = el.getAttribute('data-i18n-placeholder');
+    if (!key) return;
+    el.placeholder = i18n(key);
+  });
 }
 
-async function getActiveTabId(): Promise<number | undefined> {
+async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
   const tabs = await extAsync.tabsQuery({ active: true, currentWindow: true });
-  return tabs[0]?.id;
+  return tabs[0];
 }
 
 async function sendToContent(tabId: number, msg: MessageToContent): Promise<MessageFromContent> {
@@ -82,25 +169,111 @@ async function sendToBackground(msg: MessageToBackground): Promise<MessageFromBa
   return extAsync.runtimeSendMessage<MessageFromBackground>(msg);
 }
 
-function isResourceNew(r: MoodleResource): boolean {
+type ResourceState = 'new' | 'updated' | 'downloaded';
+
+function getResourceState(r: MoodleResource): ResourceState {
   const key = normalizeUrlKey(r.url);
-  return !tracking[key];
+  if (!tracking[key]) return 'new';
+  return updatedKeys.has(key) ? 'updated' : 'downloaded';
+}
+
+/** New or changed on the server since the last download */
+function isResourceNew(r: MoodleResource): boolean {
+  return getResourceState(r) !== 'downloaded';
 }
 
 function getVisibleResources(): MoodleResource[] {
   return onlyNew ? resources.filter(isResourceNew) : [...resources];
 }
 
-function formatBytes(bytes?: number): string {
-  if (!bytes || bytes <= 0) return '';
-  const units = ['B', 'KB', 'MB', 'GB'];
-  let val = bytes;
-  let idx = 0;
-  while (val >= 1024 && idx < units.length - 1) {
-    val /= 1024;
-    idx += 1;
+/** The naming templates as currently entered (not saved yet while typing) */
+function readNamingForm(): NamingSettings {
+  const value = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.value;
+  const checked = (id: string) => !!(document.getElementById(id) as HTMLInputElement | null)?.checked;
+  return resolveNaming({
+    template: value('txtNameTemplate'),
+    zipTemplate: value('txtZipTemplate'),
+    flatten: checked('chkFlatten'),
+    numbering: checked('chkNumbering'),
+    transliterate: checked('chkTransliterate'),
+  });
+}
+
+/** Where the first selected file (else the first listed) would end up, and the ZIP name */
+function updateNamingPreview(naming = resolveNaming(saveSettings.naming)): void {
+  const el = document.getElementById('namingPreview');
+  if (!el) return;
+  const chosen = resources.filter((r) => selected.has(r.id));
+  const example = chosen[0] ?? resources[0];
+  el.textContent = '';
+  if (!example) return;
+
+  const path = document.createElement('div');
+  path.textContent = renderFilePath(example, example.fileName ?? example.name, naming);
+  const zip = document.createElement('div');
+  zip.textContent = i18n('namingPreviewZip', [renderZipName(chosen.length ? chosen : resources, naming)]);
+  el.append(path, zip);
+}
+
+/** Number and estimated size of the selected files, marked when the size would trigger a warning */
+function updateSelectionSummary(): void {
+  const el = document.getElementById('selectionSummary');
+  if (!el) return;
+  const chosen = courseMode ? [] : resources.filter((r) => selected.has(r.id));
+  el.classList.toggle('hidden', chosen.length === 0);
+
+  const estimate = estimateSize(chosen);
+  if (estimate.unknown === chosen.length) {
+    el.textContent = i18n('selectionCount', [String(chosen.length)]);
+  } else {
+    // Folders, assignments and videos have no size yet: the sum is a lower bound
+    const key = estimate.unknown > 0 ? 'selectionSizeAtLeast' : 'selectionSize';
+    el.textContent = i18n(key, [String(chosen.length), formatBytes(estimate.bytes)]);
   }
-  return `${val.toFixed(idx === 0 ? 0 : 1)} ${units[idx]}`;
+  el.classList.toggle('warn', getSizeWarnings(estimate, saveSettings, sizeLimits).length > 0);
+  updateNamingPreview();
+}
+
+function describeSizeWarning(warning: SizeWarning, bytes: number): string {
+  const key = {
+    threshold: 'sizeWarningThreshold',
+    quota: 'sizeWarningQuota',
+    storedZip: 'sizeWarningStoredZip',
+  }[warning.reason];
+  return i18n(key, [formatBytes(bytes), formatBytes(warning.limit)]);
+}
+
+/**
+ * Checks the estimated size of a download against the limits (and the available space where
+ * the download is written first: the chosen folder, or the extension's storage for a ZIP).
+ * Shows the warnings and waits for the user; true when the download may start.
+ */
+async function confirmDownloadSize(list: MoodleResource[]): Promise<boolean> {
+  const estimate = estimateSize(list);
+  const available =
+    saveSettings.mode === 'directory' || saveSettings.output !== 'files'
+      ? await getAvailableSpace()
+      : undefined;
+  const warnings = getSizeWarnings(estimate, saveSettings, sizeLimits, available);
+  if (warnings.length === 0) return true;
+
+  const panel = document.getElementById('sizePanel');
+  const text = document.getElementById('sizeWarnings');
+  if (!panel || !text) return true;
+  text.textContent = '';
+  for (const warning of warnings) {
+    const line = document.createElement('div');
+    line.textContent = describeSizeWarning(warning, estimate.bytes);
+    text.append(line);
+  }
+  panel.classList.remove('hidden');
+
+  const proceed = await new Promise<boolean>((resolve) => {
+    resolveSizePanel?.(false);
+    resolveSizePanel = resolve;
+  });
+  panel.classList.add('hidden');
+  return proceed;
 }
 
 function onResourceCheckboxChange(ev: Event): void {
@@ -110,6 +283,7 @@ function onResourceCheckboxChange(ev: Event): void {
   if (!id) return;
   if (cb.checked) selected.add(id);
   else selected.delete(id);
+  updateSelectionSummary();
 }
 
 function onResourceRowClick(ev: Event): void {
@@ -122,28 +296,52 @@ function onResourceRowClick(ev: Event): void {
   cb?.click();
 }
 
-function toUint8Array(data: ArrayBuffer | Uint8Array): Uint8Array {
-  return data instanceof Uint8Array ? data : new Uint8Array(data);
+function onCourseCheckboxChange(ev: Event): void {
+  const cb = ev.target as HTMLInputElement | null;
+  if (!cb) return;
+  const id = Number(cb.getAttribute('data-course-id'));
+  if (!id) return;
+  if (cb.checked) selectedCourses.add(id);
+  else selectedCourses.delete(id);
 }
 
-function toArrayBuffer(data: ArrayBuffer | Uint8Array): ArrayBuffer {
-  if (data instanceof ArrayBuffer) return data;
-  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
-}
+function renderCourseList(list: HTMLElement): void {
+  const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+  const sorted = [...courses].sort((a, b) => collator.compare(a.name, b.name));
 
-function blobToDataUrl(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(String(reader.result));
-    reader.onerror = () => reject(reader.error || new Error('Failed to read blob'));
-    reader.readAsDataURL(blob);
-  });
+  for (const c of sorted) {
+    const row = document.createElement('div');
+    row.className = 'row';
+    row.innerHTML = `
+      <div class="cell-check">
+        <input type="checkbox" ${selectedCourses.has(c.id) ? 'checked' : ''} data-course-id="${c.id}" />
+      </div>
+      <div class="cell-icon">
+        <div class="badge t-folder">COURSE</div>
+      </div>
+      <div class="cell-main">
+        <div class="name" title="${c.name}">${c.name}</div>
+        <div class="sub" title="${c.url}">${i18n('courseWillBeLoaded')}</div>
+      </div>
+      <div class="cell-meta"></div>
+    `;
+
+    row.querySelector('input[type="checkbox"]')?.addEventListener('change', onCourseCheckboxChange);
+    row.addEventListener('click', onResourceRowClick);
+    list.appendChild(row);
+  }
 }
 
 function renderList(): void {
   const list = document.getElementById('resourceList');
   if (!list) return;
   list.innerHTML = '';
+  updateSelectionSummary();
+
+  if (courseMode) {
+    renderCourseList(list);
+    return;
+  }
 
   const visible = getVisibleResources();
 
@@ -169,6 +367,7 @@ function renderList(): void {
   const typeOrder = (ft: string): number => {
     const t = (ft || 'other').toLowerCase();
     if (t === 'folder' || t === 'dir') return 100;
+    if (t === 'assign') return 110;
 
     if (t === 'pdf') return 0;
 
@@ -180,14 +379,16 @@ function renderList(): void {
 
     if (t === 'png' || t === 'jpg' || t === 'jpeg' || t === 'gif' || t === 'webp' || t === 'svg') return 50;
 
-    if (t === 'mp4' || t === 'mov' || t === 'm4v' || t === 'webm') return 60;
+    if (t === 'mp4' || t === 'mov' || t === 'm4v' || t === 'webm' || t === 'video') return 60;
     if (t === 'mp3' || t === 'wav' || t === 'm4a' || t === 'ogg') return 70;
+    if (t === 'page' || t === 'book') return 80;
+    if (t === 'url') return 85;
 
     return 90;
   };
 
   const getType = (r: MoodleResource): string => {
-    if (r.type === 'folder') return 'folder';
+    if (r.type !== 'file') return r.type;
     // Avoid showing "FILE" in the UI; if we cannot infer a type, use "other".
     return (r.fileType || 'other').toLowerCase();
   };
@@ -241,17 +442,22 @@ function renderList(): void {
     const checked = selected.has(r.id);
     const ftRaw = getType(r);
     const ftSafe = (ftRaw || 'other').replace(/[^a-z0-9]/gi, '').toLowerCase() || 'other';
-    const badgeText = r.type === 'folder' ? 'FOLDER' : (ftRaw || 'other').toUpperCase();
+    const badgeText = (ftRaw || 'other').toUpperCase();
 
     const pathLabel = r.path || i18n('noFolder');
 
     const pills: string[] = [];
-    pills.push(
-      `<span class="pill ${isResourceNew(r) ? 'pill-new' : 'pill-done'}">${isResourceNew(r) ? i18n('new') : i18n('downloaded')}</span>`,
-    );
+    const state = getResourceState(r);
+    const stateClass = { new: 'pill-new', updated: 'pill-updated', downloaded: 'pill-done' }[state];
+    pills.push(`<span class="pill ${stateClass}">${i18n(state)}</span>`);
     if (r.size) pills.push(`<span class="pill pill-size">${formatBytes(r.size)}</span>`);
 
-    const sub = r.type === 'folder' ? `${pathLabel} • ${i18n('folderWillBeExpanded')}` : pathLabel;
+    let sub = r.fileName && r.fileName !== r.name ? `${pathLabel} • ${r.fileName}` : pathLabel;
+    if (r.type === 'folder') sub = `${pathLabel} • ${i18n('folderWillBeExpanded')}`;
+    if (r.type === 'assign') sub = `${pathLabel} • ${i18n('assignWillBeExpanded')}`;
+    if (r.type === 'page' || r.type === 'book') sub = `${pathLabel} • ${i18n('documentWillBeExported')}`;
+    if (r.type === 'url') sub = `${pathLabel} • ${i18n('linkWillBeResolved')}`;
+    if (r.type === 'video') sub = `${pathLabel} • ${i18n('videoWillBeResolved')}`;
 
     row.innerHTML = `
       <div class="cell-check">
@@ -285,6 +491,10 @@ function setButtonsEnabled(enabled: boolean): void {
     'btnDownload',
     'btnReset',
     'chkOnlyNew',
+    'chkLooseFiles',
+    'chkMoveRemoved',
+    'chkFolderArchives',
+    'btnSync',
     'selSort',
   ];
   for (const id of ids) {
@@ -306,11 +516,84 @@ function updateSaveLabel(): void {
   el.textContent = saveSettings.saveAs ? i18n('saveModeAsk') : i18n('saveModeDownloads');
 }
 
+function updateOutputControls(): void {
+  const looseFiles = saveSettings.output === 'files';
+
+  const chk = document.getElementById('chkLooseFiles') as HTMLInputElement | null;
+  if (chk) chk.checked = looseFiles;
+
+  const btn = document.getElementById('btnDownload');
+  if (btn) {
+    if (courseMode) btn.textContent = i18n('loadCourses');
+    else btn.textContent = looseFiles ? i18n('downloadFiles') : i18n('downloadAsZip');
+  }
+
+  // Sync works on the chosen folder only.
+  const canSync = saveSettings.mode === 'directory' && !courseMode;
+  document.getElementById('btnSync')?.classList.toggle('hidden', !canSync);
+  document.getElementById('syncOptions')?.classList.toggle('hidden', !canSync);
+
+  const chkMoveRemoved = document.getElementById('chkMoveRemoved') as HTMLInputElement | null;
+  if (chkMoveRemoved) chkMoveRemoved.checked = !!saveSettings.moveRemoved;
+
+  const selLinks = document.getElementById('selLinks') as HTMLSelectElement | null;
+  if (selLinks) selLinks.value = saveSettings.links ?? 'files';
+
+  const chkFolderArchives = document.getElementById('chkFolderArchives') as HTMLInputElement | null;
+  if (chkFolderArchives) chkFolderArchives.checked = !!saveSettings.folderArchives;
+
+  const naming = resolveNaming(saveSettings.naming);
+  const txtNameTemplate = document.getElementById('txtNameTemplate') as HTMLInputElement | null;
+  if (txtNameTemplate) txtNameTemplate.value = naming.template;
+  const txtZipTemplate = document.getElementById('txtZipTemplate') as HTMLInputElement | null;
+  if (txtZipTemplate) txtZipTemplate.value = naming.zipTemplate;
+  for (const [id, on] of [
+    ['chkFlatten', naming.flatten],
+    ['chkNumbering', naming.numbering],
+    ['chkTransliterate', naming.transliterate],
+  ] as const) {
+    const chkNaming = document.getElementById(id) as HTMLInputElement | null;
+    if (chkNaming) chkNaming.checked = on;
+  }
+  updateNamingPreview(naming);
+}
+
 async function loadTracking(): Promise<void> {
   const resp = await sendToBackground({ type: 'MD_GET_TRACKING' });
   if (resp.type === 'MD_TRACKING_RESULT') tracking = resp.tracking;
 }
 
+/** Reloads tracking after a job; files that were fetched again are no longer "updated". */
+async function refreshTrackingAfterJob(
+  jobResources: MoodleResource[],
+  failures: DownloadFailure[],
+): Promise<void> {
+  await loadTracking();
+  const failed = new Set(failures.map((f) => f.url));
+  for (const r of jobResources) {
+    if (!failed.has(r.url)) updatedKeys.delete(normalizeUrlKey(r.url));
+  }
+}
+
+/**
+ * Asks the background which downloaded files were changed on the server (conditional HEAD).
+ * Runs after the list is shown; changed files are marked and, with "only new", selected.
+ */
+async function checkForUpdates(): Promise<void> {
+  const tracked = resources.filter((r) => r.type === 'file' && tracking[normalizeUrlKey(r.url)]);
+  if (tracked.length === 0) return;
+
+  const resp = await sendToBackground({ type: 'MD_CHECK_UPDATES', resources: tracked });
+  if (resp.type !== 'MD_CHECK_UPDATES_RESULT') return;
+
+  updatedKeys = new Set(resp.updatedUrls.map((url) => normalizeUrlKey(url)));
+  if (onlyNew) {
+    for (const r of resources) if (updatedKeys.has(normalizeUrlKey(r.url))) selected.add(r.id);
+  }
+  renderList();
+  if (updatedKeys.size > 0) setStatus(i18n('updatesFound', [String(updatedKeys.size)]));
+}
+
 async function loadTelemetryPref(): Promise<void> {
   const resp = await sendToBackground({ type: 'MD_GET_TELEMETRY_PREF' });
   if (resp.type !== 'MD_TELEMETRY_PREF_RESULT') return;
@@ -325,6 +608,7 @@ async function loadTelemetryPref(): Promise<void> {
 async function loadSaveSettings(): Promise<void> {
   const stored = await storage.get(STORAGE_KEYS.saveSettings);
   if (stored) saveSettings = stored;
+  sizeLimits = resolveSizeLimits(await storage.get(STORAGE_KEYS.sizeLimits));
 
   if (saveSettings.mode === 'directory') {
     try {
@@ -335,12 +619,51 @@ async function loadSaveSettings(): Promise<void> {
   }
 
   updateSaveLabel();
+  updateOutputControls();
+  updateSelectionSummary();
 }
 
 async function setSaveSettings(next: SaveSettings): Promise<void> {
   saveSettings = next;
   await storage.set(STORAGE_KEYS.saveSettings, next);
   updateSaveLabel();
+  updateOutputControls();
+}
+
+function getWebServiceToken(): string | undefined {
+  return siteRoot ? wsSettings.tokens[siteRoot] : undefined;
+}
+
+function updateWebServiceControls(): void {
+  const chk = document.getElementById('chkUseWs') as HTMLInputElement | null;
+  if (chk) chk.checked = wsSettings.enabled;
+
+  // Never echo the token back; only show whether one is stored for this site.
+  const tokenInput = document.getElementById('wsToken') as HTMLInputElement | null;
+  if (tokenInput) {
+    tokenInput.value = '';
+    tokenInput.placeholder = getWebServiceToken() ? i18n('wsTokenSaved') : i18n('wsTokenPlaceholder');
+  }
+}
+
+async function loadWebServiceSettings(): Promise<void> {
+  const stored = await storage.get(STORAGE_KEYS.webServices);
+  if (stored) wsSettings = stored;
+  updateWebServiceControls();
+}
+
+async function setWebServiceSettings(next: WebServiceSettings): Promise<void> {
+  wsSettings = next;
+  await storage.set(STORAGE_KEYS.webServices, next);
+  updateWebServiceControls();
+}
+
+async function setWebServiceToken(token: string | undefined): Promise<void> {
+  if (!siteRoot) return;
+  const tokens = { ...wsSettings.tokens };
+  if (token) tokens[siteRoot] = token;
+  else delete tokens[siteRoot];
+  await setWebServiceSettings({ ...wsSettings, tokens });
 }
 
 function toggleSaveMenu(show?: boolean): void {
@@ -354,7 +677,7 @@ function toggleSaveMenu(show?: boolean): void {
 async function pickAndPersistDirectory(): Promise<void> {
   if (!('showDirectoryPicker' in window)) {
     // Nicht verfügbar (z.B. Firefox): fallback auf saveAs
-    await setSaveSettings({ mode: 'downloads', saveAs: true });
+    await setSaveSettings({ ...saveSettings, mode: 'downloads', saveAs: true });
     setStatus(i18n('fsNotSupported'));
     return;
   }
@@ -363,7 +686,7 @@ async function pickAndPersistDirectory(): Promise<void> {
     const handle = await (window as any).showDirectoryPicker();
     await idbSetHandle(IDB_HANDLE_KEY, handle);
     savedDirectoryHandle = handle;
-    await setSaveSettings({ mode: 'directory', saveAs: false });
+    await setSaveSettings({ ...saveSettings, mode: 'directory', saveAs: false });
     setStatus(i18n('saveLocationSet'));
   } catch {
     // user cancelled
@@ -377,272 +700,609 @@ async function clearPersistedDirectory(): Promise<void> {
     // ignore
   }
   savedDirectoryHandle = null;
-  await setSaveSettings({ mode: 'downloads', saveAs: false });
+  await setSaveSettings({ ...saveSettings, mode: 'downloads', saveAs: false });
   setStatus(i18n('savingToDownloads'));
 }
 
-async function saveZip(zipBuffer: ArrayBuffer | Uint8Array, zipName: string): Promise<void> {
-  const safeName = sanitizeFileName(zipName.endsWith('.zip') ? zipName : `${zipName}.zip`);
-  const zipData = zipBuffer instanceof Uint8Array ? zipBuffer : new Uint8Array(zipBuffer);
-
-  // Prefer File System Access if configured.
-  if (saveSettings.mode === 'directory' && savedDirectoryHandle) {
-    try {
-      const handle = savedDirectoryHandle as DirectoryHandleWithPermissions;
-      const perm = await handle.queryPermission?.({ mode: 'readwrite' as any });
-      if (perm !== 'granted') {
-        const req = await handle.requestPermission?.({ mode: 'readwrite' as any });
-        if (req !== 'granted') throw new Error(i18n('permissionDenied'));
-      }
+/**
+ * Returns the persisted directory if it is still writable.
+ * Returns null (and falls back to downloads mode) if the folder is unavailable.
+ */
+async function getWritableDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  if (saveSettings.mode !== 'directory' || !savedDirectoryHandle) return null;
 
-      const fileHandle = await savedDirectoryHandle.getFileHandle(safeName, { create: true });
-      const writable = await fileHandle.createWritable();
-      await writable.write(new Blob([zipData], { type: 'application/zip' }));
-      await writable.close();
-      return;
-    } catch {
-      // fall back
-      savedDirectoryHandle = null;
-      await setSaveSettings({ mode: 'downloads', saveAs: false });
-    }
-  }
-
-  // Default: downloads folder, optionally saveAs dialog.
-  // For reliability, prefer data URLs for moderate sizes to avoid blob URL invalidation
-  // when the popup closes.
-  const blob = new Blob([zipData], { type: 'application/zip' });
-  const DATA_URL_MAX_BYTES = 25 * 1024 * 1024;
-  if (zipData.byteLength <= DATA_URL_MAX_BYTES) {
-    const dataUrl = await blobToDataUrl(blob);
-    await extAsync.downloadsDownload({
-      url: dataUrl,
-      filename: safeName,
-      saveAs: saveSettings.saveAs,
-    });
-    return;
-  }
-
-  // Fallback for larger files: use blob URL and revoke after completion.
-  const objectUrl = URL.createObjectURL(blob);
-  let downloadId: number;
   try {
-    downloadId = await extAsync.downloadsDownload({
-      url: objectUrl,
-      filename: safeName,
-      saveAs: saveSettings.saveAs,
-    });
-  } catch (err) {
-    URL.revokeObjectURL(objectUrl);
-    throw err;
+    if (!(await ensureWritePermission(savedDirectoryHandle))) throw new Error(i18n('permissionDenied'));
+    return savedDirectoryHandle;
+  } catch {
+    // fall back
+    savedDirectoryHandle = null;
+    await setSaveSettings({ ...saveSettings, mode: 'downloads', saveAs: false });
+    return null;
   }
+}
 
-  const revoke = () => {
-    try {
-      URL.revokeObjectURL(objectUrl);
-    } catch {
-      // ignore
-    }
-  };
+function renderFailureList(failures: DownloadFailure[]): void {
+  const list = document.getElementById('failureList');
+  if (!list) return;
+  list.textContent = '';
+  list.classList.toggle('hidden', failures.length === 0);
 
-  const onChanged = (delta: chrome.downloads.DownloadDelta) => {
-    if (delta.id !== downloadId) return;
-    if (delta.state?.current === 'complete' || delta.error) {
-      ext.downloads.onChanged.removeListener(onChanged);
-      revoke();
-    }
-  };
+  for (const failure of failures) {
+    const item = document.createElement('li');
+    item.className = 'failure-item';
+    item.title = failure.url;
 
-  ext.downloads.onChanged.addListener(onChanged);
-  // Safety: revoke eventually even if we miss events.
-  setTimeout(() => {
-    ext.downloads.onChanged.removeListener(onChanged);
-    revoke();
-  }, 5 * 60_000);
-}
+    const name = document.createElement('span');
+    name.className = 'failure-name';
+    name.textContent = failure.name;
 
-function computeDefaultZipName(): string {
-  return DEFAULT_ZIP_NAME;
+    const reason = document.createElement('span');
+    reason.className = 'failure-reason';
+    reason.textContent = describeFailure(failure, i18n);
+
+    item.append(name, reason);
+    list.append(item);
+  }
 }
 
-function showError(text: string): void {
+function showError(text: string, failures: DownloadFailure[] = []): void {
   const panel = document.getElementById('errorPanel');
   const t = document.getElementById('errorText');
   if (t) t.textContent = text;
+  renderFailureList(failures);
   panel?.classList.remove('hidden');
 }
 
 function hideError(): void {
   const panel = document.getElementById('errorPanel');
   panel?.classList.add('hidden');
+  renderFailureList([]);
 }
 
-async function buildZipStream(
+function showFailures(failures: DownloadFailure[]): void {
+  showError(i18n('someFilesFailed', [String(failures.length)]), failures);
+}
+
+/** Cancelled and interrupted jobs end with an error message, but they are not failures. */
+function showJobError(err: unknown): void {
+  const message = toErrorMessage(err);
+  if (message === JOB_CANCELLED_ERROR) {
+    setStatus(i18n('jobCancelled'));
+    return;
+  }
+  if (message === JOB_INTERRUPTED_ERROR) {
+    setStatus(i18n('jobInterrupted'));
+    return;
+  }
+  showError(message);
+  setStatus(i18n('error'));
+}
+
+function updateJobControls(): void {
+  const state = currentJob?.state;
+  document.getElementById('jobControls')?.classList.toggle('hidden', !currentJob);
+  document.getElementById('btnPauseJob')?.classList.toggle('hidden', state !== 'running');
+  document.getElementById('btnResumeJob')?.classList.toggle('hidden', state !== 'paused');
+  document.getElementById('btnLoginJob')?.classList.toggle('hidden', !currentJob?.loginUrl);
+}
+
+function onJobState(job: JobSummary): void {
+  if (currentJob && currentJob.id !== job.id && currentJob.state === 'running') return;
+
+  currentJob = job.state === 'running' || job.state === 'paused' ? job : null;
+  updateJobControls();
+
+  if (job.state === 'cancelled') setStatus(i18n('jobCancelled'));
+  if (job.state === 'running' && job.resumed) setStatus(i18n('resumingJob'));
+  if (job.state === 'paused') {
+    setStatus(
+      job.loginUrl
+        ? i18n('sessionExpired')
+        : i18n('jobPaused', [String(job.done + job.failed), String(job.total)]),
+    );
+    setProgress(job.total > 0 ? Math.round(((job.done + job.failed) / job.total) * 95) : 0);
+  }
+}
+
+/** Picks up a job that runs (or was paused) while the popup was closed. */
+async function loadJobs(): Promise<void> {
+  const resp = await sendToBackground({ type: 'MD_GET_JOBS' });
+  if (resp.type !== 'MD_JOBS_RESULT') return;
+  const job = resp.jobs.find((j) => j.state === 'running') ?? resp.jobs.find((j) => j.state === 'paused');
+  if (job) onJobState(job);
+}
+
+/**
+ * Runs a job over the `md-stream` port and hands its output to `writer`.
+ * Chunks arrive while files are still downloading; each written chunk is acknowledged
+ * so the background never runs far ahead of the disk.
+ */
+async function runStreamJobOnce(
+  request: StreamPortMessageToBackground & { type: 'MD_STREAM_REQUEST' },
+  writer: StreamWriter,
+  onJob: (jobId: string) => void,
+): Promise<{ failures: DownloadFailure[]; fileCount: number; remoteKeys: string[] }> {
+  const port = ext.runtime.connect({ name: 'md-stream' });
+
+  return new Promise((resolve, reject) => {
+    let writeChain: Promise<void> = Promise.resolve();
+    let settled = false;
+
+    const handlers = {
+      onMessage: (msg: StreamPortMessageFromBackground) => {
+        void msg;
+      },
+      onDisconnect: () => {},
+    };
+
+    const cleanup = () => {
+      settled = true;
+      try {
+        port.onMessage.removeListener(handlers.onMessage as any);
+        port.onDisconnect.removeListener(handlers.onDisconnect as any);
+        port.disconnect();
+      } catch {
+        // ignore
+      }
+    };
+
+    const fail = (err: unknown) => {
+      if (settled) return;
+      cleanup();
+      reject(err instanceof Error ? err : new Error(toErrorMessage(err)));
+    };
+
+    // All writes run strictly in message order.
+    const enqueue = (task: () => Promise<void>) => {
+      writeChain = writeChain.then(task);
+      writeChain.catch(fail);
+    };
+
+    handlers.onDisconnect = () => {
+      // Let the writes that already arrived finish, so bytesWritten() is accurate on reconnect.
+      writeChain.then(() => fail(new StreamDisconnectedError(i18n('zipStreamDisconnected'))), fail);
+    };
+
+    handlers.onMessage = (msg: StreamPortMessageFromBackground) => {
+      if (msg.type === 'MD_STREAM_JOB') {
+        onJob(msg.jobId);
+        return;
+      }
+
+      if (msg.type === 'MD_STREAM_RESUME') {
+        enqueue(async () => writer.resumeAt?.(msg.offset));
+        return;
+      }
+
+      if (msg.type === 'MD_STREAM_FILE_START') {
+        enqueue(async () => writer.startFile?.(msg.path, msg.knownHash));
+        return;
+      }
+
+      if (msg.type === 'MD_STREAM_CHUNK') {
+        const { index } = msg;
+        const bytes = base64ToUint8(msg.data);
+        enqueue(async () => {
+          await writer.write(bytes);
+          const ack: StreamPortMessageToBackground = { type: 'MD_STREAM_ACK', index };
+          if (!settled) port.postMessage(ack);
+        });
+        return;
+      }
+
+      if (msg.type === 'MD_STREAM_FILE_END') {
+        enqueue(async () => writer.endFile?.(msg.path, msg.hash));
+        return;
+      }
+
+      if (msg.type === 'MD_STREAM_FILE_ABORT') {
+        enqueue(async () => writer.abortFile?.(msg.path));
+        return;
+      }
+
+      if (msg.type === 'MD_STREAM_DONE') {
+        const { failures, fileCount, remoteKeys } = msg;
+        writeChain.then(() => {
+          if (settled) return;
+          cleanup();
+          resolve({ failures, fileCount, remoteKeys });
+        }, fail);
+        return;
+      }
+
+      if (msg.type === 'MD_STREAM_ERROR') {
+        fail(new Error(msg.error));
+      }
+    };
+
+    port.onDisconnect.addListener(handlers.onDisconnect);
+    port.onMessage.addListener(handlers.onMessage as any);
+    port.postMessage(request);
+  });
+}
+
+/**
+ * Runs a stream job. If the connection drops because the service worker was terminated,
+ * the popup reconnects and the background resumes the job from its persisted state.
+ */
+async function runStreamJob(
+  request: StreamPortMessageToBackground & { type: 'MD_STREAM_REQUEST' },
+  writer: StreamWriter,
+): Promise<{ failures: DownloadFailure[]; fileCount: number; remoteKeys: string[] }> {
+  const job = { id: request.jobId };
+  const onJob = (id: string) => {
+    job.id = id;
+  };
+
+  for (let attempt = 0; ; attempt += 1) {
+    const next =
+      attempt === 0 ? request : { ...request, jobId: job.id, resumeOffset: writer.bytesWritten?.() };
+    try {
+      return await runStreamJobOnce(next, writer, onJob);
+    } catch (err) {
+      if (!(err instanceof StreamDisconnectedError) || !job.id || attempt >= STREAM_RECONNECT_ATTEMPTS) {
+        throw err;
+      }
+      await writer.abortFile?.('');
+      setStatus(i18n('resumingJob'));
+    }
+  }
+}
+
+async function saveZipToDirectory(
   selectedResources: MoodleResource[],
   zipName: string,
-): Promise<{ zipBuffer: ArrayBuffer; failedUrls: string[]; fileCount: number }> {
-  // Preferred: stream ZIP through a Port (works for large files)
+  dir: FileSystemDirectoryHandle,
+  jobId?: string,
+): Promise<DownloadFailure[]> {
+  const safeName = sanitizeFileName(zipName.endsWith('.zip') ? zipName : `${zipName}.zip`);
+  const writable = await createWritableAtPath(dir, safeName);
+  let written = 0;
+
+  const writer: StreamWriter = {
+    async write(bytes) {
+      await writable.write(bytes);
+      written += bytes.byteLength;
+    },
+    bytesWritten: () => written,
+    async resumeAt(offset) {
+      // truncate() also moves the write position back to `offset`.
+      await writable.truncate(offset);
+      written = offset;
+    },
+  };
+
   try {
-    const port = ext.runtime.connect({ name: 'md-zip' });
-
-    return await new Promise((resolve, reject) => {
-      let totalBytes = 0;
-      let chunkSize = 0;
-      let totalChunks = 0;
-      let fileCount = 0;
-      let failedUrls: string[] = [];
-      let buffer: Uint8Array | null = null;
-      let receivedChunks = 0;
-
-      const handlers = {
-        onMessage: (msg: ZipPortMessageFromBackground) => {
-          void msg;
-        },
-        onDisconnect: () => {},
-      };
-
-      const cleanup = () => {
-        try {
-          port.onMessage.removeListener(handlers.onMessage as any);
-          port.onDisconnect.removeListener(handlers.onDisconnect as any);
-          port.disconnect();
-        } catch {
-          // ignore
-        }
-      };
-
-      handlers.onDisconnect = () => {
-        cleanup();
-        reject(new Error(i18n('zipStreamDisconnected')));
-      };
-
-      handlers.onMessage = (msg: ZipPortMessageFromBackground) => {
-        if (msg.type === 'MD_ZIP_STREAM_META') {
-          totalBytes = msg.totalBytes;
-          chunkSize = msg.chunkSize;
-          totalChunks = msg.totalChunks;
-          fileCount = msg.fileCount;
-          failedUrls = msg.failedUrls;
-          buffer = new Uint8Array(totalBytes);
-          return;
-        }
-
-        if (msg.type === 'MD_ZIP_STREAM_CHUNK') {
-          if (!buffer) return;
-          const offset = msg.index * chunkSize;
-          buffer.set(toUint8Array(msg.data), offset);
-          receivedChunks += 1;
-          // small UI hint (not the main progress)
-          if (totalChunks > 0) {
-            const p = 70 + Math.round((receivedChunks / totalChunks) * 25);
-            setProgress(Math.min(95, Math.max(70, p)));
-          }
-          return;
-        }
-
-        if (msg.type === 'MD_ZIP_STREAM_DONE') {
-          if (!buffer) {
-            cleanup();
-            reject(new Error(i18n('zipStreamMissingBuffer')));
-            return;
-          }
-          const zipBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
-          cleanup();
-          resolve({ zipBuffer, failedUrls, fileCount });
-          return;
-        }
+    const { failures } = await runStreamJob(
+      { type: 'MD_STREAM_REQUEST', output: 'zip', zipName, resources: selectedResources, jobId },
+      writer,
+    );
+    await writable.close();
+    return failures;
+  } catch (err) {
+    await writable.abort().catch(() => undefined);
+    throw err;
+  }
+}
 
-        if (msg.type === 'MD_ZIP_STREAM_ERROR') {
-          cleanup();
-          reject(new Error(msg.error));
-        }
-      };
+/**
+ * Writes every file under its course path into `dir`. Each file is committed only once it
+ * is complete (FileSystemWritableFileStream writes to a swap file until `close()`).
+ */
+async function saveFilesToDirectory(
+  selectedResources: MoodleResource[],
+  dir: FileSystemDirectoryHandle,
+  jobId?: string,
+): Promise<DownloadFailure[]> {
+  let current: FileSystemWritableFileStream | null = null;
+
+  const writer: StreamWriter = {
+    async startFile(path) {
+      current = await createWritableAtPath(dir, path);
+    },
+    async write(bytes) {
+      await current?.write(bytes);
+    },
+    async endFile() {
+      await current?.close();
+      current = null;
+    },
+    async abortFile() {
+      await current?.abort().catch(() => undefined);
+      current = null;
+    },
+  };
 
-      port.onDisconnect.addListener(handlers.onDisconnect);
-      port.onMessage.addListener(handlers.onMessage as any);
+  try {
+    const { failures } = await runStreamJob(
+      { type: 'MD_STREAM_REQUEST', output: 'files', resources: selectedResources, jobId },
+      writer,
+    );
+    return failures;
+  } catch (err) {
+    await writer.abortFile?.('');
+    throw err;
+  }
+}
 
-      const req: ZipPortMessageToBackground = {
-        type: 'MD_ZIP_STREAM_REQUEST',
-        zipName,
-        resources: selectedResources,
-      };
-      port.postMessage(req);
-    });
-  } catch {
-    // Fallback: request ZIP buffer via runtime messaging (may fail for large ZIPs)
-    const resp = await sendToBackground({
-      type: 'MD_BUILD_ZIP',
-      resources: selectedResources,
-      options: {
-        zipName,
-        returnBuffer: true,
-      },
-    });
+/** First path segment shared by all resources (the course folder), if there is one. */
+function getCourseRoot(selectedResources: MoodleResource[]): string | undefined {
+  const naming = resolveNaming(saveSettings.naming);
+  const getTarget = (r: MoodleResource) =>
+    isDefaultNaming(naming) ? joinZipPath(r.path, '') : renderFilePath(r, r.fileName ?? r.name, naming);
+  const roots = new Set(selectedResources.map((r) => getTarget(r).split('/').slice(0, -1)[0] || ''));
+  const [root] = [...roots];
+  return roots.size === 1 && root ? root : undefined;
+}
+
+/**
+ * Incremental sync into an existing course folder: only new or changed files are written,
+ * locally edited files are kept (the Moodle version is stored next to them), and files that
+ * vanished from Moodle can be moved to `_removed/`.
+ */
+async function syncToDirectory(
+  selectedResources: MoodleResource[],
+  dir: FileSystemDirectoryHandle,
+  jobId?: string,
+): Promise<{ failures: DownloadFailure[]; stats: SyncStats }> {
+  const stats = createSyncStats();
+
+  let current: {
+    writable: FileSystemWritableFileStream;
+    writePath: string;
+    target: SyncTarget;
+    localHash?: string;
+    knownHash?: string;
+    /** getFileHandle({ create: true }) already created an empty file that must go on discard */
+    created: boolean;
+  } | null = null;
+
+  const discard = async () => {
+    if (!current) return;
+    const { writable, writePath, created } = current;
+    current = null;
+    await writable.abort().catch(() => undefined);
+    if (created) await removeFileAtPath(dir, writePath);
+  };
+
+  const writer: StreamWriter = {
+    async startFile(path, knownHash) {
+      const localHash = await hashLocalFile(dir, path);
+      const target = planSyncTarget(localHash, knownHash);
+      const writePath = target === 'conflict' ? toConflictPath(path) : path;
+      const created = target === 'new' || (await getFileAtPath(dir, writePath)) === undefined;
+      const writable = await createWritableAtPath(dir, writePath);
+      current = { writable, writePath, target, localHash, knownHash, created };
+    },
+    async write(bytes) {
+      await current?.writable.write(bytes);
+    },
+    async endFile(_path, hash) {
+      if (!current) return;
+      const { target, localHash, knownHash } = current;
+
+      if (isSyncUnchanged(target, hash, localHash, knownHash)) {
+        stats.unchanged += 1;
+        await discard();
+        return;
+      }
+
+      await current.writable.close();
+      current = null;
+      if (target === 'new') stats.added += 1;
+      else if (target === 'replace') stats.updated += 1;
+      else stats.conflicts += 1;
+    },
+    abortFile: discard,
+  };
 
-    if (resp.type === 'MD_BUILD_ZIP_RESULT' && resp.ok && resp.zipBuffer) {
-      const zipBuffer = toArrayBuffer(resp.zipBuffer);
-      return {
-        zipBuffer,
-        failedUrls: resp.failedUrls || [],
-        fileCount: selectedResources.length,
-      };
+  let result: { failures: DownloadFailure[]; remoteKeys: string[] };
+  try {
+    result = await runStreamJob(
+      { type: 'MD_STREAM_REQUEST', output: 'files', sync: true, resources: selectedResources, jobId },
+      writer,
+    );
+  } catch (err) {
+    await discard();
+    throw err;
+  }
+
+  // Only a complete listing of the whole course tells which files are really gone.
+  const courseRoot = getCourseRoot(selectedResources);
+  const complete = selectedResources.length === resources.length && result.failures.length === 0;
+  if (saveSettings.moveRemoved && courseRoot && complete) {
+    const moved: string[] = [];
+    for (const { key, path } of findVanishedEntries(tracking, result.remoteKeys, courseRoot)) {
+      if (await moveFileAtPath(dir, path, toRemovedPath(path, courseRoot))) moved.push(key);
     }
+    stats.removed = moved.length;
+    if (moved.length > 0) await sendToBackground({ type: 'MD_UNTRACK', urls: moved });
+  }
+
+  return { failures: result.failures, stats };
+}
 
-    if (resp.type === 'MD_BUILD_ZIP_RESULT' && !resp.ok) {
-      throw new Error(resp.error);
+/** `resume`: paused sync job to continue instead of starting a new one */
+async function startSync(selectedResources: MoodleResource[], resume?: JobSummary): Promise<void> {
+  setButtonsEnabled(false);
+  setProgress(0);
+  lastFailures = [];
+  setStatus(i18n('syncStarted'));
+
+  try {
+    const dir = await getWritableDirectory();
+    if (!dir) throw new Error(i18n(resume ? 'jobNeedsFolder' : 'syncNeedsFolder'));
+
+    const { failures, stats } = await syncToDirectory(selectedResources, dir, resume?.id);
+    lastFailures = failures;
+
+    await refreshTrackingAfterJob(selectedResources, lastFailures);
+    if (onlyNew) {
+      selected = new Set(getVisibleResources().map((r) => r.id));
     }
-    throw new Error(i18n('zipBuildFailed'));
+    renderList();
+
+    setStatus(
+      i18n('syncComplete', [
+        String(stats.added),
+        String(stats.updated),
+        String(stats.conflicts),
+        String(stats.unchanged),
+        String(stats.removed),
+      ]),
+    );
+    setProgress(100);
+
+    if (lastFailures.length > 0) showFailures(lastFailures);
+    else hideError();
+  } catch (err) {
+    showJobError(err);
+  } finally {
+    setButtonsEnabled(true);
   }
 }
 
-async function startDownload(selectedResources: MoodleResource[]): Promise<void> {
+/** `resume`: paused directory job to continue instead of starting a new one */
+async function startDownload(selectedResources: MoodleResource[], resume?: JobSummary): Promise<void> {
   setButtonsEnabled(false);
   setProgress(0);
-  lastFailedUrls = [];
+  lastFailures = [];
 
-  const zipName = computeDefaultZipName();
+  const zipName = renderZipName(selectedResources, resolveNaming(saveSettings.naming));
   setStatus(i18n('downloadStarted'));
 
   try {
-    if (saveSettings.mode === 'downloads') {
+    const looseFiles = resume ? resume.output === 'files' : saveSettings.output === 'files';
+    const dir = await getWritableDirectory();
+    if (resume && !dir) throw new Error(i18n('jobNeedsFolder'));
+
+    if (dir) {
+      lastFailures = looseFiles
+        ? await saveFilesToDirectory(selectedResources, dir, resume?.id)
+        : await saveZipToDirectory(selectedResources, zipName, dir, resume?.id);
+    } else if (looseFiles) {
+      const resp = await sendToBackground({ type: 'MD_DOWNLOAD_FILES', resources: selectedResources });
+      if (resp.type === 'MD_DOWNLOAD_FILES_RESULT') lastFailures = resp.failures;
+      else throw new Error(resp.type === 'MD_BUILD_ZIP_RESULT' && !resp.ok ? resp.error : i18n('error'));
+    } else {
       const resp = await sendToBackground({
         type: 'MD_BUILD_ZIP',
         resources: selectedResources,
         options: {
           zipName,
-          returnBuffer: false,
           saveAs: saveSettings.saveAs,
         },
       });
 
       if (resp.type === 'MD_BUILD_ZIP_RESULT' && resp.ok) {
-        if (resp.failedUrls?.length) lastFailedUrls = resp.failedUrls;
+        if (resp.failures?.length) lastFailures = resp.failures;
       } else {
         throw new Error(resp.type === 'MD_BUILD_ZIP_RESULT' ? resp.error : i18n('zipBuildFailed'));
       }
-    } else {
-      const { zipBuffer, failedUrls } = await buildZipStream(selectedResources, zipName);
-      if (failedUrls.length) lastFailedUrls = failedUrls;
-
-      await saveZip(zipBuffer, zipName);
     }
 
     // Refresh tracking after build/save
-    await loadTracking();
+    await refreshTrackingAfterJob(selectedResources, lastFailures);
 
     if (onlyNew) {
       selected = new Set(getVisibleResources().map((r) => r.id));
     }
     renderList();
 
-    const totalCount = selectedResources.length;
-    const okCount = Math.max(0, totalCount - lastFailedUrls.length);
+    const totalCount = resume ? resume.total : selectedResources.length;
+    const okCount = Math.max(0, totalCount - lastFailures.length);
     setStatus(i18n('downloadComplete', [String(okCount)]));
     setProgress(100);
 
     await sendToBackground({ type: 'MD_NOTIFY_SAVE_DONE', fileCount: okCount });
 
-    if (lastFailedUrls.length > 0) showError(i18n('someFilesFailed', [String(lastFailedUrls.length)]));
+    if (lastFailures.length > 0) showFailures(lastFailures);
     else hideError();
+  } catch (err) {
+    showJobError(err);
+  } finally {
+    setButtonsEnabled(true);
+  }
+}
+
+/**
+ * Continues a paused job. Jobs the background writes itself resume there; directory jobs
+ * need this popup as their writer again and reconnect over a new md-stream port.
+ */
+async function resumeJob(job: JobSummary): Promise<void> {
+  if (job.transport === 'background' || job.active) {
+    const resp = await sendToBackground({ type: 'MD_RESUME_JOB', jobId: job.id });
+    if (resp.type === 'MD_JOB_RESULT' && !resp.ok) showError(resp.error);
+    return;
+  }
+
+  if (job.sync) await startSync([], job);
+  else await startDownload([], job);
+}
+
+/**
+ * Asks the background for the real name, size and type of files the page did not describe
+ * (HEAD preflight). Runs after the list is shown and updates it in place.
+ */
+async function preflightResources(): Promise<void> {
+  const pending = resources.filter((r) => r.type === 'file' && r.size === undefined && !r.mimeType);
+  if (pending.length === 0) return;
+
+  const resp = await sendToBackground({ type: 'MD_PREFLIGHT', resources: pending });
+  if (resp.type !== 'MD_PREFLIGHT_RESULT') return;
+
+  const byId = new Map(resp.resources.map((r) => [r.id, r]));
+  // The list may have been replaced meanwhile; only matching entries are updated.
+  resources = resources.map((r) => byId.get(r.id) ?? r);
+  renderList();
+}
+
+function showResources(list: MoodleResource[]): void {
+  resources = list;
+  // Default selection: all
+  selected = new Set(resources.map((r) => r.id));
+  renderList();
+  setStatus(i18n('ready', [String(resources.length)]));
+  setProgress(0);
+
+  void checkForUpdates().catch(() => undefined);
+  void preflightResources().catch(() => undefined);
+}
+
+function showCourses(list: MoodleCourse[]): void {
+  courseMode = true;
+  courses = list;
+  selectedCourses = new Set();
+  updateOutputControls();
+  renderList();
+  setStatus(i18n('coursesFound', [String(courses.length)]));
+  setProgress(0);
+}
+
+/** Loads the files of the selected courses (fetched in the background) into the normal list. */
+async function loadSelectedCourses(): Promise<void> {
+  const chosen = courses.filter((c) => selectedCourses.has(c.id));
+  if (chosen.length === 0) {
+    setStatus(i18n('nothingSelected'));
+    return;
+  }
+
+  setButtonsEnabled(false);
+  setProgress(0);
+  setStatus(i18n('loadingCourses'));
+
+  try {
+    const resp = await sendToBackground({ type: 'MD_FETCH_COURSES', courses: chosen });
+    if (resp.type !== 'MD_FETCH_COURSES_RESULT') throw new Error(i18n('error'));
+
+    courseMode = false;
+    updateOutputControls();
+    showResources(resp.resources);
+
+    if (resp.failedCourses.length > 0) {
+      showError(i18n('coursesFailed', [resp.failedCourses.map((c) => c.name).join(', ')]));
+    }
   } catch (err) {
     showError(toErrorMessage(err));
     setStatus(i18n('error'));
@@ -651,14 +1311,87 @@ async function startDownload(selectedResources: MoodleResource[]): Promise<void>
   }
 }
 
+/** Adds the sections the course page only links to (fetched and parsed by the background). */
+async function loadMissingSections(
+  pageResources: MoodleResource[],
+  sections: CourseSection[],
+  courseName?: string,
+): Promise<void> {
+  setButtonsEnabled(false);
+  setStatus(i18n('loadingSections'));
+
+  try {
+    const resp = await sendToBackground({ type: 'MD_FETCH_SECTIONS', sections, courseName });
+    if (resp.type !== 'MD_FETCH_SECTIONS_RESULT') throw new Error(i18n('error'));
+
+    showResources(dedupeResources([...pageResources, ...resp.resources]));
+    if (resp.failedSections.length > 0) {
+      showError(i18n('coursesFailed', [resp.failedSections.map((s) => s.name).join(', ')]));
+    }
+  } catch (err) {
+    // The sections on the page are still worth listing
+    showResources(pageResources);
+    showError(toErrorMessage(err));
+  } finally {
+    setButtonsEnabled(true);
+  }
+}
+
+async function loadResourcesFromWebService(siteUrl: string, token: string): Promise<MoodleResource[]> {
+  const courseId = activeTabUrl ? getCourseIdFromUrl(activeTabUrl) : undefined;
+  const resp = await sendToBackground({ type: 'MD_WS_LIST_RESOURCES', siteUrl, token, courseId });
+  if (resp.type === 'MD_WS_RESOURCES_RESULT') return resp.resources;
+  throw new Error(resp.type === 'MD_WS_RESULT' && !resp.ok ? resp.error : i18n('error'));
+}
+
+/** Loads resources via the REST API (if enabled and a token exists), else from the page. */
+async function loadResources(): Promise<void> {
+  if (!activeTabId) {
+    setStatus(i18n('noActiveTab'));
+    return;
+  }
+
+  setStatus(i18n('loading'));
+  const token = getWebServiceToken();
+  if (wsSettings.enabled && siteRoot && token) {
+    try {
+      showResources(await loadResourcesFromWebService(siteRoot, token));
+      return;
+    } catch (err) {
+      // Fall back to the page extractor
+      showError(i18n('wsFailed', [toErrorMessage(err)]));
+    }
+  }
+
+  try {
+    const ping = await sendToContent(activeTabId, { type: 'MD_PING' });
+    if (ping.type === 'MD_PONG' && !ping.isMoodle) {
+      setStatus(i18n('noMoodleDetected'));
+    }
+
+    const resp = await sendToContent(activeTabId, { type: 'MD_EXTRACT_RESOURCES' });
+    if (resp.type === 'MD_EXTRACT_RESOURCES_RESULT') {
+      if (resp.courses?.length) showCourses(resp.courses);
+      else if (resp.sections?.length)
+        await loadMissingSections(resp.resources, resp.sections, resp.courseName);
+      else showResources(resp.resources);
+    }
+  } catch (err) {
+    showError(toErrorMessage(err));
+    setStatus(i18n('error'));
+  }
+}
+
 function attachEventHandlers(): void {
   document.getElementById('btnSelectAll')?.addEventListener('click', () => {
-    for (const r of getVisibleResources()) selected.add(r.id);
+    if (courseMode) selectedCourses = new Set(courses.map((c) => c.id));
+    else for (const r of getVisibleResources()) selected.add(r.id);
     renderList();
   });
 
   document.getElementById('btnDeselectAll')?.addEventListener('click', () => {
-    for (const r of getVisibleResources()) selected.delete(r.id);
+    if (courseMode) selectedCourses = new Set();
+    else for (const r of getVisibleResources()) selected.delete(r.id);
     renderList();
   });
 
@@ -676,6 +1409,32 @@ function attachEventHandlers(): void {
     renderList();
   });
 
+  document.getElementById('chkLooseFiles')?.addEventListener('change', async (e) => {
+    const looseFiles = (e.target as HTMLInputElement).checked;
+    await setSaveSettings({ ...saveSettings, output: looseFiles ? 'files' : 'zip' });
+  });
+
+  document.getElementById('chkMoveRemoved')?.addEventListener('change', async (e) => {
+    await setSaveSettings({ ...saveSettings, moveRemoved: (e.target as HTMLInputElement).checked });
+  });
+
+  document.getElementById('selLinks')?.addEventListener('change', async (e) => {
+    const links = (e.target as HTMLSelectElement).value as LinkFormat;
+    await setSaveSettings({ ...saveSettings, links });
+  });
+
+  document.getElementById('chkFolderArchives')?.addEventListener('change', async (e) => {
+    await setSaveSettings({ ...saveSettings, folderArchives: (e.target as HTMLInputElement).checked });
+  });
+
+  // The preview follows every keystroke; the templates are saved once a field is left
+  const saveNaming = () => setSaveSettings({ ...saveSettings, naming: readNamingForm() });
+  for (const id of ['txtNameTemplate', 'txtZipTemplate', 'chkFlatten', 'chkNumbering', 'chkTransliterate']) {
+    const el = document.getElementById(id);
+    el?.addEventListener('input', () => updateNamingPreview(readNamingForm()));
+    el?.addEventListener('change', saveNaming);
+  }
+
   document.getElementById('selSort')?.addEventListener('change', (e) => {
     sortMode = (e.target as HTMLSelectElement).value as any;
     renderList();
@@ -687,12 +1446,12 @@ function attachEventHandlers(): void {
   });
 
   document.getElementById('saveToDownloads')?.addEventListener('click', async () => {
-    await setSaveSettings({ mode: 'downloads', saveAs: false });
+    await setSaveSettings({ ...saveSettings, mode: 'downloads', saveAs: false });
     toggleSaveMenu(false);
   });
 
   document.getElementById('saveAskEveryTime')?.addEventListener('click', async () => {
-    await setSaveSettings({ mode: 'downloads', saveAs: true });
+    await setSaveSettings({ ...saveSettings, mode: 'downloads', saveAs: true });
     toggleSaveMenu(false);
   });
 
@@ -720,31 +1479,125 @@ function attachEventHandlers(): void {
   document.getElementById('btnDownload')?.addEventListener('click', async () => {
     hideError();
 
+    if (courseMode) {
+      await loadSelectedCourses();
+      return;
+    }
+
     const selectedResources = resources.filter((r) => selected.has(r.id));
     if (selectedResources.length === 0) {
       setStatus(i18n('nothingSelected'));
       return;
     }
 
+    if (!(await confirmDownloadSize(selectedResources))) return;
     await startDownload(selectedResources);
   });
 
+  document.getElementById('btnSync')?.addEventListener('click', async () => {
+    hideError();
+
+    const selectedResources = resources.filter((r) => selected.has(r.id));
+    if (selectedResources.length === 0) {
+      setStatus(i18n('nothingSelected'));
+      return;
+    }
+
+    if (!(await confirmDownloadSize(selectedResources))) return;
+    await startSync(selectedResources);
+  });
+
   document.getElementById('btnRetry')?.addEventListener('click', async () => {
     hideError();
-    if (lastFailedUrls.length === 0) return;
-    const retryResources = resources.filter((r) => lastFailedUrls.includes(r.url));
+    if (lastFailures.length === 0) return;
+    const failedUrls = new Set(lastFailures.map((f) => f.url));
+    const retryResources = resources.filter((r) => failedUrls.has(r.url));
     selected = new Set(retryResources.map((r) => r.id));
     renderList();
     await startDownload(retryResources);
   });
 
+  document.getElementById('btnPauseJob')?.addEventListener('click', async () => {
+    if (!currentJob) return;
+    await sendToBackground({ type: 'MD_PAUSE_JOB', jobId: currentJob.id });
+  });
+
+  document.getElementById('btnResumeJob')?.addEventListener('click', async () => {
+    if (!currentJob) return;
+    hideError();
+    await resumeJob(currentJob);
+  });
+
+  document.getElementById('btnLoginJob')?.addEventListener('click', async () => {
+    if (!currentJob?.loginUrl) return;
+    await extAsync.tabsCreate({ url: currentJob.loginUrl });
+  });
+
+  document.getElementById('btnCancelJob')?.addEventListener('click', async () => {
+    if (!currentJob) return;
+    await sendToBackground({ type: 'MD_CANCEL_JOB', jobId: currentJob.id });
+  });
+
+  // Options page sections: download history and extractor profiles
+  const openOptions = (section: string) => {
+    void ext.tabs.create({ url: ext.runtime.getURL(`options.html#${section}`) });
+  };
+  document.getElementById('btnHistory')?.addEventListener('click', () => openOptions('history'));
+  document.getElementById('btnProfiles')?.addEventListener('click', () => openOptions('profiles'));
+
   document.getElementById('btnReset')?.addEventListener('click', async () => {
     await sendToBackground({ type: 'MD_RESET_TRACKING' });
+    updatedKeys = new Set();
     await loadTracking();
     renderList();
     setStatus(i18n('trackingResetDone'));
   });
 
+  document.getElementById('chkUseWs')?.addEventListener('change', async (e) => {
+    await setWebServiceSettings({ ...wsSettings, enabled: (e.target as HTMLInputElement).checked });
+    hideError();
+    await loadResources();
+  });
+
+  document.getElementById('wsSaveToken')?.addEventListener('click', async () => {
+    const input = document.getElementById('wsToken') as HTMLInputElement | null;
+    await setWebServiceToken(input?.value.trim() || undefined);
+    hideError();
+    await loadResources();
+  });
+
+  document.getElementById('wsGetToken')?.addEventListener('click', async () => {
+    const username = (document.getElementById('wsUsername') as HTMLInputElement | null)?.value.trim() || '';
+    const passwordInput = document.getElementById('wsPassword') as HTMLInputElement | null;
+    const password = passwordInput?.value || '';
+    if (!siteRoot || !username || !password) return;
+
+    hideError();
+    const resp = await sendToBackground({
+      type: 'MD_WS_REQUEST_TOKEN',
+      siteUrl: siteRoot,
+      username,
+      password,
+    });
+    if (passwordInput) passwordInput.value = '';
+
+    if (resp.type !== 'MD_WS_TOKEN_RESULT') {
+      showError(i18n('wsFailed', [resp.type === 'MD_WS_RESULT' && !resp.ok ? resp.error : i18n('error')]));
+      return;
+    }
+
+    await setWebServiceToken(resp.token);
+    await setWebServiceSettings({ ...wsSettings, enabled: true });
+    await loadResources();
+  });
+
+  const answerSizePanel = (proceed: boolean) => {
+    resolveSizePanel?.(proceed);
+    resolveSizePanel = null;
+  };
+  document.getElementById('sizeCancel')?.addEventListener('click', () => answerSizePanel(false));
+  document.getElementById('sizeContinue')?.addEventListener('click', () => answerSizePanel(true));
+
   document.getElementById('telemetryYes')?.addEventListener('click', async () => {
     await sendToBackground({ type: 'MD_SET_TELEMETRY_PREF', optIn: true });
     (document.getElementById('telemetryPanel') as HTMLElement | null)?.classList.add('hidden');
@@ -757,13 +1610,22 @@ function attachEventHandlers(): void {
 
   ext.runtime.onMessage.addListener((msg: MessageFromBackground) => {
     if (msg.type === 'MD_PROGRESS') {
+      if (msg.phase === 'courses') {
+        setProgress(msg.total > 0 ? Math.round((msg.current / msg.total) * 100) : 0);
+        setStatus(`${i18n('loadingCourses')} ${msg.current + 1}/${msg.total}`);
+      }
+      if (msg.phase === 'sections') {
+        setProgress(msg.total > 0 ? Math.round((msg.current / msg.total) * 100) : 0);
+        setStatus(`${i18n('loadingSections')} ${msg.current + 1}/${msg.total}`);
+      }
+      // Files are compressed while they download; 'zip' only covers the final directory write.
       if (msg.phase === 'fetch') {
-        const percent = msg.total > 0 ? Math.round((msg.current / msg.total) * 70) : 0;
+        const percent = msg.total > 0 ? Math.round((msg.current / msg.total) * 95) : 0;
         setProgress(percent);
         setStatus(`${i18n('downloadStarted')} ${msg.current}/${msg.total}`);
       }
       if (msg.phase === 'zip') {
-        setProgress(70 + Math.round((msg.current / msg.total) * 25));
+        setProgress(95 + Math.round((msg.current / msg.total) * 5));
         setStatus(i18n('zipping'));
       }
     }
@@ -773,10 +1635,12 @@ function attachEventHandlers(): void {
       setStatus(i18n('downloadComplete', [String(msg.fileCount)]));
     }
 
-    if (msg.type === 'MD_COMPLETE' && !msg.ok) {
+    if (msg.type === 'MD_COMPLETE' && !msg.ok && msg.error !== JOB_CANCELLED_ERROR) {
       showError(msg.error);
     }
 
+    if (msg.type === 'MD_JOB_STATE') onJobState(msg.job);
+
     return false;
   });
 }
@@ -796,31 +1660,14 @@ async function init(): Promise<void> {
   await loadTracking();
   await loadSaveSettings();
 
-  const tabId = await getActiveTabId();
-  if (!tabId) {
-    setStatus(i18n('noActiveTab'));
-    return;
-  }
-
-  try {
-    const ping = await sendToContent(tabId, { type: 'MD_PING' });
-    if (ping.type === 'MD_PONG' && !ping.isMoodle) {
-      setStatus(i18n('noMoodleDetected'));
-    }
+  const tab = await getActiveTab();
+  activeTabId = tab?.id;
+  activeTabUrl = tab?.url;
+  siteRoot = activeTabUrl ? guessMoodleRoot(activeTabUrl) : undefined;
 
-    const resp = await sendToContent(tabId, { type: 'MD_EXTRACT_RESOURCES' });
-    if (resp.type === 'MD_EXTRACT_RESOURCES_RESULT') {
-      resources = resp.resources;
-      // Default selection: all
-      selected = new Set(resources.map((r) => r.id));
-      renderList();
-      setStatus(i18n('ready', [String(resources.length)]));
-      setProgress(0);
-    }
-  } catch (err) {
-    showError(toErrorMessage(err));
-    setStatus(i18n('error'));
-  }
+  await loadWebServiceSettings();
+  await loadResources();
+  await loadJobs();
 }
 
 document.addEventListener('DOMContentLoaded', () => {
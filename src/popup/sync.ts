@@ -0,0 +1,111 @@
+/**
+ * Inkrementeller Abgleich mit einem bestehenden Kursordner.
+ *
+ * Für jede Datei aus Moodle wird anhand von drei Hashes entschieden, was passiert:
+ * - lokaler Hash (Datei im Ordner),
+ * - bekannter Hash (Version beim letzten Download, aus dem Tracking),
+ * - eingehender Hash (aktuelle Version in Moodle).
+ */
+
+import type { DownloadTrackingMap } from '../shared/types';
+import { Sha256 } from '../shared/sha256';
+import { roundDateToDayISO } from '../shared/utils';
+import { getFileAtPath } from './directory';
+
+/** Unterordner (im Kursordner) für Dateien, die aus Moodle entfernt wurden */
+export const REMOVED_FOLDER = '_removed';
+
+/**
+ * new:      lokal nicht vorhanden → schreiben
+ * replace:  lokal unverändert seit dem letzten Download → bei Änderung überschreiben
+ * conflict: lokal bearbeitet (oder unbekannter Herkunft) → neue Version daneben ablegen
+ */
+export type SyncTarget = 'new' | 'replace' | 'conflict';
+
+export interface SyncStats {
+  added: number;
+  updated: number;
+  conflicts: number;
+  unchanged: number;
+  removed: number;
+}
+
+export function createSyncStats(): SyncStats {
+  return { added: 0, updated: 0, conflicts: 0, unchanged: 0, removed: 0 };
+}
+
+export function planSyncTarget(localHash: string | undefined, knownHash: string | undefined): SyncTarget {
+  if (localHash === undefined) return 'new';
+  if (knownHash !== undefined && localHash === knownHash) return 'replace';
+  return 'conflict';
+}
+
+/** true, wenn die eingehende Version nichts Neues bringt und nicht geschrieben werden muss. */
+export function isSyncUnchanged(
+  target: SyncTarget,
+  incomingHash: string,
+  localHash: string | undefined,
+  knownHash: string | undefined,
+): boolean {
+  if (target === 'new') return false;
+  if (incomingHash === localHash) return true;
+  // Lokal bearbeitet, aber in Moodle unverändert: lokale Änderungen behalten, keine Kopie.
+  return target === 'conflict' && incomingHash === knownHash;
+}
+
+/** 'Kurs/Skript.pdf' → 'Kurs/Skript (Moodle 2024-05-01).pdf' */
+export function toConflictPath(path: string, date = new Date()): string {
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  const hasExt = dot > slash + 1;
+  const base = hasExt ? path.slice(0, dot) : path;
+  const ext = hasExt ? path.slice(dot) : '';
+  return `${base} (Moodle ${roundDateToDayISO(date)})${ext}`;
+}
+
+/** 'Kurs/Woche 1/a.pdf' → 'Kurs/_removed/Woche 1/a.pdf' */
+export function toRemovedPath(path: string, courseRoot: string): string {
+  const rest = path.startsWith(`${courseRoot}/`) ? path.slice(courseRoot.length + 1) : path;
+  return `${courseRoot}/${REMOVED_FOLDER}/${rest}`;
+}
+
+/**
+ * Tracking-Einträge unter `courseRoot`, die in Moodle nicht mehr vorkommen.
+ * `remoteKeys` sind die normalisierten URLs aller Dateien des aktuellen Kurses.
+ */
+export function findVanishedEntries(
+  tracking: DownloadTrackingMap,
+  remoteKeys: Iterable<string>,
+  courseRoot: string,
+): Array<{ key: string; path: string }> {
+  const remote = new Set(remoteKeys);
+  const removedPrefix = `${courseRoot}/${REMOVED_FOLDER}/`;
+  const out: Array<{ key: string; path: string }> = [];
+
+  for (const [key, entry] of Object.entries(tracking)) {
+    const { path } = entry;
+    if (!path || !path.startsWith(`${courseRoot}/`) || path.startsWith(removedPrefix)) continue;
+    if (remote.has(key)) continue;
+    out.push({ key, path });
+  }
+  return out;
+}
+
+/** SHA-256 der lokalen Datei (gestreamt), undefined wenn sie nicht existiert. */
+export async function hashLocalFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<string | undefined> {
+  const file = await getFileAtPath(root, path);
+  if (!file) return undefined;
+
+  const hasher = new Sha256();
+  const reader = file.stream().getReader();
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hasher.update(value);
+  }
+  return hasher.digestHex();
+}
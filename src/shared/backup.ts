@@ -0,0 +1,409 @@
+/**
+ * Sicherung von Tracking, Verlauf und Einstellungen als portable JSON-Datei.
+ *
+ * Die Datei ist in Chrome und Firefox dieselbe; so lässt sich der Stand (welche Dateien schon
+ * geladen sind) zwischen Browsern und nach einer Neuinstallation übernehmen. Mobile-App-Tokens
+ * werden nicht exportiert, auch nicht in URLs fehlgeschlagener Dateien im Verlauf. Beim Import wird jeder Eintrag gegen die Typen des `StorageSchema`
+ * geprüft, bevor etwas gespeichert wird.
+ */
+
+import type {
+  DownloadFailure,
+  DownloadHistoryEntry,
+  DownloadTrackingMap,
+  ExtractorProfile,
+  NamingSettings,
+  RetryPolicy,
+  SaveSettings,
+  SizeLimits,
+  StoredDownload,
+} from './types';
+import type { StorageSchema } from './storage';
+import { ARCHIVE_MANIFEST_FORMAT, HISTORY_LIMIT, STORAGE_KEYS } from './constants';
+import { storage } from './storage';
+import { mergeProfiles, normalizeProfile } from './profiles';
+import { buildTrackingStore, migrateTracking } from './tracking';
+import { stripUrlToken } from './utils';
+
+export const BACKUP_FORMAT = 'moodle-download-backup';
+export const BACKUP_VERSION = 1;
+
+/** Gesicherte Speicher-Schlüssel */
+export const BACKUP_KEYS = [
+  STORAGE_KEYS.downloadTracking,
+  STORAGE_KEYS.downloadHistory,
+  STORAGE_KEYS.saveSettings,
+  STORAGE_KEYS.retryPolicy,
+  STORAGE_KEYS.sizeLimits,
+  STORAGE_KEYS.extractorProfiles,
+  STORAGE_KEYS.webServices,
+  STORAGE_KEYS.telemetryAsked,
+  STORAGE_KEYS.telemetryOptIn,
+  STORAGE_KEYS.trackingSync,
+] as const;
+
+export type BackupKey = (typeof BACKUP_KEYS)[number];
+
+export type BackupData = { [K in BackupKey]?: StorageSchema[K] };
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** Zeitpunkt des Exports (ISO 8601) */
+  exportedAt: string;
+  data: BackupData;
+  /** Aus dem Manifest eines Archivs gelesen (nur Tracking; wird immer zusammengeführt) */
+  fromArchive?: boolean;
+}
+
+/**
+ * merge:   Tracking und Verlauf werden zusammengeführt (der neuere Eintrag gewinnt), Profile nach
+ *          ID ersetzt bzw. ergänzt, Einstellungen aus der Datei überschreiben die vorhandenen
+ * replace: die gesicherten Schlüssel werden durch den Inhalt der Datei ersetzt (fehlende gelöscht)
+ */
+export type ImportMode = 'merge' | 'replace';
+
+type Row = Record<string, unknown>;
+
+function isObject(value: unknown): value is Row {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function fail(key: string, message: string): never {
+  throw new Error(`${key}: ${message}`);
+}
+
+function expectObject(value: unknown, key: string): Row {
+  if (!isObject(value)) fail(key, 'must be an object');
+  return value;
+}
+
+function expectBoolean(value: unknown, key: string): boolean {
+  if (typeof value !== 'boolean') fail(key, 'must be true or false');
+  return value;
+}
+
+/** Nur bekannte Felder mit dem erwarteten Typ; andere Felder fallen weg */
+function pickFields<T>(row: Row, key: string, types: Record<string, string>, required: string[] = []): T {
+  const out: Row = {};
+  for (const [field, type] of Object.entries(types)) {
+    const value = row[field];
+    if (value === undefined || value === null) {
+      if (required.includes(field)) fail(key, `${field} is missing`);
+      continue;
+    }
+    // eslint-disable-next-line valid-typeof
+    if (typeof value !== type) fail(key, `${field} must be a ${type}`);
+    out[field] = value;
+  }
+  return out as T;
+}
+
+const STORED_DOWNLOAD_FIELDS = {
+  url: 'string',
+  hash: 'string',
+  timestamp: 'number',
+  fileName: 'string',
+  path: 'string',
+  etag: 'string',
+  lastModified: 'string',
+  contentLength: 'number',
+  size: 'number',
+  courseId: 'number',
+  courseName: 'string',
+};
+
+function validateTracking(value: unknown): DownloadTrackingMap {
+  const key = STORAGE_KEYS.downloadTracking;
+  expectObject(value, key);
+  const { map } = migrateTracking(value);
+  const out: DownloadTrackingMap = {};
+  for (const [url, entry] of Object.entries(map)) {
+    out[url] = pickFields<StoredDownload>(
+      expectObject(entry, `${key} ${url}`),
+      `${key} ${url}`,
+      STORED_DOWNLOAD_FIELDS,
+      ['url', 'timestamp', 'fileName'],
+    );
+  }
+  return out;
+}
+
+function validateHistory(value: unknown): DownloadHistoryEntry[] {
+  const key = STORAGE_KEYS.downloadHistory;
+  if (!Array.isArray(value)) fail(key, 'must be a list');
+  return value.map((raw, i) => {
+    const label = `${key} ${i + 1}`;
+    const row = expectObject(raw, label);
+    const entry = pickFields<DownloadHistoryEntry>(
+      row,
+      label,
+      {
+        id: 'string',
+        state: 'string',
+        output: 'string',
+        startedAt: 'number',
+        finishedAt: 'number',
+        fileCount: 'number',
+      },
+      ['id', 'state', 'output', 'finishedAt', 'fileCount'],
+    );
+    if (!['completed', 'cancelled'].includes(entry.state)) fail(label, `unknown state ${entry.state}`);
+    if (!Array.isArray(row['courses']) || !Array.isArray(row['failures']))
+      fail(label, 'courses and failures must be lists');
+    entry.courses = row['courses'].map((c) =>
+      pickFields(expectObject(c, label), label, { site: 'string', id: 'number', name: 'string' }, ['site']),
+    );
+    entry.failures = row['failures'].map((f) => {
+      const failure = pickFields<DownloadFailure>(
+        expectObject(f, label),
+        label,
+        { url: 'string', name: 'string', reason: 'string', status: 'number', attempts: 'number' },
+        ['url', 'name', 'reason', 'attempts'],
+      );
+      return { ...failure, url: stripUrlToken(failure.url) };
+    });
+    entry.startedAt ??= entry.finishedAt;
+    return entry;
+  });
+}
+
+function validateSaveSettings(value: unknown): SaveSettings {
+  const key = STORAGE_KEYS.saveSettings;
+  const settings = pickFields<SaveSettings>(
+    expectObject(value, key),
+    key,
+    {
+      mode: 'string',
+      saveAs: 'boolean',
+      output: 'string',
+      moveRemoved: 'boolean',
+      links: 'string',
+      folderArchives: 'boolean',
+    },
+    ['mode'],
+  );
+  if (!['downloads', 'directory'].includes(settings.mode)) fail(key, `unknown mode ${settings.mode}`);
+  if (settings.output && !['zip', 'files'].includes(settings.output))
+    fail(key, `unknown output ${settings.output}`);
+  if (settings.links && !['files', 'index'].includes(settings.links))
+    fail(key, `unknown links ${settings.links}`);
+  const naming = (value as Row)['naming'];
+  if (naming !== undefined && naming !== null) {
+    settings.naming = pickFields<Partial<NamingSettings>>(
+      expectObject(naming, `${key} naming`),
+      `${key} naming`,
+      {
+        template: 'string',
+        zipTemplate: 'string',
+        flatten: 'boolean',
+        numbering: 'boolean',
+        transliterate: 'boolean',
+      },
+    );
+  }
+  settings.saveAs = !!settings.saveAs;
+  return settings;
+}
+
+function validateNumbers<T>(value: unknown, key: string, fields: string[]): Partial<T> {
+  return pickFields<Partial<T>>(
+    expectObject(value, key),
+    key,
+    Object.fromEntries(fields.map((f) => [f, 'number'])),
+  );
+}
+
+/** Prüft je Schlüssel den Typ aus dem StorageSchema; wirft bei ungültigem Inhalt */
+const VALIDATORS: { [K in BackupKey]: (value: unknown) => StorageSchema[K] } = {
+  [STORAGE_KEYS.downloadTracking]: validateTracking,
+  [STORAGE_KEYS.downloadHistory]: validateHistory,
+  [STORAGE_KEYS.saveSettings]: validateSaveSettings,
+  [STORAGE_KEYS.retryPolicy]: (value) =>
+    validateNumbers<RetryPolicy>(value, STORAGE_KEYS.retryPolicy, [
+      'maxAttempts',
+      'baseDelayMs',
+      'maxDelayMs',
+      'maxRetryAfterMs',
+    ]),
+  [STORAGE_KEYS.sizeLimits]: (value) =>
+    validateNumbers<SizeLimits>(value, STORAGE_KEYS.sizeLimits, ['warnBytes', 'storedZipBytes']),
+  [STORAGE_KEYS.extractorProfiles]: (value) => {
+    if (!Array.isArray(value)) fail(STORAGE_KEYS.extractorProfiles, 'must be a list');
+    return value.map((p, i) => normalizeProfile(p, i));
+  },
+  [STORAGE_KEYS.webServices]: (value) => ({
+    enabled: expectBoolean(
+      expectObject(value, STORAGE_KEYS.webServices)['enabled'],
+      STORAGE_KEYS.webServices,
+    ),
+    tokens: {},
+  }),
+  [STORAGE_KEYS.telemetryAsked]: (value) => expectBoolean(value, STORAGE_KEYS.telemetryAsked),
+  [STORAGE_KEYS.telemetryOptIn]: (value) => expectBoolean(value, STORAGE_KEYS.telemetryOptIn),
+  [STORAGE_KEYS.trackingSync]: (value) => expectBoolean(value, STORAGE_KEYS.trackingSync),
+};
+
+/** Liest den gesicherten Stand aus dem Speicher (Tracking im aktuellen Format, ohne Tokens) */
+export async function createBackup(now = new Date()): Promise<BackupBundle> {
+  const data: Row = {};
+  for (const key of BACKUP_KEYS) {
+    const value = await storage.get(key);
+    if (value !== undefined) data[key] = value;
+  }
+
+  const tracking = data[STORAGE_KEYS.downloadTracking];
+  if (tracking !== undefined)
+    data[STORAGE_KEYS.downloadTracking] = buildTrackingStore(migrateTracking(tracking).map);
+  const ws = data[STORAGE_KEYS.webServices] as StorageSchema['webServices'] | undefined;
+  if (ws) data[STORAGE_KEYS.webServices] = { enabled: ws.enabled, tokens: {} };
+  const history = data[STORAGE_KEYS.downloadHistory] as DownloadHistoryEntry[] | undefined;
+  if (history) {
+    // Ältere Einträge können Web-Service-URLs mit `token` enthalten
+    data[STORAGE_KEYS.downloadHistory] = history.map((entry) => ({
+      ...entry,
+      failures: entry.failures.map((f) => ({ ...f, url: stripUrlToken(f.url) })),
+    }));
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    data: data as BackupData,
+  };
+}
+
+export function serializeBackup(bundle: BackupBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Tracking aus dem Manifest eines Archivs (`moodle-download.json`), z.B. nach einer
+ * Neuinstallation: jede Datei im Archiv gilt wieder als geladen.
+ */
+function parseArchiveManifest(raw: Row): BackupBundle {
+  const key = ARCHIVE_MANIFEST_FORMAT;
+  if (!Array.isArray(raw['files'])) fail(key, 'files must be a list');
+  const tracking: DownloadTrackingMap = {};
+  raw['files'].forEach((value, i) => {
+    const label = `${key} ${i + 1}`;
+    const row = expectObject(value, label);
+    const timestamp = typeof row['downloadedAt'] === 'string' ? Date.parse(row['downloadedAt']) : NaN;
+    if (Number.isNaN(timestamp)) fail(label, 'downloadedAt must be a date');
+    const entry = pickFields<StoredDownload>(
+      { ...row, hash: row['sha256'], timestamp },
+      label,
+      STORED_DOWNLOAD_FIELDS,
+      ['url', 'timestamp', 'fileName', 'path'],
+    );
+    tracking[entry.url] = entry;
+  });
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: typeof raw['createdAt'] === 'string' ? raw['createdAt'] : '',
+    data: { [STORAGE_KEYS.downloadTracking]: tracking },
+    fromArchive: true,
+  };
+}
+
+/**
+ * Liest eine exportierte Datei (oder das Manifest eines Archivs). Tracking kommt als flache Liste zurück (wie es der Hintergrund
+ * verwendet). Wirft einen Error mit lesbarer Meldung bei falschem Format, unbekannter Version
+ * oder ungültigen Werten; unbekannte Schlüssel werden ignoriert.
+ */
+export function parseBackup(json: string): BackupBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (isObject(raw) && raw['format'] === ARCHIVE_MANIFEST_FORMAT) return parseArchiveManifest(raw);
+  if (!isObject(raw) || raw['format'] !== BACKUP_FORMAT) throw new Error('Not a backup file');
+  const { version } = raw;
+  if (typeof version !== 'number' || version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${String(version)}`);
+  }
+  const rawData = expectObject(raw['data'], 'data');
+
+  const data: Row = {};
+  for (const key of BACKUP_KEYS) {
+    if (rawData[key] !== undefined) data[key] = VALIDATORS[key](rawData[key]);
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    exportedAt: typeof raw['exportedAt'] === 'string' ? raw['exportedAt'] : '',
+    data: data as BackupData,
+  };
+}
+
+function mergeTracking(current: DownloadTrackingMap, imported: DownloadTrackingMap): DownloadTrackingMap {
+  const merged = { ...current };
+  for (const [url, entry] of Object.entries(imported)) {
+    const known = merged[url];
+    if (!known || entry.timestamp > known.timestamp) merged[url] = entry;
+  }
+  return merged;
+}
+
+function mergeHistory(
+  current: DownloadHistoryEntry[],
+  imported: DownloadHistoryEntry[],
+): DownloadHistoryEntry[] {
+  const byId = new Map(current.map((e) => [e.id, e]));
+  for (const entry of imported) if (!byId.has(entry.id)) byId.set(entry.id, entry);
+  return [...byId.values()].sort((a, b) => b.finishedAt - a.finishedAt).slice(0, HISTORY_LIMIT);
+}
+
+/** Speichert eine geprüfte Sicherung (siehe ImportMode; ein Archiv-Manifest wird immer zusammengeführt) */
+export async function applyBackup(bundle: BackupBundle, importMode: ImportMode): Promise<void> {
+  const { data } = bundle;
+  const mode = bundle.fromArchive ? 'merge' : importMode;
+
+  // Tokens sind nicht Teil der Sicherung; die dieses Browsers bleiben erhalten
+  const ws = data[STORAGE_KEYS.webServices];
+  const currentWs = await storage.get(STORAGE_KEYS.webServices);
+  if (ws) {
+    await storage.set(STORAGE_KEYS.webServices, { enabled: ws.enabled, tokens: currentWs?.tokens ?? {} });
+  } else if (mode === 'replace' && currentWs) {
+    await storage.set(STORAGE_KEYS.webServices, { enabled: false, tokens: currentWs.tokens });
+  }
+
+  for (const key of BACKUP_KEYS) {
+    if (key === STORAGE_KEYS.webServices) continue;
+    const value = data[key];
+    if (value === undefined) {
+      if (mode === 'replace') await storage.remove(key);
+      continue;
+    }
+
+    if (mode === 'replace' || typeof value === 'boolean') {
+      const stored =
+        key === STORAGE_KEYS.downloadTracking ? buildTrackingStore(value as DownloadTrackingMap) : value;
+      await storage.set(key, stored as never);
+      continue;
+    }
+
+    const current = await storage.get(key);
+    if (key === STORAGE_KEYS.downloadTracking) {
+      const merged = mergeTracking(migrateTracking(current).map, value as DownloadTrackingMap);
+      await storage.set(key, buildTrackingStore(merged));
+    } else if (key === STORAGE_KEYS.downloadHistory) {
+      await storage.set(
+        key,
+        mergeHistory((current as DownloadHistoryEntry[]) ?? [], value as DownloadHistoryEntry[]),
+      );
+    } else if (key === STORAGE_KEYS.extractorProfiles) {
+      await storage.set(
+        key,
+        mergeProfiles((current as ExtractorProfile[]) ?? [], value as ExtractorProfile[]),
+      );
+    } else {
+      // Einstellungen: Angaben aus der Datei überschreiben die vorhandenen
+      await storage.set(key, { ...(current as object), ...(value as object) } as never);
+    }
+  }
+}
@@ -3,8 +3,29 @@ export const STORAGE_KEYS = {
   telemetryAsked: 'telemetryAsked',
   telemetryOptIn: 'telemetryOptIn',
   saveSettings: 'saveSettings',
+  webServices: 'webServices',
+  retryPolicy: 'retryPolicy',
+  extractorProfiles: 'extractorProfiles',
+  sizeLimits: 'sizeLimits',
+  downloadHistory: 'downloadHistory',
+  trackingSync: 'trackingSync',
 } as const;
 
+/** Keys in chrome.storage.sync; tracking chunks are stored as `trackingSync.0`, `trackingSync.1`, … */
+export const SYNC_KEYS = {
+  trackingMeta: 'trackingSync',
+  trackingChunk: 'trackingSync.',
+} as const;
+
+/** Manifest and table of contents written into every ZIP archive */
+export const ARCHIVE_MANIFEST_NAME = 'moodle-download.json';
+export const ARCHIVE_INDEX_NAME = 'index.html';
+export const ARCHIVE_MANIFEST_FORMAT = 'moodle-download-archive';
+export const ARCHIVE_MANIFEST_VERSION = 1;
+
+/** Number of past jobs kept in the download history */
+export const HISTORY_LIMIT = 100;
+
 export const MOODLE_DETECT_SELECTORS: string[] = [
   'body.pagelayout-course',
   'body.path-course-view',
@@ -15,6 +36,20 @@ export const MOODLE_DETECT_SELECTORS: string[] = [
   '#page-course-view',
 ];
 
+/** Kursübersichten (Dashboard, "Meine Kurse", Kursbereich) */
+export const COURSE_LIST_PAGE_SELECTORS: string[] = [
+  'body#page-my-index',
+  'body#page-my-courses',
+  'body.pagelayout-mydashboard',
+  'body#page-course-index',
+  'body#page-course-index-category',
+];
+
+export const COURSE_LINK_SELECTOR = 'a[href*="/course/view.php?id="]';
+
+/** Nur für Screenreader gedachte Texte (z.B. "Kursname" vor dem eigentlichen Namen) */
+export const SCREEN_READER_ONLY_SELECTORS = '.sr-only, .accesshide, .visually-hidden';
+
 export const COURSE_NAME_SELECTORS: string[] = [
   '#page-header .page-header-headings h1',
   '#page-header h1',
@@ -24,6 +59,20 @@ export const COURSE_NAME_SELECTORS: string[] = [
 
 export const SECTION_SELECTORS: string[] = ['.course-content .section', 'li.section', 'div.section'];
 
+/** Links auf Abschnitte: Kursindex (Moodle 4), Abschnittsnavigation, Tabs/Kacheln einseitiger Formate */
+export const SECTION_LINK_SELECTORS: string[] = [
+  '#courseindex a[href]',
+  '.courseindex a[href]',
+  '.section-navigation a[href]',
+  '.course-content a[href]',
+];
+
+/**
+ * Inhalt eines vollständig geladenen Abschnitts. Abschnitte ohne diesen Inhalt sind nur
+ * Zusammenfassungen (ein Abschnitt pro Seite) oder werden erst beim Aufklappen nachgeladen.
+ */
+export const SECTION_CONTENT_SELECTOR = '.activity, .activity-item, [data-for="cmlist"], ul.section';
+
 export const SECTION_TITLE_SELECTORS: string[] = [
   '.sectionname',
   'h3.sectionname',
@@ -40,9 +89,41 @@ export const ACTIVITY_LINK_SELECTORS: string[] = [
   'a[href*="pluginfile.php"]',
   'a[href*="mod/resource/view.php"]',
   'a[href*="mod/folder/view.php"]',
+  'a[href*="mod/assign/view.php"]',
+  'a[href*="mod/page/view.php"]',
+  'a[href*="mod/book/view.php"]',
   'a[href*="mod/url/view.php"]',
 ];
 
+/** Aktivitäten, hinter denen Videos liegen (H5P, LTI-Tools wie Kaltura/Opencast, Kaltura-Videoressource) */
+export const MEDIA_MODULES = new Set(['h5pactivity', 'lti', 'kalvidres']);
+
+/** Eingebettete Player in Rich Text (H5P, Kaltura, Opencast) */
+export const MEDIA_EMBED_SELECTOR = [
+  'iframe[src*="/h5p/embed.php"]',
+  'iframe[src*="kaltura"]',
+  'iframe[src*="/play/"]',
+  'iframe[src*="paella"]',
+  'iframe[src*="/engage/"]',
+].join(', ');
+
+/** Rich-Text-Bereiche der Kursseite: Abschnittsbeschreibungen, Textfelder (mod/label), Aktivitätsbeschreibungen */
+export const RICH_TEXT_SELECTORS: string[] = [
+  '.summary',
+  '.summarytext',
+  '.modtype_label',
+  '.activity-altcontent',
+  '.contentafterlink',
+  '.activity-description',
+];
+
+/** Eingebettete Medien in Rich Text (Dateien über das `src`-Attribut) */
+export const EMBEDDED_MEDIA_SELECTOR =
+  'img[src], video[src], audio[src], video source[src], audio source[src]';
+
+/** Bilder, die zur Moodle-Oberfläche gehören (Profilbilder, Theme-Icons) */
+export const UI_IMAGE_PATTERNS: RegExp[] = [/\/user\/icon\//i, /\/theme\//i, /\/pix\//i];
+
 export const DOWNLOADABLE_EXTENSIONS = new Set([
   'pdf',
   'zip',
@@ -74,6 +155,59 @@ export const DOWNLOADABLE_EXTENSIONS = new Set([
   'ogg',
 ]);
 
+/** File type for a MIME type, when the server's file name has no extension. */
+export const MIME_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/vnd.rar': 'rar',
+  'application/x-7z-compressed': '7z',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/csv': 'csv',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'application/rtf': 'rtf',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+};
+
+/** Formats that are already compressed; stored in the ZIP without deflate. */
+export const PRECOMPRESSED_EXTENSIONS = new Set([
+  'zip',
+  'rar',
+  '7z',
+  'docx',
+  'pptx',
+  'xlsx',
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'webp',
+  'mp4',
+  'mov',
+  'm4v',
+  'webm',
+  'mp3',
+  'm4a',
+  'ogg',
+]);
+
 export const KNOWN_MOODLE_PATH_HINTS = [
   '/course/view.php',
   '/mod/resource/',
@@ -84,6 +218,10 @@ export const KNOWN_MOODLE_PATH_HINTS = [
 
 export const DEFAULT_ZIP_NAME = 'moodle-download.zip';
 
+/** Fehlertexte, mit denen ein Job ohne eigentlichen Fehler endet (kein Fehler-Panel im Popup) */
+export const JOB_CANCELLED_ERROR = 'job_cancelled';
+export const JOB_INTERRUPTED_ERROR = 'job_interrupted';
+
 /**
  * Build-time injected flags.
  *
@@ -32,6 +32,11 @@ export const extAsync = {
     return promisifyChrome((cb) => ext.tabs.query(queryInfo, cb));
   },
 
+  tabsCreate(createProperties: chrome.tabs.CreateProperties): Promise<chrome.tabs.Tab> {
+    const ext = getExtApi();
+    return promisifyChrome((cb) => ext.tabs.create(createProperties, cb));
+  },
+
   tabsSendMessage<TResponse = any>(tabId: number, message: any): Promise<TResponse> {
     const ext = getExtApi();
     return promisifyChrome((cb) => ext.tabs.sendMessage(tabId, message, cb));
@@ -62,6 +67,26 @@ export const extAsync = {
     return promisifyChromeVoid((cb) => ext.storage.local.clear(cb));
   },
 
+  storageSyncGet(keys: string | string[] | object | null): Promise<Record<string, any>> {
+    const ext = getExtApi();
+    return promisifyChrome((cb) => ext.storage.sync.get(keys as any, cb));
+  },
+
+  storageSyncSet(items: Record<string, any>): Promise<void> {
+    const ext = getExtApi();
+    return promisifyChromeVoid((cb) => ext.storage.sync.set(items as any, cb));
+  },
+
+  storageSyncRemove(keys: string | string[]): Promise<void> {
+    const ext = getExtApi();
+    return promisifyChromeVoid((cb) => ext.storage.sync.remove(keys as any, cb));
+  },
+
+  storageSyncClear(): Promise<void> {
+    const ext = getExtApi();
+    return promisifyChromeVoid((cb) => ext.storage.sync.clear(cb));
+  },
+
   downloadsDownload(options: chrome.downloads.DownloadOptions): Promise<number> {
     const ext = getExtApi();
     return promisifyChrome((cb) => ext.downloads.download(options, cb));
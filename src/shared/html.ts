@@ -0,0 +1,13 @@
+/**
+ * Parst HTML in ein Document, dessen `baseURI` der Seiten-URL entspricht
+ * (sonst würden relative Links gegen die Extension-URL aufgelöst).
+ */
+export function parseHtmlDocument(html: string, url: string): Document {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  if (!doc.querySelector('base[href]')) {
+    const base = doc.createElement('base');
+    base.href = url;
+    doc.head.prepend(base);
+  }
+  return doc;
+}
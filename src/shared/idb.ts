@@ -1,13 +1,21 @@
 /**
- * Minimaler IndexedDB-Wrapper zum Persistieren von File System Access Handles.
+ * Minimaler IndexedDB-Wrapper.
  *
- * Hinweis: `chrome.storage` kann Handles nicht speichern (JSON-serialisiert).
- * In Chromium sind FileSystemHandles structured-clonebar und können in IDB liegen.
+ * - `handles`: File System Access Handles. `chrome.storage` kann Handles nicht speichern
+ *   (JSON-serialisiert); in Chromium sind FileSystemHandles structured-clonebar.
+ * - `jobs`: Zustand laufender/pausierter Download-Jobs (überlebt Popup-Schließen und
+ *   Service-Worker-Neustarts).
+ * - `jobParts`: bereits erzeugte Bytes eines ZIP-Archivs, das im Hintergrund entsteht
+ *   (Schlüssel: [Job-ID, laufende Nummer]).
  */
 
+import type { JobRecord } from './types';
+
 const DB_NAME = 'moodle.download';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE = 'handles';
+const JOBS_STORE = 'jobs';
+const JOB_PARTS_STORE = 'jobParts';
 
 function openDb(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -18,6 +26,12 @@ function openDb(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE)) {
         db.createObjectStore(STORE, { keyPath: 'key' });
       }
+      if (!db.objectStoreNames.contains(JOBS_STORE)) {
+        db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(JOB_PARTS_STORE)) {
+        db.createObjectStore(JOB_PARTS_STORE, { keyPath: ['jobId', 'index'] });
+      }
     };
 
     req.onsuccess = () => resolve(req.result);
@@ -25,39 +39,74 @@ function openDb(): Promise<IDBDatabase> {
   });
 }
 
-export async function idbSetHandle<T>(key: string, handle: T): Promise<void> {
+/** Führt `fn` in einer Transaktion aus und liefert das Ergebnis des Requests nach dem Commit. */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
   const db = await openDb();
-  await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(STORE, 'readwrite');
-    const store = tx.objectStore(STORE);
-    store.put({ key, handle });
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error || new Error('Failed to write to IndexedDB'));
-  });
-  db.close();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const req = fn(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(req ? req.result : undefined);
+      tx.onerror = () => reject(tx.error || new Error('IndexedDB transaction failed'));
+      tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function idbSetHandle<T>(key: string, handle: T): Promise<void> {
+  await withStore(STORE, 'readwrite', (store) => store.put({ key, handle }));
 }
 
 export async function idbGetHandle<T>(key: string): Promise<T | undefined> {
-  const db = await openDb();
-  const handle = await new Promise<T | undefined>((resolve, reject) => {
-    const tx = db.transaction(STORE, 'readonly');
-    const store = tx.objectStore(STORE);
-    const req = store.get(key);
-    req.onsuccess = () => resolve(req.result?.handle as T | undefined);
-    req.onerror = () => reject(req.error || new Error('Failed to read from IndexedDB'));
-  });
-  db.close();
-  return handle;
+  const row = await withStore<{ key: string; handle: T } | undefined>(STORE, 'readonly', (store) =>
+    store.get(key),
+  );
+  return row?.handle;
 }
 
 export async function idbDeleteHandle(key: string): Promise<void> {
-  const db = await openDb();
-  await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(STORE, 'readwrite');
-    const store = tx.objectStore(STORE);
-    store.delete(key);
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error || new Error('Failed to delete from IndexedDB'));
-  });
-  db.close();
+  await withStore(STORE, 'readwrite', (store) => store.delete(key));
+}
+
+export async function idbPutJob(job: JobRecord): Promise<void> {
+  await withStore(JOBS_STORE, 'readwrite', (store) => store.put(job));
+}
+
+export async function idbGetJob(id: string): Promise<JobRecord | undefined> {
+  return withStore<JobRecord | undefined>(JOBS_STORE, 'readonly', (store) => store.get(id));
+}
+
+export async function idbGetAllJobs(): Promise<JobRecord[]> {
+  return (await withStore<JobRecord[]>(JOBS_STORE, 'readonly', (store) => store.getAll())) ?? [];
+}
+
+export async function idbDeleteJob(id: string): Promise<void> {
+  await withStore(JOBS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/** Teile ab `fromIndex` (Standard: alle) eines Jobs */
+function jobPartsRange(jobId: string, fromIndex = 0): IDBKeyRange {
+  return IDBKeyRange.bound([jobId, fromIndex], [jobId, Infinity]);
+}
+
+export async function idbPutJobPart(jobId: string, index: number, data: Blob): Promise<void> {
+  await withStore(JOB_PARTS_STORE, 'readwrite', (store) => store.put({ jobId, index, data }));
+}
+
+/** Alle gespeicherten Teile eines Jobs, nach laufender Nummer sortiert. */
+export async function idbGetJobParts(jobId: string): Promise<Blob[]> {
+  const rows = await withStore<Array<{ index: number; data: Blob }>>(JOB_PARTS_STORE, 'readonly', (store) =>
+    store.getAll(jobPartsRange(jobId)),
+  );
+  return (rows ?? []).map((row) => row.data);
+}
+
+export async function idbDeleteJobParts(jobId: string, fromIndex = 0): Promise<void> {
+  await withStore(JOB_PARTS_STORE, 'readwrite', (store) => store.delete(jobPartsRange(jobId, fromIndex)));
 }
@@ -0,0 +1,203 @@
+import type { MoodleResource, NamingSettings } from './types';
+import { DEFAULT_ZIP_NAME } from './constants';
+import { joinZipPath, sanitizeFileName } from './utils';
+
+/**
+ * Namensvorlagen für Pfade und das ZIP-Archiv.
+ *
+ * Platzhalter: `{course}`, `{courseShort}`, `{sectionIndex}`, `{section}`, `{activity}`,
+ * `{subfolders}` (Ordner unterhalb des Abschnitts, z.B. eines Verzeichnisses), `{filename}`
+ * (ohne Endung), `{ext}` und `{date}` (Datum des Jobs). Zahlen lassen sich mit `{sectionIndex:02}`
+ * auf eine Breite auffüllen. Leere Ordner entfallen; fehlt `{ext}`, wird die Endung angehängt.
+ */
+export const DEFAULT_NAMING: NamingSettings = {
+  template: '{course}/{section}/{subfolders}/{filename}',
+  zipTemplate: '{course}',
+  flatten: false,
+  numbering: false,
+  transliterate: false,
+};
+
+export const NAMING_PLACEHOLDERS = [
+  'course',
+  'courseShort',
+  'sectionIndex',
+  'section',
+  'activity',
+  'subfolders',
+  'filename',
+  'ext',
+  'date',
+] as const;
+
+type Placeholder = (typeof NAMING_PLACEHOLDERS)[number];
+type Values = Partial<Record<Placeholder, string | number>>;
+
+const PLACEHOLDER = /\{(\w+)(?::(\d+))?\}/g;
+
+const TRANSLITERATIONS: Record<string, string> = {
+  ä: 'ae',
+  ö: 'oe',
+  ü: 'ue',
+  Ä: 'Ae',
+  Ö: 'Oe',
+  Ü: 'Ue',
+  ß: 'ss',
+  æ: 'ae',
+  Æ: 'Ae',
+  ø: 'o',
+  Ø: 'O',
+  œ: 'oe',
+  Œ: 'Oe',
+};
+
+/** Gespeicherte Angaben über die Standardwerte gelegt (ungültige Werte fallen weg) */
+export function resolveNaming(overrides?: Partial<NamingSettings>): NamingSettings {
+  const naming = { ...DEFAULT_NAMING };
+  if (typeof overrides?.template === 'string' && overrides.template.trim()) {
+    naming.template = overrides.template.trim();
+  }
+  if (typeof overrides?.zipTemplate === 'string') naming.zipTemplate = overrides.zipTemplate.trim();
+  for (const key of ['flatten', 'numbering', 'transliterate'] as const) {
+    if (typeof overrides?.[key] === 'boolean') naming[key] = overrides[key];
+  }
+  return naming;
+}
+
+/** Ob die Dateipfade wie ohne Vorlage aussehen (Kurs/Abschnitt/Ordner/Datei) */
+export function isDefaultNaming(naming: NamingSettings): boolean {
+  return (
+    naming.template === DEFAULT_NAMING.template &&
+    !naming.flatten &&
+    !naming.numbering &&
+    !naming.transliterate
+  );
+}
+
+/** Umlaute ausgeschrieben, andere diakritische Zeichen entfernt (é → e) */
+export function transliterate(text: string): string {
+  return text
+    .replace(/[äöüÄÖÜßæÆøØœŒ]/g, (c) => TRANSLITERATIONS[c] ?? c)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC');
+}
+
+function formatDate(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
+function splitExtension(fileName: string): { base: string; ext: string } {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0 || dot === fileName.length - 1) return { base: fileName, ext: '' };
+  return { base: fileName.slice(0, dot), ext: fileName.slice(dot + 1) };
+}
+
+/** Platzhalterwert als Teil eines Dateinamens */
+function clean(text: string | undefined, naming: NamingSettings): string | undefined {
+  if (!text) return undefined;
+  return sanitizeFileName(naming.transliterate ? transliterate(text) : text);
+}
+
+function numbered(index: number | undefined, text: string): string {
+  return index === undefined ? text : `${String(index).padStart(2, '0')} ${text}`;
+}
+
+/**
+ * Ordner des Pfads unterhalb von Kurs und Abschnitt (Verzeichnis mit Unterordnern,
+ * Abgabe/Instructions usw.)
+ */
+export function getSubfolders(resource: MoodleResource): string[] {
+  const parts = resource.path.split('/').filter(Boolean);
+  for (const name of [resource.courseName, resource.sectionName]) {
+    if (name && parts[0] === sanitizeFileName(name)) parts.shift();
+  }
+  return parts;
+}
+
+/** Setzt die Werte ein; Zahlen werden mit `{name:0N}` aufgefüllt, unbekannte Platzhalter bleiben stehen */
+function renderTemplate(template: string, values: Values): string {
+  return template.replace(PLACEHOLDER, (match, name: string, width?: string) => {
+    if (!(NAMING_PLACEHOLDERS as readonly string[]).includes(name)) return match;
+    const value = values[name as Placeholder];
+    if (value === undefined) return '';
+    const text = String(value);
+    return width && typeof value === 'number' ? text.padStart(Number(width), '0') : text;
+  });
+}
+
+/** Reste leerer Platzhalter (" - ", "_") am Rand eines Pfadteils */
+function trimSegment(segment: string): string {
+  return segment.replace(/^[\s\-_]+|[\s\-_.]+$/g, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Relativer Pfad einer Datei nach der Vorlage. `fileName` ist der Name laut Server; die Angaben
+ * zu Kurs, Abschnitt und Aktivität kommen aus der Ressource.
+ */
+export function renderFilePath(
+  resource: MoodleResource,
+  fileName: string,
+  naming: NamingSettings,
+  date = new Date(),
+): string {
+  const { base, ext } = splitExtension(fileName);
+  const subfolders = getSubfolders(resource).map((s) => clean(s, naming) ?? s);
+  let section = clean(resource.sectionName, naming);
+  let file = clean(base, naming) ?? '';
+  if (naming.numbering) {
+    if (section) section = numbered(resource.sectionIndex, section);
+    // Das Erste unterhalb des Abschnitts bekommt die Position der Aktivität
+    if (subfolders[0]) subfolders[0] = numbered(resource.position, subfolders[0]);
+    else file = numbered(resource.position, file);
+  }
+
+  const values: Values = {
+    course: clean(resource.courseName, naming),
+    courseShort: clean(resource.courseShort ?? resource.courseName, naming),
+    sectionIndex: resource.sectionIndex,
+    section,
+    activity: clean(resource.activityName, naming),
+    subfolders: subfolders.join('/'),
+    filename: file,
+    ext: clean(ext, naming),
+    date: formatDate(date),
+  };
+
+  const rendered = renderTemplate(naming.template, values).split('/').map(trimSegment);
+  let name = rendered.pop() || file || 'file';
+  const segments = rendered.filter(Boolean);
+  if (ext && !/\{ext(?::\d+)?\}/.test(naming.template)) name = `${name}.${values.ext}`;
+
+  return naming.flatten ? sanitizeFileName(name) : joinZipPath(segments.join('/'), name);
+}
+
+/** Wert, wenn alle Ressourcen ihn teilen (ein Kurs), sonst undefined */
+function shared(resources: MoodleResource[], pick: (r: MoodleResource) => string | undefined) {
+  const values = new Set(resources.map(pick));
+  return values.size === 1 ? [...values][0] : undefined;
+}
+
+/** Name des ZIP-Archivs; ohne Werte (z.B. mehrere Kurse bei `{course}`) DEFAULT_ZIP_NAME */
+export function renderZipName(
+  resources: MoodleResource[],
+  naming: NamingSettings,
+  date = new Date(),
+): string {
+  const values: Values = {
+    course: clean(
+      shared(resources, (r) => r.courseName),
+      naming,
+    ),
+    courseShort: clean(
+      shared(resources, (r) => r.courseShort ?? r.courseName),
+      naming,
+    ),
+    date: formatDate(date),
+  };
+
+  const name = trimSegment(renderTemplate(naming.zipTemplate, values).replace(/\.zip$/i, ''));
+  return name ? `${sanitizeFileName(name)}.zip` : DEFAULT_ZIP_NAME;
+}
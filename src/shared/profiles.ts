@@ -0,0 +1,170 @@
+import type { ExtractorProfile, ExtractorSelectors } from './types';
+import {
+  ACTIVITY_LINK_SELECTORS,
+  COURSE_NAME_SELECTORS,
+  MOODLE_DETECT_SELECTORS,
+  RICH_TEXT_SELECTORS,
+  SECTION_SELECTORS,
+  SECTION_TITLE_SELECTORS,
+  STORAGE_KEYS,
+} from './constants';
+import { storage } from './storage';
+
+/** Kennung exportierter Profil-Dateien */
+export const PROFILES_FORMAT = 'moodle-download-profiles';
+export const PROFILES_VERSION = 1;
+
+/** Standard-Selektoren (ohne Profil) */
+export const DEFAULT_SELECTORS: ExtractorSelectors = {
+  moodleDetect: MOODLE_DETECT_SELECTORS,
+  courseName: COURSE_NAME_SELECTORS,
+  sections: SECTION_SELECTORS,
+  sectionTitles: SECTION_TITLE_SELECTORS,
+  activityLinks: ACTIVITY_LINK_SELECTORS,
+  richText: RICH_TEXT_SELECTORS,
+};
+
+export const SELECTOR_KEYS = Object.keys(DEFAULT_SELECTORS) as Array<keyof ExtractorSelectors>;
+
+/** Gespeicherte Profile; ohne lesbaren Speicher (z.B. in Tests) keine */
+export async function loadExtractorProfiles(): Promise<ExtractorProfile[]> {
+  try {
+    return (await storage.get(STORAGE_KEYS.extractorProfiles)) ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/** Muster mit `*` als Platzhalter als RegExp über den ganzen Text (ohne Groß-/Kleinschreibung) */
+export function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/** Erstes Profil, dessen Host-Muster auf `hostname` passt */
+export function findProfile(
+  profiles: ExtractorProfile[] | undefined,
+  hostname: string,
+): ExtractorProfile | undefined {
+  return profiles?.find((p) => p.hostPattern.trim() && wildcardToRegExp(p.hostPattern).test(hostname));
+}
+
+/** Profil für die Seite unter `url` (siehe findProfile) */
+export function findProfileForUrl(
+  profiles: ExtractorProfile[] | undefined,
+  url: string,
+): ExtractorProfile | undefined {
+  try {
+    return findProfile(profiles, new URL(url).hostname);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Standard-Selektoren mit den Ersetzungen des Profils */
+export function resolveSelectors(profile?: ExtractorProfile): ExtractorSelectors {
+  const selectors = { ...DEFAULT_SELECTORS };
+  for (const key of SELECTOR_KEYS) {
+    const override = profile?.selectors?.[key];
+    if (override?.length) selectors[key] = override;
+  }
+  return selectors;
+}
+
+/** Ob `url` auf eines der Muster passt (Teilstring-Muster, `*` als Platzhalter) */
+export function matchesAnyPattern(url: string, patterns: string[] | undefined): boolean {
+  return !!patterns?.some((p) => p.trim() && wildcardToRegExp(`*${p.trim()}*`).test(url));
+}
+
+function toStringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  const list = value.map((v: string) => v.trim()).filter(Boolean);
+  return list.length ? list : undefined;
+}
+
+/**
+ * Prüft ein einzelnes Profil (z.B. aus einer importierten Datei) und entfernt leere Angaben.
+ * Wirft einen Error mit einer lesbaren Meldung, wenn Pflichtfelder fehlen oder Typen nicht stimmen.
+ */
+export function normalizeProfile(input: unknown, index = 0): ExtractorProfile {
+  const raw = input as Record<string, unknown> | null;
+  const label = `Profile ${index + 1}`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${label}: not an object`);
+
+  const hostPattern = typeof raw['hostPattern'] === 'string' ? raw['hostPattern'].trim() : '';
+  if (!hostPattern) throw new Error(`${label}: hostPattern is missing`);
+
+  const profile: ExtractorProfile = {
+    id: typeof raw['id'] === 'string' && raw['id'].trim() ? raw['id'].trim() : hostPattern,
+    name: typeof raw['name'] === 'string' && raw['name'].trim() ? raw['name'].trim() : hostPattern,
+    hostPattern,
+  };
+
+  const rawSelectors = raw['selectors'];
+  if (rawSelectors !== undefined && (typeof rawSelectors !== 'object' || rawSelectors === null)) {
+    throw new Error(`${label}: selectors must be an object`);
+  }
+  const selectors: Partial<ExtractorSelectors> = {};
+  for (const key of SELECTOR_KEYS) {
+    const list = toStringList(
+      (rawSelectors as Record<string, unknown> | undefined)?.[key],
+      `${label}: ${key}`,
+    );
+    if (list) selectors[key] = list;
+  }
+  if (Object.keys(selectors).length) profile.selectors = selectors;
+
+  const include = toStringList(raw['include'], `${label}: include`);
+  const exclude = toStringList(raw['exclude'], `${label}: exclude`);
+  if (include) profile.include = include;
+  if (exclude) profile.exclude = exclude;
+  return profile;
+}
+
+/** Datei-Inhalt für den Export (versioniert, damit spätere Formate erkannt werden) */
+export function serializeProfiles(profiles: ExtractorProfile[]): string {
+  return JSON.stringify({ format: PROFILES_FORMAT, version: PROFILES_VERSION, profiles }, null, 2);
+}
+
+/** Liest eine exportierte Profil-Datei (oder eine bloße Liste von Profilen). Wirft bei ungültigem Inhalt. */
+export function parseProfiles(json: string): ExtractorProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+
+  let list: unknown = data;
+  if (!Array.isArray(data)) {
+    const bundle = data as { format?: unknown; version?: unknown; profiles?: unknown } | null;
+    if (bundle?.format !== PROFILES_FORMAT) throw new Error('Not a profile file');
+    if (typeof bundle.version !== 'number' || bundle.version > PROFILES_VERSION) {
+      throw new Error(`Unsupported profile file version: ${String(bundle.version)}`);
+    }
+    list = bundle.profiles;
+  }
+  if (!Array.isArray(list)) throw new Error('Not a profile file');
+  return list.map((p, i) => normalizeProfile(p, i));
+}
+
+/** Importierte Profile ersetzen vorhandene mit derselben ID, neue werden angehängt */
+export function mergeProfiles(
+  existing: ExtractorProfile[],
+  imported: ExtractorProfile[],
+): ExtractorProfile[] {
+  const merged = [...existing];
+  for (const profile of imported) {
+    const index = merged.findIndex((p) => p.id === profile.id);
+    if (index === -1) merged.push(profile);
+    else merged[index] = profile;
+  }
+  return merged;
+}
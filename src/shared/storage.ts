@@ -1,14 +1,42 @@
-import type { DownloadTrackingMap, SaveSettings } from './types';
-import { STORAGE_KEYS } from './constants';
+import type {
+  DownloadHistoryEntry,
+  DownloadTrackingMap,
+  DownloadTrackingStore,
+  ExtractorProfile,
+  RetryPolicy,
+  SaveSettings,
+  SizeLimits,
+  SyncedCourse,
+  TrackingSyncMeta,
+  WebServiceSettings,
+} from './types';
+import { STORAGE_KEYS, SYNC_KEYS } from './constants';
 import { extAsync } from './ext';
 
 export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
 
 export interface StorageSchema {
-  [STORAGE_KEYS.downloadTracking]: DownloadTrackingMap;
+  /** Flache Liste (Version 1) wird beim Lesen in den Store migriert */
+  [STORAGE_KEYS.downloadTracking]: DownloadTrackingStore | DownloadTrackingMap;
   [STORAGE_KEYS.telemetryAsked]: boolean;
   [STORAGE_KEYS.telemetryOptIn]: boolean;
   [STORAGE_KEYS.saveSettings]: SaveSettings;
+  [STORAGE_KEYS.webServices]: WebServiceSettings;
+  /** Abweichungen von der Standard-Retry-Policy */
+  [STORAGE_KEYS.retryPolicy]: Partial<RetryPolicy>;
+  [STORAGE_KEYS.extractorProfiles]: ExtractorProfile[];
+  /** Abweichungen von den Standard-Warngrenzen für große Downloads */
+  [STORAGE_KEYS.sizeLimits]: Partial<SizeLimits>;
+  /** Letzte Jobs, neueste zuerst */
+  [STORAGE_KEYS.downloadHistory]: DownloadHistoryEntry[];
+  /** Tracking über chrome.storage.sync abgleichen (opt-in) */
+  [STORAGE_KEYS.trackingSync]: boolean;
+}
+
+/** Inhalt von chrome.storage.sync (Quota: 100 KB insgesamt, 8 KB je Eintrag) */
+export interface SyncStorageSchema {
+  [SYNC_KEYS.trackingMeta]: TrackingSyncMeta;
+  [chunk: `${typeof SYNC_KEYS.trackingChunk}${number}`]: SyncedCourse[];
 }
 
 /**
@@ -31,4 +59,24 @@ export const storage = {
   async clear(): Promise<void> {
     await extAsync.storageLocalClear();
   },
+
+  /** Dieselbe API für chrome.storage.sync (zwischen den Geräten eines Kontos abgeglichen) */
+  sync: {
+    async get<K extends keyof SyncStorageSchema>(key: K): Promise<SyncStorageSchema[K] | undefined> {
+      const result = await extAsync.storageSyncGet(key as string);
+      return result[key as string] as SyncStorageSchema[K] | undefined;
+    },
+
+    async set<K extends keyof SyncStorageSchema>(key: K, value: SyncStorageSchema[K]): Promise<void> {
+      await extAsync.storageSyncSet({ [key]: value });
+    },
+
+    async remove<K extends keyof SyncStorageSchema>(key: K): Promise<void> {
+      await extAsync.storageSyncRemove(key as string);
+    },
+
+    async clear(): Promise<void> {
+      await extAsync.storageSyncClear();
+    },
+  },
 };
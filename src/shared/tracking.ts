@@ -0,0 +1,96 @@
+/**
+ * Tracking geladener Dateien je Website und Kurs.
+ *
+ * Hintergrund und Popup arbeiten mit der flachen Liste (`DownloadTrackingMap`, Schlüssel:
+ * normalisierte URL); gespeichert wird sie als `DownloadTrackingStore`, gruppiert nach
+ * Host und Kurs-ID. Den Kurs trägt jeder Eintrag selbst (`courseId`, `courseName`).
+ */
+
+import type { CourseTracking, DownloadTrackingMap, DownloadTrackingStore, StoredDownload } from './types';
+import { normalizeUrlKey } from './utils';
+
+export const TRACKING_VERSION = 2;
+
+/** Kurs-Schlüssel für Dateien ohne bekannten Kurs */
+export const UNKNOWN_COURSE = 'unknown';
+
+/** Host der Website einer Datei-URL ('' wenn die URL ungültig ist) */
+export function getTrackingSite(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+export function getCourseKey(entry: Pick<StoredDownload, 'courseId'>): string {
+  return entry.courseId !== undefined ? String(entry.courseId) : UNKNOWN_COURSE;
+}
+
+/** Gruppiert die flache Liste nach Website und Kurs (zum Speichern) */
+export function buildTrackingStore(map: DownloadTrackingMap): DownloadTrackingStore {
+  const store: DownloadTrackingStore = { version: TRACKING_VERSION, sites: {} };
+  for (const [key, entry] of Object.entries(map)) {
+    const { courseId, courseName, ...file } = entry;
+    const site = getTrackingSite(key);
+    const courses = (store.sites[site] ??= {});
+    const course: CourseTracking = (courses[getCourseKey({ courseId })] ??= { files: {} });
+    if (courseName) course.name = courseName;
+    course.files[key] = file;
+  }
+  return store;
+}
+
+/** Flache Liste aus dem gespeicherten Store; jeder Eintrag bekommt seinen Kurs zurück */
+export function flattenTrackingStore(store: DownloadTrackingStore): DownloadTrackingMap {
+  const map: DownloadTrackingMap = {};
+  for (const courses of Object.values(store.sites)) {
+    for (const [courseKey, course] of Object.entries(courses)) {
+      const courseId = courseKey === UNKNOWN_COURSE ? undefined : Number(courseKey);
+      for (const [key, file] of Object.entries(course.files)) {
+        const entry: StoredDownload = { ...file };
+        if (courseId !== undefined && Number.isFinite(courseId)) entry.courseId = courseId;
+        if (course.name) entry.courseName = course.name;
+        map[key] = entry;
+      }
+    }
+  }
+  return map;
+}
+
+function isTrackingStore(raw: unknown): raw is DownloadTrackingStore {
+  const store = raw as Partial<DownloadTrackingStore> | null;
+  return !!store && typeof store.version === 'number' && typeof store.sites === 'object';
+}
+
+/**
+ * Liest den gespeicherten Wert in die flache Liste. Ältere Versionen (flache Liste, teils mit
+ * weniger strenger URL-Normalisierung) werden übernommen; `changed` heißt, der Wert sollte im
+ * aktuellen Format neu gespeichert werden.
+ */
+export function migrateTracking(raw: unknown): { map: DownloadTrackingMap; changed: boolean } {
+  if (!raw || typeof raw !== 'object') return { map: {}, changed: false };
+
+  const legacy = !isTrackingStore(raw);
+  const source = legacy ? (raw as DownloadTrackingMap) : flattenTrackingStore(raw);
+  let changed = legacy || raw.version !== TRACKING_VERSION;
+
+  const map: DownloadTrackingMap = {};
+  for (const [key, entry] of Object.entries(source)) {
+    const normalized = normalizeUrlKey(key);
+    map[normalized] = entry;
+    if (normalized !== key) changed = true;
+  }
+  return { map, changed };
+}
+
+/** Entfernt die Einträge eines Kurses (`course`: ID oder UNKNOWN_COURSE); Anzahl der entfernten */
+export function removeCourseTracking(map: DownloadTrackingMap, site: string, course: string): number {
+  let removed = 0;
+  for (const [key, entry] of Object.entries(map)) {
+    if (getTrackingSite(key) !== site || getCourseKey(entry) !== course) continue;
+    delete map[key];
+    removed += 1;
+  }
+  return removed;
+}
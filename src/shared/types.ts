@@ -5,14 +5,64 @@ export interface MoodleResource {
   name: string;
   /** Download- oder View-URL */
   url: string;
-  /** Ressourcentyp */
-  type: 'file' | 'folder';
+  /**
+   * Ressourcentyp
+   * folder/assign: Aktivität, deren Dateien der Hintergrund erst beim Download von ihrer Seite liest
+   * (Abgaben: Unterordner Instructions, Submission und Feedback)
+   * page/book: Textseite bzw. Buch, wird als eigenständige HTML-Datei exportiert
+   * url: Link-Aktivität, landet in den Link-Dokumenten (Dateien desselben Moodle werden geladen)
+   * video: Aufzeichnung hinter einem Player (H5P, Kaltura, Opencast, `<video>`); zunächst die
+   * Aktivität bzw. der eingebettete Player, nach dem Auflösen die direkte Medien-URL (MP4 oder HLS)
+   */
+  type: 'file' | 'folder' | 'assign' | 'page' | 'book' | 'url' | 'video';
+  /** Nur url: aufgelöstes Ziel des Links */
+  target?: string;
   /** Dateityp (z.B. 'pdf', 'zip', 'docx') */
   fileType?: string;
   /** Dateigröße in Bytes (optional) */
   size?: number;
+  /** Dateiname laut Server (Content-Disposition), vor dem Download per Preflight ermittelt */
+  fileName?: string;
+  /** MIME-Typ laut Server (Preflight) */
+  mimeType?: string;
+  /** Letzte Änderung in Moodle (Unix-Zeit in ms, optional) */
+  timeModified?: number;
   /** Ordnerpfad innerhalb des ZIP (z.B. 'Woche 1/Vorlesung') */
   path: string;
+  /** Kurs, aus dem die Ressource stammt (Tracking je Kurs, Verlauf) */
+  courseId?: number;
+  courseName?: string;
+  /** Kurzname des Kurses (Brotkrumen-Navigation bzw. `shortname` der Web Services) */
+  courseShort?: string;
+  /** Abschnitt und Aktivität in Moodle (für das Manifest im Archiv und die Namensvorlagen) */
+  sectionName?: string;
+  activityName?: string;
+  /** Nummer des Abschnitts im Kurs (0 = Allgemeines) */
+  sectionIndex?: number;
+  /** Position der Aktivität im Abschnitt, ab 1 (Dateien einer Aktivität teilen ihre Position) */
+  position?: number;
+}
+
+/** Angaben, die ein HEAD-Request (bzw. GET mit `Range: bytes=0-0`) vor dem Download liefert */
+export interface PreflightDetails {
+  fileName?: string;
+  size?: number;
+  mimeType?: string;
+}
+
+/** Abschnitt, der nur verlinkt ist (Kursindex, Abschnittsnavigation) und nachgeladen werden muss */
+export interface CourseSection {
+  /** course/section.php?id=… bzw. course/view.php?id=…&section=… */
+  url: string;
+  name: string;
+}
+
+/** Kurs aus einer Kursübersicht (Dashboard, /my/courses.php) */
+export interface MoodleCourse {
+  id: number;
+  name: string;
+  /** course/view.php?id=… */
+  url: string;
 }
 
 export interface DownloadStats {
@@ -27,9 +77,21 @@ export interface DownloadStats {
 
 export interface StoredDownload {
   url: string;
-  hash: string; // SHA-256
+  /** SHA-256; fehlt, wenn der Browser die Datei direkt geladen hat (chrome.downloads) */
+  hash?: string;
   timestamp: number;
   fileName: string;
+  /** Relativer Zielpfad (im ZIP bzw. im gewählten Ordner) */
+  path?: string;
+  /** Validatoren des Servers beim Download (für bedingte HEAD-Requests) */
+  etag?: string;
+  lastModified?: string;
+  contentLength?: number;
+  /** Größe der geschriebenen Datei in Bytes (fehlt bei chrome.downloads) */
+  size?: number;
+  /** Kurs der Datei; gespeichert wird der Eintrag unter Website → Kurs (siehe DownloadTrackingStore) */
+  courseId?: number;
+  courseName?: string;
 }
 
 export interface SaveSettings {
@@ -40,49 +102,427 @@ export interface SaveSettings {
   mode: 'downloads' | 'directory';
   /** Bei downloads-mode: saveAs zeigt Dialog */
   saveAs: boolean;
+  /**
+   * zip: ein Archiv (Standard)
+   * files: einzelne Dateien in der Ordnerstruktur des Kurses
+   */
+  output?: 'zip' | 'files';
+  /** Sync: Dateien, die aus Moodle entfernt wurden, nach `_removed/` verschieben */
+  moveRemoved?: boolean;
+  /** Wie Link-Aktivitäten gespeichert werden (Standard: files) */
+  links?: LinkFormat;
+  /**
+   * Verzeichnisse über Moodles „Verzeichnis herunterladen“ (download_folder.php) als ein ZIP
+   * laden und entpackt unter ihrem Pfad ablegen, statt jede Datei einzeln abzurufen
+   */
+  folderArchives?: boolean;
+  /** Namensvorlagen für Dateien, Ordner und das ZIP (fehlende Angaben: DEFAULT_NAMING) */
+  naming?: Partial<NamingSettings>;
+}
+
+/**
+ * Vorlagen für Pfade und ZIP-Namen mit Platzhaltern wie `{course}`, `{sectionIndex:02}` oder
+ * `{filename}` (siehe src/shared/naming.ts).
+ */
+export interface NamingSettings {
+  /** Pfad jeder Datei; `/` trennt Ordner */
+  template: string;
+  /** Name des ZIP-Archivs (ohne `.zip`) */
+  zipTemplate: string;
+  /** Alle Dateien in einen Ordner (nur der letzte Teil der Vorlage) */
+  flatten: boolean;
+  /** Abschnitte und Aktivitäten mit ihrer Nummer beginnen lassen, damit die Reihenfolge aus Moodle bleibt */
+  numbering: boolean;
+  /** Umlaute und andere Sonderzeichen umschreiben (ä → ae, é → e) */
+  transliterate: boolean;
 }
 
+/**
+ * files: `Links.md` pro Abschnitt plus `.url`- und `.desktop`-Verknüpfung je Link
+ * index: eine `links.html` pro Kurs
+ */
+export type LinkFormat = 'files' | 'index';
+
 export type DownloadTrackingMap = Record<string, StoredDownload>;
 
+/** Geladene Dateien eines Kurses (Schlüssel: normalisierte URL) */
+export interface CourseTracking {
+  name?: string;
+  files: DownloadTrackingMap;
+}
+
+/**
+ * Gespeichertes Tracking: Website (Host) → Kurs-ID → Dateien. Dateien ohne bekannten Kurs
+ * (z.B. aus der flachen Liste älterer Versionen) liegen unter `UNKNOWN_COURSE`.
+ */
+export interface DownloadTrackingStore {
+  version: number;
+  sites: Record<string, Record<string, CourseTracking>>;
+}
+
+/**
+ * Kompakter Tracking-Eintrag in chrome.storage.sync: `[timestamp]` oder `[timestamp, hash]`.
+ * Ein negativer Zeitstempel markiert eine entfernte Datei (entfernt zu `-timestamp`).
+ */
+export type SyncedFile = [timestamp: number, hash?: string];
+
+/** Dateien eines Kurses im Sync-Speicher; kurze Schlüssel, da die Quota knapp ist */
+export interface SyncedCourse {
+  /** Origin der Moodle-Website (`https://moodle.example.edu`) */
+  o: string;
+  /** Kurs-ID (fehlt bei unbekanntem Kurs) */
+  c?: number;
+  /** Kursname */
+  n?: string;
+  /** Schlüssel: normalisierte URL ohne Origin */
+  f: Record<string, SyncedFile>;
+}
+
+/** Kopf des gespiegelten Trackings; die Kurse liegen verteilt auf `chunks` Einträge */
+export interface TrackingSyncMeta {
+  version: number;
+  chunks: number;
+  updatedAt: number;
+}
+
+/** Stand des Tracking-Syncs für die Einstellungen */
+export interface TrackingSyncStatus {
+  enabled: boolean;
+  /** Letzter Abgleich (beliebiges Gerät) */
+  updatedAt?: number;
+  /** Gespiegelte Kurse und Dateien */
+  courses: number;
+  files: number;
+  /** Belegte Bytes im Sync-Speicher */
+  bytes: number;
+}
+
+/** Datei im Manifest eines Archivs (`moodle-download.json`) */
+export interface ArchiveManifestFile {
+  /** Pfad im Archiv */
+  path: string;
+  /** Quell-URL (normalisiert, wie im Tracking) */
+  url: string;
+  courseId?: number;
+  courseName?: string;
+  sectionName?: string;
+  activityName?: string;
+  /** Dateiname laut Server */
+  fileName: string;
+  size?: number;
+  sha256?: string;
+  /** `Last-Modified` des Servers */
+  lastModified?: string;
+  /** Zeitpunkt des Downloads (ISO 8601) */
+  downloadedAt: string;
+}
+
+/** Maschinenlesbares Inhaltsverzeichnis eines Archivs; daraus lässt sich das Tracking wiederherstellen */
+export interface ArchiveManifest {
+  format: string;
+  version: number;
+  /** Zeitpunkt, zu dem das Archiv fertig wurde (ISO 8601) */
+  createdAt: string;
+  extensionVersion?: string;
+  files: ArchiveManifestFile[];
+  failures: DownloadFailure[];
+}
+
+/** Kurs eines vergangenen Jobs */
+export interface HistoryCourse {
+  /** Host der Moodle-Website */
+  site: string;
+  id?: number;
+  name?: string;
+}
+
+/** Abgeschlossener oder abgebrochener Download im Verlauf */
+export interface DownloadHistoryEntry {
+  id: string;
+  state: 'completed' | 'cancelled';
+  output: JobRecord['output'];
+  startedAt: number;
+  finishedAt: number;
+  courses: HistoryCourse[];
+  fileCount: number;
+  failures: DownloadFailure[];
+}
+
+/**
+ * Warum eine Datei nicht geladen werden konnte.
+ * http_error: Fehlerstatus vom Server (siehe `status`)
+ * likely_login_required: HTML statt Datei, meist eine abgelaufene Sitzung
+ * folder_expand_error: Ordnerseite konnte nicht ausgelesen werden
+ * expand_error: andere Aktivität (Abgabe, Link, Video) konnte nicht aufgelöst werden
+ * save_error: geladen, aber chrome.downloads hat das Speichern abgebrochen
+ * folder_too_large: Ordner-Archiv zu groß zum Entpacken (FOLDER_ARCHIVE_MAX_BYTES)
+ */
+export type DownloadFailureReason =
+  | 'http_error'
+  | 'timeout'
+  | 'network_error'
+  | 'likely_login_required'
+  | 'folder_expand_error'
+  | 'expand_error'
+  | 'unsupported_media'
+  | 'save_error'
+  | 'folder_too_large';
+
+/** Fehlgeschlagene Datei (bzw. Ordner) eines Jobs */
+export interface DownloadFailure {
+  url: string;
+  /** Anzeigename */
+  name: string;
+  reason: DownloadFailureReason;
+  /** HTTP-Status, falls der Server geantwortet hat */
+  status?: number;
+  /** Anzahl der Versuche (inklusive Wiederholungen) */
+  attempts: number;
+}
+
+/**
+ * Wiederholungen fehlgeschlagener Requests.
+ * 429/503 warten auf `Retry-After`, Netzwerkfehler, Timeouts und andere 5xx mit
+ * exponentiellem Backoff (mit Zufallsanteil); 403/404 u.ä. schlagen sofort fehl.
+ */
+export interface RetryPolicy {
+  /** Versuche je Request, inklusive des ersten */
+  maxAttempts: number;
+  /** Wartezeit vor der ersten Wiederholung (verdoppelt sich je Versuch) */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Längere `Retry-After`-Angaben werden nicht abgewartet, die Datei schlägt fehl */
+  maxRetryAfterMs: number;
+}
+
+/** Grenzen (Bytes), ab denen das Popup vor dem Start eines Downloads warnt */
+export interface SizeLimits {
+  /** Ab dieser geschätzten Gesamtgröße muss jeder Download bestätigt werden */
+  warnBytes: number;
+  /**
+   * Größte ZIP-Datei, die der Hintergrund im Modus „Downloads“ in IndexedDB ablegt, bevor der
+   * Browser sie speichert (belegt so lange Speicherplatz der Erweiterung)
+   */
+  storedZipBytes: number;
+}
+
+/** Moodle Web Services (REST) als Alternative zum Auslesen der Seite */
+export interface WebServiceSettings {
+  /** Ressourcen über die API statt über den Content-Script-Extractor laden */
+  enabled: boolean;
+  /** Mobile-App-Token je Moodle-Instanz (Schlüssel: Basis-URL der Instanz) */
+  tokens: Record<string, string>;
+}
+
+/** Selektoren des Extractors, die ein Profil ersetzen kann (je Liste: erster Treffer gewinnt) */
+export interface ExtractorSelectors {
+  /** Erkennung einer Moodle-Seite */
+  moodleDetect: string[];
+  /** Kursname im Seitenkopf */
+  courseName: string[];
+  /** Abschnitte der Kursseite */
+  sections: string[];
+  /** Titel innerhalb eines Abschnitts */
+  sectionTitles: string[];
+  /** Links auf Aktivitäten und Dateien innerhalb eines Abschnitts */
+  activityLinks: string[];
+  /** Rich-Text-Bereiche (Beschreibungen, Textfelder) mit eingebetteten Dateien */
+  richText: string[];
+}
+
+/**
+ * Extractor-Profil für eine Moodle-Instanz bzw. ein Theme.
+ * Muster: `*` steht für beliebig viele Zeichen, Groß-/Kleinschreibung egal.
+ */
+export interface ExtractorProfile {
+  id: string;
+  /** Anzeigename */
+  name: string;
+  /** Hostname, für den das Profil gilt (z.B. `moodle.uni-example.de` oder `*.uni-example.de`) */
+  hostPattern: string;
+  /** Ersetzt die Standard-Selektoren; fehlende oder leere Listen behalten den Standard */
+  selectors?: Partial<ExtractorSelectors>;
+  /** URL-Muster für Links, die zusätzlich als Dateien gelten (z.B. ein eigener Dateiserver) */
+  include?: string[];
+  /** URL-Muster für Ressourcen, die nie aufgelistet werden */
+  exclude?: string[];
+}
+
+/**
+ * Zustand eines Download-Jobs.
+ * paused: angehalten, vom Nutzer oder weil die Ausgabe weg ist (Popup geschlossen, Service Worker beendet)
+ */
+export type JobState = 'running' | 'paused' | 'cancelled' | 'completed';
+
+/** Download-Job, persistiert in IndexedDB, damit pausierte Jobs fortgesetzt werden können */
+export interface JobRecord {
+  id: string;
+  /**
+   * zip: ein Archiv
+   * files: Einzeldateien im gewählten Ordner (vom Popup geschrieben)
+   * downloads: Einzeldateien über chrome.downloads
+   */
+  output: 'zip' | 'files' | 'downloads';
+  /** port: Das Popup schreibt die Ausgabe und muss zum Fortsetzen geöffnet sein */
+  transport: 'port' | 'background';
+  /** Abgleich mit dem Kursordner (nur port/files) */
+  sync?: boolean;
+  state: JobState;
+  /** Ausgewählte Ressourcen (Ordner noch nicht expandiert) */
+  resources: MoodleResource[];
+  /** Einzelne Dateien nach dem Expandieren der Ordner; fehlt, solange noch nicht expandiert */
+  files?: MoodleResource[];
+  /** Tracking-Einträge der fertig geschriebenen Dateien (Schlüssel: normalisierte URL) */
+  written: DownloadTrackingMap;
+  failures: DownloadFailure[];
+  /** Nur zip: Stand des Archivs, an dem ein späterer Lauf weiterschreiben kann */
+  zip?: ZipCheckpoint;
+  /** Wie oft der Job nach einer Unterbrechung fortgesetzt wurde */
+  resumed?: number;
+  /**
+   * Sitzung abgelaufen: Der Job ist pausiert, bis `probeUrl` wieder ohne Login-Seite
+   * geladen werden kann (Nutzer hat sich in einem Tab neu angemeldet)
+   */
+  login?: { loginUrl: string; probeUrl: string };
+  zipName?: string;
+  saveAs?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Eintrag des zentralen Verzeichnisses eines ZIP-Archivs */
+export interface ZipCheckpointEntry {
+  name: string;
+  method: number;
+  dosTime: number;
+  dosDate: number;
+  crc: number;
+  size: number;
+  compressedSize: number;
+  /** Position des Local File Headers im Archiv */
+  offset: number;
+}
+
+/** Zwischenstand eines ZIP-Archivs nach dem letzten vollständigen Eintrag */
+export interface ZipCheckpoint {
+  /** Länge des Archivs bis zum Ende dieses Eintrags */
+  offset: number;
+  entries: ZipCheckpointEntry[];
+}
+
+/** Job-Übersicht für das Popup (ohne Datei-Listen) */
+export interface JobSummary {
+  id: string;
+  output: JobRecord['output'];
+  transport: JobRecord['transport'];
+  sync?: boolean;
+  state: JobState;
+  total: number;
+  done: number;
+  failed: number;
+  /** Läuft gerade im Hintergrund (sonst nur gespeichert) */
+  active: boolean;
+  /** Wurde nach einer Unterbrechung fortgesetzt */
+  resumed: boolean;
+  /** Nur wenn der Job auf einen erneuten Login wartet: Login-Seite der Moodle-Instanz */
+  loginUrl?: string;
+}
+
 export type MessageToContent = { type: 'MD_EXTRACT_RESOURCES' } | { type: 'MD_PING' };
 
 export type MessageFromContent =
-  | { type: 'MD_EXTRACT_RESOURCES_RESULT'; resources: MoodleResource[]; isMoodle: boolean }
+  | {
+      type: 'MD_EXTRACT_RESOURCES_RESULT';
+      resources: MoodleResource[];
+      isMoodle: boolean;
+      /** Nur auf Kursübersichten: eingeschriebene Kurse zur Auswahl */
+      courses?: MoodleCourse[];
+      /** Abschnitte, deren Inhalt nicht auf der Seite steht (werden im Hintergrund geladen) */
+      sections?: CourseSection[];
+      courseName?: string;
+    }
   | { type: 'MD_PONG'; isMoodle: boolean };
 
 export type MessageToBackground =
   | { type: 'MD_GET_TRACKING' }
   | { type: 'MD_RESET_TRACKING' }
+  /** Prüft per bedingtem HEAD, ob bereits geladene Dateien auf dem Server geändert wurden */
+  | { type: 'MD_CHECK_UPDATES'; resources: MoodleResource[] }
+  /** Ermittelt Dateiname, Größe und Typ der Dateien per HEAD, ohne sie zu laden */
+  | { type: 'MD_PREFLIGHT'; resources: MoodleResource[] }
+  /** Entfernt einzelne Einträge aus dem Tracking (Dateien gelten wieder als neu) */
+  | { type: 'MD_UNTRACK'; urls: string[] }
+  /** Verlauf der Jobs und das Tracking aller Websites und Kurse */
+  | { type: 'MD_GET_HISTORY' }
+  /** Setzt das Tracking eines einzelnen Kurses zurück (`course`: ID oder UNKNOWN_COURSE) */
+  | { type: 'MD_RESET_COURSE_TRACKING'; site: string; course: string }
+  /** Abgleich des Trackings über chrome.storage.sync (opt-in) */
+  | { type: 'MD_GET_TRACKING_SYNC' }
+  | { type: 'MD_SET_TRACKING_SYNC'; enabled: boolean }
   | { type: 'MD_GET_TELEMETRY_PREF' }
   | { type: 'MD_SET_TELEMETRY_PREF'; optIn: boolean }
+  /** Lädt die Kursseiten und extrahiert deren Ressourcen (Mehrfach-Kurs-Download) */
+  | { type: 'MD_FETCH_COURSES'; courses: MoodleCourse[] }
+  /** Lädt fehlende Abschnitte der aktuellen Kursseite (Pfade beginnen mit `courseName`) */
+  | { type: 'MD_FETCH_SECTIONS'; sections: CourseSection[]; courseName?: string }
+  /** Holt ein Token über login/token.php (Zugangsdaten werden nicht gespeichert) */
+  | { type: 'MD_WS_REQUEST_TOKEN'; siteUrl: string; username: string; password: string }
+  /** Ressourcen über die REST-API; ohne `courseId` alle eingeschriebenen Kurse */
+  | { type: 'MD_WS_LIST_RESOURCES'; siteUrl: string; token: string; courseId?: number }
   | { type: 'MD_NOTIFY_SAVE_DONE'; fileCount: number }
+  /** Laufende und pausierte Jobs */
+  | { type: 'MD_GET_JOBS' }
+  | { type: 'MD_PAUSE_JOB'; jobId: string }
+  | { type: 'MD_RESUME_JOB'; jobId: string }
+  | { type: 'MD_CANCEL_JOB'; jobId: string }
+  /** Einzeldateien über chrome.downloads (relative Pfade im Download-Ordner) */
+  | { type: 'MD_DOWNLOAD_FILES'; resources: MoodleResource[] }
   | {
       type: 'MD_BUILD_ZIP';
       resources: MoodleResource[];
       options: {
         zipName?: string;
-        /** Falls true: ZIP als ArrayBuffer zurückgeben (Popup schreibt Datei selbst) */
-        returnBuffer?: boolean;
         /** Bei downloads-mode: saveAs zeigt Dialog */
         saveAs?: boolean;
       };
     };
 
-export type BackgroundProgressPhase = 'fetch' | 'zip' | 'download';
+export type BackgroundProgressPhase = 'courses' | 'sections' | 'fetch' | 'zip' | 'download';
 
 export type MessageFromBackground =
   | { type: 'MD_TRACKING_RESULT'; tracking: DownloadTrackingMap }
   | { type: 'MD_RESET_TRACKING_RESULT'; ok: true }
+  | { type: 'MD_UNTRACK_RESULT'; ok: true; removed: number }
+  | { type: 'MD_HISTORY_RESULT'; history: DownloadHistoryEntry[]; tracking: DownloadTrackingStore }
+  | { type: 'MD_TRACKING_SYNC_RESULT'; ok: true; status: TrackingSyncStatus }
+  | { type: 'MD_TRACKING_SYNC_RESULT'; ok: false; error: string }
+  | { type: 'MD_CHECK_UPDATES_RESULT'; ok: true; updatedUrls: string[] }
+  | { type: 'MD_PREFLIGHT_RESULT'; ok: true; resources: MoodleResource[] }
   | { type: 'MD_TELEMETRY_PREF_RESULT'; asked: boolean; optIn: boolean }
+  | { type: 'MD_FETCH_COURSES_RESULT'; ok: true; resources: MoodleResource[]; failedCourses: MoodleCourse[] }
+  | {
+      type: 'MD_FETCH_SECTIONS_RESULT';
+      ok: true;
+      resources: MoodleResource[];
+      failedSections: CourseSection[];
+    }
+  | { type: 'MD_WS_TOKEN_RESULT'; ok: true; token: string }
+  | { type: 'MD_WS_RESOURCES_RESULT'; ok: true; resources: MoodleResource[] }
+  | { type: 'MD_WS_RESULT'; ok: false; error: string }
   | { type: 'MD_NOTIFY_SAVE_DONE_RESULT'; ok: true }
+  | { type: 'MD_JOBS_RESULT'; jobs: JobSummary[] }
+  | { type: 'MD_JOB_RESULT'; ok: true; job: JobSummary }
+  | { type: 'MD_JOB_RESULT'; ok: false; error: string }
+  /** Broadcast bei jeder Zustandsänderung eines Jobs */
+  | { type: 'MD_JOB_STATE'; job: JobSummary }
   | {
       type: 'MD_BUILD_ZIP_RESULT';
       ok: true;
       downloadId?: number;
-      zipBuffer?: ArrayBuffer | Uint8Array;
-      failedUrls?: string[];
+      failures?: DownloadFailure[];
     }
-  | { type: 'MD_BUILD_ZIP_RESULT'; ok: false; error: string; failedUrls?: string[] }
+  | { type: 'MD_BUILD_ZIP_RESULT'; ok: false; error: string; failures?: DownloadFailure[] }
+  | { type: 'MD_DOWNLOAD_FILES_RESULT'; ok: true; failures: DownloadFailure[] }
   | {
       type: 'MD_PROGRESS';
       phase: BackgroundProgressPhase;
@@ -93,25 +533,69 @@ export type MessageFromBackground =
   | { type: 'MD_COMPLETE'; ok: true; fileCount: number; failedCount: number }
   | { type: 'MD_COMPLETE'; ok: false; error: string };
 
-/** Port-basiertes ZIP-Streaming (für große ZIPs) */
-export type ZipPortMessageToBackground = {
-  type: 'MD_ZIP_STREAM_REQUEST';
-  zipName: string;
-  resources: MoodleResource[];
-};
+/**
+ * Hintergrund → Offscreen-Dokument (Chrome MV3): Der Service Worker hat keinen DOMParser und
+ * kein URL.createObjectURL.
+ * - MD_OFFSCREEN_PARTS_URL: blob:-URL der Teile, die ein Job in IndexedDB abgelegt hat (ZIP-Archiv
+ *   oder eine einzelne Datei)
+ * - MD_OFFSCREEN_REVOKE: gibt die URL wieder frei, sobald der Download fertig ist
+ */
+export type OffscreenMessage =
+  | {
+      type: 'MD_OFFSCREEN_EXTRACT';
+      html: string;
+      /** URL der Seite (Basis für relative Links) */
+      url: string;
+      courseName?: string;
+      /** Gespeicherte Extractor-Profile (das Offscreen-Dokument hat keinen Zugriff auf den Speicher) */
+      profiles?: ExtractorProfile[];
+    }
+  | { type: 'MD_OFFSCREEN_PARTS_URL'; jobId: string; mimeType: string }
+  | { type: 'MD_OFFSCREEN_REVOKE'; url: string };
+
+export type OffscreenResponse =
+  | { type: 'MD_OFFSCREEN_EXTRACT_RESULT'; resources: MoodleResource[] }
+  | { type: 'MD_OFFSCREEN_PARTS_URL_RESULT'; url?: string };
+
+/**
+ * Port-basiertes Streaming (Ordner-Modus): Die Ausgabe entsteht, während die Downloads noch laufen.
+ * - zip: ein Archiv, nur `MD_STREAM_CHUNK`s
+ * - files: je Datei `MD_STREAM_FILE_START`, Chunks, dann `MD_STREAM_FILE_END` (oder `_ABORT`)
+ * Das Popup bestätigt jeden geschriebenen Chunk (ACK), damit der Hintergrund nicht davonläuft.
+ */
+export type StreamPortMessageToBackground =
+  | {
+      type: 'MD_STREAM_REQUEST';
+      output: 'zip' | 'files';
+      zipName?: string;
+      resources: MoodleResource[];
+      sync?: boolean;
+      /** Setzt einen pausierten Job fort (`output` und `resources` kommen dann aus dem Job) */
+      jobId?: string;
+      /** Nur zip: Bytes des Archivs, die das Popup bereits geschrieben hat */
+      resumeOffset?: number;
+    }
+  | { type: 'MD_STREAM_ACK'; index: number };
 
-export type ZipPortMessageFromBackground =
+export type StreamPortMessageFromBackground =
+  /** Erste Nachricht: ID des Jobs (zum Fortsetzen nach einem Verbindungsabbruch) */
+  | { type: 'MD_STREAM_JOB'; jobId: string }
+  /** Nur beim Fortsetzen (zip): Das Archiv geht ab `offset` weiter, alles danach verwerfen */
+  | { type: 'MD_STREAM_RESUME'; offset: number }
+  /** `knownHash`: Hash der zuletzt heruntergeladenen Version (für den Abgleich beim Sync) */
+  | { type: 'MD_STREAM_FILE_START'; path: string; knownHash?: string }
+  | { type: 'MD_STREAM_FILE_END'; path: string; hash: string }
+  | { type: 'MD_STREAM_FILE_ABORT'; path: string }
+  /** `data` ist Base64, da Port-Nachrichten in Chrome JSON-serialisiert werden */
+  | { type: 'MD_STREAM_CHUNK'; index: number; data: string }
   | {
-      type: 'MD_ZIP_STREAM_META';
-      zipName: string;
+      type: 'MD_STREAM_DONE';
       totalBytes: number;
-      chunkSize: number;
-      totalChunks: number;
       fileCount: number;
       failedCount: number;
       totalFiles: number;
-      failedUrls: string[];
+      failures: DownloadFailure[];
+      /** Normalisierte URLs aller Dateien des Jobs (Ordner expandiert) */
+      remoteKeys: string[];
     }
-  | { type: 'MD_ZIP_STREAM_CHUNK'; index: number; data: ArrayBuffer | Uint8Array }
-  | { type: 'MD_ZIP_STREAM_DONE' }
-  | { type: 'MD_ZIP_STREAM_ERROR'; error: string };
+  | { type: 'MD_STREAM_ERROR'; error: string };
@@ -1,4 +1,4 @@
-import type { MoodleResource } from './types';
+import type { DownloadFailure, MoodleResource } from './types';
 import { DOWNLOADABLE_EXTENSIONS, ENABLE_DEBUG_LOGS } from './constants';
 
 /**
@@ -65,6 +65,22 @@ export function normalizeUrl(url: string, base?: string): string {
   }
 }
 
+/**
+ * URL ohne die Zugangsdaten der Web Services (`token`, `wstoken`), damit sie nicht in
+ * Fehlerlisten, im Verlauf, in Sicherungen oder Archiven landen.
+ */
+export function stripUrlToken(url: string): string {
+  try {
+    const u = new URL(url);
+    if (!u.searchParams.has('token') && !u.searchParams.has('wstoken')) return url;
+    u.searchParams.delete('token');
+    u.searchParams.delete('wstoken');
+    return u.toString();
+  } catch {
+    return url;
+  }
+}
+
 /**
  * Canonical URL key used for deduplication + local download tracking.
  *
@@ -76,6 +92,9 @@ export function normalizeUrlKey(url: string, base?: string): string {
     const u = new URL(url, base || globalThis.location?.href);
     u.hash = '';
 
+    // Web service file URLs point to the same files as the session-based ones.
+    u.pathname = u.pathname.replace(/\/webservice\/pluginfile\.php\//, '/pluginfile.php/');
+
     // Drop volatile params that do not identify the actual file.
     const drop = ['sesskey', 'token', 'forcedownload', 'redirect', 'cachebuster', '_', 'ts', 't'];
     for (const k of drop) u.searchParams.delete(k);
@@ -93,6 +112,80 @@ export function normalizeUrlKey(url: string, base?: string): string {
   }
 }
 
+/** Pfadsegmente, mit denen Moodle-Seiten beginnen; alles davor ist die Basis-URL */
+const MOODLE_PAGE_PATHS = [
+  '/course/',
+  '/mod/',
+  '/my/',
+  '/login/',
+  '/user/',
+  '/blocks/',
+  '/pluginfile.php',
+  '/webservice/',
+];
+
+/**
+ * Leitet die Basis-URL (wwwroot) einer Moodle-Instanz aus einer Seiten-URL ab, z.B.
+ * 'https://uni.example/moodle/course/view.php?id=3' → 'https://uni.example/moodle/'.
+ */
+export function guessMoodleRoot(pageUrl: string): string | undefined {
+  try {
+    const u = new URL(pageUrl);
+    if (u.protocol !== 'https:' && u.protocol !== 'http:') return undefined;
+    const { pathname } = u;
+    const cut = MOODLE_PAGE_PATHS.map((p) => pathname.indexOf(p))
+      .filter((i) => i >= 0)
+      .sort((a, b) => a - b)[0];
+    const rootPath = cut === undefined ? pathname.replace(/[^/]*$/, '') : pathname.slice(0, cut + 1);
+    return `${u.origin}${rootPath}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Kurs-ID aus course/view.php?id=… (sonst undefined) */
+export function getCourseIdFromUrl(pageUrl: string): number | undefined {
+  try {
+    const u = new URL(pageUrl);
+    if (!u.pathname.endsWith('/course/view.php')) return undefined;
+    const id = Number(u.searchParams.get('id'));
+    return Number.isInteger(id) && id > 0 ? id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pfadsegmente einer pluginfile.php-URL hinter `pluginfile.php` (Kontext, Komponente,
+ * Dateibereich, Item-ID, Pfad, Dateiname), dekodiert. Ohne Slash-Argumente steht der Pfad in `?file=`.
+ */
+export function getPluginfileSegments(url: string): string[] | undefined {
+  try {
+    const u = new URL(url);
+    const marker = u.pathname.indexOf('/pluginfile.php');
+    if (marker === -1) return undefined;
+    const rest = u.pathname.slice(marker + '/pluginfile.php'.length) || u.searchParams.get('file') || '';
+    const segments = rest.split('/').filter(Boolean);
+    return segments.map((s) => {
+      try {
+        return decodeURIComponent(s);
+      } catch {
+        return s;
+      }
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/** Unterordner einer Datei in einem Moodle-Verzeichnis (mod_folder/content), sonst [] */
+export function getFolderSubfolders(url: string): string[] {
+  const segments = getPluginfileSegments(url);
+  if (!segments || segments[1] !== 'mod_folder' || segments[2] !== 'content') return [];
+  // Kontext, Komponente, Dateibereich, Revision … Dateiname
+  return segments.slice(4, -1).map(sanitizeFileName);
+}
+
 export function getFileExtensionFromUrl(url: string): string | undefined {
   try {
     const u = new URL(url);
@@ -114,8 +207,11 @@ export function guessFileType(resourceUrl: string, displayName?: string): string
 
   // Moodle Module URLs
   if (/mod\/folder\/view\.php/.test(resourceUrl)) return 'folder';
+  if (/mod\/assign\/view\.php/.test(resourceUrl)) return 'assign';
   if (/mod\/url\/view\.php/.test(resourceUrl)) return 'link';
   if (/mod\/page\/view\.php/.test(resourceUrl)) return 'page';
+  if (/mod\/book\/view\.php/.test(resourceUrl)) return 'book';
+  if (/mod\/(h5pactivity|lti|kalvidres)\/view\.php/.test(resourceUrl)) return 'video';
   if (/mod\/resource\/view\.php/.test(resourceUrl)) return 'file';
 
   return 'file';
@@ -151,10 +247,11 @@ export function extractFilenameFromHeaders(headers: Headers): string | undefined
 }
 
 export function joinZipPath(path: string, fileName: string): string {
+  // Empty segments are dropped before sanitizing (which would turn them into 'file')
   const cleanedPath = path
     .split('/')
+    .filter((p) => p.trim())
     .map((p) => sanitizeFileName(p))
-    .filter(Boolean)
     .join('/');
 
   return cleanedPath ? `${cleanedPath}/${sanitizeFileName(fileName)}` : sanitizeFileName(fileName);
@@ -213,12 +310,93 @@ export async function withConcurrency<T, R>(
   return results;
 }
 
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => {
-    setTimeout(resolve, ms);
+/**
+ * Base64-Kodierung für Binärdaten (Port-Nachrichten werden in Chrome JSON-serialisiert).
+ */
+export function uint8ToBase64(bytes: Uint8Array): string {
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, i + chunkSize);
+    binary += String.fromCharCode(...chunk);
+  }
+  return btoa(binary);
+}
+
+export function base64ToUint8(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) out[i] = binary.charCodeAt(i);
+  return out;
+}
+
+/** Wartet `ms`; bricht mit einem AbortError ab, sobald `signal` abgebrochen wird (Job pausiert) */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
 
+/** Größe für die Anzeige ("1.8 GB"); '' ohne bekannte Größe */
+export function formatBytes(bytes?: number): string {
+  if (!bytes || bytes <= 0) return '';
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let val = bytes;
+  let idx = 0;
+  while (val >= 1024 && idx < units.length - 1) {
+    val /= 1024;
+    idx += 1;
+  }
+  return `${val.toFixed(idx === 0 ? 0 : 1)} ${units[idx]}`;
+}
+
+/** Übersetzung wie chrome.i18n.getMessage (Schlüssel aus src/locales) */
+export type Translate = (key: string, substitutions?: string[]) => string;
+
+/** Grund eines Fehlschlags, z.B. „Not found (HTTP 404)“, bei Wiederholungen mit Zahl der Versuche */
+export function describeFailure(failure: DownloadFailure, t: Translate): string {
+  const { reason, status, attempts } = failure;
+  let text: string;
+  if (reason === 'http_error' && (status === 404 || status === 410)) {
+    text = t('failureNotFound', [String(status)]);
+  } else if (reason === 'http_error' && (status === 401 || status === 403)) {
+    text = t('failureForbidden', [String(status)]);
+  } else if (reason === 'http_error') {
+    text = t('failureHttp', [String(status ?? '?')]);
+  } else if (reason === 'timeout') {
+    text = t('failureTimeout');
+  } else if (reason === 'likely_login_required') {
+    text = t('failureLoginRequired');
+  } else if (reason === 'folder_expand_error') {
+    text = t('failureFolder');
+  } else if (reason === 'expand_error') {
+    text = t('failureExpand');
+  } else if (reason === 'unsupported_media') {
+    text = t('failureUnsupportedMedia');
+  } else if (reason === 'save_error') {
+    text = t('failureSave');
+  } else if (reason === 'folder_too_large') {
+    text = t('failureFolderTooLarge');
+  } else {
+    text = t('failureNetwork');
+  }
+  return attempts > 1 ? `${text} · ${t('failureAttempts', [String(attempts)])}` : text;
+}
+
 export function toErrorMessage(err: unknown): string {
   if (typeof err === 'string') return err;
   if (err && typeof err === 'object' && 'message' in err && typeof (err as any).message === 'string') {
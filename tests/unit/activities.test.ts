@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { classifyAssignFile, extractActivityFiles } from '../../src/background/activities';
+import type { MoodleResource } from '../../src/shared/types';
+
+const base = 'https://moodle.example/pluginfile.php/42';
+
+describe('activity pages', () => {
+  it('should classify assignment files by file area', () => {
+    expect(classifyAssignFile(`${base}/mod_assign/introattachment/0/task.pdf`)).toBe('Instructions');
+    expect(classifyAssignFile(`${base}/assignsubmission_file/submission_files/7/mine.pdf`)).toBe(
+      'Submission',
+    );
+    expect(classifyAssignFile(`${base}/assignfeedback_editpdf/download/7/annotated.pdf`)).toBe('Feedback');
+    expect(
+      classifyAssignFile(
+        'https://moodle.example/pluginfile.php?file=/42/assignfeedback_file/feedback_files/7/notes.pdf',
+      ),
+    ).toBe('Feedback');
+    expect(classifyAssignFile(`${base}/mod_resource/content/1/other.pdf`)).toBeUndefined();
+  });
+
+  it('should sort the files of an assignment page into subfolders', () => {
+    const assign: MoodleResource = {
+      id: '5',
+      name: 'Exercise 1',
+      url: 'https://moodle.example/mod/assign/view.php?id=5',
+      type: 'assign',
+      path: 'Course/Week 1/Exercise 1',
+    };
+    const html = `
+      <div class="activity-description">
+        <a href="${base}/mod_assign/introattachment/0/task.pdf">task.pdf</a>
+      </div>
+      <div class="summary_assignsubmission_file">
+        <a href="${base}/assignsubmission_file/submission_files/7/solution.pdf?forcedownload=1">solution.pdf</a>
+      </div>
+      <div class="feedback">
+        <a href="${base}/assignfeedback_file/feedback_files/7/task.pdf">task.pdf</a>
+      </div>
+      <img src="${base}/user/icon/boost/f1" />
+      <a href="${base}/block_html/content/banner.png">banner</a>
+    `;
+
+    const files = extractActivityFiles(html, assign);
+    expect(files.map((f) => [f.path, f.name])).toEqual([
+      ['Course/Week 1/Exercise 1/Instructions', 'task.pdf'],
+      ['Course/Week 1/Exercise 1/Submission', 'solution.pdf'],
+      ['Course/Week 1/Exercise 1/Feedback', 'task.pdf'],
+    ]);
+    expect(new Set(files.map((f) => f.id)).size).toBe(3);
+  });
+
+  it('should keep the subfolders of a folder page', () => {
+    const folder: MoodleResource = {
+      id: '9',
+      name: 'Slides',
+      url: 'https://moodle.example/mod/folder/view.php?id=9',
+      type: 'folder',
+      path: 'Course/Week 1/Slides',
+    };
+    const html = `
+      <div class="foldertree">
+        <a href="${base}/mod_folder/content/3/intro.pdf?forcedownload=1">intro.pdf</a>
+        <a href="${base}/mod_folder/content/3/Part%201/Chapter%20A/a.pdf?forcedownload=1">a.pdf</a>
+        <a href="https://moodle.example/pluginfile.php?file=%2F42%2Fmod_folder%2Fcontent%2F3%2FPart%201%2Fb.pdf">b.pdf</a>
+      </div>
+    `;
+
+    expect(extractActivityFiles(html, folder).map((f) => [f.path, f.name])).toEqual([
+      ['Course/Week 1/Slides', 'intro.pdf'],
+      ['Course/Week 1/Slides/Part 1/Chapter A', 'a.pdf'],
+      ['Course/Week 1/Slides/Part 1', 'b.pdf'],
+    ]);
+  });
+});
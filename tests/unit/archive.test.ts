@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { buildArchiveIndex, buildArchiveManifest } from '../../src/background/archive';
+import { parseBackup } from '../../src/shared/backup';
+import messages from '../../src/locales/en/messages.json';
+import type { DownloadFailure, DownloadTrackingMap, MoodleResource } from '../../src/shared/types';
+
+const A = 'https://moodle.example.edu/pluginfile.php/1/mod_resource/content/1/a.pdf';
+const B = 'https://moodle.example.edu/pluginfile.php/2/mod_resource/content/1/b%23.pdf';
+const LINK = 'https://moodle.example.edu/mod/url/view.php?id=7';
+const HASH = 'a'.repeat(64);
+
+/** chrome.i18n.getMessage with the English messages */
+function t(key: string, substitutions: string[] = []): string {
+  const entry = (
+    messages as Record<string, { message: string; placeholders?: Record<string, { content: string }> }>
+  )[key];
+  if (!entry) return key;
+  return entry.message.replace(/\$(\w+)\$/g, (_, name: string) => {
+    const content = entry.placeholders?.[name]?.content ?? '';
+    return content.replace(/\$(\d)/g, (__, n: string) => substitutions[Number(n) - 1] ?? '');
+  });
+}
+
+const resources: MoodleResource[] = [
+  {
+    id: '1',
+    name: 'Slides',
+    url: `${A}?forcedownload=1`,
+    type: 'file',
+    path: 'Course A/Week 1',
+    courseId: 42,
+    courseName: 'Course A',
+    sectionName: 'Week 1',
+    activityName: 'Slides',
+  },
+  {
+    id: '2',
+    name: 'b#.pdf',
+    url: B,
+    type: 'file',
+    path: 'Course A/Week 2',
+    courseId: 42,
+    courseName: 'Course A',
+    sectionName: 'Week 2',
+  },
+];
+
+const written: DownloadTrackingMap = {
+  [A]: {
+    url: A,
+    fileName: 'a.pdf',
+    timestamp: Date.UTC(2026, 0, 2),
+    path: 'Course A/Week 1/a.pdf',
+    hash: HASH,
+    size: 2048,
+    lastModified: 'Thu, 01 Jan 2026 10:00:00 GMT',
+    courseId: 42,
+    courseName: 'Course A',
+  },
+  [B]: {
+    url: B,
+    fileName: 'b#.pdf',
+    timestamp: Date.UTC(2026, 0, 2),
+    path: 'Course A/Week 2/b#.pdf',
+    hash: HASH,
+    size: 10,
+    courseId: 42,
+    courseName: 'Course A',
+  },
+  // Links are tracked without a path and are not part of the manifest
+  [LINK]: { url: LINK, fileName: 'Reading list', timestamp: Date.UTC(2026, 0, 2) },
+};
+
+const failures: DownloadFailure[] = [
+  {
+    url: 'https://moodle.example.edu/pluginfile.php/3/c.pdf',
+    name: 'c.pdf',
+    reason: 'http_error',
+    status: 404,
+    attempts: 1,
+  },
+  {
+    url: 'https://moodle.example.edu/webservice/pluginfile.php/4/d.pdf?token=secret123&forcedownload=1',
+    name: 'd.pdf',
+    reason: 'timeout',
+    attempts: 3,
+  },
+];
+
+describe('archive manifest and index', () => {
+  it('lists the written files with their section, activity and checksums', () => {
+    const manifest = buildArchiveManifest(
+      written,
+      resources,
+      failures,
+      '1.2.0',
+      new Date(Date.UTC(2026, 0, 3)),
+    );
+
+    expect(manifest).toMatchObject({
+      format: 'moodle-download-archive',
+      version: 1,
+      createdAt: '2026-01-03T00:00:00.000Z',
+      extensionVersion: '1.2.0',
+    });
+    expect(manifest.failures[0]).toEqual(failures[0]);
+    expect(manifest.files).toHaveLength(2);
+    expect(manifest.files[0]).toEqual({
+      path: 'Course A/Week 1/a.pdf',
+      url: A,
+      courseId: 42,
+      courseName: 'Course A',
+      sectionName: 'Week 1',
+      activityName: 'Slides',
+      fileName: 'a.pdf',
+      size: 2048,
+      sha256: HASH,
+      lastModified: 'Thu, 01 Jan 2026 10:00:00 GMT',
+      downloadedAt: '2026-01-02T00:00:00.000Z',
+    });
+    expect(manifest.files[1]?.activityName).toBeUndefined();
+  });
+
+  it('groups the index by section with relative links and lists the failures', () => {
+    const html = buildArchiveIndex(buildArchiveManifest(written, resources, failures), t);
+
+    expect(html).toContain('<h2>Course A</h2>');
+    expect(html.indexOf('<h3>Week 1</h3>')).toBeLessThan(html.indexOf('<h3>Week 2</h3>'));
+    expect(html).toContain('<a href="Course%20A/Week%201/a.pdf">a.pdf</a>');
+    expect(html).toContain('<a href="Course%20A/Week%202/b%23.pdf">b#.pdf</a>');
+    expect(html).toContain('2.0 KB');
+    expect(html).toContain('<th>Last modified</th>');
+    expect(html).toContain('<p>2 files, created ');
+    expect(html).toContain('<h2>Failed (2)</h2>');
+    expect(html).toContain('c.pdf</a>: Not found (HTTP 404)');
+    expect(html).toContain('d.pdf</a>: Timed out · 3 attempts');
+  });
+
+  it('strips web service tokens from the failed items', () => {
+    const manifest = buildArchiveManifest(written, resources, failures);
+    const html = buildArchiveIndex(manifest, t);
+
+    expect(manifest.failures[1]?.url).toBe(
+      'https://moodle.example.edu/webservice/pluginfile.php/4/d.pdf?forcedownload=1',
+    );
+    expect(JSON.stringify(manifest)).not.toContain('secret123');
+    expect(html).not.toContain('secret123');
+  });
+
+  it('rebuilds the tracking from a manifest', () => {
+    const manifest = buildArchiveManifest(written, resources, failures);
+    const bundle = parseBackup(JSON.stringify(manifest));
+
+    const tracking = bundle.data.downloadTracking as DownloadTrackingMap;
+    expect(bundle.fromArchive).toBe(true);
+    expect(tracking[A]).toEqual({
+      url: A,
+      fileName: 'a.pdf',
+      timestamp: Date.UTC(2026, 0, 2),
+      path: 'Course A/Week 1/a.pdf',
+      hash: HASH,
+      size: 2048,
+      lastModified: 'Thu, 01 Jan 2026 10:00:00 GMT',
+      courseId: 42,
+      courseName: 'Course A',
+    });
+    expect(Object.keys(tracking)).toHaveLength(2);
+
+    const broken = { ...manifest, files: [{ ...manifest.files[0], downloadedAt: 'yesterday' }] };
+    expect(() => parseBackup(JSON.stringify(broken))).toThrow('downloadedAt must be a date');
+  });
+});
@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  BACKUP_FORMAT,
+  applyBackup,
+  createBackup,
+  parseBackup,
+  serializeBackup,
+} from '../../src/shared/backup';
+import { STORAGE_KEYS } from '../../src/shared/constants';
+import type { DownloadHistoryEntry } from '../../src/shared/types';
+
+type Store = Record<string, any>;
+
+let store: Store;
+
+function installChromeMock(initial: Store = {}): void {
+  store = structuredClone(initial);
+
+  (globalThis as any).chrome = {
+    runtime: { lastError: null },
+    storage: {
+      local: {
+        get: (keys: any, cb: (res: any) => void) => {
+          if (typeof keys === 'string') cb({ [keys]: store[keys] });
+          else cb({ ...store });
+        },
+        set: (items: any, cb: () => void) => {
+          Object.assign(store, items);
+          cb();
+        },
+        remove: (keys: any, cb: () => void) => {
+          const arr = Array.isArray(keys) ? keys : [keys];
+          for (const k of arr) delete store[k];
+          cb();
+        },
+        clear: (cb: () => void) => {
+          for (const k of Object.keys(store)) delete store[k];
+          cb();
+        },
+      },
+    },
+  };
+}
+
+function job(id: string, finishedAt: number): DownloadHistoryEntry {
+  return {
+    id,
+    state: 'completed',
+    output: 'zip',
+    startedAt: finishedAt - 1000,
+    finishedAt,
+    courses: [{ site: 'moodle.example.edu', id: 42, name: 'Course B' }],
+    fileCount: 3,
+    failures: [],
+  };
+}
+
+const A = 'https://moodle.example.edu/pluginfile.php/1/a.pdf';
+const B = 'https://moodle.example.edu/pluginfile.php/1/b.pdf';
+
+describe('backup', () => {
+  beforeEach(() => {
+    installChromeMock({
+      // Flat map of version 1: exported as a tracking store
+      [STORAGE_KEYS.downloadTracking]: {
+        [A]: { url: A, timestamp: 100, fileName: 'a.pdf', courseId: 42, courseName: 'Course B' },
+      },
+      [STORAGE_KEYS.saveSettings]: { mode: 'downloads', saveAs: false, output: 'zip' },
+      [STORAGE_KEYS.webServices]: { enabled: true, tokens: { 'https://moodle.example.edu': 'secret' } },
+      [STORAGE_KEYS.extractorProfiles]: [{ id: 'p1', name: 'Old', hostPattern: 'moodle.example.edu' }],
+      [STORAGE_KEYS.downloadHistory]: [job('j1', 1000)],
+    });
+  });
+
+  it('exports the stored state without tokens and reads it back', async () => {
+    const bundle = await createBackup(new Date('2026-01-02T03:04:05Z'));
+    expect(bundle.format).toBe(BACKUP_FORMAT);
+    expect(bundle.exportedAt).toBe('2026-01-02T03:04:05.000Z');
+    expect(bundle.data.downloadTracking).toMatchObject({ version: 2, sites: { 'moodle.example.edu': {} } });
+    expect(bundle.data.webServices).toEqual({ enabled: true, tokens: {} });
+
+    const json = serializeBackup(bundle);
+    expect(json).not.toContain('secret');
+
+    const parsed = parseBackup(json);
+    expect(parsed.data.downloadTracking).toEqual({
+      [A]: { url: A, timestamp: 100, fileName: 'a.pdf', courseId: 42, courseName: 'Course B' },
+    });
+    expect(parsed.data.saveSettings).toEqual({ mode: 'downloads', saveAs: false, output: 'zip' });
+    expect(parsed.data.downloadHistory).toEqual([job('j1', 1000)]);
+  });
+
+  it('rejects other files, newer versions and invalid values', () => {
+    expect(() => parseBackup('nope')).toThrow('Not a JSON file');
+    expect(() => parseBackup('{"format":"moodle-download-profiles","version":1}')).toThrow(
+      'Not a backup file',
+    );
+    expect(() => parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: 99, data: {} }))).toThrow(
+      'Unsupported backup version: 99',
+    );
+
+    const bundle = (data: unknown) => JSON.stringify({ format: BACKUP_FORMAT, version: 1, data });
+    expect(() => parseBackup(bundle({ saveSettings: { mode: 'cloud', saveAs: false } }))).toThrow(
+      'saveSettings: unknown mode cloud',
+    );
+    expect(() => parseBackup(bundle({ retryPolicy: { maxAttempts: '3' } }))).toThrow(
+      'retryPolicy: maxAttempts must be a number',
+    );
+    expect(() => parseBackup(bundle({ telemetryOptIn: 'yes' }))).toThrow('telemetryOptIn');
+    expect(() => parseBackup(bundle({ extractorProfiles: [{ name: 'x' }] }))).toThrow(
+      'Profile 1: hostPattern is missing',
+    );
+    expect(() => parseBackup(bundle({ downloadTracking: { [A]: { url: A, fileName: 'a.pdf' } } }))).toThrow(
+      'timestamp is missing',
+    );
+  });
+
+  it('ignores unknown keys and drops imported tokens', () => {
+    const parsed = parseBackup(
+      JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: 1,
+        data: { somethingElse: 1, webServices: { enabled: false, tokens: { x: 'y' } } },
+      }),
+    );
+    expect(parsed.data).toEqual({ webServices: { enabled: false, tokens: {} } });
+  });
+
+  it('strips web service tokens from failed files in the history', async () => {
+    const WS = 'https://moodle.example.edu/webservice/pluginfile.php/1/c.pdf';
+    const failed = (url: string): DownloadHistoryEntry => ({
+      ...job('j2', 2000),
+      failures: [{ url, name: 'c.pdf', reason: 'timeout', attempts: 3 }],
+    });
+    installChromeMock({ [STORAGE_KEYS.downloadHistory]: [failed(`${WS}?token=secret`)] });
+
+    const json = serializeBackup(await createBackup());
+    expect(json).not.toContain('secret');
+    expect(parseBackup(json).data.downloadHistory).toEqual([failed(WS)]);
+
+    // Files written by other versions are cleaned on import as well
+    const imported = parseBackup(
+      JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: 1,
+        data: { downloadHistory: [failed(`${WS}?wstoken=secret`)] },
+      }),
+    );
+    expect(imported.data.downloadHistory).toEqual([failed(WS)]);
+  });
+
+  it('merges tracking, history and profiles and keeps local tokens', async () => {
+    const imported = parseBackup(
+      JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: 1,
+        data: {
+          downloadTracking: {
+            [A]: { url: A, timestamp: 50, fileName: 'old-a.pdf' },
+            [B]: { url: B, timestamp: 200, fileName: 'b.pdf' },
+          },
+          downloadHistory: [job('j1', 1000), job('j2', 2000)],
+          extractorProfiles: [
+            { id: 'p1', name: 'New', hostPattern: 'moodle.example.edu' },
+            { id: 'p2', name: 'Other', hostPattern: 'lms.example.org' },
+          ],
+          saveSettings: { mode: 'downloads', saveAs: true },
+          webServices: { enabled: false, tokens: {} },
+        },
+      }),
+    );
+    await applyBackup(imported, 'merge');
+
+    const tracking = store[STORAGE_KEYS.downloadTracking];
+    const files = tracking.sites['moodle.example.edu'];
+    expect(files['42'].files[A].fileName).toBe('a.pdf');
+    expect(files.unknown.files[B].fileName).toBe('b.pdf');
+    expect(store[STORAGE_KEYS.downloadHistory].map((j: DownloadHistoryEntry) => j.id)).toEqual(['j2', 'j1']);
+    expect(store[STORAGE_KEYS.extractorProfiles].map((p: any) => p.name)).toEqual(['New', 'Other']);
+    expect(store[STORAGE_KEYS.saveSettings]).toEqual({ mode: 'downloads', saveAs: true, output: 'zip' });
+    expect(store[STORAGE_KEYS.webServices]).toEqual({
+      enabled: false,
+      tokens: { 'https://moodle.example.edu': 'secret' },
+    });
+  });
+
+  it('replaces the covered keys and removes those missing from the file', async () => {
+    const imported = parseBackup(
+      JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: 1,
+        data: { downloadTracking: { [B]: { url: B, timestamp: 200, fileName: 'b.pdf' } } },
+      }),
+    );
+    await applyBackup(imported, 'replace');
+
+    expect(store[STORAGE_KEYS.downloadTracking]).toEqual({
+      version: 2,
+      sites: {
+        'moodle.example.edu': { unknown: { files: { [B]: { url: B, timestamp: 200, fileName: 'b.pdf' } } } },
+      },
+    });
+    expect(store[STORAGE_KEYS.saveSettings]).toBeUndefined();
+    expect(store[STORAGE_KEYS.downloadHistory]).toBeUndefined();
+    expect(store[STORAGE_KEYS.extractorProfiles]).toBeUndefined();
+    // Tokens are never part of a backup, so they survive a replace
+    expect(store[STORAGE_KEYS.webServices]).toEqual({
+      enabled: false,
+      tokens: { 'https://moodle.example.edu': 'secret' },
+    });
+  });
+});
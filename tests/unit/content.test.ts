@@ -1,6 +1,12 @@
 import { describe, expect, it } from 'vitest';
 import { JSDOM } from 'jsdom';
-import { extractResources, isMoodlePage } from '../../src/content/extractor';
+import {
+  extractCourses,
+  extractResources,
+  findMissingSections,
+  isCourseListPage,
+  isMoodlePage,
+} from '../../src/content/extractor';
 
 describe('content extractor', () => {
   it('should detect Moodle page via selectors', () => {
@@ -33,4 +39,268 @@ describe('content extractor', () => {
     expect(first.path).toContain('Course A');
     expect(first.path).toContain('Week 1');
   });
+
+  it('should keep the subfolders of folders shown inline', () => {
+    const html = `
+      <body class="pagelayout-course">
+        <div id="page-header"><h1>Course A</h1></div>
+        <div class="course-content">
+          <li class="section">
+            <h3 class="sectionname">Week 1</h3>
+            <div class="activity modtype_folder">
+              <a class="aalink" href="/mod/folder/view.php?id=9">Slides</a>
+              <div class="foldertree">
+                <a href="/pluginfile.php/42/mod_folder/content/3/intro.pdf?forcedownload=1">intro.pdf</a>
+                <a href="/pluginfile.php/42/mod_folder/content/3/Part%201/a.pdf?forcedownload=1">a.pdf</a>
+              </div>
+            </div>
+          </li>
+        </div>
+      </body>
+    `;
+    const dom = new JSDOM(html, { url: 'https://elearning.example.edu/course/view.php?id=1' });
+    expect(extractResources(dom.window.document).map((r) => r.path)).toEqual([
+      'Course A/Week 1/Slides',
+      'Course A/Week 1/Slides/Part 1',
+    ]);
+  });
+
+  it('should list video activities and embedded players', () => {
+    const html = `
+      <body class="pagelayout-course">
+        <div id="page-header"><h1>Course A</h1></div>
+        <div class="course-content">
+          <li class="section">
+            <h3 class="sectionname">Week 3</h3>
+            <div class="activity modtype_h5pactivity">
+              <a class="aalink" href="/mod/h5pactivity/view.php?id=7">
+                <span class="instancename">Lecture 3 <span class="accesshide">H5P</span></span>
+              </a>
+            </div>
+            <div class="activity modtype_label">
+              <div class="contentafterlink">
+                <iframe title="Welcome" src="https://cdnapisec.kaltura.com/p/1/sp/100/embedIframeJs/uiconf_id/2/partner_id/1?entry_id=1_abcd1234"></iframe>
+              </div>
+            </div>
+          </li>
+        </div>
+      </body>
+    `;
+    const dom = new JSDOM(html, { url: 'https://elearning.example.edu/course/view.php?id=1' });
+    expect(extractResources(dom.window.document)).toMatchObject([
+      {
+        name: 'Lecture 3',
+        type: 'video',
+        url: 'https://elearning.example.edu/mod/h5pactivity/view.php?id=7',
+        path: 'Course A/Week 3',
+      },
+      { name: 'Welcome', type: 'video', path: 'Course A/Week 3' },
+    ]);
+  });
+
+  it('should keep assignments as activities with their own folder', () => {
+    const html = `
+      <body class="pagelayout-course">
+        <div id="page-header"><h1>Course A</h1></div>
+        <div class="course-content">
+          <li class="section">
+            <h3 class="sectionname">Week 1</h3>
+            <div class="activity modtype_assign">
+              <a class="aalink" href="/mod/assign/view.php?id=5">
+                <span class="instancename">Exercise 1 <span class="accesshide">Assignment</span></span>
+              </a>
+            </div>
+            <div class="activity modtype_quiz">
+              <a class="aalink" href="/mod/quiz/view.php?id=6">Quiz</a>
+            </div>
+          </li>
+        </div>
+      </body>
+    `;
+    const dom = new JSDOM(html, { url: 'https://elearning.example.edu/course/view.php?id=1' });
+    expect(extractResources(dom.window.document)).toMatchObject([
+      {
+        name: 'Exercise 1',
+        type: 'assign',
+        url: 'https://elearning.example.edu/mod/assign/view.php?id=5',
+        path: 'Course A/Week 1/Exercise 1',
+      },
+    ]);
+  });
+
+  it('should list pages, books and links of their section', () => {
+    const html = `
+      <body class="pagelayout-course">
+        <div id="page-header"><h1>Course A</h1></div>
+        <div class="course-content">
+          <li class="section">
+            <h3 class="sectionname">Week 2</h3>
+            <div class="activity modtype_page">
+              <a class="aalink" href="/mod/page/view.php?id=7">
+                <span class="instancename">Lecture notes <span class="accesshide">Page</span></span>
+              </a>
+            </div>
+            <div class="activity modtype_book">
+              <a class="aalink" href="/mod/book/view.php?id=8">
+                <span class="instancename">Script <span class="accesshide">Book</span></span>
+              </a>
+            </div>
+            <div class="activity modtype_url">
+              <a class="aalink" href="/mod/url/view.php?id=9">
+                <span class="instancename">Reading list <span class="accesshide">URL</span></span>
+              </a>
+            </div>
+          </li>
+        </div>
+      </body>
+    `;
+    const dom = new JSDOM(html, { url: 'https://elearning.example.edu/course/view.php?id=1' });
+    expect(extractResources(dom.window.document)).toMatchObject([
+      { id: '7', name: 'Lecture notes', type: 'page', path: 'Course A/Week 2' },
+      { id: '8', name: 'Script', type: 'book', path: 'Course A/Week 2' },
+      { id: '9', name: 'Reading list', type: 'url', path: 'Course A/Week 2' },
+    ]);
+  });
+
+  it('should collect files embedded in summaries, labels and descriptions', () => {
+    const base = 'https://elearning.example.edu/pluginfile.php';
+    const html = `
+      <body class="pagelayout-course">
+        <div id="page-header"><h1>Course A</h1></div>
+        <div class="course-content">
+          <li class="section">
+            <h3 class="sectionname">Week 1</h3>
+            <div class="summary">
+              <img src="${base}/5/course/section/1/overview%20chart.png" alt="Chart" />
+              <img src="https://elearning.example.edu/theme/image.php/boost/core/1/i/info" alt="" />
+            </div>
+            <div class="activity modtype_label">
+              <div class="activity-altcontent">
+                <video controls><source src="${base}/6/mod_label/intro/welcome.mp4" type="video/mp4" /></video>
+                <a href="${base}/6/mod_label/intro/handout.pdf">Handout</a>
+                <img src="${base}/9/user/icon/boost/f2" alt="Teacher" />
+              </div>
+            </div>
+          </li>
+          <li class="section">
+            <h3 class="sectionname">Week 2</h3>
+            <div class="activity modtype_quiz">
+              <a class="aalink" href="/mod/quiz/view.php?id=4">Quiz</a>
+              <div class="activity-description"><audio src="${base}/7/mod_quiz/intro/task.mp3"></audio></div>
+            </div>
+          </li>
+        </div>
+      </body>
+    `;
+    const dom = new JSDOM(html, { url: 'https://elearning.example.edu/course/view.php?id=1' });
+    const res = extractResources(dom.window.document);
+    expect(res.map((r) => [r.name, r.fileType, r.path])).toEqual([
+      ['Handout', 'pdf', 'Course A/Week 1'],
+      ['overview chart.png', 'png', 'Course A/Week 1'],
+      ['welcome.mp4', 'mp4', 'Course A/Week 1'],
+      ['task.mp3', 'mp3', 'Course A/Week 2'],
+    ]);
+  });
+
+  it('should find sections that are only linked from the course index', () => {
+    const html = `
+      <body class="pagelayout-course course-5">
+        <nav id="courseindex">
+          <a class="courseindex-link" href="/course/section.php?id=40">General</a>
+          <a class="courseindex-link" href="/course/section.php?id=41">Week 1</a>
+          <a class="courseindex-link" href="/course/section.php?id=41#x">Week 1</a>
+          <a class="courseindex-link" href="/course/section.php?id=42"><span class="sr-only">Section</span> Week 2</a>
+        </nav>
+        <div class="course-content">
+          <li class="section" data-id="40" data-number="0">
+            <ul data-for="cmlist"></ul>
+          </li>
+          <li class="section section-summary" data-id="41" data-number="1">
+            <h3 class="sectionname"><a href="/course/view.php?id=5&section=1">Week 1</a></h3>
+          </li>
+          <li class="section" id="section-3" data-id="43">
+            <div class="summary"><a href="/course/view.php?id=5#section-3">here</a></div>
+            <div class="activity"><a class="aalink" href="/mod/resource/view.php?id=1">Slides</a></div>
+          </li>
+          <a href="/course/view.php?id=6&section=2">Other course</a>
+        </div>
+      </body>
+    `;
+    const dom = new JSDOM(html, { url: 'https://elearning.example.edu/course/section.php?id=40' });
+    expect(findMissingSections(dom.window.document)).toEqual([
+      { url: 'https://elearning.example.edu/course/section.php?id=41', name: 'Week 1' },
+      { url: 'https://elearning.example.edu/course/section.php?id=42', name: 'Week 2' },
+    ]);
+  });
+
+  it('should apply the extractor profile of the page host', () => {
+    const html = `
+      <body class="theme-campus course-42">
+        <div class="campus-title">Course B</div>
+        <div class="course-content">
+          <div class="topic-block">
+            <div class="topic-head">Einheit 1</div>
+            <a class="aalink" href="https://elearning.example.edu/pluginfile.php/5/mod_resource/content/1/skript.pdf">Skript</a>
+            <a class="aalink" href="https://elearning.example.edu/pluginfile.php/6/mod_resource/content/1/loesung.pdf">Lösung</a>
+            <a href="https://files.example.edu/share/uebung.zip">Übung</a>
+          </div>
+        </div>
+      </body>
+    `;
+    const dom = new JSDOM(html, { url: 'https://elearning.example.edu/course/view.php?id=2' });
+    const profiles = [
+      {
+        id: 'campus',
+        name: 'Campus',
+        hostPattern: '*.example.edu',
+        selectors: {
+          moodleDetect: ['body.theme-campus'],
+          courseName: ['.campus-title'],
+          sections: ['.topic-block'],
+          sectionTitles: ['.topic-head'],
+          activityLinks: ['a'],
+        },
+        include: ['files.example.edu/share/*'],
+        exclude: ['*/loesung.pdf'],
+      },
+    ];
+
+    expect(isMoodlePage(dom.window.document)).toBe(false);
+    expect(isMoodlePage(dom.window.document, profiles)).toBe(true);
+    const res = extractResources(dom.window.document, { profiles });
+    expect(res.map((r) => r.name)).toEqual(['Skript', 'Übung']);
+    expect(res[0]?.path).toEqual(expect.stringContaining('Course B'));
+    expect(res[0]?.path).toEqual(expect.stringContaining('Einheit 1'));
+    // The body class names the course also on section pages
+    expect(res[0]).toMatchObject({ courseId: 42, courseName: 'Course B' });
+
+    // Profiles of other hosts are ignored
+    const other = [{ ...profiles[0]!, hostPattern: 'moodle.other.org' }];
+    expect(extractResources(dom.window.document, { profiles: other }).map((r) => r.name)).toEqual([
+      'Skript',
+      'Lösung',
+    ]);
+  });
+
+  it('should list the courses of an overview page once each', () => {
+    const html = `
+      <body id="page-my-courses">
+        <div class="card">
+          <a href="/course/view.php?id=7"><img src="x.png" /></a>
+          <a class="aalink coursename" href="/course/view.php?id=7">
+            <span class="sr-only">Course name</span>
+            <span class="multiline">Analysis  I</span>
+          </a>
+        </div>
+        <a href="/course/view.php?id=9">Physik</a>
+        <a href="/course/edit.php?id=9">Edit</a>
+      </body>
+    `;
+    const dom = new JSDOM(html, { url: 'https://elearning.example.edu/my/courses.php' });
+    expect(isCourseListPage(dom.window.document)).toBe(true);
+    expect(extractCourses(dom.window.document)).toEqual([
+      { id: 7, name: 'Analysis I', url: 'https://elearning.example.edu/course/view.php?id=7' },
+      { id: 9, name: 'Physik', url: 'https://elearning.example.edu/course/view.php?id=9' },
+    ]);
+  });
 });
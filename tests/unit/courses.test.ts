@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchCourseResources, fetchSectionResources } from '../../src/background/courses';
+
+const coursePage = (section: string, file: string) => `
+  <html><body class="pagelayout-course">
+    <div id="page-header"><h1>Header name</h1></div>
+    <div class="course-content">
+      <li class="section">
+        <h3 class="sectionname">${section}</h3>
+        <div class="activity"><a class="aalink" href="/pluginfile.php/1/${file}">${file}</a></div>
+      </li>
+    </div>
+  </body></html>`;
+
+describe('multi-course fetch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should extract each course page into its own folder', async () => {
+    vi.stubGlobal('fetch', async (url: string) => {
+      if (url.endsWith('id=1')) return new Response(coursePage('Woche 1', 'a.pdf'));
+      const expired = new Response('<html>login</html>');
+      Object.defineProperty(expired, 'url', { value: 'https://m.example/login/index.php' });
+      return expired;
+    });
+
+    const courses = [
+      { id: 1, name: 'Mathe', url: 'https://m.example/course/view.php?id=1' },
+      { id: 2, name: 'Physik', url: 'https://m.example/course/view.php?id=2' },
+    ];
+    const progress: number[] = [];
+    const { resources, failedCourses } = await fetchCourseResources(courses, (i) => progress.push(i));
+
+    expect(resources).toHaveLength(1);
+    expect(resources[0]?.path).toBe('Mathe/Woche 1');
+    expect(resources[0]?.url).toBe('https://m.example/pluginfile.php/1/a.pdf');
+    expect(failedCourses.map((c) => c.id)).toEqual([2]);
+    expect(progress).toEqual([0, 1]);
+  });
+
+  it('should add fetched sections to the folder of the current course', async () => {
+    vi.stubGlobal('fetch', async () => new Response(coursePage('Woche 3', 'c.pdf')));
+
+    const sections = [{ url: 'https://m.example/course/section.php?id=43', name: 'Woche 3' }];
+    const { resources, failedSections } = await fetchSectionResources(sections, 'Mathe');
+
+    expect(resources.map((r) => r.path)).toEqual(['Mathe/Woche 3']);
+    expect(failedSections).toEqual([]);
+  });
+});
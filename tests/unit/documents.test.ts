@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  absolutizeUrls,
+  extractMainContent,
+  getDocumentUrl,
+  getInnerHtml,
+  openDocument,
+} from '../../src/background/documents';
+import type { MoodleResource } from '../../src/shared/types';
+
+const noDelay = { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, maxRetryAfterMs: 0 };
+
+const page: MoodleResource = {
+  id: '7',
+  name: 'Lecture notes',
+  url: 'https://moodle.example/mod/page/view.php?id=7',
+  type: 'page',
+  path: 'Course/Week 2',
+};
+
+const pageHtml = `<!DOCTYPE html>
+<html><body>
+  <nav><a href="/my/">Dashboard</a></nav>
+  <div role="main">
+    <h2>Lecture notes</h2>
+    <div class="no-overflow"><div><p>Intro</p></div>
+      <img src="/pluginfile.php/9/mod_page/content/1/graph.png?time=1&amp;x=2" alt="Graph">
+      <a href="../../course/view.php?id=1">Back</a>
+    </div>
+    <script>console.log('x')</script>
+  </div>
+  <footer>Footer</footer>
+</body></html>`;
+
+async function readAll(body: AsyncGenerator<Uint8Array>): Promise<string> {
+  let text = '';
+  for await (const chunk of body) text += new TextDecoder().decode(chunk);
+  return text;
+}
+
+describe('page and book export', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should export books from their print view', () => {
+    const book: MoodleResource = {
+      ...page,
+      type: 'book',
+      url: 'https://moodle.example/sub/mod/book/view.php?id=8',
+    };
+    expect(getDocumentUrl(book)).toBe('https://moodle.example/sub/mod/book/tool/print/index.php?id=8');
+    expect(getDocumentUrl(page)).toBe(page.url);
+  });
+
+  it('should cut out the main region with balanced tags', () => {
+    expect(getInnerHtml('<div id="a"><div>x</div><div>y</div></div><div>z</div>', /<div id="a">/)).toBe(
+      '<div>x</div><div>y</div>',
+    );
+
+    const content = extractMainContent(pageHtml);
+    expect(content).toContain('<h2>Lecture notes</h2>');
+    expect(content).not.toContain('Dashboard');
+    expect(content).not.toContain('Footer');
+    expect(content).not.toContain('<script');
+  });
+
+  it('should make links absolute', () => {
+    expect(absolutizeUrls('<a href="../x.php?a=1&amp;b=2">x</a><a href="#top">top</a>', page.url)).toBe(
+      '<a href="https://moodle.example/mod/x.php?a=1&amp;b=2">x</a><a href="#top">top</a>',
+    );
+  });
+
+  it('should build a standalone document with embedded images', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes('graph.png')) {
+        return new Response(new Uint8Array([1, 2, 3]), { headers: { 'content-type': 'image/png' } });
+      }
+      return new Response(pageHtml, { headers: { 'content-type': 'text/html' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await openDocument(page, undefined, noDelay);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.file.fileName).toBe('Lecture notes.html');
+    expect(result.file.generated).toBe(true);
+    expect(fetchMock.mock.calls[1]?.[0]).toBe(
+      'https://moodle.example/pluginfile.php/9/mod_page/content/1/graph.png?time=1&x=2',
+    );
+
+    const html = await readAll(result.file.body());
+    expect(html).toContain('<title>Lecture notes</title>');
+    expect(html).toContain('src="data:image/png;base64,AQID"');
+    expect(html).toContain('href="https://moodle.example/course/view.php?id=1"');
+    expect(html).not.toContain('Footer');
+  });
+
+  it('should report the login page instead of exporting it', async () => {
+    vi.stubGlobal('fetch', async () => {
+      const response = new Response(
+        '<form action="https://moodle.example/login/index.php"><input type="password"></form>',
+        { headers: { 'content-type': 'text/html' } },
+      );
+      Object.defineProperty(response, 'url', { value: 'https://moodle.example/login/index.php' });
+      return response;
+    });
+
+    await expect(openDocument(page, undefined, noDelay)).resolves.toMatchObject({
+      ok: false,
+      failure: { reason: 'likely_login_required', attempts: 1 },
+      loginUrl: 'https://moodle.example/login/index.php',
+    });
+  });
+});
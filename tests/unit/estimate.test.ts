@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SIZE_LIMITS,
+  estimateSize,
+  getSizeWarnings,
+  resolveSizeLimits,
+} from '../../src/popup/estimate';
+import type { MoodleResource } from '../../src/shared/types';
+
+const MB = 1024 * 1024;
+
+function file(id: string, size?: number): MoodleResource {
+  return { id, name: id, url: `https://moodle.example/pluginfile.php/1/${id}`, type: 'file', path: '', size };
+}
+
+describe('size estimate', () => {
+  it('should sum the known sizes and count the unknown ones', () => {
+    expect(estimateSize([file('a', 10), file('b'), file('c', 5)])).toEqual({
+      files: 3,
+      bytes: 15,
+      unknown: 1,
+    });
+  });
+
+  it('should ignore invalid stored limits', () => {
+    expect(resolveSizeLimits({ warnBytes: 100 * MB, storedZipBytes: -1 })).toEqual({
+      ...DEFAULT_SIZE_LIMITS,
+      warnBytes: 100 * MB,
+    });
+  });
+
+  it('should warn per save mode', () => {
+    const limits = { warnBytes: 500 * MB, storedZipBytes: 200 * MB };
+    const estimate = estimateSize([file('a', 300 * MB)]);
+
+    expect(getSizeWarnings(estimate, { mode: 'downloads', output: 'zip' }, limits)).toEqual([
+      { reason: 'storedZip', limit: 200 * MB },
+    ]);
+    expect(getSizeWarnings(estimate, { mode: 'downloads', output: 'zip' }, limits, 250 * MB)).toEqual([
+      { reason: 'storedZip', limit: 200 * MB },
+      { reason: 'quota', limit: 250 * MB },
+    ]);
+    expect(getSizeWarnings(estimate, { mode: 'downloads', output: 'files' }, limits, 100 * MB)).toEqual([]);
+    expect(getSizeWarnings(estimate, { mode: 'directory' }, limits, 100 * MB)).toEqual([
+      { reason: 'quota', limit: 100 * MB },
+    ]);
+    expect(getSizeWarnings(estimate, { mode: 'directory' }, limits)).toEqual([]);
+
+    const huge = estimateSize([file('a', 600 * MB)]);
+    expect(getSizeWarnings(huge, { mode: 'directory' }, limits, 1024 * MB)).toEqual([
+      { reason: 'threshold', limit: 500 * MB },
+    ]);
+  });
+});
@@ -0,0 +1,247 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyPreflight,
+  checkRemoteChanged,
+  getResponseValidators,
+  hasRemoteChanged,
+  isLoginResponse,
+  openResource,
+  parseContentRangeTotal,
+  preflightResource,
+  probeSession,
+} from '../../src/background/fetcher';
+
+const stored = {
+  url: 'https://moodle.example/pluginfile.php/1/a.pdf',
+  hash: 'h',
+  timestamp: 1,
+  fileName: 'a.pdf',
+  etag: '"abc"',
+  lastModified: 'Mon, 01 Apr 2024 10:00:00 GMT',
+  contentLength: 100,
+};
+
+describe('change detection', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should read validators from headers', () => {
+    const headers = new Headers({
+      etag: 'W/"x"',
+      'last-modified': stored.lastModified,
+      'content-length': '42',
+    });
+    expect(getResponseValidators(headers)).toEqual({
+      etag: 'W/"x"',
+      lastModified: stored.lastModified,
+      contentLength: 42,
+    });
+    expect(getResponseValidators(new Headers())).toEqual({});
+  });
+
+  it('should prefer the ETag and fall back to date and size', () => {
+    expect(hasRemoteChanged(stored, { etag: 'W/"abc"', contentLength: 5 })).toBe(false);
+    expect(hasRemoteChanged(stored, { etag: '"def"' })).toBe(true);
+    expect(
+      hasRemoteChanged(
+        { lastModified: stored.lastModified },
+        { lastModified: 'Tue, 02 Apr 2024 10:00:00 GMT' },
+      ),
+    ).toBe(true);
+    expect(hasRemoteChanged({ contentLength: 1 }, { contentLength: 2 })).toBe(true);
+    expect(hasRemoteChanged({}, { etag: '"x"' })).toBe(false);
+  });
+
+  it('should send a conditional HEAD request', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 304 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(checkRemoteChanged(stored.url, stored)).resolves.toBe(false);
+    const init = (fetchMock.mock.calls[0] as any[])[1] as RequestInit;
+    expect(init.method).toBe('HEAD');
+    expect((init.headers as Record<string, string>)['If-None-Match']).toBe('"abc"');
+  });
+
+  it('should report a new ETag as changed and ignore login pages', async () => {
+    vi.stubGlobal('fetch', async () => new Response(null, { status: 200, headers: { etag: '"new"' } }));
+    await expect(checkRemoteChanged(stored.url, stored)).resolves.toBe(true);
+
+    vi.stubGlobal(
+      'fetch',
+      async () => new Response(null, { status: 200, headers: { 'content-type': 'text/html' } }),
+    );
+    await expect(checkRemoteChanged(stored.url, stored)).resolves.toBeUndefined();
+  });
+});
+
+describe('preflight', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const viewUrl = 'https://moodle.example/mod/resource/view.php?id=5';
+
+  it('should read name, size and type from a HEAD request', async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(null, {
+          headers: {
+            'content-type': 'application/pdf; charset=binary',
+            'content-length': '2048',
+            'content-disposition': 'inline; filename="Vorlesung 3.pdf"',
+          },
+        }),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(preflightResource(viewUrl)).resolves.toEqual({
+      fileName: 'Vorlesung 3.pdf',
+      size: 2048,
+      mimeType: 'application/pdf',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(((fetchMock.mock.calls[0] as any[])[1] as RequestInit).method).toBe('HEAD');
+  });
+
+  it('should fall back to a ranged GET when HEAD is refused', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 405 }))
+      .mockResolvedValueOnce(
+        new Response('x', {
+          status: 206,
+          headers: { 'content-type': 'application/zip', 'content-range': 'bytes 0-0/123456' },
+        }),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(preflightResource(viewUrl)).resolves.toEqual({ size: 123456, mimeType: 'application/zip' });
+    const init = (fetchMock.mock.calls[1] as any[])[1] as RequestInit;
+    expect((init.headers as Record<string, string>)['Range']).toBe('bytes=0-0');
+    expect(parseContentRangeTotal('bytes 0-0/*')).toBeUndefined();
+  });
+
+  it('should skip resources that lead to a page', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(null, { headers: { 'content-type': 'text/html; charset=utf-8' } })),
+    );
+    await expect(preflightResource(viewUrl)).resolves.toBeUndefined();
+  });
+
+  it('should take the file type from the name or the MIME type', () => {
+    const resource = {
+      id: '5',
+      name: 'Vorlesung 3',
+      url: viewUrl,
+      type: 'file' as const,
+      fileType: 'file',
+      path: '',
+    };
+    expect(applyPreflight(resource, { fileName: 'Vorlesung 3.PPTX', size: 10 })).toMatchObject({
+      fileName: 'Vorlesung 3.PPTX',
+      fileType: 'pptx',
+      size: 10,
+    });
+    expect(applyPreflight(resource, { mimeType: 'application/pdf' }).fileType).toBe('pdf');
+    expect(applyPreflight({ ...resource, fileType: 'zip' }, { mimeType: 'application/pdf' }).fileType).toBe(
+      'zip',
+    );
+  });
+});
+
+describe('openResource', () => {
+  const file = { id: 'a', name: 'a.pdf', url: stored.url, type: 'file' as const, path: 'Kurs' };
+  const noDelay = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, maxRetryAfterMs: 1000 };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should retry transient errors and report the attempts', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'retry-after': '0' } }))
+      .mockResolvedValueOnce(new Response('%PDF-1.4', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await openResource(file, undefined, noDelay);
+    expect(result).toMatchObject({ ok: true, attempts: 3 });
+    if (result.ok) await result.file.cancel();
+  });
+
+  it('should fail fast on 404 and give up after the last attempt', async () => {
+    const notFound = vi.fn(async () => new Response(null, { status: 404 }));
+    vi.stubGlobal('fetch', notFound);
+    await expect(openResource(file, undefined, noDelay)).resolves.toEqual({
+      ok: false,
+      failure: { reason: 'http_error', status: 404, attempts: 1 },
+    });
+    expect(notFound).toHaveBeenCalledTimes(1);
+
+    vi.stubGlobal('fetch', async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    await expect(openResource(file, undefined, noDelay)).resolves.toEqual({
+      ok: false,
+      failure: { reason: 'network_error', attempts: 3 },
+    });
+  });
+});
+
+describe('session expiry', () => {
+  const file = {
+    id: 'a',
+    name: 'a.pdf',
+    url: 'https://uni.example/moodle/pluginfile.php/1/a.pdf',
+    type: 'file' as const,
+    path: 'Kurs',
+  };
+  const loginForm = '<!DOCTYPE html><form action="https://uni.example/moodle/login/index.php" method="post">';
+
+  function redirectedTo(url: string, body: string): Response {
+    const response = new Response(body, { status: 200, headers: { 'content-type': 'text/html' } });
+    Object.defineProperty(response, 'url', { value: url });
+    Object.defineProperty(response, 'redirected', { value: true });
+    return response;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should recognise the login page and SSO forms, but not other HTML', () => {
+    const page = new Response('');
+    expect(isLoginResponse(redirectedTo('https://uni.example/moodle/login/index.php', ''))).toBe(true);
+    expect(
+      isLoginResponse(redirectedTo('https://uni.example/moodle/course/view.php?id=1', ''), loginForm),
+    ).toBe(true);
+    expect(
+      isLoginResponse(redirectedTo('https://sso.example/idp', ''), '<html><input type="password" name="pw">'),
+    ).toBe(true);
+    expect(isLoginResponse(page, loginForm)).toBe(false);
+    expect(isLoginResponse(page, '<html><input type="password" name="pw">')).toBe(false);
+    expect(
+      isLoginResponse(
+        page,
+        '<form action="https://uni.example/moodle/mod/quiz/startattempt.php"><input type="password" name="quizpassword">',
+      ),
+    ).toBe(false);
+    expect(isLoginResponse(page, '<html><body>Error</body></html>')).toBe(false);
+  });
+
+  it('should report the login page of the site when a file returns it', async () => {
+    vi.stubGlobal('fetch', async () => redirectedTo('https://uni.example/moodle/login/index.php', loginForm));
+    await expect(openResource(file)).resolves.toEqual({
+      ok: false,
+      failure: { reason: 'likely_login_required', attempts: 1 },
+      loginUrl: 'https://uni.example/moodle/login/index.php',
+    });
+    await expect(probeSession(file.url)).resolves.toBe(false);
+
+    vi.stubGlobal('fetch', async () => new Response('%PDF-1.4', { status: 200 }));
+    await expect(probeSession(file.url)).resolves.toBe(true);
+  });
+});
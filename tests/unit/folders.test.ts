@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { getFolderArchiveUrl, isFolderArchive, unpackFolderArchive } from '../../src/background/folders';
+import type { MoodleResource } from '../../src/shared/types';
+
+const folder: MoodleResource = {
+  id: '9',
+  name: 'Slides',
+  url: 'https://moodle.example/mod/folder/view.php?id=9',
+  type: 'folder',
+  path: 'Course/Week 1/Slides',
+};
+
+async function collect<T>(entries: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const entry of entries) result.push(entry);
+  return result;
+}
+
+async function readText(entry: { file: { body(): AsyncIterable<Uint8Array> } }): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of entry.file.body()) chunks.push(chunk);
+  return chunks.map((c) => new TextDecoder().decode(c)).join('');
+}
+
+describe('folder archives', () => {
+  it('should use the archive only if the folder page offers it', () => {
+    const html = `<form method="get" action="https://moodle.example/mod/folder/download_folder.php">
+      <input type="hidden" name="id" value="9"></form>`;
+    const url = getFolderArchiveUrl(html, folder);
+    expect(url).toBe('https://moodle.example/mod/folder/download_folder.php?id=9');
+    expect(isFolderArchive({ ...folder, url: url ?? '' })).toBe(true);
+    expect(isFolderArchive(folder)).toBe(false);
+    expect(getFolderArchiveUrl('<div class="foldertree"></div>', folder)).toBeUndefined();
+  });
+
+  it('should unpack the archive below the folder path', async () => {
+    const zip = new JSZip();
+    zip.file('intro.pdf', 'intro');
+    zip.file('Part 1/Chapter A/a.txt', 'a');
+    zip.folder('Empty');
+    const bytes = await zip.generateAsync({ type: 'uint8array' });
+
+    const entries = await collect(unpackFolderArchive(bytes, folder));
+    expect(entries.map((e) => [e.resource.path, e.file.fileName])).toEqual([
+      ['Course/Week 1/Slides', 'intro.pdf'],
+      ['Course/Week 1/Slides/Part 1/Chapter A', 'a.txt'],
+    ]);
+    expect(await readText(entries[1]!)).toBe('a');
+    expect(new Set(entries.map((e) => e.resource.id)).size).toBe(2);
+  });
+
+  it('should keep entries inside the folder', async () => {
+    const zip = new JSZip();
+    zip.file('../../escape.txt', 'x');
+    const bytes = await zip.generateAsync({ type: 'uint8array' });
+    const entries = await collect(unpackFolderArchive(bytes, folder));
+    expect(entries.map((e) => [e.resource.path, e.file.fileName])).toEqual([
+      ['Course/Week 1/Slides', 'escape.txt'],
+    ]);
+  });
+
+  it('should decompress each entry only when it is requested', async () => {
+    const zip = new JSZip();
+    zip.file('a.txt', 'a');
+    zip.file('b.txt', 'b');
+    const bytes = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+
+    const decompressed: string[] = [];
+    const loadAsync = JSZip.loadAsync.bind(JSZip);
+    const spy = vi.spyOn(JSZip, 'loadAsync').mockImplementation(async (data) => {
+      const loaded = await loadAsync(data);
+      for (const entry of Object.values(loaded.files)) {
+        const read = entry.async.bind(entry);
+        entry.async = ((type: 'uint8array') => {
+          decompressed.push(entry.name);
+          return read(type);
+        }) as typeof entry.async;
+      }
+      return loaded;
+    });
+
+    const entries = unpackFolderArchive(bytes, folder);
+    const first = await entries.next();
+    expect(first.value?.file.fileName).toBe('a.txt');
+    expect(decompressed).toEqual(['a.txt']);
+    const second = await entries.next();
+    expect(await readText(second.value!)).toBe('b');
+    expect(decompressed).toEqual(['a.txt', 'b.txt']);
+    spy.mockRestore();
+  });
+});
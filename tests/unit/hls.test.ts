@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { isHlsResource, parseMasterPlaylist, parseMediaPlaylist } from '../../src/background/hls';
+
+const base = 'https://cdn.example/p/1/a.m3u8';
+
+describe('HLS playlists', () => {
+  it('should list the variants of a master playlist', () => {
+    const master = [
+      '#EXTM3U',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,CODECS="avc1.4d401e,mp4a.40.2"',
+      'low/index.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=4000000,RESOLUTION=1920x1080',
+      'https://cdn.example/high/index.m3u8',
+    ].join('\n');
+    expect(parseMasterPlaylist(master, base)).toEqual([
+      { url: 'https://cdn.example/p/1/low/index.m3u8', bandwidth: 800000 },
+      { url: 'https://cdn.example/high/index.m3u8', bandwidth: 4000000 },
+    ]);
+  });
+
+  it('should list the segments of a media playlist', () => {
+    const media = [
+      '#EXTM3U',
+      '#EXT-X-TARGETDURATION:10',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXTINF:10.0,',
+      'seg1.m4s',
+      '#EXTINF:10.0,',
+      'seg2.m4s',
+      '#EXT-X-ENDLIST',
+    ].join('\r\n');
+    expect(parseMediaPlaylist(media, base)).toEqual({
+      segments: ['https://cdn.example/p/1/seg1.m4s', 'https://cdn.example/p/1/seg2.m4s'],
+      map: 'https://cdn.example/p/1/init.mp4',
+      encrypted: false,
+    });
+    expect(parseMasterPlaylist(media, base)).toEqual([]);
+
+    const encrypted = '#EXTM3U\n#EXT-X-KEY:METHOD=AES-128,URI="key.bin"\n#EXTINF:10,\nseg1.ts\n';
+    expect(parseMediaPlaylist(encrypted, base).encrypted).toBe(true);
+  });
+
+  it('should only treat resolved playlists as HLS', () => {
+    expect(isHlsResource({ id: '1', name: 'a', url: base, type: 'video', fileType: 'm3u8', path: '' })).toBe(
+      true,
+    );
+    expect(isHlsResource({ id: '1', name: 'a', url: base, type: 'file', fileType: 'm3u8', path: '' })).toBe(
+      false,
+    );
+  });
+});
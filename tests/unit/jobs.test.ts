@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createJobControl,
+  createJobRecord,
+  getPendingFiles,
+  resetJobProgress,
+  restoreZipCheckpoint,
+  runResumable,
+  toHistoryEntry,
+  toJobSummary,
+} from '../../src/background/jobs';
+import type { MoodleResource } from '../../src/shared/types';
+
+function file(name: string): MoodleResource {
+  return {
+    id: name,
+    name,
+    url: `https://moodle.example/pluginfile.php/1/${name}`,
+    type: 'file',
+    path: 'Kurs',
+  };
+}
+
+describe('job control', () => {
+  it('should abort the signal on pause and hand out a fresh one on resume', async () => {
+    const control = createJobControl();
+    const first = control.signal;
+
+    control.pause();
+    expect(control.state).toBe('paused');
+    expect(first.aborted).toBe(true);
+
+    let runnable: boolean | undefined;
+    const waiting = control.waitUntilRunnable().then((r) => {
+      runnable = r;
+    });
+    await Promise.resolve();
+    expect(runnable).toBeUndefined();
+
+    control.resume();
+    await waiting;
+    expect(runnable).toBe(true);
+    expect(control.signal.aborted).toBe(false);
+  });
+
+  it('should release paused waiters when cancelled or interrupted', async () => {
+    const cancelled = createJobControl();
+    cancelled.pause();
+    const waiting = cancelled.waitUntilRunnable();
+    cancelled.cancel();
+    await expect(waiting).resolves.toBe(false);
+
+    const interrupted = createJobControl();
+    interrupted.interrupt();
+    expect(interrupted.state).toBe('paused');
+    await expect(interrupted.waitUntilRunnable()).resolves.toBe(false);
+    interrupted.resume();
+    expect(interrupted.state).toBe('paused');
+  });
+
+  it('should run a task again after it was aborted by a pause', async () => {
+    const control = createJobControl();
+    let attempts = 0;
+
+    const result = runResumable(control, async (signal) => {
+      attempts += 1;
+      if (attempts === 1) {
+        control.pause();
+        signal.throwIfAborted();
+      }
+      return 'ok';
+    });
+
+    await Promise.resolve();
+    control.resume();
+    await expect(result).resolves.toBe('ok');
+    expect(attempts).toBe(2);
+  });
+
+  it('should rethrow errors not caused by the job and stop on cancel', async () => {
+    const control = createJobControl();
+    await expect(
+      runResumable(control, async () => {
+        throw new Error('timeout');
+      }),
+    ).rejects.toThrow('timeout');
+
+    const result = runResumable(control, async (signal) => {
+      control.cancel();
+      signal.throwIfAborted();
+      return 'unreachable';
+    });
+    await expect(result).resolves.toBeUndefined();
+  });
+});
+
+describe('job record', () => {
+  it('should list only files that are neither written nor failed', () => {
+    const [a, b, c] = [file('a.pdf'), file('b.pdf'), file('c.pdf')];
+    const record = createJobRecord({ output: 'files', transport: 'port', resources: [a, b, c] });
+    record.files = [a, b, c];
+    record.written[a.url] = { url: a.url, timestamp: 1, fileName: 'a.pdf' };
+    record.failures.push({ url: b.url, name: b.name, reason: 'http_error', status: 404, attempts: 1 });
+
+    expect(getPendingFiles(record)).toEqual([c]);
+    expect(toJobSummary(record, true)).toMatchObject({ total: 3, done: 1, failed: 1, active: true });
+
+    resetJobProgress(record);
+    expect(getPendingFiles(record)).toEqual([]);
+    expect(toJobSummary(record, false)).toMatchObject({ total: 3, done: 0, failed: 0, active: false });
+  });
+
+  it('should keep only files covered by the ZIP checkpoint', () => {
+    const [a, b] = [file('a.pdf'), file('b.pdf')];
+    const record = createJobRecord({ output: 'zip', transport: 'background', resources: [a, b] });
+    record.files = [a, b];
+    record.written[a.url] = { url: a.url, timestamp: 1, fileName: 'a.pdf', path: 'Kurs/a.pdf' };
+    record.written[b.url] = { url: b.url, timestamp: 1, fileName: 'b.pdf', path: 'Kurs/b.pdf' };
+    const entry = { method: 0, dosTime: 0, dosDate: 0, crc: 0, size: 1, compressedSize: 1, offset: 0 };
+    record.zip = { offset: 100, entries: [{ ...entry, name: 'Kurs/a.pdf' }] };
+
+    expect(restoreZipCheckpoint(record, 100)).toBe(record.zip);
+    expect(getPendingFiles(record)).toEqual([b]);
+
+    expect(restoreZipCheckpoint(record, 50)).toBeUndefined();
+    expect(record.zip).toBeUndefined();
+    expect(record.written).toEqual({});
+  });
+
+  it('should record the courses, files and failures of a finished job', () => {
+    const record = createJobRecord({
+      output: 'zip',
+      transport: 'background',
+      resources: [
+        { ...file('a.pdf'), courseId: 7, courseName: 'Analysis I' },
+        { ...file('b.pdf'), courseId: 7 },
+        { ...file('c.pdf'), courseId: 9, courseName: 'Physik' },
+        file('d.pdf'),
+      ],
+    });
+    record.written['https://moodle.example/pluginfile.php/1/a.pdf'] = {
+      url: 'a',
+      timestamp: 1,
+      fileName: 'a.pdf',
+    };
+    record.failures.push({
+      url: 'https://moodle.example/pluginfile.php/1/c.pdf',
+      name: 'c.pdf',
+      reason: 'http_error',
+      status: 404,
+      attempts: 1,
+    });
+
+    const entry = toHistoryEntry(record, 'completed', 5000);
+    expect(entry).toMatchObject({
+      id: record.id,
+      state: 'completed',
+      startedAt: record.createdAt,
+      finishedAt: 5000,
+      fileCount: 1,
+    });
+    expect(entry.failures).toHaveLength(1);
+    expect(entry.courses).toEqual([
+      { site: 'moodle.example', id: 7, name: 'Analysis I' },
+      { site: 'moodle.example', id: 9, name: 'Physik' },
+      { site: 'moodle.example', id: undefined, name: undefined },
+    ]);
+  });
+});
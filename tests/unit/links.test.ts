@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildLinkFiles,
+  extractUrlTarget,
+  resolveUrlActivity,
+  toResolvedResource,
+} from '../../src/background/links';
+import type { MoodleResource } from '../../src/shared/types';
+
+const noDelay = { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, maxRetryAfterMs: 0 };
+
+const link: MoodleResource = {
+  id: '9',
+  name: 'Reading list',
+  url: 'https://moodle.example/mod/url/view.php?id=9',
+  type: 'url',
+  path: 'Course A/Week 2',
+};
+
+function responseAt(url: string, body: string, init: ResponseInit = {}): Response {
+  const response = new Response(body, { headers: { 'content-type': 'text/html' }, ...init });
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
+
+describe('URL activities', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should find the target on pages that do not redirect', () => {
+    expect(
+      extractUrlTarget(
+        '<div class="urlworkaround">Click <a href="https://example.org/a?x=1&amp;y=2">link</a></div>',
+        link.url,
+      ),
+    ).toBe('https://example.org/a?x=1&y=2');
+    expect(
+      extractUrlTarget('<iframe id="resourceobject" src="https://video.example/v/1"></iframe>', link.url),
+    ).toBe('https://video.example/v/1');
+    expect(
+      extractUrlTarget(
+        '<frameset><frame src="view.php?id=9&amp;frameset=top"><frame src="https://example.org/doc"></frameset>',
+        link.url,
+      ),
+    ).toBe('https://example.org/doc');
+  });
+
+  it('should follow redirects to the target', async () => {
+    vi.stubGlobal('fetch', async () => responseAt('https://example.org/paper', 'external'));
+    await expect(resolveUrlActivity(link, undefined, noDelay)).resolves.toEqual({
+      ok: true,
+      target: 'https://example.org/paper',
+    });
+
+    vi.stubGlobal('fetch', async () =>
+      responseAt('https://moodle.example/login/index.php', '<input type="password">'),
+    );
+    await expect(resolveUrlActivity(link, undefined, noDelay)).resolves.toMatchObject({
+      ok: false,
+      loginUrl: 'https://moodle.example/login/index.php',
+    });
+  });
+
+  it('should download targets that are files on the same Moodle', () => {
+    expect(
+      toResolvedResource(link, 'https://moodle.example/pluginfile.php/3/mod_folder/content/0/a.pdf'),
+    ).toMatchObject({ type: 'file', name: 'Reading list', fileType: 'pdf', path: 'Course A/Week 2' });
+    expect(toResolvedResource(link, 'https://example.org/a.pdf')).toMatchObject({
+      type: 'url',
+      target: 'https://example.org/a.pdf',
+    });
+  });
+
+  it('should write Links.md with shortcuts or one links.html per course', () => {
+    const links = [
+      { ...link, target: 'https://example.org/paper' },
+      { ...link, id: '10', name: 'Slides [v2]', path: 'Course A/Week 3', target: 'https://example.org/s' },
+    ];
+
+    const files = buildLinkFiles(links, 'files');
+    expect(files.map((f) => `${f.path}/${f.fileName}`)).toEqual([
+      'Course A/Week 2/Links.md',
+      'Course A/Week 2/Reading list.url',
+      'Course A/Week 2/Reading list.desktop',
+      'Course A/Week 3/Links.md',
+      'Course A/Week 3/Slides [v2].url',
+      'Course A/Week 3/Slides [v2].desktop',
+    ]);
+    expect(files[0]?.content).toBe('# Week 2\n\n- [Reading list](<https://example.org/paper>)\n');
+    expect(files[1]?.content).toBe('[InternetShortcut]\r\nURL=https://example.org/paper\r\n');
+    expect(files[3]?.content).toContain('- [Slides \\[v2\\]](<https://example.org/s>)');
+
+    const index = buildLinkFiles(links, 'index');
+    expect(index).toHaveLength(1);
+    expect(index[0]).toMatchObject({ path: 'Course A', fileName: 'links.html' });
+    expect(index[0]?.content).toContain('<h2>Week 3</h2>');
+    expect(index[0]?.content).toContain('<a href="https://example.org/paper">Reading list</a>');
+  });
+});
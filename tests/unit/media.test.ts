@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractH5PVideos,
+  html5VideoResolver,
+  kalturaResolver,
+  opencastResolver,
+  pickOpencastTracks,
+  resolveMedia,
+  toMediaResources,
+  type MediaContext,
+} from '../../src/background/media';
+import type { MoodleResource } from '../../src/shared/types';
+
+const pageUrl = 'https://moodle.example/mod/h5pactivity/view.php?id=7';
+
+function contextFor(pages: Record<string, string>): MediaContext & { requested: string[] } {
+  const requested: string[] = [];
+  return {
+    requested,
+    async fetchText(url) {
+      requested.push(url);
+      return pages[url];
+    },
+  };
+}
+
+const noFetch = contextFor({});
+
+describe('media resolvers', () => {
+  it('should pick the best source of a video tag', async () => {
+    const html = `
+      <video title="Lecture 1" controls>
+        <source src="/pluginfile.php/5/mod_page/content/1/lecture_360p.webm" type="video/webm">
+        <source src="/pluginfile.php/5/mod_page/content/1/lecture_720p.mp4" type="video/mp4">
+        <source src="/pluginfile.php/5/mod_page/content/1/lecture_720p.webm" type="video/webm">
+      </video>
+      <video src="https://cdn.example/intro.mp4"></video>
+    `;
+    expect(await html5VideoResolver.resolve({ url: pageUrl, html }, noFetch)).toEqual([
+      {
+        url: 'https://moodle.example/pluginfile.php/5/mod_page/content/1/lecture_720p.mp4',
+        title: 'Lecture 1',
+      },
+      { url: 'https://cdn.example/intro.mp4', title: undefined },
+    ]);
+  });
+
+  it('should read the videos of H5P contents', () => {
+    const jsonContent = JSON.stringify({
+      interactiveVideo: {
+        video: {
+          files: [
+            { path: 'videos/files-low.mp4#tmp', mime: 'video/mp4', metadata: { qualityName: '360p' } },
+            { path: 'videos/files-high.mp4', mime: 'video/mp4', metadata: { qualityName: '1080p' } },
+          ],
+        },
+      },
+      poster: { path: 'images/poster.png', mime: 'image/png' },
+    });
+    const integration = {
+      contents: {
+        'cid-3': {
+          title: 'Week 1',
+          contentUrl: 'https://moodle.example/pluginfile.php/12/core_h5p/content/3',
+          jsonContent,
+        },
+      },
+    };
+    const html = `<script>var H5PIntegration = ${JSON.stringify(integration)};</script>`;
+
+    expect(extractH5PVideos(html, 'https://moodle.example/h5p/embed.php')).toEqual([
+      {
+        url: 'https://moodle.example/pluginfile.php/12/core_h5p/content/3/videos/files-high.mp4',
+        title: 'Week 1',
+      },
+    ]);
+  });
+
+  it('should build the HLS playlist of Kaltura entries', async () => {
+    const html = `<iframe src="https://cdnapisec.kaltura.com/p/1234/sp/123400/embedIframeJs/uiconf_id/5/partner_id/1234?iframeembed=true&amp;entry_id=1_abcd1234"></iframe>`;
+    expect(await kalturaResolver.resolve({ url: pageUrl, html }, noFetch)).toEqual([
+      {
+        url: 'https://cdnapisec.kaltura.com/p/1234/sp/123400/playManifest/entryId/1_abcd1234/format/applehttp/protocol/https/a.m3u8',
+      },
+    ]);
+    expect(
+      await kalturaResolver.resolve({ url: pageUrl, html: '<p>entry_id=1_abcd1234</p>' }, noFetch),
+    ).toEqual([]);
+  });
+
+  it('should take the best track per flavor from the Opencast search service', async () => {
+    const id = '0b9f4c4e-2c1e-4c7a-9d2f-6a1b2c3d4e5f';
+    const episode = {
+      'search-results': {
+        result: {
+          mediapackage: {
+            title: 'Lecture 3',
+            media: {
+              track: [
+                {
+                  type: 'presenter/delivery',
+                  mimetype: 'video/mp4',
+                  url: 'https://oc.example/p-360.mp4',
+                  video: { resolution: '640x360' },
+                },
+                {
+                  type: 'presenter/delivery',
+                  mimetype: 'video/mp4',
+                  url: 'https://oc.example/p-1080.mp4',
+                  video: { resolution: '1920x1080' },
+                },
+                {
+                  type: 'presentation/delivery',
+                  mimetype: 'video/mp4',
+                  url: 'https://oc.example/s-720.mp4',
+                  video: { resolution: '1280x720' },
+                },
+                { type: 'presenter/delivery', mimetype: 'audio/mp4', url: 'https://oc.example/audio.m4a' },
+              ],
+            },
+          },
+        },
+      },
+    };
+    expect(pickOpencastTracks(episode)).toEqual([
+      { url: 'https://oc.example/p-1080.mp4', title: 'Lecture 3 (presenter)' },
+      { url: 'https://oc.example/s-720.mp4', title: 'Lecture 3 (presentation)' },
+    ]);
+
+    const context = contextFor({
+      [`https://oc.example/search/episode.json?id=${id}`]: JSON.stringify(episode),
+    });
+    const html = `<iframe src="https://oc.example/play/${id}"></iframe>`;
+    expect(await opencastResolver.resolve({ url: pageUrl, html }, context)).toHaveLength(2);
+  });
+
+  it('should follow LTI launches and return each video once', async () => {
+    const id = '0b9f4c4e-2c1e-4c7a-9d2f-6a1b2c3d4e5f';
+    const launchUrl = 'https://moodle.example/mod/lti/launch.php?id=8';
+    const launch = `<form action="https://oc.example/lti" method="post">
+      <input type="hidden" name="custom_id" value="${id}"></form>`;
+    const episode = {
+      'search-results': {
+        result: {
+          mediapackage: {
+            media: {
+              track: {
+                type: 'presenter/delivery',
+                mimetype: 'video/mp4',
+                url: 'https://oc.example/p.mp4',
+                video: {},
+              },
+            },
+          },
+        },
+      },
+    };
+    const context = contextFor({
+      [launchUrl]: launch,
+      [`https://oc.example/search/episode.json?id=${id}`]: JSON.stringify(episode),
+    });
+    const html = `<iframe src="/mod/lti/launch.php?id=8"></iframe><iframe src="https://other.example/launch.php"></iframe>`;
+
+    const sources = await resolveMedia(
+      { url: 'https://moodle.example/mod/lti/view.php?id=8', html },
+      context,
+    );
+    expect(sources).toEqual([{ url: 'https://oc.example/p.mp4', title: undefined }]);
+    expect(context.requested).not.toContain('https://other.example/launch.php');
+  });
+
+  it('should turn media into video resources in the activity folder', () => {
+    const activity: MoodleResource = {
+      id: '7',
+      name: 'Lecture',
+      url: pageUrl,
+      type: 'video',
+      path: 'Course/Week 1',
+    };
+    expect(
+      toMediaResources(activity, [
+        { url: 'https://oc.example/p.mp4', title: 'Presenter' },
+        { url: 'https://cdnapisec.kaltura.com/p/1/a.m3u8' },
+      ]).map((r) => [r.name, r.fileType, r.path]),
+    ).toEqual([
+      ['Lecture - Presenter', 'mp4', 'Course/Week 1'],
+      ['Lecture 2', 'm3u8', 'Course/Week 1'],
+    ]);
+  });
+});
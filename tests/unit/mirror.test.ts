@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  applyMirror,
+  decodeMirror,
+  encodeMirror,
+  getMirrorStatus,
+  mergeIntoMirror,
+  pullTracking,
+  pushTracking,
+} from '../../src/background/mirror';
+import type { DownloadTrackingMap } from '../../src/shared/types';
+
+type Store = Record<string, any>;
+
+let syncStore: Store;
+let writes: number;
+
+function installChromeMock(): void {
+  syncStore = {};
+  writes = 0;
+
+  (globalThis as any).chrome = {
+    runtime: { lastError: null },
+    storage: {
+      sync: {
+        get: (keys: any, cb: (res: any) => void) => {
+          cb({ [keys]: structuredClone(syncStore[keys]) });
+        },
+        set: (items: any, cb: () => void) => {
+          writes += 1;
+          Object.assign(syncStore, structuredClone(items));
+          cb();
+        },
+        remove: (keys: any, cb: () => void) => {
+          for (const k of Array.isArray(keys) ? keys : [keys]) delete syncStore[k];
+          cb();
+        },
+      },
+    },
+  };
+}
+
+const ORIGIN = 'https://moodle.example.edu';
+const HASH = 'a'.repeat(64);
+
+function file(path: string, timestamp: number, courseId?: number): [string, DownloadTrackingMap[string]] {
+  const url = `${ORIGIN}${path}`;
+  return [url, { url, timestamp, fileName: path.split('/').pop() ?? '', hash: HASH, courseId }];
+}
+
+describe('tracking mirror', () => {
+  beforeEach(() => {
+    installChromeMock();
+  });
+
+  it('round-trips the compact form per course without the origin', () => {
+    const local = Object.fromEntries([
+      file('/pluginfile.php/1/a.pdf', 100, 42),
+      file('/pluginfile.php/1/b.pdf', 200),
+    ]);
+    const chunks = encodeMirror(mergeIntoMirror({}, local));
+    expect(chunks).toEqual([
+      [
+        { o: ORIGIN, f: { '/pluginfile.php/1/b.pdf': [200, HASH] } },
+        { o: ORIGIN, c: 42, f: { '/pluginfile.php/1/a.pdf': [100, HASH] } },
+      ],
+    ]);
+
+    const copy: DownloadTrackingMap = {};
+    expect(applyMirror(copy, decodeMirror(chunks))).toBe(true);
+    expect(copy[`${ORIGIN}/pluginfile.php/1/a.pdf`]).toEqual({
+      url: `${ORIGIN}/pluginfile.php/1/a.pdf`,
+      fileName: 'a.pdf',
+      timestamp: 100,
+      hash: HASH,
+      courseId: 42,
+    });
+  });
+
+  it('keeps chunks below the item quota and drops the least recently used courses', () => {
+    const local: DownloadTrackingMap = {};
+    for (let course = 1; course <= 30; course++) {
+      for (let i = 0; i < 40; i++) {
+        const [key, entry] = file(
+          `/pluginfile.php/${course}/mod_resource/content/1/file-${i}.pdf`,
+          course * 1000 + i,
+          course,
+        );
+        local[key] = entry;
+      }
+    }
+    const chunks = encodeMirror(mergeIntoMirror({}, local));
+    const sizes = chunks.map((c) => new TextEncoder().encode(JSON.stringify(c)).length);
+    expect(Math.max(...sizes)).toBeLessThanOrEqual(8192 - 64);
+    expect(sizes.reduce((a, b) => a + b, 0)).toBeLessThanOrEqual(102400 - 4096);
+
+    const synced = new Set(chunks.flat().map((c) => c.c));
+    expect(synced.has(30)).toBe(true);
+    expect(synced.has(1)).toBe(false);
+  });
+
+  it('resolves conflicts by the newest timestamp, removals included', () => {
+    const [a, entryA] = file('/pluginfile.php/1/a.pdf', 100);
+    const [b, entryB] = file('/pluginfile.php/1/b.pdf', 100);
+    const mirror = mergeIntoMirror({}, { [a]: { ...entryA, timestamp: 300 } }, { [b]: entryB }, 200);
+
+    const local: DownloadTrackingMap = { [a]: { ...entryA, etag: '"v1"' }, [b]: entryB };
+    expect(applyMirror(local, mirror)).toBe(true);
+    expect(local[a]).toMatchObject({ timestamp: 300 });
+    expect(local[a]?.etag).toBeUndefined();
+    expect(local[b]).toBeUndefined();
+
+    // Downloaded again after the removal: the download wins
+    const again: DownloadTrackingMap = { [b]: { ...entryB, timestamp: 250 } };
+    applyMirror(again, mirror);
+    expect(again[b]?.timestamp).toBe(250);
+    expect(mergeIntoMirror(mirror, again, {}, 260)[b]?.file).toEqual([250, HASH]);
+  });
+
+  it('pushes only changed chunks and pulls the state of another device', async () => {
+    const local = Object.fromEntries([file('/pluginfile.php/1/a.pdf', 100, 42)]);
+    await pushTracking(local, {}, 1000);
+    expect(syncStore['trackingSync']).toEqual({ version: 1, chunks: 1, updatedAt: 1000 });
+    expect(syncStore['trackingSync.0']).toHaveLength(1);
+
+    const before = writes;
+    await pushTracking(local, {}, 2000);
+    expect(writes).toBe(before);
+
+    const other: DownloadTrackingMap = Object.fromEntries([file('/pluginfile.php/1/b.pdf', 150)]);
+    expect(await pullTracking(other)).toBe(true);
+    expect(Object.keys(other)).toHaveLength(2);
+
+    const status = await getMirrorStatus(true);
+    expect(status).toMatchObject({ enabled: true, courses: 1, files: 1, updatedAt: 1000 });
+    expect(status.bytes).toBeGreaterThan(0);
+  });
+
+  it('does not touch a mirror written in a newer format', async () => {
+    syncStore['trackingSync'] = { version: 99, chunks: 0, updatedAt: 1 };
+    await expect(pushTracking({})).rejects.toThrow('unsupported version 99');
+    expect(syncStore['trackingSync'].version).toBe(99);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_NAMING,
+  isDefaultNaming,
+  renderFilePath,
+  renderZipName,
+  resolveNaming,
+  transliterate,
+} from '../../src/shared/naming';
+import { joinZipPath } from '../../src/shared/utils';
+import type { MoodleResource } from '../../src/shared/types';
+
+const date = new Date(2026, 9, 19);
+
+const slides: MoodleResource = {
+  id: '1',
+  name: 'Slides',
+  url: 'https://moodle.example/pluginfile.php/1/mod_resource/content/1/slides.pdf',
+  type: 'file',
+  path: 'Grundlagen der Übersetzung/Woche 3',
+  courseName: 'Grundlagen der Übersetzung',
+  courseShort: 'GdÜ-WS26',
+  sectionName: 'Woche 3',
+  sectionIndex: 3,
+  activityName: 'Slides',
+  position: 2,
+};
+
+const folderFile: MoodleResource = {
+  ...slides,
+  id: '2',
+  name: 'data.csv',
+  path: 'Grundlagen der Übersetzung/Woche 3/Übungen/Blatt 1',
+  activityName: 'Übungen',
+  position: 5,
+};
+
+describe('naming templates', () => {
+  it('reproduces the default structure', () => {
+    const naming = resolveNaming({});
+    expect(isDefaultNaming(naming)).toBe(true);
+    expect(renderFilePath(slides, 'slides.pdf', naming)).toBe(joinZipPath(slides.path, 'slides.pdf'));
+    expect(renderFilePath(folderFile, 'data.csv', naming)).toBe(joinZipPath(folderFile.path, 'data.csv'));
+  });
+
+  it('fills placeholders, pads numbers and keeps the extension', () => {
+    const naming = resolveNaming({ template: '{courseShort}/{sectionIndex:02} - {section}/{activity}' });
+    expect(renderFilePath(slides, 'slides.pdf', naming, date)).toBe('GdÜ-WS26/03 - Woche 3/Slides.pdf');
+
+    const dated = resolveNaming({ template: '{course}/{date}_{filename}.{ext}' });
+    expect(renderFilePath(slides, 'slides.pdf', dated, date)).toBe(
+      'Grundlagen der Übersetzung/2026-10-19_slides.pdf',
+    );
+
+    // Missing values leave no empty folders or dangling separators
+    const bare: MoodleResource = { id: '3', name: 'a.pdf', url: slides.url, type: 'file', path: '' };
+    expect(renderFilePath(bare, 'a.pdf', naming, date)).toBe('a.pdf');
+  });
+
+  it('numbers sections and activities, transliterates and flattens', () => {
+    const numbered = resolveNaming({ numbering: true, transliterate: true });
+    expect(renderFilePath(slides, 'slides.pdf', numbered)).toBe(
+      'Grundlagen der Uebersetzung/03 Woche 3/02 slides.pdf',
+    );
+    expect(renderFilePath(folderFile, 'data.csv', numbered)).toBe(
+      'Grundlagen der Uebersetzung/03 Woche 3/05 Uebungen/Blatt 1/data.csv',
+    );
+
+    const flat = resolveNaming({ template: '{sectionIndex:02}_{filename}', flatten: true });
+    expect(renderFilePath(folderFile, 'data.csv', flat)).toBe('03_data.csv');
+
+    expect(transliterate('Größe Café Ærø')).toBe('Groesse Cafe Aero');
+  });
+
+  it('names the ZIP after the course, or falls back for several courses', () => {
+    const naming = resolveNaming({ zipTemplate: '{courseShort} {date}', transliterate: true });
+    expect(renderZipName([slides, folderFile], naming, date)).toBe('GdUe-WS26 2026-10-19.zip');
+
+    const other = { ...slides, courseName: 'Other', courseShort: 'OT' };
+    expect(renderZipName([slides, other], DEFAULT_NAMING)).toBe('moodle-download.zip');
+    expect(renderZipName([slides], DEFAULT_NAMING)).toBe('Grundlagen der Übersetzung.zip');
+  });
+});
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OpenedFile } from '../../src/background/fetcher';
+import {
+  createDownloadsOutput,
+  createFilesPortOutput,
+  createStreamPortSender,
+  SaveError,
+} from '../../src/background/outputs';
+import type { MoodleResource } from '../../src/shared/types';
+import { calculateHash } from '../../src/shared/utils';
+
+/** Job parts in memory instead of IndexedDB (jsdom has none) */
+const jobParts = vi.hoisted(() => new Map<string, Blob[]>());
+vi.mock('../../src/shared/idb', () => ({
+  idbPutJobPart: async (jobId: string, index: number, data: Blob) => {
+    const parts = jobParts.get(jobId) ?? [];
+    parts[index] = data;
+    jobParts.set(jobId, parts);
+  },
+  idbGetJobParts: async (jobId: string) => jobParts.get(jobId) ?? [],
+  idbDeleteJobParts: async (jobId: string) => {
+    jobParts.delete(jobId);
+  },
+}));
+
+function fakePort() {
+  const sent: any[] = [];
+  const disconnectListeners: Array<() => void> = [];
+  const port = {
+    postMessage: (msg: any) => sent.push(msg),
+    onDisconnect: { addListener: (fn: () => void) => disconnectListeners.push(fn) },
+  } as unknown as chrome.runtime.Port;
+  return { port, sent, disconnect: () => disconnectListeners.forEach((fn) => fn()) };
+}
+
+function fakeOpened(fileName: string, parts: string[]): OpenedFile {
+  return {
+    response: new Response(),
+    fileName,
+    async *body(onChunk) {
+      for (const p of parts) {
+        const chunk = new TextEncoder().encode(p);
+        onChunk?.(chunk);
+        yield chunk;
+      }
+    },
+    cancel: async () => undefined,
+  };
+}
+
+const resource: MoodleResource = {
+  id: '1',
+  name: 'Slides',
+  url: 'https://moodle.example.edu/pluginfile.php/1/slides.pdf',
+  type: 'file',
+  path: 'Course A/Week 1',
+};
+
+describe('files port output', () => {
+  it('should frame each file with start/end messages and return its hash', async () => {
+    const { port, sent } = fakePort();
+    const output = createFilesPortOutput(createStreamPortSender(port));
+
+    const stored = await output.writeFile(resource, fakeOpened('slides.pdf', ['%PDF-', 'data']));
+
+    expect(sent.map((m) => m.type)).toEqual([
+      'MD_STREAM_FILE_START',
+      'MD_STREAM_CHUNK',
+      'MD_STREAM_FILE_END',
+    ]);
+    expect(sent[0].path).toBe('Course A/Week 1/slides.pdf');
+    expect(stored.hash).toBe(await calculateHash('%PDF-data'));
+  });
+
+  it('should pass the known hash on start and the new hash on end', async () => {
+    const { port, sent } = fakePort();
+    const output = createFilesPortOutput(createStreamPortSender(port));
+    const previous = { url: resource.url, hash: 'abc', timestamp: 1, fileName: 'slides.pdf' };
+
+    const stored = await output.writeFile(resource, fakeOpened('slides.pdf', ['x']), previous);
+
+    expect(sent[0].knownHash).toBe('abc');
+    expect(sent[2].hash).toBe(stored.hash);
+    expect(stored.path).toBe('Course A/Week 1/slides.pdf');
+  });
+
+  it('should make duplicate paths unique', async () => {
+    const { port, sent } = fakePort();
+    const output = createFilesPortOutput(createStreamPortSender(port));
+
+    await output.writeFile(resource, fakeOpened('slides.pdf', ['a']));
+    await output.writeFile(resource, fakeOpened('slides.pdf', ['b']));
+
+    const starts = sent.filter((m) => m.type === 'MD_STREAM_FILE_START').map((m) => m.path);
+    expect(starts).toEqual(['Course A/Week 1/slides.pdf', 'Course A/Week 1/slides (1).pdf']);
+  });
+
+  it('should report an output error once the popup disconnects', async () => {
+    const { port, disconnect } = fakePort();
+    const output = createFilesPortOutput(createStreamPortSender(port));
+
+    disconnect();
+    await expect(output.writeFile(resource, fakeOpened('slides.pdf', ['a']))).rejects.toThrow();
+    expect(output.error).toBeInstanceOf(Error);
+  });
+});
+
+/** chrome.downloads that saves `url` and reports `state` for the download */
+function installDownloadsMock(state: 'complete' | 'interrupted') {
+  const started: chrome.downloads.DownloadOptions[] = [];
+  const listeners: Array<(delta: chrome.downloads.DownloadDelta) => void> = [];
+  (globalThis as any).chrome = {
+    runtime: { lastError: null },
+    downloads: {
+      download: (options: chrome.downloads.DownloadOptions, cb: (id: number) => void) => {
+        started.push(options);
+        const id = started.length;
+        cb(id);
+        setTimeout(() => {
+          const delta = { id, state: { current: state }, error: { current: 'FILE_NO_SPACE' } };
+          [...listeners].forEach((fn) => fn(delta));
+        });
+      },
+      onChanged: {
+        addListener: (fn: (delta: chrome.downloads.DownloadDelta) => void) => listeners.push(fn),
+        removeListener: (fn: (delta: chrome.downloads.DownloadDelta) => void) =>
+          listeners.splice(listeners.indexOf(fn), 1),
+      },
+    },
+  };
+  return { started, listeners };
+}
+
+describe('downloads output', () => {
+  const blobs = new Map<string, Blob>();
+
+  beforeEach(() => {
+    let next = 0;
+    URL.createObjectURL = (blob: Blob) => {
+      next += 1;
+      blobs.set(`blob:test/${next}`, blob);
+      return `blob:test/${next}`;
+    };
+    URL.revokeObjectURL = (url: string) => {
+      blobs.delete(url);
+    };
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).chrome;
+    delete (URL as any).createObjectURL;
+    delete (URL as any).revokeObjectURL;
+    jobParts.clear();
+  });
+
+  it('should save the fetched bytes from IndexedDB instead of requesting the file again', async () => {
+    const { started, listeners } = installDownloadsMock('complete');
+    let saved: Blob | undefined;
+    const download = (globalThis as any).chrome.downloads.download;
+    (globalThis as any).chrome.downloads.download = (options: chrome.downloads.DownloadOptions, cb: any) => {
+      saved = blobs.get(options.url);
+      download(options, cb);
+    };
+    const output = createDownloadsOutput('job-1');
+    expect(output.serial).toBe(true);
+
+    const stored = await output.writeFile(resource, fakeOpened('slides.pdf', ['%PDF-', 'data']));
+
+    expect(started).toHaveLength(1);
+    expect(started[0]?.filename).toBe('Course A/Week 1/slides.pdf');
+    expect(started[0]?.url).toMatch(/^blob:/);
+    expect(saved).toMatchObject({ size: 9, type: 'application/octet-stream' });
+    expect(stored).toEqual({
+      hash: await calculateHash('%PDF-data'),
+      path: 'Course A/Week 1/slides.pdf',
+      size: 9,
+    });
+    expect(listeners).toHaveLength(0);
+    expect(blobs.size).toBe(0);
+    expect(jobParts.has('job-1')).toBe(false);
+    await expect(output.finish()).resolves.toBe(9);
+  });
+
+  it('should fail the file when the browser interrupts the download', async () => {
+    installDownloadsMock('interrupted');
+    const output = createDownloadsOutput('job-1');
+
+    const written = output.writeFile(resource, fakeOpened('slides.pdf', ['%PDF-']));
+    await expect(written).rejects.toBeInstanceOf(SaveError);
+    await expect(written).rejects.toThrow('FILE_NO_SPACE');
+    expect(jobParts.has('job-1')).toBe(false);
+  });
+});
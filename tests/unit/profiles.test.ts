@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SELECTORS,
+  PROFILES_FORMAT,
+  findProfile,
+  findProfileForUrl,
+  matchesAnyPattern,
+  mergeProfiles,
+  parseProfiles,
+  resolveSelectors,
+  serializeProfiles,
+  wildcardToRegExp,
+} from '../../src/shared/profiles';
+import type { ExtractorProfile } from '../../src/shared/types';
+
+const profiles: ExtractorProfile[] = [
+  { id: 'a', name: 'Uni A', hostPattern: 'moodle.uni-a.de', selectors: { sections: ['.week'] } },
+  { id: 'b', name: 'Uni B', hostPattern: '*.uni-b.de', exclude: ['*/mod/quiz/*'] },
+];
+
+describe('extractor profiles', () => {
+  it('should match host patterns with wildcards', () => {
+    expect(wildcardToRegExp('*.uni-b.de').test('elearning.uni-b.de')).toBe(true);
+    expect(wildcardToRegExp('*.uni-b.de').test('uni-bxde')).toBe(false);
+    expect(findProfile(profiles, 'Moodle.Uni-A.de')?.id).toBe('a');
+    expect(findProfile(profiles, 'lms.uni-b.de')?.id).toBe('b');
+    expect(findProfile(profiles, 'moodle.uni-c.de')).toBeUndefined();
+    expect(findProfileForUrl(profiles, 'https://lms.uni-b.de/course/view.php?id=1')?.id).toBe('b');
+    expect(findProfileForUrl(profiles, 'not a url')).toBeUndefined();
+  });
+
+  it('should replace only the selector lists a profile sets', () => {
+    const selectors = resolveSelectors(profiles[0]);
+    expect(selectors.sections).toEqual(['.week']);
+    expect(selectors.activityLinks).toEqual(DEFAULT_SELECTORS.activityLinks);
+    expect(resolveSelectors()).toEqual(DEFAULT_SELECTORS);
+  });
+
+  it('should match URL patterns anywhere in the URL', () => {
+    expect(matchesAnyPattern('https://lms.uni-b.de/mod/quiz/view.php?id=3', ['/mod/quiz/'])).toBe(true);
+    expect(matchesAnyPattern('https://lms.uni-b.de/mod/quiz/view.php?id=3', ['*/mod/*/view.php'])).toBe(true);
+    expect(matchesAnyPattern('https://lms.uni-b.de/mod/page/view.php?id=3', ['/mod/quiz/', ''])).toBe(false);
+    expect(matchesAnyPattern('https://lms.uni-b.de/', undefined)).toBe(false);
+  });
+
+  it('should round-trip exported profiles', () => {
+    const json = serializeProfiles(profiles);
+    expect(JSON.parse(json)).toMatchObject({ format: PROFILES_FORMAT, version: 1 });
+    expect(parseProfiles(json)).toEqual(profiles);
+  });
+
+  it('should normalize imported profiles and reject invalid files', () => {
+    expect(
+      parseProfiles(
+        JSON.stringify([
+          { hostPattern: ' lms.example.edu ', selectors: { sections: [' ', '.x'] }, include: [] },
+        ]),
+      ),
+    ).toEqual([
+      {
+        id: 'lms.example.edu',
+        name: 'lms.example.edu',
+        hostPattern: 'lms.example.edu',
+        selectors: { sections: ['.x'] },
+      },
+    ]);
+
+    expect(() => parseProfiles('{')).toThrow('Not a JSON file');
+    expect(() => parseProfiles(JSON.stringify({ format: 'other', profiles: [] }))).toThrow(
+      'Not a profile file',
+    );
+    expect(() =>
+      parseProfiles(JSON.stringify({ format: PROFILES_FORMAT, version: 99, profiles: [] })),
+    ).toThrow('Unsupported profile file version: 99');
+    expect(() => parseProfiles(JSON.stringify([{ name: 'x' }]))).toThrow('Profile 1: hostPattern is missing');
+    expect(() => parseProfiles(JSON.stringify([{ hostPattern: 'a', exclude: [1] }]))).toThrow(
+      'Profile 1: exclude must be a list of strings',
+    );
+  });
+
+  it('should replace profiles with the same id on import', () => {
+    const imported: ExtractorProfile[] = [
+      { id: 'b', name: 'Uni B (neu)', hostPattern: 'lms.uni-b.de' },
+      { id: 'c', name: 'Uni C', hostPattern: 'moodle.uni-c.de' },
+    ];
+    expect(mergeProfiles(profiles, imported).map((p) => `${p.id}:${p.name}`)).toEqual([
+      'a:Uni A',
+      'b:Uni B (neu)',
+      'c:Uni C',
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '../../src/background/retry';
+
+const policy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 60000 };
+
+describe('retry policy', () => {
+  it('should parse Retry-After as seconds or HTTP date', () => {
+    const now = Date.parse('Mon, 01 Apr 2024 10:00:00 GMT');
+    expect(parseRetryAfter('30')).toBe(30000);
+    expect(parseRetryAfter('Mon, 01 Apr 2024 10:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Mon, 01 Apr 2024 09:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('should back off exponentially with jitter up to the cap', () => {
+    expect(getBackoffDelay(policy, 1, () => 1)).toBe(1000);
+    expect(getBackoffDelay(policy, 3, () => 1)).toBe(4000);
+    expect(getBackoffDelay(policy, 5, () => 1)).toBe(5000);
+    expect(getBackoffDelay(policy, 3, () => 0.5)).toBe(2000);
+  });
+
+  it('should honour Retry-After for 429 and 503', () => {
+    expect(getRetryDelay(policy, 1, { status: 429, retryAfter: '7' })).toBe(7000);
+    expect(getRetryDelay(policy, 1, { status: 503, retryAfter: '120' })).toBeUndefined();
+    expect(getRetryDelay(policy, 1, { status: 503 }, () => 1)).toBe(1000);
+  });
+
+  it('should retry network errors and timeouts but fail fast on 403/404', () => {
+    expect(getRetryDelay(policy, 1, 'network_error', () => 1)).toBe(1000);
+    expect(getRetryDelay(policy, 2, 'timeout', () => 1)).toBe(2000);
+    expect(getRetryDelay(policy, 3, 'timeout')).toBeUndefined();
+    expect(getRetryDelay(policy, 1, { status: 403 })).toBeUndefined();
+    expect(getRetryDelay(policy, 1, { status: 404 })).toBeUndefined();
+    expect(getRetryDelay(policy, 1, { status: 200 })).toBeUndefined();
+  });
+
+  it('should apply valid overrides only', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 1, baseDelayMs: -5 })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 1,
+    });
+    expect(resolveRetryPolicy(undefined)).toEqual(DEFAULT_RETRY_POLICY);
+  });
+});
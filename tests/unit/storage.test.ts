@@ -1,35 +1,36 @@
 import { beforeEach, describe, expect, it } from 'vitest';
 import { storage } from '../../src/shared/storage';
-import { STORAGE_KEYS } from '../../src/shared/constants';
+import { STORAGE_KEYS, SYNC_KEYS } from '../../src/shared/constants';
 
 type Store = Record<string, any>;
 
-function installChromeMock(initial: Store = {}): void {
+function createArea(initial: Store = {}) {
   const store: Store = { ...initial };
+  return {
+    get: (keys: any, cb: (res: any) => void) => {
+      if (typeof keys === 'string') cb({ [keys]: store[keys] });
+      else cb({ ...store });
+    },
+    set: (items: any, cb: () => void) => {
+      Object.assign(store, items);
+      cb();
+    },
+    remove: (keys: any, cb: () => void) => {
+      const arr = Array.isArray(keys) ? keys : [keys];
+      for (const k of arr) delete store[k];
+      cb();
+    },
+    clear: (cb: () => void) => {
+      for (const k of Object.keys(store)) delete store[k];
+      cb();
+    },
+  };
+}
 
+function installChromeMock(initial: Store = {}): void {
   (globalThis as any).chrome = {
     runtime: { lastError: null },
-    storage: {
-      local: {
-        get: (keys: any, cb: (res: any) => void) => {
-          if (typeof keys === 'string') cb({ [keys]: store[keys] });
-          else cb({ ...store });
-        },
-        set: (items: any, cb: () => void) => {
-          Object.assign(store, items);
-          cb();
-        },
-        remove: (keys: any, cb: () => void) => {
-          const arr = Array.isArray(keys) ? keys : [keys];
-          for (const k of arr) delete store[k];
-          cb();
-        },
-        clear: (cb: () => void) => {
-          for (const k of Object.keys(store)) delete store[k];
-          cb();
-        },
-      },
-    },
+    storage: { local: createArea(initial), sync: createArea() },
   };
 }
 
@@ -58,4 +59,12 @@ describe('storage wrapper', () => {
     expect(await storage.get(STORAGE_KEYS.telemetryAsked)).toBeUndefined();
     expect(await storage.get(STORAGE_KEYS.telemetryOptIn)).toBeUndefined();
   });
+
+  it('should keep sync values apart from local ones', async () => {
+    await storage.sync.set(SYNC_KEYS.trackingMeta, { version: 1, chunks: 0, updatedAt: 1 });
+    expect(await storage.sync.get(SYNC_KEYS.trackingMeta)).toEqual({ version: 1, chunks: 0, updatedAt: 1 });
+    expect(await storage.get(STORAGE_KEYS.trackingSync)).toBeUndefined();
+    await storage.sync.remove(SYNC_KEYS.trackingMeta);
+    expect(await storage.sync.get(SYNC_KEYS.trackingMeta)).toBeUndefined();
+  });
 });
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findVanishedEntries,
+  isSyncUnchanged,
+  planSyncTarget,
+  toConflictPath,
+  toRemovedPath,
+} from '../../src/popup/sync';
+
+describe('sync decisions', () => {
+  it('should plan the write target from local and known hashes', () => {
+    expect(planSyncTarget(undefined, 'a')).toBe('new');
+    expect(planSyncTarget('a', 'a')).toBe('replace');
+    expect(planSyncTarget('b', 'a')).toBe('conflict');
+    expect(planSyncTarget('b', undefined)).toBe('conflict');
+  });
+
+  it('should skip writes that bring nothing new', () => {
+    expect(isSyncUnchanged('new', 'x', undefined, undefined)).toBe(false);
+    expect(isSyncUnchanged('replace', 'a', 'a', 'a')).toBe(true);
+    expect(isSyncUnchanged('replace', 'b', 'a', 'a')).toBe(false);
+    // edited locally, unchanged in Moodle: keep the local file, no copy
+    expect(isSyncUnchanged('conflict', 'a', 'edited', 'a')).toBe(true);
+    expect(isSyncUnchanged('conflict', 'c', 'edited', 'a')).toBe(false);
+  });
+
+  it('should build conflict and removed paths', () => {
+    const date = new Date(Date.UTC(2024, 4, 1));
+    expect(toConflictPath('Kurs/Woche 1/Skript.pdf', date)).toBe(
+      'Kurs/Woche 1/Skript (Moodle 2024-05-01).pdf',
+    );
+    expect(toConflictPath('Kurs/README', date)).toBe('Kurs/README (Moodle 2024-05-01)');
+    expect(toRemovedPath('Kurs/Woche 1/a.pdf', 'Kurs')).toBe('Kurs/_removed/Woche 1/a.pdf');
+  });
+
+  it('should find tracked files of the course that are gone from Moodle', () => {
+    const entry = (path?: string) => ({ url: 'u', hash: 'h', timestamp: 1, fileName: 'f', path });
+    const tracking = {
+      keep: entry('Kurs/a.pdf'),
+      gone: entry('Kurs/Woche 1/b.pdf'),
+      other: entry('Anderer Kurs/c.pdf'),
+      already: entry('Kurs/_removed/d.pdf'),
+      nopath: entry(undefined),
+    };
+
+    expect(findVanishedEntries(tracking, ['keep'], 'Kurs')).toEqual([
+      { key: 'gone', path: 'Kurs/Woche 1/b.pdf' },
+    ]);
+  });
+});
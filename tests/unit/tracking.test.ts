@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TRACKING_VERSION,
+  UNKNOWN_COURSE,
+  buildTrackingStore,
+  flattenTrackingStore,
+  migrateTracking,
+  removeCourseTracking,
+} from '../../src/shared/tracking';
+import type { DownloadTrackingMap } from '../../src/shared/types';
+
+const a = 'https://moodle.uni-a.de/pluginfile.php/1/mod_resource/content/1/a.pdf';
+const b = 'https://moodle.uni-a.de/pluginfile.php/2/mod_resource/content/1/b.pdf';
+const c = 'https://lms.uni-b.de/pluginfile.php/3/mod_resource/content/1/c.pdf';
+
+const map: DownloadTrackingMap = {
+  [a]: { url: a, timestamp: 1, fileName: 'a.pdf', courseId: 7, courseName: 'Analysis I' },
+  [b]: { url: b, timestamp: 2, fileName: 'b.pdf', courseId: 8 },
+  [c]: { url: c, timestamp: 3, fileName: 'c.pdf' },
+};
+
+describe('download tracking', () => {
+  it('should store files per site and course', () => {
+    const store = buildTrackingStore(map);
+    expect(store.version).toBe(TRACKING_VERSION);
+    expect(Object.keys(store.sites)).toEqual(['moodle.uni-a.de', 'lms.uni-b.de']);
+    expect(store.sites['moodle.uni-a.de']?.['7']).toEqual({
+      name: 'Analysis I',
+      files: { [a]: { url: a, timestamp: 1, fileName: 'a.pdf' } },
+    });
+    expect(Object.keys(store.sites['lms.uni-b.de']?.[UNKNOWN_COURSE]?.files ?? {})).toEqual([c]);
+    expect(flattenTrackingStore(store)).toEqual(map);
+  });
+
+  it('should migrate the flat map of older versions', () => {
+    const legacy = { [`${a}?forcedownload=1`]: { url: a, timestamp: 1, fileName: 'a.pdf' } };
+    const { map: migrated, changed } = migrateTracking(legacy);
+    expect(changed).toBe(true);
+    expect(migrated).toEqual({ [a]: { url: a, timestamp: 1, fileName: 'a.pdf' } });
+
+    expect(migrateTracking(buildTrackingStore(map))).toEqual({ map, changed: false });
+    expect(migrateTracking(undefined)).toEqual({ map: {}, changed: false });
+  });
+
+  it('should reset a single course', () => {
+    const copy = { ...map };
+    expect(removeCourseTracking(copy, 'moodle.uni-a.de', '7')).toBe(1);
+    expect(Object.keys(copy)).toEqual([b, c]);
+    expect(removeCourseTracking(copy, 'lms.uni-b.de', UNKNOWN_COURSE)).toBe(1);
+    expect(Object.keys(copy)).toEqual([b]);
+  });
+});
@@ -1,5 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { calculateHash, sanitizeFileName, ensureUniquePath } from '../../src/shared/utils';
+import {
+  calculateHash,
+  describeFailure,
+  sanitizeFileName,
+  ensureUniquePath,
+  joinZipPath,
+  getCourseIdFromUrl,
+  guessMoodleRoot,
+  normalizeUrlKey,
+  sleep,
+  stripUrlToken,
+} from '../../src/shared/utils';
+import { Sha256 } from '../../src/shared/sha256';
 
 describe('calculateHash', () => {
   it('should return consistent SHA-256 hash', async () => {
@@ -10,6 +22,19 @@ describe('calculateHash', () => {
   });
 });
 
+describe('Sha256', () => {
+  it('should match calculateHash when fed in chunks', async () => {
+    const data = new TextEncoder().encode('x'.repeat(200));
+    const hasher = new Sha256();
+    hasher.update(data.subarray(0, 7)).update(data.subarray(7, 130)).update(data.subarray(130));
+    expect(hasher.digestHex()).toBe(await calculateHash(data));
+  });
+
+  it('should hash empty input', async () => {
+    expect(new Sha256().digestHex()).toBe(await calculateHash(''));
+  });
+});
+
 describe('sanitizeFileName', () => {
   it('should remove illegal characters', () => {
     expect(sanitizeFileName('a/b:c*?"<>|')).toBe('a_b_c______');
@@ -29,3 +54,70 @@ describe('ensureUniquePath', () => {
     expect(p2).toBe('Woche 1/file (1).pdf');
   });
 });
+
+describe('joinZipPath', () => {
+  it('should place files without a path at the root', () => {
+    expect(joinZipPath('', 'index.html')).toBe('index.html');
+    expect(joinZipPath('Course/ /Week 1/', 'a:b.pdf')).toBe('Course/Week 1/a_b.pdf');
+  });
+});
+
+describe('Moodle URLs', () => {
+  it('should find the site root below a subpath', () => {
+    expect(guessMoodleRoot('https://uni.example/moodle/course/view.php?id=3')).toBe(
+      'https://uni.example/moodle/',
+    );
+    expect(guessMoodleRoot('https://moodle.example/mod/resource/view.php?id=1')).toBe(
+      'https://moodle.example/',
+    );
+    expect(guessMoodleRoot('https://moodle.example/')).toBe('https://moodle.example/');
+    expect(guessMoodleRoot('chrome://extensions')).toBeUndefined();
+  });
+
+  it('should read the course id from course pages only', () => {
+    expect(getCourseIdFromUrl('https://m.example/course/view.php?id=42')).toBe(42);
+    expect(getCourseIdFromUrl('https://m.example/mod/folder/view.php?id=42')).toBeUndefined();
+  });
+
+  it('should give web service file URLs the same key as session URLs', () => {
+    expect(normalizeUrlKey('https://m.example/webservice/pluginfile.php/1/a.pdf?token=abc')).toBe(
+      normalizeUrlKey('https://m.example/pluginfile.php/1/a.pdf'),
+    );
+  });
+
+  it('should strip web service tokens from URLs', () => {
+    expect(
+      stripUrlToken('https://m.example/webservice/pluginfile.php/1/a.pdf?token=abc&forcedownload=1'),
+    ).toBe('https://m.example/webservice/pluginfile.php/1/a.pdf?forcedownload=1');
+    expect(stripUrlToken('https://m.example/webservice/rest/server.php?wstoken=abc')).toBe(
+      'https://m.example/webservice/rest/server.php',
+    );
+    expect(stripUrlToken('https://m.example/pluginfile.php/1/a%20b.pdf')).toBe(
+      'https://m.example/pluginfile.php/1/a%20b.pdf',
+    );
+  });
+});
+
+describe('sleep', () => {
+  it('should stop waiting once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(60_000, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(sleep(0, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(sleep(0)).resolves.toBeUndefined();
+  });
+});
+
+describe('describeFailure', () => {
+  const t = (key: string, substitutions?: string[]) => [key, ...(substitutions ?? [])].join(':');
+  const failure = { url: 'https://m.example/mod/url/view.php?id=1', name: 'Link', attempts: 1 };
+
+  it('should name folder errors only for folders', () => {
+    expect(describeFailure({ ...failure, reason: 'folder_expand_error' }, t)).toBe('failureFolder');
+    expect(describeFailure({ ...failure, reason: 'expand_error' }, t)).toBe('failureExpand');
+    expect(describeFailure({ ...failure, reason: 'http_error', status: 404, attempts: 3 }, t)).toBe(
+      'failureNotFound:404 · failureAttempts:3',
+    );
+  });
+});
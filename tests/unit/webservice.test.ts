@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { listWebServiceResources, requestToken } from '../../src/background/webservice';
+import { openResource } from '../../src/background/fetcher';
+
+const SITE = 'https://moodle.example/lms/';
+
+const sections = [
+  {
+    id: 1,
+    name: 'Woche 1',
+    modules: [
+      {
+        id: 10,
+        name: 'Skript',
+        modname: 'resource',
+        contents: [
+          {
+            type: 'file',
+            filename: 'skript.pdf',
+            filepath: '/',
+            filesize: 1234,
+            timemodified: 1700000000,
+            fileurl: `${SITE}webservice/pluginfile.php/5/mod_resource/content/1/skript.pdf?forcedownload=1`,
+          },
+          {
+            type: 'file',
+            filename: 'embedded.png',
+            filepath: '/',
+            fileurl: `${SITE}webservice/pluginfile.php/5/x.png`,
+          },
+        ],
+      },
+      {
+        id: 11,
+        name: 'Übungen',
+        modname: 'folder',
+        contents: [
+          {
+            type: 'file',
+            filename: 'a.pdf',
+            filepath: '/Blatt 1/',
+            fileurl: `${SITE}webservice/pluginfile.php/6/a.pdf`,
+          },
+        ],
+      },
+      { id: 12, name: 'Forum', modname: 'forum' },
+      {
+        id: 14,
+        name: 'Notizen',
+        modname: 'page',
+        url: `${SITE}mod/page/view.php?id=14`,
+        contents: [
+          { type: 'file', filename: 'index.html', fileurl: `${SITE}webservice/pluginfile.php/7/index.html` },
+        ],
+      },
+      {
+        id: 13,
+        name: 'Link',
+        modname: 'url',
+        contents: [{ type: 'url', filename: 'x', fileurl: 'https://x.example' }],
+      },
+      { id: 15, name: 'Vorlesung 1', modname: 'h5pactivity', url: `${SITE}mod/h5pactivity/view.php?id=15` },
+    ],
+  },
+];
+
+/** Minimal stand-in for webservice/rest/server.php and login/token.php */
+function installMoodleMock() {
+  const calls: string[] = [];
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const params = new URLSearchParams(String(init?.body || ''));
+    if (url.startsWith(`${SITE}login/token.php`)) {
+      const ok = params.get('username') === 'alice' && params.get('password') === 'secret';
+      return Response.json(ok ? { token: 'tok123' } : { error: 'Invalid login' });
+    }
+
+    const fn = params.get('wsfunction') || '';
+    calls.push(fn);
+    if (params.get('wstoken') !== 'tok123') {
+      return Response.json({
+        exception: 'moodle_exception',
+        errorcode: 'invalidtoken',
+        message: 'Invalid token',
+      });
+    }
+    if (fn === 'core_webservice_get_site_info')
+      return Response.json({ userid: 7, sitename: 'Uni', siteurl: SITE });
+    if (fn === 'core_enrol_get_users_courses') {
+      expect(params.get('userid')).toBe('7');
+      return Response.json([
+        { id: 3, shortname: 'MA1', fullname: 'Mathe 1' },
+        { id: 4, shortname: 'PH1', fullname: 'Physik 1' },
+      ]);
+    }
+    if (fn === 'core_course_get_contents')
+      return Response.json(params.get('courseid') === '3' ? sections : []);
+    return Response.json({ exception: 'x', message: `unknown ${fn}` });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { calls };
+}
+
+describe('Moodle web service provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should request a token via login/token.php', async () => {
+    installMoodleMock();
+    await expect(requestToken(SITE, 'alice', 'secret')).resolves.toBe('tok123');
+    await expect(requestToken(SITE, 'alice', 'wrong')).rejects.toThrow('Invalid login');
+  });
+
+  it('should map course contents to resources', async () => {
+    const { calls } = installMoodleMock();
+    const resources = await listWebServiceResources(SITE, 'tok123', 3);
+
+    expect(calls).toEqual([
+      'core_webservice_get_site_info',
+      'core_enrol_get_users_courses',
+      'core_course_get_contents',
+    ]);
+    expect(resources).toHaveLength(4);
+
+    const [skript, blatt, notizen, vorlesung] = resources;
+    expect(skript).toMatchObject({
+      name: 'skript.pdf',
+      type: 'file',
+      fileType: 'pdf',
+      size: 1234,
+      timeModified: 1700000000000,
+      path: 'Mathe 1/Woche 1',
+    });
+    // The token is added per request, never stored on the resource
+    expect(skript!.url).toBe(
+      `${SITE}webservice/pluginfile.php/5/mod_resource/content/1/skript.pdf?forcedownload=1`,
+    );
+    expect(blatt?.path).toBe('Mathe 1/Woche 1/Übungen/Blatt 1');
+    expect(notizen).toMatchObject({
+      name: 'Notizen',
+      type: 'page',
+      url: `${SITE}mod/page/view.php?id=14`,
+      path: 'Mathe 1/Woche 1',
+    });
+    expect(vorlesung).toMatchObject({ name: 'Vorlesung 1', type: 'video', path: 'Mathe 1/Woche 1' });
+  });
+
+  it('should add the stored token only to the request of a file', async () => {
+    (globalThis as any).chrome = {
+      runtime: { lastError: null },
+      storage: {
+        local: {
+          get: (key: string, cb: (res: any) => void) =>
+            cb({
+              [key]: key === 'webServices' ? { enabled: true, tokens: { [SITE]: 'tok123' } } : undefined,
+            }),
+        },
+      },
+    };
+    const requested: string[] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        requested.push(url);
+        return new Response(new Uint8Array([37, 80, 68, 70]), {
+          headers: { 'content-type': 'application/pdf' },
+        });
+      }),
+    );
+
+    const url = `${SITE}webservice/pluginfile.php/6/a.pdf`;
+    const opened = await openResource({ id: '1', name: 'a.pdf', url, type: 'file', path: '' });
+    if (opened.ok) await opened.file.cancel();
+
+    expect(opened.ok).toBe(true);
+    expect(requested).toEqual([`${url}?token=tok123`]);
+    delete (globalThis as any).chrome;
+  });
+
+  it('should surface web service exceptions', async () => {
+    installMoodleMock();
+    await expect(listWebServiceResources(SITE, 'bad')).rejects.toThrow('Invalid token');
+  });
+});
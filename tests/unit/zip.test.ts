@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { crc32, createChunkCoalescer, ZipWriter } from '../../src/background/zip';
+
+async function* chunks(...parts: string[]): AsyncGenerator<Uint8Array> {
+  for (const p of parts) yield new TextEncoder().encode(p);
+}
+
+async function writeZip(
+  build: (zip: ZipWriter) => Promise<void>,
+): Promise<{ bytes: Uint8Array; emitted: number }> {
+  const out: Uint8Array[] = [];
+  const zip = new ZipWriter((chunk) => {
+    out.push(chunk);
+  });
+  await build(zip);
+  const total = await zip.finish();
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const c of out) {
+    bytes.set(c, offset);
+    offset += c.byteLength;
+  }
+  return { bytes, emitted: out.length };
+}
+
+describe('crc32', () => {
+  it('should match the reference value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should support incremental updates', () => {
+    const full = crc32(new TextEncoder().encode('hello world'));
+    const partial = crc32(new TextEncoder().encode(' world'), crc32(new TextEncoder().encode('hello')));
+    expect(partial).toBe(full);
+  });
+});
+
+describe('ZipWriter', () => {
+  it('should produce an archive readable by JSZip (stored + deflated)', async () => {
+    const { bytes, emitted } = await writeZip(async (zip) => {
+      await zip.addEntry('Course/Week 1/slides.pdf', chunks('%PDF-', 'content'), { compress: false });
+      await zip.addEntry('Course/Week 1/notes.txt', chunks('a'.repeat(5000), 'b'), { compress: true });
+    });
+
+    expect(emitted).toBeGreaterThan(2);
+
+    const read = await JSZip.loadAsync(bytes);
+    expect(await read.file('Course/Week 1/slides.pdf')?.async('string')).toBe('%PDF-content');
+    expect(await read.file('Course/Week 1/notes.txt')?.async('string')).toBe(`${'a'.repeat(5000)}b`);
+  });
+
+  it('should announce the ZIP64 data descriptor in the local header', async () => {
+    const { bytes } = await writeZip(async (zip) => {
+      await zip.addEntry('a.txt', chunks('hello'), { compress: false });
+    });
+
+    // What a streaming reader sees: local header, extra field, data, descriptor
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(4, true)).toBe(45);
+    expect(view.getUint32(18, true)).toBe(0xffffffff);
+    const nameLength = view.getUint16(26, true);
+    const extraLength = view.getUint16(28, true);
+    expect(view.getUint16(30 + nameLength, true)).toBe(0x0001);
+
+    const descriptor = 30 + nameLength + extraLength + 'hello'.length;
+    expect(view.getUint32(descriptor, true)).toBe(0x08074b50);
+    expect(view.getUint32(descriptor + 4, true)).toBe(crc32(new TextEncoder().encode('hello')));
+    expect(view.getBigUint64(descriptor + 8, true)).toBe(5n);
+    expect(view.getBigUint64(descriptor + 16, true)).toBe(5n);
+    // The central directory follows right after the 24-byte descriptor
+    expect(view.getUint32(descriptor + 24, true)).toBe(0x02014b50);
+  });
+
+  it('should leave failed entries out of the central directory', async () => {
+    async function* broken(): AsyncGenerator<Uint8Array> {
+      yield new TextEncoder().encode('partial');
+      throw new Error('network');
+    }
+
+    const { bytes } = await writeZip(async (zip) => {
+      await expect(zip.addEntry('broken.bin', broken())).rejects.toThrow('network');
+      await zip.addEntry('ok.txt', chunks('ok'));
+    });
+
+    const read = await JSZip.loadAsync(bytes);
+    expect(Object.keys(read.files)).toEqual(['ok.txt']);
+  });
+
+  it('should fail a deflated entry when writing its output fails', async () => {
+    let cancelled = false;
+    async function* large(): AsyncGenerator<Uint8Array> {
+      try {
+        for (let i = 0; i < 256; i += 1) {
+          // Incompressible, so the compressor keeps producing output
+          yield crypto.getRandomValues(new Uint8Array(64 * 1024));
+        }
+      } finally {
+        cancelled = true;
+      }
+    }
+
+    let written = 0;
+    const zip = new ZipWriter(() => {
+      written += 1;
+      // The local header goes through, the first compressed chunk does not
+      if (written > 1) throw new Error('disconnected');
+    });
+
+    await expect(zip.addEntry('video.bin', large(), { compress: true })).rejects.toThrow('disconnected');
+    expect(cancelled).toBe(true);
+  });
+
+  it('should continue an archive from a checkpoint', async () => {
+    const out: Uint8Array[] = [];
+    const first = new ZipWriter((chunk) => {
+      out.push(chunk);
+    });
+    await first.addEntry('a.txt', chunks('first run'));
+    const checkpoint = first.getCheckpoint();
+    // Written after the checkpoint (e.g. before the worker was terminated): dropped on resume.
+    await first.addEntry('lost.txt', chunks('not checkpointed'));
+
+    const kept = new Uint8Array(checkpoint.offset);
+    let offset = 0;
+    for (const c of out) {
+      const take = Math.min(c.byteLength, kept.byteLength - offset);
+      if (take <= 0) break;
+      kept.set(c.subarray(0, take), offset);
+      offset += take;
+    }
+
+    const rest: Uint8Array[] = [];
+    const second = new ZipWriter((chunk) => {
+      rest.push(chunk);
+    }, checkpoint);
+    await second.addEntry('b.txt', chunks('second run'), { compress: true });
+    const total = await second.finish();
+
+    const archive = new Uint8Array(total);
+    archive.set(kept, 0);
+    offset = kept.byteLength;
+    for (const c of rest) {
+      archive.set(c, offset);
+      offset += c.byteLength;
+    }
+
+    const read = await JSZip.loadAsync(archive);
+    expect(Object.keys(read.files)).toEqual(['a.txt', 'b.txt']);
+    expect(await read.file('a.txt')?.async('string')).toBe('first run');
+    expect(await read.file('b.txt')?.async('string')).toBe('second run');
+  });
+});
+
+describe('createChunkCoalescer', () => {
+  it('should emit fixed-size chunks and flush the rest', async () => {
+    const sizes: number[] = [];
+    const { push, flush } = createChunkCoalescer(4, async (c) => {
+      sizes.push(c.byteLength);
+    });
+    await push(new Uint8Array(3));
+    await push(new Uint8Array(6));
+    await flush();
+    expect(sizes).toEqual([4, 4, 1]);
+  });
+});
@@ -42,6 +42,11 @@ function manifestGeneratorPlugin(target: BuildTarget, env: Record<string, string
         version: env['VITE_EXT_VERSION'] || pkg.version || base.version,
       };
 
+      // Browser-specific permissions extend the base list instead of replacing it.
+      if (Array.isArray(base.permissions) && Array.isArray(browserSpecific.permissions)) {
+        merged.permissions = Array.from(new Set([...base.permissions, ...browserSpecific.permissions]));
+      }
+
       // If locales exist, Chrome requires default_locale.
       merged.default_locale = merged.default_locale || 'en';
 
@@ -76,6 +81,13 @@ function copyPopupAndLocalesPlugin(): Plugin {
       await copyFile('src/popup/popup.html', 'popup.html');
       await copyFile('src/popup/popup.css', 'popup.css');
 
+      // Options page (extractor profiles)
+      await copyFile('src/options/options.html', 'options.html');
+      await copyFile('src/options/options.css', 'options.css');
+
+      // Offscreen document (Chrome MV3: DOM parsing for the service worker)
+      await copyFile('src/offscreen/offscreen.html', 'offscreen.html');
+
       // i18n locales MUST be at: dist/<target>/_locales/<lang>/messages.json
       const localesRoot = path.resolve('src/locales');
       let dirs: string[] = [];
@@ -106,6 +118,8 @@ export default defineConfig(({ mode }) => {
     background: path.resolve('src/background/background.ts'),
     content: path.resolve('src/content/content.ts'),
     popup: path.resolve('src/popup/popup.ts'),
+    offscreen: path.resolve('src/offscreen/offscreen.ts'),
+    options: path.resolve('src/options/options.ts'),
   };
 
   const single = process.env['VITE_SINGLE_ENTRY'];